@@ -0,0 +1,416 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useAdminAuth } from '@/store/admin-auth-store'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Loader2,
+} from 'lucide-react'
+import { ASSIGNMENT_RULE_TYPES, ASSIGNMENT_RULE_TYPE_LABELS } from '@/lib/assignment-validation'
+import { TERRITORIES, TERRITORY_LABELS } from '@/lib/territories'
+import { AssignmentRule, AssignmentRuleType, Category, Territory } from '@/types'
+
+interface RuleFormState {
+  type: AssignmentRuleType
+  categoryId: string
+  territory: Territory | ''
+  adminUsername: string
+  active: boolean
+}
+
+const emptyForm: RuleFormState = {
+  type: 'territory',
+  categoryId: '',
+  territory: '',
+  adminUsername: '',
+  active: true,
+}
+
+const ruleMatch = (rule: AssignmentRule) =>
+  rule.type === 'category'
+    ? rule.categoryName ?? 'Deleted category'
+    : rule.type === 'territory' && rule.territory
+      ? TERRITORY_LABELS[rule.territory]
+      : 'Anything no other rule matched'
+
+export default function AdminAssignmentRulesPage() {
+  const { isAuthenticated } = useAdminAuth()
+  const [rules, setRules] = useState<AssignmentRule[]>([])
+  const [admins, setAdmins] = useState<string[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingRule, setEditingRule] = useState<AssignmentRule | null>(null)
+  const [form, setForm] = useState<RuleFormState>(emptyForm)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    fetchRules()
+    fetchOptions()
+  }, [])
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/assignment-rules`, {
+        credentials: 'include',
+      })
+      if (!response.ok) throw new Error('Failed to fetch assignment rules')
+      const data = await response.json()
+      setRules(Array.isArray(data.rules) ? data.rules : [])
+    } catch {
+      setRules([])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Admins and categories to choose from in the rule dialog
+  const fetchOptions = async () => {
+    try {
+      const [adminsResponse, categoriesResponse] = await Promise.all([
+        fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/admin/admins`, { credentials: 'include' }),
+        fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/categories?limit=1000`),
+      ])
+      const adminsData = adminsResponse.ok ? await adminsResponse.json() : {}
+      const categoriesData = categoriesResponse.ok ? await categoriesResponse.json() : {}
+      setAdmins(Array.isArray(adminsData.admins) ? adminsData.admins : [])
+      setCategories(Array.isArray(categoriesData.categories) ? categoriesData.categories : [])
+    } catch {
+      setAdmins([])
+      setCategories([])
+    }
+  }
+
+  const openCreateDialog = () => {
+    setEditingRule(null)
+    setForm(emptyForm)
+    setIsDialogOpen(true)
+  }
+
+  const openEditDialog = (rule: AssignmentRule) => {
+    setEditingRule(rule)
+    setForm({
+      type: rule.type,
+      categoryId: rule.categoryId || '',
+      territory: rule.territory || '',
+      adminUsername: rule.adminUsername,
+      active: rule.active,
+    })
+    setIsDialogOpen(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isAuthenticated) {
+      alert('Authentication required. Please log in again.')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+      const csrfToken = csrfData.token
+
+      const url = editingRule
+        ? `${process.env.NEXT_PUBLIC_API_URL || ''}/api/assignment-rules/${editingRule.id}`
+        : `${process.env.NEXT_PUBLIC_API_URL || ''}/api/assignment-rules`
+
+      const response = await fetch(url, {
+        method: editingRule ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfToken,
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          type: form.type,
+          categoryId: form.type === 'category' ? form.categoryId || null : null,
+          territory: form.type === 'territory' ? form.territory || null : null,
+          adminUsername: form.adminUsername,
+          active: form.active,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Failed to save assignment rule' }))
+        const details = Array.isArray(errorData.details)
+          ? `: ${errorData.details.map((d: any) => d.message).join(', ')}`
+          : ''
+        throw new Error(`${errorData.error || 'Failed to save assignment rule'}${details}`)
+      }
+
+      setIsDialogOpen(false)
+      fetchRules()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save assignment rule. Please try again.'
+      alert(errorMessage)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (rule: AssignmentRule) => {
+    if (!isAuthenticated || !confirm('Delete this rule? Orders and inquiries it assigned keep their owner.')) return
+
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+      const csrfToken = csrfData.token
+
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL || ''}/api/assignment-rules/${rule.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            'X-CSRF-Token': csrfToken,
+          },
+          credentials: 'include',
+        }
+      )
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Failed to delete assignment rule' }))
+        throw new Error(errorData.error || 'Failed to delete assignment rule')
+      }
+
+      fetchRules()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete assignment rule. Please try again.'
+      alert(errorMessage)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Assignment Rules</h1>
+          <p className="text-gray-600 mt-2">
+            Choose who owns new orders and inquiries: product category rules come first (orders only), then
+            territory, then round-robin
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Matches</TableHead>
+                <TableHead>Admin</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                    No assignment rules yet; new orders and inquiries stay unassigned
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">{ASSIGNMENT_RULE_TYPE_LABELS[rule.type]}</TableCell>
+                    <TableCell>{ruleMatch(rule)}</TableCell>
+                    <TableCell>{rule.adminUsername}</TableCell>
+                    <TableCell>
+                      {rule.active ? <Badge>Active</Badge> : <Badge variant="outline">Paused</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openEditDialog(rule)}
+                          aria-label={`Edit rule for ${rule.adminUsername}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(rule)}
+                          aria-label={`Delete rule for ${rule.adminUsername}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingRule ? 'Edit Assignment Rule' : 'Create Assignment Rule'}
+            </DialogTitle>
+            <DialogDescription>
+              When several admins match, the one who was last assigned something longest ago gets it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="rule-type">Type *</Label>
+              <Select
+                value={form.type}
+                onValueChange={(value) => setForm({ ...form, type: value as AssignmentRuleType })}
+              >
+                <SelectTrigger id="rule-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASSIGNMENT_RULE_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {ASSIGNMENT_RULE_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.type === 'category' && (
+              <div>
+                <Label htmlFor="rule-category">Category *</Label>
+                <Select value={form.categoryId} onValueChange={(value) => setForm({ ...form, categoryId: value })}>
+                  <SelectTrigger id="rule-category">
+                    <SelectValue placeholder="Choose a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Matches orders with an item in this category or one of its subcategories
+                </p>
+              </div>
+            )}
+
+            {form.type === 'territory' && (
+              <div>
+                <Label htmlFor="rule-territory">Territory *</Label>
+                <Select
+                  value={form.territory}
+                  onValueChange={(value) => setForm({ ...form, territory: value as Territory })}
+                >
+                  <SelectTrigger id="rule-territory">
+                    <SelectValue placeholder="Choose a territory" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TERRITORIES.map((territory) => (
+                      <SelectItem key={territory} value={territory}>
+                        {TERRITORY_LABELS[territory]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">
+                  From the state in the company address, or else a landline&apos;s area code
+                </p>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="rule-admin">Admin *</Label>
+              <Select value={form.adminUsername} onValueChange={(value) => setForm({ ...form, adminUsername: value })}>
+                <SelectTrigger id="rule-admin">
+                  <SelectValue placeholder="Choose an admin" />
+                </SelectTrigger>
+                <SelectContent>
+                  {admins.map((username) => (
+                    <SelectItem key={username} value={username}>
+                      {username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="rule-active"
+                checked={form.active}
+                onCheckedChange={(checked) => setForm({ ...form, active: checked === true })}
+              />
+              <Label htmlFor="rule-active" className="cursor-pointer">
+                Active
+              </Label>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingRule ? 'Update' : 'Create'} Rule
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
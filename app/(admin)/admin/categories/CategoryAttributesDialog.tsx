@@ -0,0 +1,346 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { Category, CategoryAttribute, CategoryAttributeType } from '@/types'
+
+interface CategoryAttributesDialogProps {
+  category: Category | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Editable row; allowed values are edited as comma-separated text
+interface AttributeRow {
+  key: string
+  label: string
+  dataType: CategoryAttributeType
+  unit: string
+  allowedValues: string
+  required: boolean
+  filterable: boolean
+  comparable: boolean
+  sortOrder: number
+}
+
+const dataTypeLabels: Record<CategoryAttributeType, string> = {
+  text: 'Text',
+  number: 'Number',
+  boolean: 'Yes / No',
+  select: 'Select',
+}
+
+const emptyRow = (sortOrder: number): AttributeRow => ({
+  key: '',
+  label: '',
+  dataType: 'text',
+  unit: '',
+  allowedValues: '',
+  required: false,
+  filterable: false,
+  comparable: true,
+  sortOrder,
+})
+
+const toRow = (attribute: CategoryAttribute): AttributeRow => ({
+  key: attribute.key,
+  label: attribute.label,
+  dataType: attribute.dataType,
+  unit: attribute.unit || '',
+  allowedValues: attribute.allowedValues.join(', '),
+  required: attribute.required,
+  filterable: attribute.filterable,
+  comparable: attribute.comparable,
+  sortOrder: attribute.sortOrder,
+})
+
+export function CategoryAttributesDialog({ category, open, onOpenChange }: CategoryAttributesDialogProps) {
+  const [inherited, setInherited] = useState<CategoryAttribute[]>([])
+  const [rows, setRows] = useState<AttributeRow[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+  const categoryId = category?.id
+
+  const applyTemplate = (attributes: CategoryAttribute[]) => {
+    setInherited(attributes.filter((attribute) => attribute.inherited))
+    setRows(attributes.filter((attribute) => !attribute.inherited).map(toRow))
+  }
+
+  const loadAttributes = useCallback(async () => {
+    if (!categoryId) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`${apiUrl}/api/categories/${categoryId}/attributes`)
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load attributes')
+      }
+      applyTemplate(Array.isArray(data.attributes) ? data.attributes : [])
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load attributes')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [apiUrl, categoryId])
+
+  useEffect(() => {
+    if (open && categoryId) {
+      loadAttributes()
+    } else {
+      setInherited([])
+      setRows([])
+      setError(null)
+    }
+  }, [open, categoryId, loadAttributes])
+
+  const updateRow = (index: number, changes: Partial<AttributeRow>) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const addRow = () => {
+    setRows((current) => [...current, emptyRow((current.length + 1) * 10)])
+  }
+
+  const removeRow = (index: number) => {
+    setRows((current) => current.filter((_, i) => i !== index))
+  }
+
+  const handleSave = async () => {
+    if (!categoryId) return
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+
+      const response = await fetch(`${apiUrl}/api/categories/${categoryId}/attributes`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfData.token,
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          attributes: rows.map((row) => ({
+            key: row.key.trim(),
+            label: row.label.trim(),
+            dataType: row.dataType,
+            unit: row.unit.trim() || null,
+            allowedValues: row.dataType === 'select'
+              ? row.allowedValues.split(',').map((value) => value.trim()).filter(Boolean)
+              : [],
+            required: row.required,
+            filterable: row.filterable,
+            comparable: row.comparable,
+            sortOrder: row.sortOrder,
+          })),
+        }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        const details = Array.isArray(data.details)
+          ? `: ${data.details.map((d: any) => `${d.field} ${d.message}`).join(', ')}`
+          : ''
+        throw new Error(`${data.error || 'Failed to save attributes'}${details}`)
+      }
+
+      applyTemplate(Array.isArray(data.attributes) ? data.attributes : [])
+      onOpenChange(false)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save attributes')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Attributes{category ? ` for ${category.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            Products in this category and its subcategories get these fields. Filterable attributes appear in the
+            catalog sidebar when this category is selected.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {inherited.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">Inherited from parent categories</h3>
+                <div className="flex flex-wrap gap-2">
+                  {inherited.map((attribute) => (
+                    <Badge key={attribute.key} variant="secondary">
+                      {attribute.label} · {dataTypeLabels[attribute.dataType]}
+                      {attribute.unit ? ` (${attribute.unit})` : ''}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">
+                  Add an attribute with the same key below to override it for this category.
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              {rows.length === 0 && (
+                <p className="text-sm text-gray-500">This category does not define any attributes of its own.</p>
+              )}
+              {rows.map((row, index) => (
+                <div key={index} className="space-y-3 rounded-md border p-4">
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                    <div>
+                      <Label htmlFor={`attr-key-${index}`}>Key *</Label>
+                      <Input
+                        id={`attr-key-${index}`}
+                        value={row.key}
+                        onChange={(e) => updateRow(index, { key: e.target.value })}
+                        placeholder="jacketMaterial"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor={`attr-label-${index}`}>Label *</Label>
+                      <Input
+                        id={`attr-label-${index}`}
+                        value={row.label}
+                        onChange={(e) => updateRow(index, { label: e.target.value })}
+                        placeholder="Jacket Material"
+                      />
+                    </div>
+                    <div>
+                      <Label>Type</Label>
+                      <Select
+                        value={row.dataType}
+                        onValueChange={(value) => updateRow(index, { dataType: value as CategoryAttributeType })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(dataTypeLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor={`attr-unit-${index}`}>Unit</Label>
+                      <Input
+                        id={`attr-unit-${index}`}
+                        value={row.unit}
+                        onChange={(e) => updateRow(index, { unit: e.target.value })}
+                        placeholder="mm"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor={`attr-order-${index}`}>Sort Order</Label>
+                      <Input
+                        id={`attr-order-${index}`}
+                        type="number"
+                        step="1"
+                        value={row.sortOrder}
+                        onChange={(e) => updateRow(index, { sortOrder: parseInt(e.target.value, 10) || 0 })}
+                      />
+                    </div>
+                  </div>
+
+                  {row.dataType === 'select' && (
+                    <div>
+                      <Label htmlFor={`attr-values-${index}`}>Allowed Values *</Label>
+                      <Input
+                        id={`attr-values-${index}`}
+                        value={row.allowedValues}
+                        onChange={(e) => updateRow(index, { allowedValues: e.target.value })}
+                        placeholder="PVC, PUR, TPE"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Comma-separated</p>
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap items-center gap-6">
+                    {(['required', 'filterable', 'comparable'] as const).map((flag) => (
+                      <div key={flag} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`attr-${flag}-${index}`}
+                          checked={row[flag]}
+                          onCheckedChange={(checked) => updateRow(index, { [flag]: checked === true })}
+                        />
+                        <Label htmlFor={`attr-${flag}-${index}`} className="cursor-pointer capitalize">
+                          {flag}
+                        </Label>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="ml-auto"
+                      onClick={() => removeRow(index)}
+                      aria-label={`Remove attribute ${row.label || row.key || index + 1}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500 mr-1" aria-hidden="true" />
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              <Button type="button" variant="outline" onClick={addRow}>
+                <Plus className="h-4 w-4 mr-2" aria-hidden="true" />
+                Add Attribute
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving || isLoading}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Attributes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -36,12 +36,14 @@ import {
   Loader2,
   Upload,
   X,
+  ListChecks,
 } from 'lucide-react'
 import { ConfirmationDialog } from '@/components/ui/confirmation-dialog'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { categorySchema } from '@/lib/category-validation'
 import { Category } from '@/types'
+import { CategoryAttributesDialog } from './CategoryAttributesDialog'
 
 type CategoryFormData = {
   name: string
@@ -49,6 +51,7 @@ type CategoryFormData = {
   description?: string
   image?: string
   parentId?: string
+  sortOrder?: number
 }
 
 export default function AdminCategoriesPage() {
@@ -63,6 +66,7 @@ export default function AdminCategoriesPage() {
   const [categoryToDelete, setCategoryToDelete] = useState<string | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [attributesCategory, setAttributesCategory] = useState<Category | null>(null)
 
   const {
     register,
@@ -173,6 +177,7 @@ export default function AdminCategoriesPage() {
       description: '',
       image: '',
       parentId: '',
+      sortOrder: 0,
     })
     setIsDialogOpen(true)
   }
@@ -186,6 +191,7 @@ export default function AdminCategoriesPage() {
       description: category.description || '',
       image: category.image || '',
       parentId: category.parentId || undefined,
+      sortOrder: category.sortOrder ?? 0,
     })
     setIsDialogOpen(true)
   }
@@ -215,6 +221,7 @@ export default function AdminCategoriesPage() {
         description: data.description?.trim() || undefined,
         image: categoryImage || data.image || undefined,
         parentId: parentIdValue,
+        sortOrder: data.sortOrder ?? 0,
       }
 
       const url = editingCategory
@@ -240,7 +247,7 @@ export default function AdminCategoriesPage() {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Failed to save category' }))
-        throw new Error(errorData.error || errorData.details?.[0]?.message || 'Failed to save category')
+        throw new Error(errorData.message || errorData.error || errorData.details?.[0]?.message || 'Failed to save category')
       }
 
       setIsDialogOpen(false)
@@ -317,29 +324,15 @@ export default function AdminCategoriesPage() {
   }
 
   // Get available parent categories (exclude current category and its descendants)
+  // The API rejects the same moves, so this only keeps invalid choices out of the list
   const getAvailableParentCategories = (): Category[] => {
     if (!editingCategory) {
-      // When creating, all categories without parents are available
-      return categories.filter(cat => !cat.parentId)
+      // When creating, any category can be the parent
+      return categories
     }
     // When editing, exclude current category and all its descendants
     const excludedIds = new Set([editingCategory.id, ...getDescendantIds(editingCategory.id)])
-    // Include top-level categories (no parent) that aren't excluded
-    // Also include the current parent if it exists (so it shows in the dropdown when editing)
-    const availableCategories = categories.filter(cat => 
-      !excludedIds.has(cat.id) && !cat.parentId
-    )
-    
-    // If the category being edited has a parent, include that parent in the list
-    // so it can be displayed and selected
-    if (editingCategory.parentId) {
-      const currentParent = categories.find(cat => cat.id === editingCategory.parentId)
-      if (currentParent && !availableCategories.find(cat => cat.id === currentParent.id)) {
-        availableCategories.push(currentParent)
-      }
-    }
-    
-    return availableCategories
+    return categories.filter(cat => !excludedIds.has(cat.id))
   }
 
   // Get parent category name by ID
@@ -393,6 +386,7 @@ export default function AdminCategoriesPage() {
                 <TableHead>Name</TableHead>
                 <TableHead>Slug</TableHead>
                 <TableHead>Parent Category</TableHead>
+                <TableHead>Order</TableHead>
                 <TableHead>Description</TableHead>
                 <TableHead>Image</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
@@ -401,7 +395,7 @@ export default function AdminCategoriesPage() {
             <TableBody>
               {categories.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                  <TableCell colSpan={7} className="text-center py-8 text-gray-500">
                     No categories found
                   </TableCell>
                 </TableRow>
@@ -415,6 +409,7 @@ export default function AdminCategoriesPage() {
                         <span className="text-gray-400 italic">Top-level</span>
                       )}
                     </TableCell>
+                    <TableCell className="text-gray-600">{category.sortOrder ?? 0}</TableCell>
                     <TableCell className="text-gray-600 max-w-md truncate">
                       {category.description || '-'}
                     </TableCell>
@@ -434,6 +429,14 @@ export default function AdminCategoriesPage() {
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setAttributesCategory(category)}
+                          aria-label={`Edit attributes of ${category.name}`}
+                        >
+                          <ListChecks className="h-4 w-4" aria-hidden="true" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="icon"
@@ -546,6 +549,23 @@ export default function AdminCategoriesPage() {
               )}
             </div>
 
+            <div>
+              <Label htmlFor="sortOrder">Sort Order</Label>
+              <Input
+                id="sortOrder"
+                type="number"
+                min="0"
+                step="1"
+                {...register('sortOrder', { valueAsNumber: true })}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Position among categories with the same parent in the menu and filters (lower first)
+              </p>
+              {errors.sortOrder && (
+                <p className="text-sm text-red-500">{errors.sortOrder.message}</p>
+              )}
+            </div>
+
             <div>
               <Label>Category Image</Label>
               <div className="mt-2 space-y-2">
@@ -605,6 +625,14 @@ export default function AdminCategoriesPage() {
         </DialogContent>
       </Dialog>
 
+      <CategoryAttributesDialog
+        category={attributesCategory}
+        open={attributesCategory !== null}
+        onOpenChange={(open) => {
+          if (!open) setAttributesCategory(null)
+        }}
+      />
+
       <ConfirmationDialog
         open={deleteDialogOpen}
         onOpenChange={setDeleteDialogOpen}
@@ -0,0 +1,619 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useAdminAuth } from '@/store/admin-auth-store'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Edit, Trash2, Loader2 } from 'lucide-react'
+import { formatPrice } from '@/lib/format-price'
+import { CORDSET_GROUP_LABELS, CORDSET_OPTION_GROUPS } from '@/lib/cordset-validation'
+import { CordsetOption, CordsetOptionGroup, CordsetRule } from '@/types'
+
+interface OptionFormState {
+  group: CordsetOptionGroup
+  code: string
+  label: string
+  price: string
+  pricePerMeter: string
+  lengthMeters: string
+  sortOrder: string
+  active: boolean
+}
+
+interface RuleFormState {
+  optionId: string
+  type: CordsetRule['type']
+  targetOptionId: string
+  message: string
+}
+
+const emptyOptionForm: OptionFormState = {
+  group: 'connector',
+  code: '',
+  label: '',
+  price: '0',
+  pricePerMeter: '0',
+  lengthMeters: '',
+  sortOrder: '0',
+  active: true,
+}
+
+const emptyRuleForm: RuleFormState = {
+  optionId: '',
+  type: 'requires',
+  targetOptionId: '',
+  message: '',
+}
+
+const optionName = (option?: CordsetOption) =>
+  option ? `${CORDSET_GROUP_LABELS[option.group]}: ${option.label}` : 'Unknown option'
+
+export default function AdminCordsetsPage() {
+  const { isAuthenticated } = useAdminAuth()
+  const [options, setOptions] = useState<CordsetOption[]>([])
+  const [rules, setRules] = useState<CordsetRule[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isOptionDialogOpen, setIsOptionDialogOpen] = useState(false)
+  const [isRuleDialogOpen, setIsRuleDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<CordsetOption | null>(null)
+  const [optionForm, setOptionForm] = useState<OptionFormState>(emptyOptionForm)
+  const [ruleForm, setRuleForm] = useState<RuleFormState>(emptyRuleForm)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+
+  const fetchCatalog = useCallback(async () => {
+    try {
+      const response = await fetch(`${apiUrl}/api/cordsets?all=true`, {
+        credentials: 'include',
+      })
+      if (!response.ok) throw new Error('Failed to fetch cordset options')
+      const data = await response.json()
+      setOptions(Array.isArray(data.options) ? data.options : [])
+      setRules(Array.isArray(data.rules) ? data.rules : [])
+    } catch {
+      setOptions([])
+      setRules([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [apiUrl])
+
+  useEffect(() => {
+    fetchCatalog()
+  }, [fetchCatalog])
+
+  const optionsById = new Map(options.map((option) => [option.id, option]))
+
+  const sendRequest = async (url: string, method: string, fallbackError: string, body?: unknown) => {
+    // Get CSRF token for state-changing operations
+    const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+    const csrfData = await csrfResponse.json()
+    const csrfToken = csrfData.token
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+        'X-CSRF-Token': csrfToken,
+      },
+      credentials: 'include',
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: fallbackError }))
+      const details = Array.isArray(errorData.details)
+        ? `: ${errorData.details.map((d: any) => `${d.field} ${d.message}`).join(', ')}`
+        : ''
+      throw new Error(`${errorData.error || fallbackError}${details}`)
+    }
+  }
+
+  const openCreateOptionDialog = () => {
+    setEditing(null)
+    setOptionForm(emptyOptionForm)
+    setIsOptionDialogOpen(true)
+  }
+
+  const openEditOptionDialog = (option: CordsetOption) => {
+    setEditing(option)
+    setOptionForm({
+      group: option.group,
+      code: option.code,
+      label: option.label,
+      price: String(option.price),
+      pricePerMeter: String(option.pricePerMeter),
+      lengthMeters: option.lengthMeters ? String(option.lengthMeters) : '',
+      sortOrder: String(option.sortOrder),
+      active: option.active,
+    })
+    setIsOptionDialogOpen(true)
+  }
+
+  const handleOptionSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isAuthenticated) {
+      alert('Authentication required. Please log in again.')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await sendRequest(
+        editing ? `${apiUrl}/api/cordsets/options/${editing.id}` : `${apiUrl}/api/cordsets/options`,
+        editing ? 'PUT' : 'POST',
+        'Failed to save option',
+        {
+          group: optionForm.group,
+          code: optionForm.code,
+          label: optionForm.label,
+          price: optionForm.price || 0,
+          pricePerMeter: optionForm.pricePerMeter || 0,
+          lengthMeters: optionForm.group === 'length' && optionForm.lengthMeters ? optionForm.lengthMeters : null,
+          sortOrder: optionForm.sortOrder || 0,
+          active: optionForm.active,
+        },
+      )
+      setIsOptionDialogOpen(false)
+      fetchCatalog()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save option. Please try again.'
+      alert(errorMessage)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDeleteOption = async (option: CordsetOption) => {
+    if (!isAuthenticated || !confirm(`Delete ${optionName(option)}? Its compatibility rules are deleted too.`)) {
+      return
+    }
+
+    try {
+      await sendRequest(`${apiUrl}/api/cordsets/options/${option.id}`, 'DELETE', 'Failed to delete option')
+      fetchCatalog()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete option. Please try again.'
+      alert(errorMessage)
+    }
+  }
+
+  const openRuleDialog = () => {
+    setRuleForm(emptyRuleForm)
+    setIsRuleDialogOpen(true)
+  }
+
+  const handleRuleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isAuthenticated) {
+      alert('Authentication required. Please log in again.')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await sendRequest(`${apiUrl}/api/cordsets/rules`, 'POST', 'Failed to save rule', {
+        optionId: ruleForm.optionId,
+        type: ruleForm.type,
+        targetOptionId: ruleForm.targetOptionId,
+        message: ruleForm.message.trim() || null,
+      })
+      setIsRuleDialogOpen(false)
+      fetchCatalog()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save rule. Please try again.'
+      alert(errorMessage)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDeleteRule = async (rule: CordsetRule) => {
+    if (!isAuthenticated || !confirm('Delete this compatibility rule?')) {
+      return
+    }
+
+    try {
+      await sendRequest(`${apiUrl}/api/cordsets/rules/${rule.id}`, 'DELETE', 'Failed to delete rule')
+      fetchCatalog()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete rule. Please try again.'
+      alert(errorMessage)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Cordset Configurator</h1>
+          <p className="text-gray-600 mt-2">Options, prices and compatibility rules of the cordset configurator</p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={openRuleDialog} disabled={options.length < 2}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+          <Button onClick={openCreateOptionDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Option
+          </Button>
+        </div>
+      </div>
+
+      {CORDSET_OPTION_GROUPS.map((group) => {
+        const groupOptions = options.filter((option) => option.group === group)
+
+        return (
+          <Card key={group}>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">{CORDSET_GROUP_LABELS[group]}</CardTitle>
+              {group === 'connector' && (
+                <CardDescription>Used for both connector A and connector B</CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Label</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Per Meter</TableHead>
+                    {group === 'length' && <TableHead>Length</TableHead>}
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groupOptions.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={group === 'length' ? 7 : 6} className="text-center py-6 text-gray-500">
+                        No options yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    groupOptions.map((option) => (
+                      <TableRow key={option.id}>
+                        <TableCell className="font-mono text-sm">{option.code}</TableCell>
+                        <TableCell>{option.label}</TableCell>
+                        <TableCell>{formatPrice(option.price)}</TableCell>
+                        <TableCell>{option.pricePerMeter ? formatPrice(option.pricePerMeter) : '-'}</TableCell>
+                        {group === 'length' && <TableCell>{option.lengthMeters} m</TableCell>}
+                        <TableCell>
+                          <Badge variant={option.active ? 'default' : 'secondary'}>
+                            {option.active ? 'Active' : 'Inactive'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openEditOptionDialog(option)}
+                              aria-label={`Edit ${option.label}`}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDeleteOption(option)}
+                              aria-label={`Delete ${option.label}`}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">Compatibility Rules</CardTitle>
+          <CardDescription>
+            An option that requires several options of one group needs any one of them
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Option</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Message</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-6 text-gray-500">
+                    No rules yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>{optionName(optionsById.get(rule.optionId))}</TableCell>
+                    <TableCell>
+                      <Badge variant={rule.type === 'excludes' ? 'destructive' : 'secondary'}>{rule.type}</Badge>
+                    </TableCell>
+                    <TableCell>{optionName(optionsById.get(rule.targetOptionId))}</TableCell>
+                    <TableCell className="max-w-xs truncate">{rule.message || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDeleteRule(rule)}
+                        aria-label="Delete rule"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isOptionDialogOpen} onOpenChange={setIsOptionDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Option' : 'Add Option'}</DialogTitle>
+            <DialogDescription>
+              The code becomes a segment of the configured part number.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleOptionSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="cordset-group">Group</Label>
+                <Select
+                  value={optionForm.group}
+                  onValueChange={(value) => setOptionForm({ ...optionForm, group: value as CordsetOptionGroup })}
+                >
+                  <SelectTrigger id="cordset-group">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CORDSET_OPTION_GROUPS.map((group) => (
+                      <SelectItem key={group} value={group}>
+                        {CORDSET_GROUP_LABELS[group]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="cordset-code">Code *</Label>
+                <Input
+                  id="cordset-code"
+                  value={optionForm.code}
+                  onChange={(e) => setOptionForm({ ...optionForm, code: e.target.value.toUpperCase() })}
+                  placeholder="M12FS"
+                  maxLength={10}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="cordset-label">Label *</Label>
+              <Input
+                id="cordset-label"
+                value={optionForm.label}
+                onChange={(e) => setOptionForm({ ...optionForm, label: e.target.value })}
+                placeholder="M12 female, straight"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="cordset-price">Price</Label>
+                <Input
+                  id="cordset-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={optionForm.price}
+                  onChange={(e) => setOptionForm({ ...optionForm, price: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="cordset-price-per-meter">Price per Meter</Label>
+                <Input
+                  id="cordset-price-per-meter"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={optionForm.pricePerMeter}
+                  onChange={(e) => setOptionForm({ ...optionForm, pricePerMeter: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {optionForm.group === 'length' && (
+                <div>
+                  <Label htmlFor="cordset-length">Length (m) *</Label>
+                  <Input
+                    id="cordset-length"
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={optionForm.lengthMeters}
+                    onChange={(e) => setOptionForm({ ...optionForm, lengthMeters: e.target.value })}
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="cordset-sort-order">Sort Order</Label>
+                <Input
+                  id="cordset-sort-order"
+                  type="number"
+                  value={optionForm.sortOrder}
+                  onChange={(e) => setOptionForm({ ...optionForm, sortOrder: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="cordset-active"
+                checked={optionForm.active}
+                onCheckedChange={(checked) => setOptionForm({ ...optionForm, active: checked === true })}
+              />
+              <Label htmlFor="cordset-active">Active (shown in the configurator)</Label>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsOptionDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editing ? 'Update' : 'Create'} Option
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isRuleDialogOpen} onOpenChange={setIsRuleDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add Rule</DialogTitle>
+            <DialogDescription>
+              Options that break a rule with the current selection are disabled in the configurator.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleRuleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="cordset-rule-option">Option *</Label>
+              <Select
+                value={ruleForm.optionId}
+                onValueChange={(value) => setRuleForm({ ...ruleForm, optionId: value })}
+              >
+                <SelectTrigger id="cordset-rule-option">
+                  <SelectValue placeholder="Choose an option" />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {optionName(option)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="cordset-rule-type">Rule</Label>
+              <Select
+                value={ruleForm.type}
+                onValueChange={(value) => setRuleForm({ ...ruleForm, type: value as CordsetRule['type'] })}
+              >
+                <SelectTrigger id="cordset-rule-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="requires">requires</SelectItem>
+                  <SelectItem value="excludes">excludes</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="cordset-rule-target">Target *</Label>
+              <Select
+                value={ruleForm.targetOptionId}
+                onValueChange={(value) => setRuleForm({ ...ruleForm, targetOptionId: value })}
+              >
+                <SelectTrigger id="cordset-rule-target">
+                  <SelectValue placeholder="Choose an option" />
+                </SelectTrigger>
+                <SelectContent>
+                  {options
+                    .filter((option) => option.id !== ruleForm.optionId)
+                    .map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {optionName(option)}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="cordset-rule-message">Message</Label>
+              <Input
+                id="cordset-rule-message"
+                value={ruleForm.message}
+                onChange={(e) => setRuleForm({ ...ruleForm, message: e.target.value })}
+                placeholder="X-coding requires 8 pins"
+                maxLength={200}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsRuleDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || !ruleForm.optionId || !ruleForm.targetOptionId}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create Rule
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,426 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useAdminAuth } from '@/store/admin-auth-store'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Edit, Trash2, Loader2, Upload, Search } from 'lucide-react'
+import {
+  COMPETITOR_MANUFACTURERS,
+  CROSS_REFERENCE_EQUIVALENCES,
+  CROSS_REFERENCE_EQUIVALENCE_LABELS,
+} from '@/lib/cross-reference-validation'
+import { CrossReference, CrossReferenceEquivalence } from '@/types'
+import { CrossReferenceImportDialog } from './CrossReferenceImportDialog'
+
+interface CrossReferenceFormState {
+  manufacturer: string
+  partNumber: string
+  sku: string
+  equivalence: CrossReferenceEquivalence
+  notes: string
+}
+
+const emptyForm: CrossReferenceFormState = {
+  manufacturer: '',
+  partNumber: '',
+  sku: '',
+  equivalence: 'direct',
+  notes: '',
+}
+
+const PAGE_SIZE = 50
+
+export default function AdminCrossReferencesPage() {
+  const { isAuthenticated } = useAdminAuth()
+  const [crossReferences, setCrossReferences] = useState<CrossReference[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [appliedSearch, setAppliedSearch] = useState('')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [editing, setEditing] = useState<CrossReference | null>(null)
+  const [form, setForm] = useState<CrossReferenceFormState>(emptyForm)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+
+  const fetchCrossReferences = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) })
+      if (appliedSearch) params.set('search', appliedSearch)
+      const response = await fetch(`${apiUrl}/api/cross-references?${params.toString()}`, {
+        credentials: 'include',
+      })
+      if (!response.ok) throw new Error('Failed to fetch cross-references')
+      const data = await response.json()
+      setCrossReferences(Array.isArray(data.crossReferences) ? data.crossReferences : [])
+      setTotal(data.pagination?.total ?? 0)
+      setTotalPages(Math.max(1, data.pagination?.totalPages ?? 1))
+    } catch {
+      setCrossReferences([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [apiUrl, page, appliedSearch])
+
+  useEffect(() => {
+    fetchCrossReferences()
+  }, [fetchCrossReferences])
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setPage(1)
+    setAppliedSearch(search.trim())
+  }
+
+  const openCreateDialog = () => {
+    setEditing(null)
+    setForm(emptyForm)
+    setIsDialogOpen(true)
+  }
+
+  const openEditDialog = (crossReference: CrossReference) => {
+    setEditing(crossReference)
+    setForm({
+      manufacturer: crossReference.manufacturer,
+      partNumber: crossReference.partNumber,
+      sku: crossReference.product?.sku || '',
+      equivalence: crossReference.equivalence,
+      notes: crossReference.notes || '',
+    })
+    setIsDialogOpen(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isAuthenticated) {
+      alert('Authentication required. Please log in again.')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+      const csrfToken = csrfData.token
+
+      const url = editing
+        ? `${apiUrl}/api/cross-references/${editing.id}`
+        : `${apiUrl}/api/cross-references`
+
+      const response = await fetch(url, {
+        method: editing ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfToken,
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          manufacturer: form.manufacturer,
+          partNumber: form.partNumber,
+          sku: form.sku,
+          equivalence: form.equivalence,
+          notes: form.notes.trim() || null,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Failed to save cross-reference' }))
+        const details = Array.isArray(errorData.details)
+          ? `: ${errorData.details.map((d: any) => `${d.field} ${d.message}`).join(', ')}`
+          : ''
+        throw new Error(`${errorData.error || 'Failed to save cross-reference'}${details}`)
+      }
+
+      setIsDialogOpen(false)
+      fetchCrossReferences()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save cross-reference. Please try again.'
+      alert(errorMessage)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (crossReference: CrossReference) => {
+    if (
+      !isAuthenticated ||
+      !confirm(`Delete the mapping of ${crossReference.manufacturer} ${crossReference.partNumber} to ${crossReference.product?.sku}?`)
+    ) {
+      return
+    }
+
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+      const csrfToken = csrfData.token
+
+      const response = await fetch(`${apiUrl}/api/cross-references/${crossReference.id}`, {
+        method: 'DELETE',
+        headers: {
+          'X-CSRF-Token': csrfToken,
+        },
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Failed to delete cross-reference' }))
+        throw new Error(errorData.error || 'Failed to delete cross-reference')
+      }
+
+      fetchCrossReferences()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete cross-reference. Please try again.'
+      alert(errorMessage)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Cross References</h1>
+          <p className="text-gray-600 mt-2">Competitor part numbers and our equivalent products</p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Cross Reference
+          </Button>
+        </div>
+      </div>
+
+      <form onSubmit={handleSearch} className="flex max-w-md space-x-2">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search part number, manufacturer or SKU"
+          aria-label="Search cross-references"
+        />
+        <Button type="submit" variant="outline" aria-label="Search">
+          <Search className="h-4 w-4" />
+        </Button>
+      </form>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Manufacturer</TableHead>
+                <TableHead>Part Number</TableHead>
+                <TableHead>Our Product</TableHead>
+                <TableHead>Equivalence</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {crossReferences.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                    No cross-references found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                crossReferences.map((crossReference) => (
+                  <TableRow key={crossReference.id}>
+                    <TableCell>{crossReference.manufacturer}</TableCell>
+                    <TableCell className="font-mono text-sm">{crossReference.partNumber}</TableCell>
+                    <TableCell>
+                      <Link href={`/products/${crossReference.productId}`} className="hover:underline">
+                        <span className="font-mono text-sm">{crossReference.product?.sku}</span>
+                      </Link>
+                      <div className="text-xs text-gray-500 max-w-xs truncate">{crossReference.product?.name}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={crossReference.equivalence === 'direct' ? 'default' : 'secondary'}>
+                        {CROSS_REFERENCE_EQUIVALENCE_LABELS[crossReference.equivalence]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate">{crossReference.notes || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openEditDialog(crossReference)}
+                          aria-label={`Edit ${crossReference.manufacturer} ${crossReference.partNumber}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(crossReference)}
+                          aria-label={`Delete ${crossReference.manufacturer} ${crossReference.partNumber}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            Page {page} of {totalPages} ({total} cross-references)
+          </p>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </Button>
+            <Button variant="outline" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Cross Reference' : 'Add Cross Reference'}</DialogTitle>
+            <DialogDescription>
+              Map a competitor part number to one of our SKUs. A part number can map to several products.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="xref-manufacturer">Manufacturer *</Label>
+              <Input
+                id="xref-manufacturer"
+                list="xref-manufacturers"
+                value={form.manufacturer}
+                onChange={(e) => setForm({ ...form, manufacturer: e.target.value })}
+                placeholder="Phoenix Contact"
+              />
+              <datalist id="xref-manufacturers">
+                {COMPETITOR_MANUFACTURERS.map((manufacturer) => (
+                  <option key={manufacturer} value={manufacturer} />
+                ))}
+              </datalist>
+            </div>
+
+            <div>
+              <Label htmlFor="xref-part-number">Competitor Part Number *</Label>
+              <Input
+                id="xref-part-number"
+                value={form.partNumber}
+                onChange={(e) => setForm({ ...form, partNumber: e.target.value })}
+                placeholder="SAC-4P-M12MS/5,0-PUR"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="xref-sku">Our SKU *</Label>
+              <Input
+                id="xref-sku"
+                value={form.sku}
+                onChange={(e) => setForm({ ...form, sku: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="xref-equivalence">Equivalence</Label>
+              <Select
+                value={form.equivalence}
+                onValueChange={(value) => setForm({ ...form, equivalence: value as CrossReferenceEquivalence })}
+              >
+                <SelectTrigger id="xref-equivalence">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CROSS_REFERENCE_EQUIVALENCES.map((equivalence) => (
+                    <SelectItem key={equivalence} value={equivalence}>
+                      {CROSS_REFERENCE_EQUIVALENCE_LABELS[equivalence]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="xref-notes">Notes</Label>
+              <textarea
+                id="xref-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                rows={3}
+                placeholder="Differences buyers should know about, e.g. cable jacket material"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editing ? 'Update' : 'Create'} Cross Reference
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <CrossReferenceImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImported={fetchCrossReferences}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Loader2, Trash2, UserPlus } from 'lucide-react'
+import { CustomerGroup } from '@/types'
+
+interface MembersDialogProps {
+  group: CustomerGroup | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onChange: () => void
+}
+
+interface Member {
+  id: string
+  name: string
+  email: string
+  company?: string | null
+}
+
+export function MembersDialog({ group, open, onOpenChange, onChange }: MembersDialogProps) {
+  const [members, setMembers] = useState<Member[]>([])
+  const [email, setEmail] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+  const groupId = group?.id
+
+  const loadMembers = useCallback(async () => {
+    if (!groupId) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`${apiUrl}/api/customer-groups/${groupId}/members`, {
+        credentials: 'include',
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load members')
+      }
+      setMembers(Array.isArray(data.members) ? data.members : [])
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load members')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [apiUrl, groupId])
+
+  useEffect(() => {
+    if (open && groupId) {
+      loadMembers()
+    } else {
+      setMembers([])
+      setEmail('')
+      setError(null)
+    }
+  }, [open, groupId, loadMembers])
+
+  const getCsrfToken = async () => {
+    const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+    const csrfData = await csrfResponse.json()
+    return csrfData.token as string
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!groupId || !email.trim()) return
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`${apiUrl}/api/customer-groups/${groupId}/members`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': await getCsrfToken(),
+        },
+        credentials: 'include',
+        body: JSON.stringify({ email: email.trim() }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add member')
+      }
+      setEmail('')
+      await loadMembers()
+      onChange()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to add member')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async (member: Member) => {
+    if (!groupId || !confirm(`Remove ${member.email} from this group? They will see catalog prices.`)) return
+
+    setError(null)
+    try {
+      const response = await fetch(
+        `${apiUrl}/api/customer-groups/${groupId}/members?userId=${encodeURIComponent(member.id)}`,
+        {
+          method: 'DELETE',
+          headers: {
+            'X-CSRF-Token': await getCsrfToken(),
+          },
+          credentials: 'include',
+        },
+      )
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to remove member')
+      }
+      await loadMembers()
+      onChange()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to remove member')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Members{group ? ` of ${group.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            Customers in this group see its contract prices when logged in. A customer belongs to one group;
+            adding them here moves them out of their current group.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+        )}
+
+        <form onSubmit={handleAdd} className="flex items-end gap-2">
+          <div className="flex-1">
+            <Label htmlFor="member-email">Customer Email</Label>
+            <Input
+              id="member-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="buyer@example.com"
+            />
+          </div>
+          <Button type="submit" disabled={isSaving || !email.trim()}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+            Add
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : members.length === 0 ? (
+          <p className="text-sm text-gray-500">No customers in this group yet.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {members.map((member) => (
+              <li key={member.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                <div>
+                  <p className="font-medium">{member.name}</p>
+                  <p className="text-gray-500">
+                    {member.email}
+                    {member.company ? ` · ${member.company}` : ''}
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(member)}
+                  aria-label={`Remove ${member.email}`}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" aria-hidden="true" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
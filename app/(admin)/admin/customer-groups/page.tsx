@@ -0,0 +1,330 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useAdminAuth } from '@/store/admin-auth-store'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Loader2,
+  Users,
+} from 'lucide-react'
+import { CustomerGroup } from '@/types'
+import { MembersDialog } from './MembersDialog'
+
+interface GroupFormState {
+  code: string
+  name: string
+  description: string
+}
+
+const emptyForm: GroupFormState = {
+  code: '',
+  name: '',
+  description: '',
+}
+
+export default function AdminCustomerGroupsPage() {
+  const { isAuthenticated } = useAdminAuth()
+  const [groups, setGroups] = useState<CustomerGroup[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingGroup, setEditingGroup] = useState<CustomerGroup | null>(null)
+  const [membersGroup, setMembersGroup] = useState<CustomerGroup | null>(null)
+  const [form, setForm] = useState<GroupFormState>(emptyForm)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    fetchGroups()
+  }, [])
+
+  const fetchGroups = async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/customer-groups`, {
+        credentials: 'include',
+      })
+      if (!response.ok) throw new Error('Failed to fetch customer groups')
+      const data = await response.json()
+      setGroups(Array.isArray(data.groups) ? data.groups : [])
+    } catch {
+      setGroups([])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const openCreateDialog = () => {
+    setEditingGroup(null)
+    setForm(emptyForm)
+    setIsDialogOpen(true)
+  }
+
+  const openEditDialog = (group: CustomerGroup) => {
+    setEditingGroup(group)
+    setForm({
+      code: group.code,
+      name: group.name,
+      description: group.description || '',
+    })
+    setIsDialogOpen(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isAuthenticated) {
+      alert('Authentication required. Please log in again.')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+      const csrfToken = csrfData.token
+
+      const url = editingGroup
+        ? `${process.env.NEXT_PUBLIC_API_URL || ''}/api/customer-groups/${editingGroup.id}`
+        : `${process.env.NEXT_PUBLIC_API_URL || ''}/api/customer-groups`
+
+      const response = await fetch(url, {
+        method: editingGroup ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfToken,
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          code: form.code.trim(),
+          name: form.name,
+          description: form.description.trim() || null,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Failed to save customer group' }))
+        const details = Array.isArray(errorData.details)
+          ? `: ${errorData.details.map((d: any) => `${d.field} ${d.message}`).join(', ')}`
+          : ''
+        throw new Error(`${errorData.error || 'Failed to save customer group'}${details}`)
+      }
+
+      setIsDialogOpen(false)
+      fetchGroups()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save customer group. Please try again.'
+      alert(errorMessage)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (group: CustomerGroup) => {
+    const message = group.memberCount
+      ? `Delete this group? Its ${group.memberCount} members will see catalog prices, and its price lists and price tiers are deleted.`
+      : 'Delete this group? Its price lists and price tiers are deleted.'
+    if (!isAuthenticated || !confirm(message)) return
+
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+      const csrfToken = csrfData.token
+
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL || ''}/api/customer-groups/${group.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            'X-CSRF-Token': csrfToken,
+          },
+          credentials: 'include',
+        }
+      )
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Failed to delete customer group' }))
+        throw new Error(errorData.error || 'Failed to delete customer group')
+      }
+
+      fetchGroups()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete customer group. Please try again.'
+      alert(errorMessage)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Customer Groups</h1>
+          <p className="text-gray-600 mt-2">Group customers for contract pricing and group price tiers</p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Group
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Code</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Members</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                    No customer groups found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                groups.map((group) => (
+                  <TableRow key={group.id}>
+                    <TableCell className="font-medium">{group.name}</TableCell>
+                    <TableCell className="font-mono text-sm">{group.code}</TableCell>
+                    <TableCell className="max-w-xs truncate">{group.description || '-'}</TableCell>
+                    <TableCell>{group.memberCount ?? 0}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setMembersGroup(group)}
+                          aria-label={`Manage members of ${group.name}`}
+                        >
+                          <Users className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openEditDialog(group)}
+                          aria-label={`Edit group ${group.name}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(group)}
+                          aria-label={`Delete group ${group.name}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingGroup ? 'Edit Customer Group' : 'Create Customer Group'}
+            </DialogTitle>
+            <DialogDescription>
+              The code is what price tiers use to target this group.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="group-name">Name *</Label>
+              <Input
+                id="group-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="OEM Partners"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="group-code">Code *</Label>
+              <Input
+                id="group-code"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value })}
+                placeholder="oem-partners"
+              />
+              <p className="text-xs text-gray-500 mt-1">Lowercase letters, numbers, and hyphens</p>
+            </div>
+
+            <div>
+              <Label htmlFor="group-description">Description</Label>
+              <textarea
+                id="group-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                rows={3}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingGroup ? 'Update' : 'Create'} Group
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <MembersDialog
+        group={membersGroup}
+        open={membersGroup !== null}
+        onOpenChange={(open) => {
+          if (!open) setMembersGroup(null)
+        }}
+        onChange={fetchGroups}
+      />
+    </div>
+  )
+}
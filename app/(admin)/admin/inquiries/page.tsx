@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { useAdminAuth } from '@/store/admin-auth-store'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -21,7 +21,15 @@ import {
 } from '@/components/ui/dialog'
 import { Badge } from '@/components/ui/badge'
 import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import {
   Eye,
   Loader2,
@@ -29,10 +37,18 @@ import {
   Mail,
   CheckCircle2,
   XCircle,
+  MessageSquare,
+  Search,
+  Inbox,
 } from 'lucide-react'
+import { MessageThread } from '@/components/features/MessageThread'
+import { OwnerAssignment } from '@/components/features/OwnerAssignment'
+import { ASSIGNED_TO_ME, UNASSIGNED } from '@/lib/assignment-validation'
+import type { Message } from '@/types'
 
 interface Inquiry {
   id: string
+  reference: string
   name: string
   email: string
   phone: string
@@ -41,6 +57,8 @@ interface Inquiry {
   meetingRequest?: boolean
   read: boolean
   responded: boolean
+  unreadMessages?: number // Notes and replies this admin has not seen yet
+  assignedTo?: string | null
   createdAt: string
   updatedAt: string
 }
@@ -53,12 +71,10 @@ export default function AdminInquiriesPage() {
   const [selectedInquiry, setSelectedInquiry] = useState<Inquiry | null>(null)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [filter, setFilter] = useState<'all' | 'unread' | 'read' | 'responded'>('all')
-
-  useEffect(() => {
-    if (isAuthenticated) {
-      fetchInquiries()
-    }
-  }, [isAuthenticated])
+  const [searchQuery, setSearchQuery] = useState('')
+  // '' for everyone's inquiries, "me", "none" (unassigned) or an admin's username
+  const [ownerFilter, setOwnerFilter] = useState('')
+  const [admins, setAdmins] = useState<string[]>([])
 
   useEffect(() => {
     let filtered = inquiries
@@ -80,11 +96,17 @@ export default function AdminInquiriesPage() {
     setFilteredInquiries(filtered)
   }, [filter, inquiries])
 
-  const fetchInquiries = async () => {
+  const fetchInquiries = useCallback(async () => {
     try {
-      setIsLoading(true)
+      const params = new URLSearchParams()
+      if (searchQuery.trim()) {
+        params.set('search', searchQuery.trim())
+      }
+      if (ownerFilter) {
+        params.set('assignedTo', ownerFilter)
+      }
       const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL || ''}/api/inquiries`,
+        `${process.env.NEXT_PUBLIC_API_URL || ''}/api/inquiries?${params.toString()}`,
       )
 
       if (!response.ok) {
@@ -103,7 +125,23 @@ export default function AdminInquiriesPage() {
     } finally {
       setIsLoading(false)
     }
-  }
+  }, [searchQuery, ownerFilter])
+
+  // Load inquiries on sign-in and whenever the search changes (debounced while typing)
+  useEffect(() => {
+    if (!isAuthenticated) return
+    const timeout = setTimeout(fetchInquiries, searchQuery ? 300 : 0)
+    return () => clearTimeout(timeout)
+  }, [isAuthenticated, fetchInquiries, searchQuery])
+
+  // Owners to choose from in the filter and the inquiry dialog
+  useEffect(() => {
+    if (!isAuthenticated) return
+    fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/admin/admins`, { credentials: 'include' })
+      .then((response) => (response.ok ? response.json() : { admins: [] }))
+      .then((data) => setAdmins(Array.isArray(data.admins) ? data.admins : []))
+      .catch(() => setAdmins([]))
+  }, [isAuthenticated])
 
   const handleMarkAsRead = async (inquiryId: string, read: boolean) => {
     if (!isAuthenticated) return
@@ -203,14 +241,15 @@ export default function AdminInquiriesPage() {
   }
 
   const exportToCSV = () => {
-    const headers = ['ID', 'Name', 'Email', 'Phone', 'Company', 'Message', 'Read', 'Responded', 'Created At']
+    const headers = ['Reference', 'Name', 'Email', 'Phone', 'Company', 'Message', 'Owner', 'Read', 'Responded', 'Created At']
     const rows = inquiries.map((inquiry) => [
-      inquiry.id,
+      inquiry.reference,
       inquiry.name,
       inquiry.email,
       inquiry.phone,
       inquiry.company,
       inquiry.message.replace(/,/g, ';'), // Replace commas to avoid CSV issues
+      inquiry.assignedTo ?? '',
       inquiry.read ? 'Yes' : 'No',
       inquiry.responded ? 'Yes' : 'No',
       new Date(inquiry.createdAt).toLocaleString(),
@@ -232,6 +271,28 @@ export default function AdminInquiriesPage() {
     document.body.removeChild(link)
   }
 
+  // Opening the conversation marks it as read
+  const selectedInquiryId = selectedInquiry?.id
+  const handleMessagesLoaded = useCallback(() => {
+    setInquiries((current) =>
+      current.map((inquiry) => (inquiry.id === selectedInquiryId ? { ...inquiry, unreadMessages: 0 } : inquiry)),
+    )
+  }, [selectedInquiryId])
+
+  // Replies the customer can see are emailed and mark the inquiry as responded
+  const handleMessageSent = (message: Message) => {
+    if (message.internal || !selectedInquiry) return
+    const updated = { ...selectedInquiry, read: true, responded: true }
+    setSelectedInquiry(updated)
+    setInquiries((current) => current.map((inquiry) => (inquiry.id === updated.id ? { ...inquiry, read: true, responded: true } : inquiry)))
+  }
+
+  const handleOwnerChanged = (assignedTo: string | null) => {
+    if (!selectedInquiry) return
+    setSelectedInquiry({ ...selectedInquiry, assignedTo })
+    fetchInquiries()
+  }
+
   const openInquiryDetails = (inquiry: Inquiry) => {
     setSelectedInquiry(inquiry)
     setIsDialogOpen(true)
@@ -256,6 +317,13 @@ export default function AdminInquiriesPage() {
           <p className="text-gray-600 mt-2">Manage customer inquiries</p>
         </div>
         <div className="flex items-center space-x-2">
+          <Button
+            variant={ownerFilter === ASSIGNED_TO_ME ? 'default' : 'outline'}
+            onClick={() => setOwnerFilter(ownerFilter === ASSIGNED_TO_ME ? '' : ASSIGNED_TO_ME)}
+          >
+            <Inbox className="h-4 w-4 mr-2" aria-hidden="true" />
+            My queue
+          </Button>
           <Button variant="outline" onClick={exportToCSV}>
             <Download className="h-4 w-4 mr-2" />
             Export CSV
@@ -293,16 +361,47 @@ export default function AdminInquiriesPage() {
         </div>
       </div>
 
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 max-w-md">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" aria-hidden="true" />
+          <Input
+            type="search"
+            placeholder="Search by reference, name, email, company or subject"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+            aria-label="Search inquiries"
+          />
+        </div>
+        <Select value={ownerFilter || 'all'} onValueChange={(value) => setOwnerFilter(value === 'all' ? '' : value)}>
+          <SelectTrigger className="w-[200px]" aria-label="Owner">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All owners</SelectItem>
+            <SelectItem value={ASSIGNED_TO_ME}>My queue</SelectItem>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {admins.map((username) => (
+              <SelectItem key={username} value={username}>
+                {username}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       <Card>
         <CardContent className="p-0">
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead>Reference</TableHead>
                 <TableHead>Name</TableHead>
                 <TableHead>Email</TableHead>
                 <TableHead>Company</TableHead>
                 <TableHead>Message</TableHead>
                 <TableHead>Status</TableHead>
+                <TableHead>Owner</TableHead>
                 <TableHead>Date</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
@@ -310,19 +409,26 @@ export default function AdminInquiriesPage() {
             <TableBody>
               {filteredInquiries.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                  <TableCell colSpan={9} className="text-center py-8 text-gray-500">
                     No inquiries found
                   </TableCell>
                 </TableRow>
               ) : (
                 filteredInquiries.map((inquiry) => (
                   <TableRow key={inquiry.id}>
+                    <TableCell className="whitespace-nowrap">{inquiry.reference}</TableCell>
                     <TableCell className="font-medium">
                       <div className="flex items-center space-x-2">
                         {!inquiry.read && (
                           <span className="h-2 w-2 bg-blue-500 rounded-full"></span>
                         )}
                         <span>{inquiry.name}</span>
+                        {!!inquiry.unreadMessages && (
+                          <Badge variant="default" title="Unread messages">
+                            <MessageSquare className="h-3 w-3 mr-1" />
+                            {inquiry.unreadMessages}
+                          </Badge>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell>{inquiry.email}</TableCell>
@@ -344,6 +450,9 @@ export default function AdminInquiriesPage() {
                         )}
                       </div>
                     </TableCell>
+                    <TableCell className={inquiry.assignedTo ? undefined : 'text-gray-400'}>
+                      {inquiry.assignedTo ?? 'Unassigned'}
+                    </TableCell>
                     <TableCell>
                       {new Date(inquiry.createdAt).toLocaleDateString()}
                     </TableCell>
@@ -412,8 +521,8 @@ export default function AdminInquiriesPage() {
                   <h3 className="font-semibold mb-2">Inquiry Information</h3>
                   <div className="space-y-1 text-sm">
                     <div>
-                      <span className="text-gray-500">Inquiry ID:</span>{' '}
-                      <span className="font-medium">{selectedInquiry.id}</span>
+                      <span className="text-gray-500">Reference:</span>{' '}
+                      <span className="font-medium">{selectedInquiry.reference}</span>
                     </div>
                     <div>
                       <span className="text-gray-500">Created:</span>{' '}
@@ -440,6 +549,29 @@ export default function AdminInquiriesPage() {
                 </p>
               </div>
 
+              {/* Owner */}
+              <div>
+                <h3 className="font-semibold mb-3">Owner</h3>
+                <OwnerAssignment
+                  endpoint={`/api/inquiries/${selectedInquiry.id}/assignment`}
+                  admins={admins}
+                  onChanged={handleOwnerChanged}
+                />
+              </div>
+
+              {/* Conversation */}
+              <div>
+                <h3 className="font-semibold mb-3">Conversation</h3>
+                <MessageThread
+                  endpoint={`/api/inquiries/${selectedInquiry.id}/messages`}
+                  viewer="admin"
+                  visibleHint={`Emailed to ${selectedInquiry.email} and marks the inquiry as responded. Files can only go on internal notes.`}
+                  allowVisibleAttachments={false}
+                  onLoaded={handleMessagesLoaded}
+                  onSent={handleMessageSent}
+                />
+              </div>
+
               {/* Actions */}
               <div className="flex items-center justify-between pt-4 border-t">
                 <div className="flex items-center space-x-4">
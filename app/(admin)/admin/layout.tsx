@@ -25,6 +25,13 @@ import {
   FileCheck,
   ArrowLeftRight,
   Wrench,
+  Layers,
+  UserCheck,
+  BadgePercent,
+  GitCompare,
+  Cable,
+  ShoppingBasket,
+  UserCog,
 } from 'lucide-react'
 
 export default function AdminLayout({
@@ -83,9 +90,16 @@ export default function AdminLayout({
   const navItems = [
     { href: '/admin', label: 'Dashboard', icon: LayoutDashboard },
     { href: '/admin/products', label: 'Products', icon: Package },
+    { href: '/admin/product-families', label: 'Product Families', icon: Layers },
     { href: '/admin/categories', label: 'Categories', icon: FolderTree },
+    { href: '/admin/cross-references', label: 'Cross References', icon: GitCompare },
+    { href: '/admin/cordsets', label: 'Cordsets', icon: Cable },
+    { href: '/admin/customer-groups', label: 'Customer Groups', icon: UserCheck },
+    { href: '/admin/price-lists', label: 'Price Lists', icon: BadgePercent },
     { href: '/admin/orders', label: 'Orders', icon: ShoppingCart },
+    { href: '/admin/rfq-baskets', label: 'Abandoned Baskets', icon: ShoppingBasket },
     { href: '/admin/inquiries', label: 'Inquiries', icon: Mail },
+    { href: '/admin/assignment-rules', label: 'Assignment Rules', icon: UserCog },
     { href: '/admin/hero-slides', label: 'Hero Slider', icon: ImageIcon },
     { href: '/admin/blogs', label: 'Blogs', icon: FileText },
     { href: '/admin/careers', label: 'Careers', icon: Briefcase },
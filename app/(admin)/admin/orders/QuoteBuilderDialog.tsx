@@ -0,0 +1,430 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Download, Loader2 } from 'lucide-react'
+import { formatPrice } from '@/lib/format-price'
+import { computeQuoteTotals } from '@/lib/quote-totals'
+import { Quote } from '@/types'
+
+interface QuoteRevision {
+  revision: number
+  total: number
+  createdBy: string | null
+  createdAt: string
+}
+
+interface QuoteBuilderDialogProps {
+  orderId: string | null
+  reference?: string
+  companyName?: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+const priceTypeLabels: Record<string, string> = {
+  per_unit: 'per unit',
+  per_pack: 'per pack',
+  per_bulk: 'per bulk',
+}
+
+const toNumber = (value: string) => {
+  const num = parseFloat(value)
+  return isNaN(num) ? 0 : num
+}
+
+export function QuoteBuilderDialog({ orderId, reference, companyName, open, onOpenChange, onSaved }: QuoteBuilderDialogProps) {
+  const [quote, setQuote] = useState<Quote | null>(null)
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([])
+  const [isDraft, setIsDraft] = useState(true)
+  const [markQuoted, setMarkQuoted] = useState(true)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+
+  const loadQuote = useCallback(async (revision?: number) => {
+    if (!orderId) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const query = revision ? `?revision=${revision}` : ''
+      const response = await fetch(`${apiUrl}/api/orders/${orderId}/quote${query}`, { credentials: 'include' })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load quote')
+      }
+      setQuote(data.quote)
+      setRevisions(data.revisions || [])
+      setIsDraft(Boolean(data.isDraft))
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load quote')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [apiUrl, orderId])
+
+  useEffect(() => {
+    if (open && orderId) {
+      loadQuote()
+    } else {
+      setQuote(null)
+      setRevisions([])
+    }
+  }, [open, orderId, loadQuote])
+
+  const totals = useMemo(
+    () =>
+      quote
+        ? computeQuoteTotals({
+            items: quote.items,
+            discountPercent: quote.discountPercent,
+            gstPercent: quote.gstPercent,
+            freight: quote.freight,
+          })
+        : null,
+    [quote],
+  )
+
+  const updateQuote = (changes: Partial<Quote>) => {
+    setQuote((current) => (current ? { ...current, ...changes } : current))
+  }
+
+  const updateLine = (index: number, changes: Partial<Quote['items'][number]>) => {
+    setQuote((current) =>
+      current
+        ? { ...current, items: current.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) }
+        : current,
+    )
+  }
+
+  const handleSave = async () => {
+    if (!quote || !orderId) return
+
+    const missingLine = quote.items.find((item) => !item.orderItemId)
+    if (missingLine) {
+      setError(`Line ${missingLine.sku} no longer exists on the order`)
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+
+      const response = await fetch(`${apiUrl}/api/orders/${orderId}/quote`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfData.token,
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          items: quote.items.map((item) => ({
+            orderItemId: item.orderItemId,
+            unitPrice: item.unitPrice,
+            priceType: item.priceType,
+            discountPercent: item.discountPercent,
+            notes: item.notes || undefined,
+          })),
+          discountPercent: quote.discountPercent,
+          gstPercent: quote.gstPercent,
+          freight: quote.freight,
+          leadTime: quote.leadTime || undefined,
+          validUntil: quote.validUntil || undefined,
+          terms: quote.terms || undefined,
+          notes: quote.notes || undefined,
+          markQuoted,
+        }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        const details = Array.isArray(data.details)
+          ? `: ${data.details.map((d: any) => `${d.field} ${d.message}`).join(', ')}`
+          : ''
+        throw new Error(`${data.error || 'Failed to save quote'}${details}`)
+      }
+
+      setQuote(data.quote)
+      setRevisions(data.revisions || [])
+      setIsDraft(false)
+      onSaved()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save quote')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const latestRevision = revisions[0]?.revision
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Quotation{companyName ? ` for ${companyName}` : ''}
+            {reference ? ` (${reference})` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            {isDraft
+              ? 'New quote priced from the catalog. Adjust prices and terms, then save revision 1.'
+              : `Editing from revision ${quote?.revision}. Saving creates revision ${(latestRevision ?? 0) + 1}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !quote ? (
+          <div className="flex items-center justify-center py-12">
+            {error ? (
+              <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+            ) : (
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            )}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {revisions.length > 0 && (
+              <div className="flex flex-wrap items-center gap-3">
+                <Label>Revision</Label>
+                <Select value={String(quote.revision)} onValueChange={(value) => loadQuote(parseInt(value, 10))}>
+                  <SelectTrigger className="w-[260px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((rev) => (
+                      <SelectItem key={rev.revision} value={String(rev.revision)}>
+                        Rev {rev.revision} · {formatPrice(rev.total)} · {new Date(rev.createdAt).toLocaleDateString()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`${apiUrl}/api/orders/${orderId}/quote/pdf?revision=${quote.revision}`}>
+                    <Download className="h-4 w-4 mr-2" />
+                    PDF (Rev {quote.revision})
+                  </a>
+                </Button>
+              </div>
+            )}
+
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="w-[140px]">Unit Price (₹)</TableHead>
+                    <TableHead className="w-[100px]">Disc %</TableHead>
+                    <TableHead className="text-right">Line Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {quote.items.map((item, index) => (
+                    <TableRow key={item.orderItemId ?? index}>
+                      <TableCell className="font-medium">{item.sku}</TableCell>
+                      <TableCell>
+                        <div>{item.name}</div>
+                        <div className="text-xs text-gray-500">{priceTypeLabels[item.priceType] || item.priceType}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={item.unitPrice}
+                          onChange={(e) => updateLine(index, { unitPrice: toNumber(e.target.value) })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.5"
+                          value={item.discountPercent}
+                          onChange={(e) => updateLine(index, { discountPercent: toNumber(e.target.value) })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatPrice(totals?.lineTotals[index] ?? 0)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <Label htmlFor="quote-discount">Discount %</Label>
+                    <Input
+                      id="quote-discount"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      value={quote.discountPercent}
+                      onChange={(e) => updateQuote({ discountPercent: toNumber(e.target.value) })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="quote-gst">GST %</Label>
+                    <Input
+                      id="quote-gst"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      value={quote.gstPercent}
+                      onChange={(e) => updateQuote({ gstPercent: toNumber(e.target.value) })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="quote-freight">Freight (₹)</Label>
+                    <Input
+                      id="quote-freight"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={quote.freight}
+                      onChange={(e) => updateQuote({ freight: toNumber(e.target.value) })}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="quote-lead-time">Lead Time</Label>
+                    <Input
+                      id="quote-lead-time"
+                      placeholder="e.g. 2-3 weeks from PO"
+                      value={quote.leadTime ?? ''}
+                      onChange={(e) => updateQuote({ leadTime: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="quote-valid-until">Valid Until</Label>
+                    <Input
+                      id="quote-valid-until"
+                      type="date"
+                      value={quote.validUntil ?? ''}
+                      onChange={(e) => updateQuote({ validUntil: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="quote-terms">Terms &amp; Conditions</Label>
+                  <textarea
+                    id="quote-terms"
+                    className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    placeholder="Payment, delivery and warranty terms"
+                    value={quote.terms ?? ''}
+                    onChange={(e) => updateQuote({ terms: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="quote-notes">Notes</Label>
+                  <textarea
+                    id="quote-notes"
+                    className="flex min-h-[60px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    value={quote.notes ?? ''}
+                    onChange={(e) => updateQuote({ notes: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {totals && (
+                <div className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm h-fit">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Subtotal</span>
+                    <span>{formatPrice(totals.subtotal)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Discount ({quote.discountPercent}%)</span>
+                    <span>- {formatPrice(totals.discountAmount)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Freight</span>
+                    <span>{formatPrice(quote.freight)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Taxable Value</span>
+                    <span>{formatPrice(totals.taxableAmount)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">GST ({quote.gstPercent}%)</span>
+                    <span>{formatPrice(totals.gstAmount)}</span>
+                  </div>
+                  <div className="flex justify-between border-t pt-2 text-base font-semibold">
+                    <span>Total</span>
+                    <span>{formatPrice(totals.total)}</span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {error && (
+              <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex items-center sm:justify-between gap-3">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="quote-mark-quoted"
+              checked={markQuoted}
+              onCheckedChange={(checked) => setMarkQuoted(checked === true)}
+            />
+            <Label htmlFor="quote-mark-quoted" className="text-sm font-normal">
+              Mark order as quoted if pending or under review
+            </Label>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Close
+            </Button>
+            <Button onClick={handleSave} disabled={!quote || isSaving || isLoading}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Revision {(latestRevision ?? 0) + 1}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,9 +1,11 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useAdminAuth } from '@/store/admin-auth-store'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 import {
   Table,
   TableBody,
@@ -30,58 +32,123 @@ import { Badge } from '@/components/ui/badge'
 import {
   Eye,
   Loader2,
-  Filter,
+  FileText,
+  Download,
+  MessageSquare,
+  Search,
+  Inbox,
 } from 'lucide-react'
+import { QuoteBuilderDialog } from './QuoteBuilderDialog'
+import { CordsetSpec } from '@/components/features/CordsetSpec'
+import { OrderStatusTimeline } from '@/components/features/OrderStatusTimeline'
+import { MessageThread } from '@/components/features/MessageThread'
+import { OwnerAssignment } from '@/components/features/OwnerAssignment'
+import {
+  ORDER_STATUSES,
+  ORDER_STATUS_TRANSITIONS,
+  REASON_REQUIRED_STATUSES,
+  orderStatusLabel,
+} from '@/lib/order-status'
+import { ORDER_SORT_KEYS, ORDER_SORT_LABELS, type OrderSortKey } from '@/lib/order-query'
+import { ASSIGNED_TO_ME, UNASSIGNED } from '@/lib/assignment-validation'
+import { CordsetConfiguration, OrderStatus, OrderStatusHistoryEntry, StockShortfall } from '@/types'
 
 interface Order {
   id: string
+  reference: string
   companyName: string
   contactName: string
   email: string
   phone: string
   items: Array<{
-    productId: string
+    productId: string | null
     sku: string
     name: string
     quantity: number
     notes?: string
+    configuration?: CordsetConfiguration | null
   }>
-  status: 'pending' | 'quoted' | 'approved' | 'rejected'
+  status: OrderStatus
+  quoteRevision?: number | null
+  statusHistory?: OrderStatusHistoryEntry[]
+  unreadMessages?: number // Messages this admin has not seen yet
+  assignedTo?: string | null
   notes?: string
   createdAt: string
   updatedAt: string
 }
 
+// Filters and sort sent to GET /api/orders and the export (see lib/order-query.ts)
+interface OrderListFilters {
+  status: OrderStatus | 'all'
+  from: string
+  to: string
+  company: string
+  email: string
+  sku: string
+  search: string
+  // '' for everyone's orders, "me", "none" (unassigned) or an admin's username
+  assignedTo: string
+  sort: OrderSortKey
+  direction: 'asc' | 'desc'
+}
+
+const emptyFilters: OrderListFilters = {
+  status: 'all',
+  from: '',
+  to: '',
+  company: '',
+  email: '',
+  sku: '',
+  search: '',
+  assignedTo: '',
+  sort: 'createdAt',
+  direction: 'desc',
+}
+
+const PAGE_SIZE = 50
+
 export default function AdminOrdersPage() {
   const { isAuthenticated } = useAdminAuth()
   const [orders, setOrders] = useState<Order[]>([])
-  const [filteredOrders, setFilteredOrders] = useState<Order[]>([])
+  const [admins, setAdmins] = useState<string[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
-  const [statusFilter, setStatusFilter] = useState<string>('all')
+  const [filters, setFilters] = useState<OrderListFilters>(emptyFilters)
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [isQuoteDialogOpen, setIsQuoteDialogOpen] = useState(false)
+  const [nextStatus, setNextStatus] = useState<OrderStatus | ''>('')
+  const [statusComment, setStatusComment] = useState('')
+  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false)
 
-  useEffect(() => {
-    if (isAuthenticated) {
-      fetchOrders()
+  const filterParams = useMemo(() => {
+    const params = new URLSearchParams()
+    if (filters.status !== 'all') params.set('status', filters.status)
+    for (const key of ['from', 'to', 'company', 'email', 'sku', 'search', 'assignedTo'] as const) {
+      if (filters[key].trim()) params.set(key, filters[key].trim())
     }
-  }, [isAuthenticated])
+    if (filters.sort !== emptyFilters.sort) params.set('sort', filters.sort)
+    if (filters.direction !== emptyFilters.direction) params.set('direction', filters.direction)
+    return params
+  }, [filters])
 
-  useEffect(() => {
-    if (statusFilter === 'all') {
-      setFilteredOrders(orders)
-    } else {
-      setFilteredOrders(orders.filter((order) => order.status === statusFilter))
-    }
-  }, [statusFilter, orders])
+  const updateFilters = (changes: Partial<OrderListFilters>) => {
+    setPage(1)
+    setFilters((current) => ({ ...current, ...changes }))
+  }
 
-  const fetchOrders = async () => {
+  const fetchOrders = useCallback(async () => {
     try {
-      setIsLoading(true)
       setError(null)
+      const params = new URLSearchParams(filterParams)
+      params.set('page', String(page))
+      params.set('limit', String(PAGE_SIZE))
       const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL || ''}/api/orders`,
+        `${process.env.NEXT_PUBLIC_API_URL || ''}/api/orders?${params.toString()}`,
       )
 
       if (!response.ok) {
@@ -98,20 +165,49 @@ export default function AdminOrdersPage() {
         items: order.items || [],
       }))
       setOrders(ordersWithItems)
-      setFilteredOrders(ordersWithItems)
+      setTotal(data.pagination?.total ?? ordersWithItems.length)
+      setTotalPages(Math.max(1, data.pagination?.totalPages ?? 1))
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to load orders. Please refresh the page or try again later.'
       setError(errorMessage)
       setOrders([])
-      setFilteredOrders([])
     } finally {
       setIsLoading(false)
     }
+  }, [filterParams, page])
+
+  // Load orders on sign-in and whenever the filters change (debounced while typing)
+  useEffect(() => {
+    if (!isAuthenticated) return
+    const timeout = setTimeout(fetchOrders, filterParams.toString() ? 300 : 0)
+    return () => clearTimeout(timeout)
+  }, [isAuthenticated, fetchOrders, filterParams])
+
+  // Owners to choose from in the filter and the order dialog
+  useEffect(() => {
+    if (!isAuthenticated) return
+    fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/admin/admins`, { credentials: 'include' })
+      .then((response) => (response.ok ? response.json() : { admins: [] }))
+      .then((data) => setAdmins(Array.isArray(data.admins) ? data.admins : []))
+      .catch(() => setAdmins([]))
+  }, [isAuthenticated])
+
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    // Browser download of every order matching the filters, one row per item; the admin_token cookie authenticates it
+    const params = new URLSearchParams(filterParams)
+    params.set('format', format)
+    window.location.href = `${process.env.NEXT_PUBLIC_API_URL || ''}/api/admin/orders/export?${params.toString()}`
   }
 
-  const handleStatusUpdate = async (orderId: string, newStatus: string) => {
+  const handleStatusUpdate = async (orderId: string, newStatus: OrderStatus) => {
     if (!isAuthenticated) return
 
+    if (REASON_REQUIRED_STATUSES.includes(newStatus) && !statusComment.trim()) {
+      alert(`Please give a reason for marking this order as ${orderStatusLabel(newStatus).toLowerCase()}`)
+      return
+    }
+
+    setIsUpdatingStatus(true)
     try {
       // Get CSRF token for state-changing operations
       const csrfResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/csrf-token`)
@@ -127,37 +223,98 @@ export default function AdminOrdersPage() {
             'X-CSRF-Token': csrfToken,
           },
           credentials: 'include',
-          body: JSON.stringify({ status: newStatus }),
+          body: JSON.stringify({ status: newStatus, comment: statusComment.trim() || undefined }),
         }
       )
 
-      if (!response.ok) throw new Error('Failed to update order')
+      const updated = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(updated.error || 'Failed to update order status')
 
       fetchOrders()
       if (selectedOrder?.id === orderId) {
-        setSelectedOrder({ ...selectedOrder, status: newStatus as any })
+        setSelectedOrder({ ...selectedOrder, status: updated.status, statusHistory: updated.statusHistory })
+      }
+      setNextStatus('')
+      setStatusComment('')
+
+      // Approval reserves stock; lines that could not be fully reserved need attention
+      if (Array.isArray(updated.stockShortfalls) && updated.stockShortfalls.length > 0) {
+        alert(
+          `Status updated, but stock could not be reserved for:\n${updated.stockShortfalls
+            .map((s: StockShortfall) => `${s.sku}: ${s.quantity} short`)
+            .join('\n')}`,
+        )
       }
-    } catch {
-      alert('Failed to update order status')
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update order status')
+    } finally {
+      setIsUpdatingStatus(false)
+    }
+  }
+
+  // The list does not include the status history; load the full order
+  const fetchOrderDetails = async (orderId: string) => {
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_API_URL || ''}/api/orders/${orderId}`,
+      { credentials: 'include' },
+    )
+    if (response.ok) {
+      const order = await response.json()
+      setSelectedOrder({ ...order, items: order.items || [] })
+    }
+  }
+
+  // Opening the conversation marks it as read
+  const selectedOrderId = selectedOrder?.id
+  const handleMessagesLoaded = useCallback(() => {
+    setOrders((current) =>
+      current.map((order) => (order.id === selectedOrderId ? { ...order, unreadMessages: 0 } : order)),
+    )
+  }, [selectedOrderId])
+
+  const handleOwnerChanged = (assignedTo: string | null) => {
+    if (!selectedOrder) return
+    setSelectedOrder({ ...selectedOrder, assignedTo })
+    fetchOrders()
+  }
+
+  const handleQuoteSaved = async () => {
+    if (!selectedOrder) return
+    try {
+      // Refresh status, history and quote revision of the open order
+      await fetchOrderDetails(selectedOrder.id)
+    } finally {
+      fetchOrders()
     }
   }
 
   const openOrderDetails = (order: Order) => {
     setSelectedOrder(order)
+    setNextStatus('')
+    setStatusComment('')
     setIsDialogOpen(true)
+    fetchOrderDetails(order.id).catch(() => {
+      // The dialog still shows the list data
+    })
   }
 
   const getStatusBadge = (status: string) => {
     const variants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
       pending: 'outline',
+      under_review: 'outline',
       quoted: 'secondary',
       approved: 'default',
+      po_received: 'default',
+      in_production: 'default',
+      dispatched: 'default',
+      closed: 'secondary',
       rejected: 'destructive',
+      cancelled: 'destructive',
     }
 
     return (
       <Badge variant={variants[status] || 'outline'}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {orderStatusLabel(status)}
       </Badge>
     )
   }
@@ -207,48 +364,200 @@ export default function AdminOrdersPage() {
           <h1 className="text-3xl font-bold text-gray-900">Orders</h1>
           <p className="text-gray-600 mt-2">Manage customer orders</p>
         </div>
-        <div className="flex items-center space-x-2">
-          <Filter className="h-4 w-4 text-gray-500" />
-          <Select value={statusFilter} onValueChange={setStatusFilter}>
-            <SelectTrigger className="w-[180px]">
-              <SelectValue placeholder="Filter by status" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Orders</SelectItem>
-              <SelectItem value="pending">Pending</SelectItem>
-              <SelectItem value="quoted">Quoted</SelectItem>
-              <SelectItem value="approved">Approved</SelectItem>
-              <SelectItem value="rejected">Rejected</SelectItem>
-            </SelectContent>
-          </Select>
+        <div className="flex items-center gap-2">
+          <Button
+            variant={filters.assignedTo === ASSIGNED_TO_ME ? 'default' : 'outline'}
+            onClick={() => updateFilters({ assignedTo: filters.assignedTo === ASSIGNED_TO_ME ? '' : ASSIGNED_TO_ME })}
+          >
+            <Inbox className="h-4 w-4 mr-2" aria-hidden="true" />
+            My queue
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('csv')} aria-label="Export orders as CSV">
+            <Download className="h-4 w-4 mr-2" aria-hidden="true" />
+            CSV
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('xlsx')} aria-label="Export orders as XLSX">
+            <Download className="h-4 w-4 mr-2" aria-hidden="true" />
+            XLSX
+          </Button>
         </div>
       </div>
 
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <div className="relative max-w-md">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" aria-hidden="true" />
+            <Input
+              type="search"
+              placeholder="Search by reference, company, contact, email or item"
+              value={filters.search}
+              onChange={(e) => updateFilters({ search: e.target.value })}
+              className="pl-9"
+              aria-label="Search orders"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            <div>
+              <Label htmlFor="order-filter-status">Status</Label>
+              <Select
+                value={filters.status}
+                onValueChange={(value) => updateFilters({ status: value as OrderListFilters['status'] })}
+              >
+                <SelectTrigger id="order-filter-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {ORDER_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {orderStatusLabel(status)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="order-filter-owner">Owner</Label>
+              <Select
+                value={filters.assignedTo || 'all'}
+                onValueChange={(value) => updateFilters({ assignedTo: value === 'all' ? '' : value })}
+              >
+                <SelectTrigger id="order-filter-owner">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All owners</SelectItem>
+                  <SelectItem value={ASSIGNED_TO_ME}>My queue</SelectItem>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {admins.map((username) => (
+                    <SelectItem key={username} value={username}>
+                      {username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="order-filter-from">Received from</Label>
+              <Input
+                id="order-filter-from"
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilters({ from: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="order-filter-to">Received to</Label>
+              <Input
+                id="order-filter-to"
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilters({ to: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="order-filter-sku">Item SKU</Label>
+              <Input
+                id="order-filter-sku"
+                value={filters.sku}
+                onChange={(e) => updateFilters({ sku: e.target.value })}
+                placeholder="e.g. M12-X"
+              />
+            </div>
+            <div>
+              <Label htmlFor="order-filter-company">Company</Label>
+              <Input
+                id="order-filter-company"
+                value={filters.company}
+                onChange={(e) => updateFilters({ company: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="order-filter-email">Email</Label>
+              <Input
+                id="order-filter-email"
+                value={filters.email}
+                onChange={(e) => updateFilters({ email: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="order-sort">Sort by</Label>
+              <div className="flex gap-2">
+                <Select value={filters.sort} onValueChange={(value) => updateFilters({ sort: value as OrderSortKey })}>
+                  <SelectTrigger id="order-sort">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ORDER_SORT_KEYS.map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {ORDER_SORT_LABELS[key]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={filters.direction}
+                  onValueChange={(value) => updateFilters({ direction: value as OrderListFilters['direction'] })}
+                >
+                  <SelectTrigger className="w-28" aria-label="Sort direction">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="desc">Desc</SelectItem>
+                    <SelectItem value="asc">Asc</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-end">
+              <Button
+                variant="ghost"
+                onClick={() => updateFilters(emptyFilters)}
+                disabled={!filterParams.toString()}
+              >
+                Clear filters
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardContent className="p-0">
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Order ID</TableHead>
+                <TableHead>Reference</TableHead>
                 <TableHead>Company</TableHead>
                 <TableHead>Contact</TableHead>
                 <TableHead>Items</TableHead>
                 <TableHead>Status</TableHead>
+                <TableHead>Owner</TableHead>
                 <TableHead>Date</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredOrders.length === 0 ? (
+              {orders.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                  <TableCell colSpan={8} className="text-center py-8 text-gray-500">
                     No orders found
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredOrders.map((order) => (
+                orders.map((order) => (
                   <TableRow key={order.id}>
-                    <TableCell className="font-medium">{order.id}</TableCell>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center space-x-2">
+                        <span className="whitespace-nowrap">{order.reference}</span>
+                        {!!order.unreadMessages && (
+                          <Badge variant="default" title="Unread messages">
+                            <MessageSquare className="h-3 w-3 mr-1" />
+                            {order.unreadMessages}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>{order.companyName}</TableCell>
                     <TableCell>
                       <div>
@@ -258,6 +567,9 @@ export default function AdminOrdersPage() {
                     </TableCell>
                     <TableCell>{order.items.length} item(s)</TableCell>
                     <TableCell>{getStatusBadge(order.status)}</TableCell>
+                    <TableCell className={order.assignedTo ? undefined : 'text-gray-400'}>
+                      {order.assignedTo ?? 'Unassigned'}
+                    </TableCell>
                     <TableCell>
                       {new Date(order.createdAt).toLocaleDateString()}
                     </TableCell>
@@ -278,6 +590,22 @@ export default function AdminOrdersPage() {
         </CardContent>
       </Card>
 
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            Page {page} of {totalPages} ({total} orders)
+          </p>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </Button>
+            <Button variant="outline" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Order Details Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
@@ -294,8 +622,8 @@ export default function AdminOrdersPage() {
                   <h3 className="font-semibold mb-2">Order Information</h3>
                   <div className="space-y-1 text-sm">
                     <div>
-                      <span className="text-gray-500">Order ID:</span>{' '}
-                      <span className="font-medium">{selectedOrder.id}</span>
+                      <span className="text-gray-500">Reference:</span>{' '}
+                      <span className="font-medium">{selectedOrder.reference}</span>
                     </div>
                     <div>
                       <span className="text-gray-500">Status:</span>{' '}
@@ -362,7 +690,15 @@ export default function AdminOrdersPage() {
                       {selectedOrder.items.map((item, index) => (
                         <TableRow key={index}>
                           <TableCell className="font-medium">{item.sku}</TableCell>
-                          <TableCell>{item.name}</TableCell>
+                          <TableCell>
+                            {item.name}
+                            {item.configuration && (
+                              <CordsetSpec configuration={item.configuration} className="mt-1" />
+                            )}
+                            {!item.productId && !item.configuration && (
+                              <div className="text-xs text-amber-700">Free text, not matched to a catalog product</div>
+                            )}
+                          </TableCell>
                           <TableCell>{item.quantity}</TableCell>
                           <TableCell className="text-sm text-gray-500">
                             {item.notes || '-'}
@@ -377,39 +713,132 @@ export default function AdminOrdersPage() {
               {/* Notes */}
               {selectedOrder.notes && (
                 <div>
-                  <h3 className="font-semibold mb-2">Order Notes</h3>
+                  <h3 className="font-semibold mb-2">Customer Notes</h3>
                   <p className="text-sm text-gray-700 bg-gray-50 p-3 rounded">
                     {selectedOrder.notes}
                   </p>
                 </div>
               )}
 
+              {/* Quotation */}
+              <div>
+                <h3 className="font-semibold mb-2">Quotation</h3>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-gray-600 mr-2">
+                    {selectedOrder.quoteRevision
+                      ? `Revision ${selectedOrder.quoteRevision} issued`
+                      : 'No quote issued yet'}
+                  </span>
+                  <Button size="sm" onClick={() => setIsQuoteDialogOpen(true)}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    {selectedOrder.quoteRevision ? 'Revise Quote' : 'Build Quote'}
+                  </Button>
+                  {selectedOrder.quoteRevision ? (
+                    <Button size="sm" variant="outline" asChild>
+                      <a href={`${process.env.NEXT_PUBLIC_API_URL || ''}/api/orders/${selectedOrder.id}/quote/pdf`}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download PDF
+                      </a>
+                    </Button>
+                  ) : null}
+                </div>
+              </div>
+
               {/* Status Update */}
               <div>
                 <h3 className="font-semibold mb-2">Update Status</h3>
-                <div className="flex items-center space-x-2">
-                  <Select
-                    value={selectedOrder.status}
-                    onValueChange={(value) =>
-                      handleStatusUpdate(selectedOrder.id, value)
-                    }
-                  >
-                    <SelectTrigger className="w-[200px]">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="quoted">Quoted</SelectItem>
-                      <SelectItem value="approved">Approved</SelectItem>
-                      <SelectItem value="rejected">Rejected</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                {ORDER_STATUS_TRANSITIONS[selectedOrder.status]?.length ? (
+                  <div className="space-y-3">
+                    <Select
+                      value={nextStatus}
+                      onValueChange={(value) => setNextStatus(value as OrderStatus)}
+                    >
+                      <SelectTrigger className="w-[240px]" aria-label="Next status">
+                        <SelectValue placeholder="Choose the next status" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ORDER_STATUS_TRANSITIONS[selectedOrder.status].map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {orderStatusLabel(status)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div>
+                      <Label htmlFor="status-comment">
+                        {nextStatus && REASON_REQUIRED_STATUSES.includes(nextStatus) ? 'Reason *' : 'Comment'}
+                      </Label>
+                      <textarea
+                        id="status-comment"
+                        value={statusComment}
+                        onChange={(e) => setStatusComment(e.target.value)}
+                        maxLength={1000}
+                        rows={3}
+                        className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Shown to the customer in their status history and in the status email.
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => nextStatus && handleStatusUpdate(selectedOrder.id, nextStatus)}
+                      disabled={!nextStatus || isUpdatingStatus}
+                    >
+                      {isUpdatingStatus && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Update Status
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600">
+                    {orderStatusLabel(selectedOrder.status)} orders can no longer change status.
+                  </p>
+                )}
+              </div>
+
+              {/* Owner */}
+              <div>
+                <h3 className="font-semibold mb-3">Owner</h3>
+                <OwnerAssignment
+                  endpoint={`/api/orders/${selectedOrder.id}/assignment`}
+                  admins={admins}
+                  onChanged={handleOwnerChanged}
+                />
+              </div>
+
+              {/* Status History */}
+              <div>
+                <h3 className="font-semibold mb-3">Status History</h3>
+                {selectedOrder.statusHistory ? (
+                  <OrderStatusTimeline history={selectedOrder.statusHistory} />
+                ) : (
+                  <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                )}
+              </div>
+
+              {/* Messages */}
+              <div>
+                <h3 className="font-semibold mb-3">Messages</h3>
+                <MessageThread
+                  endpoint={`/api/orders/${selectedOrder.id}/messages`}
+                  viewer="admin"
+                  visibleHint="The customer sees this on their RFQ page and gets an email."
+                  onLoaded={handleMessagesLoaded}
+                />
               </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
+
+      <QuoteBuilderDialog
+        orderId={selectedOrder?.id ?? null}
+        reference={selectedOrder?.reference}
+        companyName={selectedOrder?.companyName}
+        open={isQuoteDialogOpen}
+        onOpenChange={setIsQuoteDialogOpen}
+        onSaved={handleQuoteSaved}
+      />
     </div>
   )
 }
@@ -15,6 +15,7 @@ import {
   XCircle,
 } from 'lucide-react'
 import { useAdminAuth } from '@/store/admin-auth-store'
+import { REASON_REQUIRED_STATUSES, orderStatusLabel } from '@/lib/order-status'
 
 interface DashboardStats {
   totalProducts: number
@@ -253,18 +254,18 @@ export default function AdminDashboard() {
                     <div className="flex-1">
                       <p className="text-sm font-medium">{order.companyName || 'N/A'}</p>
                       <p className="text-xs text-gray-500">
-                        {new Date(order.createdAt).toLocaleDateString()}
+                        {order.reference} · {new Date(order.createdAt).toLocaleDateString()}
                       </p>
                     </div>
                     <div className="flex items-center space-x-2">
-                      {order.status === 'pending' ? (
+                      {order.status === 'pending' || order.status === 'under_review' ? (
                         <Clock className="h-4 w-4 text-yellow-500" />
-                      ) : order.status === 'approved' ? (
-                        <CheckCircle className="h-4 w-4 text-green-500" />
-                      ) : (
+                      ) : REASON_REQUIRED_STATUSES.includes(order.status) ? (
                         <XCircle className="h-4 w-4 text-red-500" />
+                      ) : (
+                        <CheckCircle className="h-4 w-4 text-green-500" />
                       )}
-                      <span className="text-xs capitalize">{order.status}</span>
+                      <span className="text-xs">{orderStatusLabel(order.status)}</span>
                     </div>
                   </div>
                 ))}
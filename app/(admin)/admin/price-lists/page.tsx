@@ -0,0 +1,465 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useAdminAuth } from '@/store/admin-auth-store'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Loader2,
+} from 'lucide-react'
+import { CustomerGroup, PriceList, PriceListItem } from '@/types'
+
+interface PriceListFormState {
+  name: string
+  customerGroupId?: string
+  discountPercent: string
+  validFrom: string
+  validTo: string
+  active: boolean
+  items: string
+}
+
+const emptyForm: PriceListFormState = {
+  name: '',
+  customerGroupId: undefined,
+  discountPercent: '0',
+  validFrom: '',
+  validTo: '',
+  active: true,
+  items: '',
+}
+
+// Items are edited as "SKU, unit price" lines so contract sheets can be pasted in
+const formatItems = (items: PriceListItem[]) => items.map((item) => `${item.sku}, ${item.unitPrice}`).join('\n')
+
+const parseItems = (text: string) => {
+  const items: Array<{ sku: string; unitPrice: string }> = []
+  const invalidLines: number[] = []
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) return
+    const match = line.match(/^\s*([^,\t]+?)\s*[,\t]\s*([\d.]+)\s*$/)
+    if (match) {
+      items.push({ sku: match[1], unitPrice: match[2] })
+    } else {
+      invalidLines.push(index + 1)
+    }
+  })
+  return { items, invalidLines }
+}
+
+const isCurrent = (list: PriceList) => {
+  const today = new Date().toISOString().slice(0, 10)
+  return list.active && (!list.validFrom || list.validFrom <= today) && (!list.validTo || list.validTo >= today)
+}
+
+export default function AdminPriceListsPage() {
+  const { isAuthenticated } = useAdminAuth()
+  const [priceLists, setPriceLists] = useState<PriceList[]>([])
+  const [groups, setGroups] = useState<CustomerGroup[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingList, setEditingList] = useState<PriceList | null>(null)
+  const [form, setForm] = useState<PriceListFormState>(emptyForm)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    fetchPriceLists()
+    fetchGroups()
+  }, [])
+
+  const fetchPriceLists = async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/price-lists`, {
+        credentials: 'include',
+      })
+      if (!response.ok) throw new Error('Failed to fetch price lists')
+      const data = await response.json()
+      setPriceLists(Array.isArray(data.priceLists) ? data.priceLists : [])
+    } catch {
+      setPriceLists([])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const fetchGroups = async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/customer-groups`, {
+        credentials: 'include',
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setGroups(Array.isArray(data.groups) ? data.groups : [])
+      }
+    } catch {
+      // Silently fail - the group select stays empty
+    }
+  }
+
+  const openCreateDialog = () => {
+    setEditingList(null)
+    setForm(emptyForm)
+    setIsDialogOpen(true)
+  }
+
+  const openEditDialog = async (list: PriceList) => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/price-lists/${list.id}`, {
+        credentials: 'include',
+      })
+      if (!response.ok) throw new Error('Failed to load price list')
+      const data: PriceList = await response.json()
+
+      setEditingList(data)
+      setForm({
+        name: data.name,
+        customerGroupId: data.customerGroupId,
+        discountPercent: String(data.discountPercent),
+        validFrom: data.validFrom || '',
+        validTo: data.validTo || '',
+        active: data.active,
+        items: formatItems(data.items || []),
+      })
+      setIsDialogOpen(true)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to load price list')
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isAuthenticated) {
+      alert('Authentication required. Please log in again.')
+      return
+    }
+
+    const { items, invalidLines } = parseItems(form.items)
+    if (invalidLines.length > 0) {
+      alert(`Item lines must be "SKU, unit price". Check line ${invalidLines.join(', ')}.`)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+      const csrfToken = csrfData.token
+
+      const url = editingList
+        ? `${process.env.NEXT_PUBLIC_API_URL || ''}/api/price-lists/${editingList.id}`
+        : `${process.env.NEXT_PUBLIC_API_URL || ''}/api/price-lists`
+
+      const response = await fetch(url, {
+        method: editingList ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfToken,
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          name: form.name,
+          customerGroupId: form.customerGroupId ?? '',
+          discountPercent: form.discountPercent.trim() || 0,
+          validFrom: form.validFrom || null,
+          validTo: form.validTo || null,
+          active: form.active,
+          items,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Failed to save price list' }))
+        const details = Array.isArray(errorData.details)
+          ? `: ${errorData.details.map((d: any) => `${d.field} ${d.message}`).join(', ')}`
+          : ''
+        throw new Error(`${errorData.error || 'Failed to save price list'}${details}`)
+      }
+
+      setIsDialogOpen(false)
+      fetchPriceLists()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save price list. Please try again.'
+      alert(errorMessage)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (list: PriceList) => {
+    if (!isAuthenticated || !confirm('Are you sure you want to delete this price list?')) return
+
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+      const csrfToken = csrfData.token
+
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL || ''}/api/price-lists/${list.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            'X-CSRF-Token': csrfToken,
+          },
+          credentials: 'include',
+        }
+      )
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Failed to delete price list' }))
+        throw new Error(errorData.error || 'Failed to delete price list')
+      }
+
+      fetchPriceLists()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete price list. Please try again.'
+      alert(errorMessage)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Price Lists</h1>
+          <p className="text-gray-600 mt-2">Contract prices and discounts for customer groups</p>
+        </div>
+        <Button onClick={openCreateDialog} disabled={groups.length === 0}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Price List
+        </Button>
+      </div>
+
+      {groups.length === 0 && (
+        <p className="text-sm text-gray-500">Create a customer group before adding price lists.</p>
+      )}
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Customer Group</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead>Validity</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {priceLists.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                    No price lists found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                priceLists.map((list) => (
+                  <TableRow key={list.id}>
+                    <TableCell className="font-medium">{list.name}</TableCell>
+                    <TableCell>{list.customerGroupName}</TableCell>
+                    <TableCell>{list.discountPercent > 0 ? `${list.discountPercent}%` : '-'}</TableCell>
+                    <TableCell>{list.itemCount ?? 0}</TableCell>
+                    <TableCell className="text-sm">
+                      {list.validFrom || list.validTo
+                        ? `${list.validFrom || 'Open'} – ${list.validTo || 'Open'}`
+                        : 'Always'}
+                    </TableCell>
+                    <TableCell>
+                      {isCurrent(list) ? (
+                        <Badge variant="secondary">Current</Badge>
+                      ) : (
+                        <Badge variant="outline">{list.active ? 'Out of validity' : 'Inactive'}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openEditDialog(list)}
+                          aria-label={`Edit price list ${list.name}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(list)}
+                          aria-label={`Delete price list ${list.name}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingList ? 'Edit Price List' : 'Create Price List'}
+            </DialogTitle>
+            <DialogDescription>
+              Item prices replace the catalog price for the group; the discount applies to every other product.
+              When several lists are current, customers get the lowest item price and the largest discount.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="price-list-name">Name *</Label>
+              <Input
+                id="price-list-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="OEM Contract 2026"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Customer Group *</Label>
+                <Select
+                  value={form.customerGroupId}
+                  onValueChange={(value) => setForm({ ...form, customerGroupId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a group" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {groups.map((group) => (
+                      <SelectItem key={group.id} value={group.id}>
+                        {group.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="price-list-discount">Discount (%)</Label>
+                <Input
+                  id="price-list-discount"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={form.discountPercent}
+                  onChange={(e) => setForm({ ...form, discountPercent: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="price-list-valid-from">Valid From</Label>
+                <Input
+                  id="price-list-valid-from"
+                  type="date"
+                  value={form.validFrom}
+                  onChange={(e) => setForm({ ...form, validFrom: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="price-list-valid-to">Valid To</Label>
+                <Input
+                  id="price-list-valid-to"
+                  type="date"
+                  value={form.validTo}
+                  onChange={(e) => setForm({ ...form, validTo: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="price-list-active"
+                checked={form.active}
+                onCheckedChange={(checked) => setForm({ ...form, active: checked === true })}
+              />
+              <Label htmlFor="price-list-active" className="cursor-pointer">
+                Active
+              </Label>
+            </div>
+
+            <div>
+              <Label htmlFor="price-list-items">Contract Prices</Label>
+              <textarea
+                id="price-list-items"
+                value={form.items}
+                onChange={(e) => setForm({ ...form, items: e.target.value })}
+                className="flex min-h-[160px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-sm"
+                rows={8}
+                placeholder={'One item per line: SKU, unit price\nM12-A4-PUR-2M, 412.50'}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Unit prices are in the product&apos;s price unit. Comma- or tab-separated, so columns can be
+                pasted from a spreadsheet.
+              </p>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingList ? 'Update' : 'Create'} Price List
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,462 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useAdminAuth } from '@/store/admin-auth-store'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Loader2,
+  Upload,
+} from 'lucide-react'
+import { Category, ProductFamily, VariantAxis } from '@/types'
+
+interface FamilyFormState {
+  name: string
+  description: string
+  categoryId?: string
+  images: string
+  axes: VariantAxis[]
+}
+
+const emptyForm: FamilyFormState = {
+  name: '',
+  description: '',
+  categoryId: undefined,
+  images: '',
+  axes: [{ key: '', label: '' }],
+}
+
+export default function AdminProductFamiliesPage() {
+  const { isAuthenticated } = useAdminAuth()
+  const [families, setFamilies] = useState<ProductFamily[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingFamily, setEditingFamily] = useState<ProductFamily | null>(null)
+  const [form, setForm] = useState<FamilyFormState>(emptyForm)
+  const [isSaving, setIsSaving] = useState(false)
+  const [uploadingImage, setUploadingImage] = useState(false)
+
+  useEffect(() => {
+    fetchFamilies()
+    fetchCategories()
+  }, [])
+
+  const fetchFamilies = async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/product-families`)
+      if (!response.ok) throw new Error('Failed to fetch product families')
+      const data = await response.json()
+      setFamilies(Array.isArray(data.families) ? data.families : [])
+    } catch {
+      setFamilies([])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const fetchCategories = async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/categories?limit=1000`)
+      if (response.ok) {
+        const data = await response.json()
+        setCategories(Array.isArray(data.categories) ? data.categories : [])
+      }
+    } catch {
+      // Silently fail - categories are optional
+    }
+  }
+
+  const openCreateDialog = () => {
+    setEditingFamily(null)
+    setForm(emptyForm)
+    setIsDialogOpen(true)
+  }
+
+  const openEditDialog = (family: ProductFamily) => {
+    setEditingFamily(family)
+    setForm({
+      name: family.name,
+      description: family.description || '',
+      categoryId: family.categoryId || undefined,
+      images: (family.images || []).join('\n'),
+      axes: family.axes.length > 0 ? family.axes : [{ key: '', label: '' }],
+    })
+    setIsDialogOpen(true)
+  }
+
+  const updateAxis = (index: number, changes: Partial<VariantAxis>) => {
+    setForm((current) => ({
+      ...current,
+      axes: current.axes.map((axis, i) => (i === index ? { ...axis, ...changes } : axis)),
+    }))
+  }
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setUploadingImage(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/admin/upload`, {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      })
+
+      if (!response.ok) throw new Error('Upload failed')
+
+      const data = await response.json()
+      setForm((current) => ({
+        ...current,
+        images: current.images.trim() ? `${current.images.trim()}\n${data.url}` : data.url,
+      }))
+    } catch {
+      alert('Failed to upload image')
+    } finally {
+      setUploadingImage(false)
+      e.target.value = ''
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isAuthenticated) {
+      alert('Authentication required. Please log in again.')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+      const csrfToken = csrfData.token
+
+      const url = editingFamily
+        ? `${process.env.NEXT_PUBLIC_API_URL || ''}/api/product-families/${editingFamily.id}`
+        : `${process.env.NEXT_PUBLIC_API_URL || ''}/api/product-families`
+
+      const response = await fetch(url, {
+        method: editingFamily ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfToken,
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description.trim() || undefined,
+          categoryId: form.categoryId ?? null,
+          images: form.images.split('\n').map((url) => url.trim()).filter(Boolean),
+          axes: form.axes.filter((axis) => axis.key.trim() || axis.label.trim()),
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Failed to save product family' }))
+        const details = Array.isArray(errorData.details)
+          ? `: ${errorData.details.map((d: any) => `${d.field} ${d.message}`).join(', ')}`
+          : ''
+        throw new Error(`${errorData.error || 'Failed to save product family'}${details}`)
+      }
+
+      setIsDialogOpen(false)
+      fetchFamilies()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save product family. Please try again.'
+      alert(errorMessage)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (family: ProductFamily) => {
+    const message = family.variantCount
+      ? `Delete this family? Its ${family.variantCount} variants will remain as standalone products.`
+      : 'Are you sure you want to delete this product family?'
+    if (!isAuthenticated || !confirm(message)) return
+
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+      const csrfToken = csrfData.token
+
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL || ''}/api/product-families/${family.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            'X-CSRF-Token': csrfToken,
+          },
+          credentials: 'include',
+        }
+      )
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Failed to delete product family' }))
+        throw new Error(errorData.error || 'Failed to delete product family')
+      }
+
+      fetchFamilies()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete product family. Please try again.'
+      alert(errorMessage)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Product Families</h1>
+          <p className="text-gray-600 mt-2">Group variant SKUs under shared content</p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Family
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Variant Axes</TableHead>
+                <TableHead>Variants</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {families.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                    No product families found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                families.map((family) => (
+                  <TableRow key={family.id}>
+                    <TableCell className="font-medium">{family.name}</TableCell>
+                    <TableCell>
+                      {categories.find((category) => category.id === family.categoryId)?.name || '-'}
+                    </TableCell>
+                    <TableCell>{family.axes.map((axis) => axis.label).join(', ')}</TableCell>
+                    <TableCell>{family.variantCount ?? 0}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openEditDialog(family)}
+                          aria-label={`Edit family ${family.name}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(family)}
+                          aria-label={`Delete family ${family.name}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingFamily ? 'Edit Product Family' : 'Create Product Family'}
+            </DialogTitle>
+            <DialogDescription>
+              Variants are assigned to the family from the product form, with a value for each axis.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="family-name">Name *</Label>
+              <Input
+                id="family-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="M12 Cordset A-Code, 4-pin"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="family-description">Shared Description</Label>
+              <textarea
+                id="family-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="flex min-h-[100px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                rows={4}
+              />
+            </div>
+
+            <div>
+              <Label>Category</Label>
+              <Select
+                value={form.categoryId || '__none__'}
+                onValueChange={(value) => setForm({ ...form, categoryId: value === '__none__' ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent className="max-h-[300px] overflow-y-auto">
+                  <SelectItem value="__none__">No Category</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="family-images">Shared Images</Label>
+              <textarea
+                id="family-images"
+                value={form.images}
+                onChange={(e) => setForm({ ...form, images: e.target.value })}
+                className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                rows={3}
+                placeholder="One image URL per line"
+              />
+              <p className="text-xs text-gray-500 mt-1">Shown for variants that have no images of their own</p>
+              <div className="mt-2">
+                <Label htmlFor="family-image-upload" className="cursor-pointer">
+                  <Button type="button" variant="outline" size="sm" asChild>
+                    <span>
+                      {uploadingImage ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Upload className="h-4 w-4 mr-2" />
+                      )}
+                      Upload Image
+                    </span>
+                  </Button>
+                  <input
+                    id="family-image-upload"
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={handleImageUpload}
+                  />
+                </Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Variant Axes *</Label>
+              <p className="text-xs text-gray-500">
+                What the variants differ in, e.g. key &quot;length&quot; with label &quot;Cable Length&quot;
+              </p>
+              {form.axes.map((axis, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={axis.key}
+                    onChange={(e) => updateAxis(index, { key: e.target.value })}
+                    placeholder="Key (e.g. mantleMaterial)"
+                    aria-label={`Axis ${index + 1} key`}
+                  />
+                  <Input
+                    value={axis.label}
+                    onChange={(e) => updateAxis(index, { label: e.target.value })}
+                    placeholder="Label (e.g. Mantle Material)"
+                    aria-label={`Axis ${index + 1} label`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setForm({ ...form, axes: form.axes.filter((_, i) => i !== index) })}
+                    aria-label={`Remove axis ${index + 1}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setForm({ ...form, axes: [...form.axes, { key: '', label: '' }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Axis
+              </Button>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingFamily ? 'Update' : 'Create'} Family
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
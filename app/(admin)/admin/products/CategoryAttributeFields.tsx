@@ -0,0 +1,95 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CategoryAttribute, ProductAttributeValue } from '@/types'
+
+interface CategoryAttributeFieldsProps {
+  attributes: CategoryAttribute[]
+  values: Record<string, ProductAttributeValue>
+  onChange: (key: string, value: ProductAttributeValue | undefined) => void
+}
+
+// Form fields for the attribute template of the selected category
+export function CategoryAttributeFields({ attributes, values, onChange }: CategoryAttributeFieldsProps) {
+  if (attributes.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div>
+        <h3 className="text-sm font-semibold">Category Attributes</h3>
+        <p className="text-xs text-gray-500">Defined by the selected category and its parent categories</p>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        {attributes.map((attribute) => {
+          const id = `attribute-${attribute.key}`
+          const value = values[attribute.key]
+          const label = `${attribute.label}${attribute.unit ? ` (${attribute.unit})` : ''}${attribute.required ? ' *' : ''}`
+
+          if (attribute.dataType === 'boolean') {
+            return (
+              <div key={attribute.key} className="flex items-center space-x-2 pt-6">
+                <Checkbox
+                  id={id}
+                  checked={value === true || value === 'true'}
+                  onCheckedChange={(checked) => onChange(attribute.key, checked === true)}
+                />
+                <Label htmlFor={id} className="cursor-pointer">
+                  {label}
+                </Label>
+              </div>
+            )
+          }
+
+          if (attribute.dataType === 'select') {
+            return (
+              <div key={attribute.key}>
+                <Label htmlFor={id}>{label}</Label>
+                <Select
+                  value={typeof value === 'string' && value ? value : '__none__'}
+                  onValueChange={(selected) => onChange(attribute.key, selected === '__none__' ? undefined : selected)}
+                >
+                  <SelectTrigger id={id}>
+                    <SelectValue placeholder={`Select ${attribute.label.toLowerCase()}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__none__">Not set</SelectItem>
+                    {attribute.allowedValues.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )
+          }
+
+          return (
+            <div key={attribute.key}>
+              <Label htmlFor={id}>{label}</Label>
+              <Input
+                id={id}
+                type={attribute.dataType === 'number' ? 'number' : 'text'}
+                step={attribute.dataType === 'number' ? 'any' : undefined}
+                value={value === undefined || value === null ? '' : String(value)}
+                // Numbers are sent as typed; the API converts and validates them
+                onChange={(e) => onChange(attribute.key, e.target.value === '' ? undefined : e.target.value)}
+              />
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
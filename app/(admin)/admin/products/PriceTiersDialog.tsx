@@ -0,0 +1,221 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { formatPrice } from '@/lib/format-price'
+import { PriceTier, Product } from '@/types'
+
+interface PriceTiersDialogProps {
+  product: Product | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Editable row; numbers are kept as typed and validated by the API
+interface TierRow {
+  minQuantity: string
+  unitPrice: string
+  customerGroup: string
+}
+
+const toRow = (tier: PriceTier): TierRow => ({
+  minQuantity: String(tier.minQuantity),
+  unitPrice: String(tier.unitPrice),
+  customerGroup: tier.customerGroup || '',
+})
+
+export function PriceTiersDialog({ product, open, onOpenChange }: PriceTiersDialogProps) {
+  const [rows, setRows] = useState<TierRow[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+  const productId = product?.id
+
+  const loadTiers = useCallback(async () => {
+    if (!productId) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`${apiUrl}/api/products/${productId}/price-tiers`, {
+        credentials: 'include',
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load price tiers')
+      }
+      setRows(Array.isArray(data.tiers) ? data.tiers.map(toRow) : [])
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load price tiers')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [apiUrl, productId])
+
+  useEffect(() => {
+    if (open && productId) {
+      loadTiers()
+    } else {
+      setRows([])
+      setError(null)
+    }
+  }, [open, productId, loadTiers])
+
+  const updateRow = (index: number, changes: Partial<TierRow>) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const addRow = () => {
+    setRows((current) => [...current, { minQuantity: '', unitPrice: '', customerGroup: '' }])
+  }
+
+  const removeRow = (index: number) => {
+    setRows((current) => current.filter((_, i) => i !== index))
+  }
+
+  const handleSave = async () => {
+    if (!productId) return
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+
+      const response = await fetch(`${apiUrl}/api/products/${productId}/price-tiers`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfData.token,
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          tiers: rows.map((row) => ({
+            minQuantity: row.minQuantity.trim(),
+            unitPrice: row.unitPrice.trim(),
+            customerGroup: row.customerGroup.trim() || null,
+          })),
+        }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        const details = Array.isArray(data.details)
+          ? `: ${data.details.map((d: any) => `${d.field} ${d.message}`).join(', ')}`
+          : ''
+        throw new Error(`${data.error || 'Failed to save price tiers'}${details}`)
+      }
+
+      setRows(Array.isArray(data.tiers) ? data.tiers.map(toRow) : [])
+      onOpenChange(false)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save price tiers')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Price Tiers{product ? ` for ${product.sku}` : ''}</DialogTitle>
+          <DialogDescription>
+            Quantity breaks in the product&apos;s price unit
+            {product?.price != null ? ` (base price ${formatPrice(product.price, product.priceType)})` : ''}. A tier
+            with a customer group only applies to customers in that group.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rows.length === 0 && (
+              <p className="text-sm text-gray-500">This product has no quantity breaks; the base price applies.</p>
+            )}
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] items-end gap-3">
+                <div>
+                  <Label htmlFor={`tier-min-${index}`}>Min. Quantity *</Label>
+                  <Input
+                    id={`tier-min-${index}`}
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={row.minQuantity}
+                    onChange={(e) => updateRow(index, { minQuantity: e.target.value })}
+                    placeholder="100"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`tier-price-${index}`}>Unit Price (₹) *</Label>
+                  <Input
+                    id={`tier-price-${index}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={row.unitPrice}
+                    onChange={(e) => updateRow(index, { unitPrice: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`tier-group-${index}`}>Customer Group</Label>
+                  <Input
+                    id={`tier-group-${index}`}
+                    value={row.customerGroup}
+                    onChange={(e) => updateRow(index, { customerGroup: e.target.value })}
+                    placeholder="All customers"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeRow(index)}
+                  aria-label={`Remove tier ${index + 1}`}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" aria-hidden="true" />
+                </Button>
+              </div>
+            ))}
+
+            <Button type="button" variant="outline" onClick={addRow}>
+              <Plus className="h-4 w-4 mr-2" aria-hidden="true" />
+              Add Tier
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving || isLoading}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Tiers
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
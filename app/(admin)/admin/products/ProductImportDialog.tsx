@@ -0,0 +1,248 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Loader2 } from 'lucide-react'
+
+type ImportAction = 'create' | 'update' | 'skip' | 'error'
+
+interface ImportRow {
+  row: number
+  sku: string
+  action: ImportAction
+  changes: { column: string; from: string; to: string }[]
+  errors: { field: string; message: string }[]
+}
+
+interface ImportPlan {
+  columns: string[]
+  rows: ImportRow[]
+  summary: Record<ImportAction, number>
+}
+
+interface ProductImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: () => void
+}
+
+const actionStyles: Record<ImportAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  skip: 'bg-gray-100 text-gray-700',
+  error: 'bg-red-100 text-red-800',
+}
+
+export function ProductImportDialog({ open, onOpenChange, onImported }: ProductImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [committed, setCommitted] = useState(false)
+
+  const resetState = () => {
+    setFile(null)
+    setPlan(null)
+    setError(null)
+    setCommitted(false)
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) resetState()
+    onOpenChange(next)
+  }
+
+  const submit = async (dryRun: boolean) => {
+    if (!file) return
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('dryRun', dryRun ? 'true' : 'false')
+
+      // Use fetch directly for FormData (apiClient doesn't handle FormData well)
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/admin/products/import`, {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      })
+
+      let data: any
+      try {
+        data = await response.json()
+      } catch {
+        throw new Error(response.statusText || `Server returned error ${response.status}`)
+      }
+
+      if (data?.rows) {
+        setPlan(data)
+      }
+      if (!response.ok) {
+        throw new Error(data?.error || 'Import failed')
+      }
+
+      if (!dryRun) {
+        setCommitted(true)
+        onImported()
+      }
+    } catch (error: any) {
+      setError(error?.message || 'Import failed')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const hasErrors = (plan?.summary.error ?? 0) > 0
+  const hasChanges = plan ? plan.summary.create + plan.summary.update > 0 : false
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file using the export column layout. Rows are matched by SKU;
+            review the preview before committing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="product-import-file">File</Label>
+            <Input
+              id="product-import-file"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null)
+                setPlan(null)
+                setError(null)
+                setCommitted(false)
+              }}
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+          )}
+
+          {committed && (
+            <div className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">
+              Import complete: {plan?.summary.create ?? 0} created, {plan?.summary.update ?? 0} updated.
+            </div>
+          )}
+
+          {plan && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(actionStyles) as ImportAction[]).map((action) => (
+                  <Badge key={action} variant="outline" className={actionStyles[action]}>
+                    {action}: {plan.summary[action]}
+                  </Badge>
+                ))}
+              </div>
+
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>SKU</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.rows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-6 text-gray-500">
+                          No rows found in file
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      plan.rows.map((row) => (
+                        <TableRow key={row.row}>
+                          <TableCell>{row.row}</TableCell>
+                          <TableCell className="font-mono text-sm">{row.sku || '—'}</TableCell>
+                          <TableCell>
+                            <span className={`px-2 py-1 rounded text-xs font-medium ${actionStyles[row.action]}`}>
+                              {row.action}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {row.errors.length > 0 ? (
+                              <ul className="text-red-600 space-y-1">
+                                {row.errors.map((e, i) => (
+                                  <li key={i}>
+                                    <span className="font-medium">{e.field}:</span> {e.message}
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : row.action === 'update' ? (
+                              <ul className="space-y-1">
+                                {row.changes.map((change) => (
+                                  <li key={change.column}>
+                                    <span className="font-medium">{change.column}:</span>{' '}
+                                    <span className="text-gray-500 line-through">{change.from || '(empty)'}</span>{' '}
+                                    → {change.to || '(empty)'}
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : row.action === 'create' ? (
+                              <span className="text-gray-600">{row.changes.length} columns set</span>
+                            ) : (
+                              <span className="text-gray-500">No changes</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+            {committed ? 'Close' : 'Cancel'}
+          </Button>
+          {!committed && (
+            <>
+              <Button variant="outline" onClick={() => submit(true)} disabled={!file || isSubmitting}>
+                {isSubmitting && !plan ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                Preview
+              </Button>
+              <Button onClick={() => submit(false)} disabled={!plan || hasErrors || !hasChanges || isSubmitting}>
+                {isSubmitting && plan ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                Commit Import
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
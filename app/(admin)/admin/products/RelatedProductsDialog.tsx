@@ -0,0 +1,240 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ArrowUp, Loader2, Plus, Trash2 } from 'lucide-react'
+import { PRODUCT_RELATION_LABELS, PRODUCT_RELATION_TYPES } from '@/lib/product-relation-validation'
+import { Product, ProductRelation, ProductRelationType } from '@/types'
+
+interface RelatedProductsDialogProps {
+  product: Product | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Editable row; the name is shown for saved relations only
+interface RelationRow {
+  type: ProductRelationType
+  sku: string
+  name?: string
+}
+
+const toRow = (relation: ProductRelation): RelationRow => ({
+  type: relation.type,
+  sku: relation.product?.sku || '',
+  name: relation.product?.name,
+})
+
+export function RelatedProductsDialog({ product, open, onOpenChange }: RelatedProductsDialogProps) {
+  const [rows, setRows] = useState<RelationRow[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+  const productId = product?.id
+
+  const loadRelations = useCallback(async () => {
+    if (!productId) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`${apiUrl}/api/products/${productId}/relations`, {
+        credentials: 'include',
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load related products')
+      }
+      setRows(Array.isArray(data.relations) ? data.relations.map(toRow) : [])
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load related products')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [apiUrl, productId])
+
+  useEffect(() => {
+    if (open && productId) {
+      loadRelations()
+    } else {
+      setRows([])
+      setError(null)
+    }
+  }, [open, productId, loadRelations])
+
+  const updateRow = (index: number, changes: Partial<RelationRow>) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const addRow = () => {
+    setRows((current) => [...current, { type: 'accessory', sku: '' }])
+  }
+
+  const removeRow = (index: number) => {
+    setRows((current) => current.filter((_, i) => i !== index))
+  }
+
+  const moveUp = (index: number) => {
+    if (index === 0) return
+    setRows((current) => {
+      const next = [...current]
+      ;[next[index - 1], next[index]] = [next[index], next[index - 1]]
+      return next
+    })
+  }
+
+  const handleSave = async () => {
+    if (!productId) return
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+
+      const response = await fetch(`${apiUrl}/api/products/${productId}/relations`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfData.token,
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          relations: rows.map((row) => ({ type: row.type, sku: row.sku.trim() })),
+        }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        const details = Array.isArray(data.details)
+          ? `: ${data.details.map((d: any) => d.message).join(', ')}`
+          : ''
+        throw new Error(`${data.error || 'Failed to save related products'}${details}`)
+      }
+
+      setRows(Array.isArray(data.relations) ? data.relations.map(toRow) : [])
+      onOpenChange(false)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save related products')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Related Products{product ? ` for ${product.sku}` : ''}</DialogTitle>
+          <DialogDescription>
+            Shown on the product page in list order. Mating connectors and alternatives also
+            appear on the other product.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rows.length === 0 && (
+              <p className="text-sm text-gray-500">
+                No related products; the product page suggests products of the same category with the same coding
+                and pin count instead.
+              </p>
+            )}
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[180px_1fr_auto_auto] items-end gap-3">
+                <div>
+                  <Label htmlFor={`relation-type-${index}`}>Relation</Label>
+                  <Select
+                    value={row.type}
+                    onValueChange={(value) => updateRow(index, { type: value as ProductRelationType })}
+                  >
+                    <SelectTrigger id={`relation-type-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRODUCT_RELATION_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {PRODUCT_RELATION_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor={`relation-sku-${index}`}>SKU *</Label>
+                  <Input
+                    id={`relation-sku-${index}`}
+                    value={row.sku}
+                    onChange={(e) => updateRow(index, { sku: e.target.value, name: undefined })}
+                  />
+                  {row.name && <p className="text-xs text-gray-500 mt-1 truncate">{row.name}</p>}
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveUp(index)}
+                  disabled={index === 0}
+                  aria-label={`Move relation ${index + 1} up`}
+                >
+                  <ArrowUp className="h-4 w-4" aria-hidden="true" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeRow(index)}
+                  aria-label={`Remove relation ${index + 1}`}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" aria-hidden="true" />
+                </Button>
+              </div>
+            ))}
+
+            <Button type="button" variant="outline" onClick={addRow}>
+              <Plus className="h-4 w-4 mr-2" aria-hidden="true" />
+              Add Related Product
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving || isLoading}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Related Products
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
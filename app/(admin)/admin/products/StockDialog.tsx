@@ -0,0 +1,337 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Loader2 } from 'lucide-react'
+import { Product, StockLevel, StockMovement, StockMovementType } from '@/types'
+
+interface StockDialogProps {
+  product: Product | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onChange: () => void
+}
+
+interface MovementFormState {
+  warehouseId?: string
+  type: StockMovementType
+  quantity: string
+  orderId: string
+  note: string
+}
+
+const MOVEMENT_TYPES: Array<{ value: StockMovementType; label: string; hint: string }> = [
+  { value: 'receipt', label: 'Receipt', hint: 'Goods received; adds to on hand' },
+  { value: 'adjustment', label: 'Adjustment', hint: 'Stock count correction; negative quantities reduce on hand' },
+  { value: 'reservation', label: 'Reservation', hint: 'Holds available stock, e.g. for an order' },
+  { value: 'release', label: 'Release', hint: 'Returns reserved stock to available' },
+  { value: 'dispatch', label: 'Dispatch', hint: 'Goods shipped; uses the order reservation first when an order is given' },
+]
+
+const emptyForm: MovementFormState = {
+  warehouseId: undefined,
+  type: 'receipt',
+  quantity: '',
+  orderId: '',
+  note: '',
+}
+
+const formatDelta = (value: number) => (value > 0 ? `+${value}` : value === 0 ? '–' : String(value))
+
+export function StockDialog({ product, open, onOpenChange, onChange }: StockDialogProps) {
+  const [levels, setLevels] = useState<StockLevel[]>([])
+  const [movements, setMovements] = useState<StockMovement[]>([])
+  const [form, setForm] = useState<MovementFormState>(emptyForm)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+  const productId = product?.id
+
+  const loadStock = useCallback(async () => {
+    if (!productId) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`${apiUrl}/api/products/${productId}/stock`, {
+        credentials: 'include',
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load stock')
+      }
+      setLevels(Array.isArray(data.levels) ? data.levels : [])
+      setMovements(Array.isArray(data.movements) ? data.movements : [])
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load stock')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [apiUrl, productId])
+
+  useEffect(() => {
+    if (open && productId) {
+      loadStock()
+    } else {
+      setLevels([])
+      setMovements([])
+      setForm(emptyForm)
+      setError(null)
+    }
+  }, [open, productId, loadStock])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!productId) return
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+
+      const response = await fetch(`${apiUrl}/api/products/${productId}/stock`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfData.token,
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          warehouseId: form.warehouseId ?? '',
+          type: form.type,
+          quantity: form.quantity.trim(),
+          orderId: form.orderId.trim() || null,
+          note: form.note.trim() || undefined,
+        }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        const details = Array.isArray(data.details)
+          ? `: ${data.details.map((d: any) => `${d.field} ${d.message}`).join(', ')}`
+          : ''
+        throw new Error(`${data.error || 'Failed to record stock movement'}${details}`)
+      }
+
+      setForm({ ...emptyForm, warehouseId: form.warehouseId, type: form.type })
+      await loadStock()
+      onChange()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to record stock movement')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const totals = levels.reduce(
+    (sum, level) => ({
+      onHand: sum.onHand + level.onHand,
+      reserved: sum.reserved + level.reserved,
+      available: sum.available + level.available,
+    }),
+    { onHand: 0, reserved: 0, available: 0 },
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock{product ? ` for ${product.sku}` : ''}</DialogTitle>
+          <DialogDescription>
+            Available to promise is on hand minus reserved. Once stock is recorded here, the product&apos;s stock
+            quantity and in-stock flag follow the available total.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead className="text-right">On Hand</TableHead>
+                    <TableHead className="text-right">Reserved</TableHead>
+                    <TableHead className="text-right">Available</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {levels.map((level) => (
+                    <TableRow key={level.warehouseId}>
+                      <TableCell>{level.warehouseName}</TableCell>
+                      <TableCell className="text-right">{level.onHand}</TableCell>
+                      <TableCell className="text-right">{level.reserved}</TableCell>
+                      <TableCell className="text-right font-medium">{level.available}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell className="font-semibold">Total</TableCell>
+                    <TableCell className="text-right font-semibold">{totals.onHand}</TableCell>
+                    <TableCell className="text-right font-semibold">{totals.reserved}</TableCell>
+                    <TableCell className="text-right font-semibold">{totals.available}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-3 rounded-md border p-4">
+              <h3 className="text-sm font-semibold">Record Movement</h3>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label>Warehouse *</Label>
+                  <Select
+                    value={form.warehouseId}
+                    onValueChange={(value) => setForm({ ...form, warehouseId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {levels.map((level) => (
+                        <SelectItem key={level.warehouseId} value={level.warehouseId}>
+                          {level.warehouseName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Type *</Label>
+                  <Select
+                    value={form.type}
+                    onValueChange={(value) => setForm({ ...form, type: value as StockMovementType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MOVEMENT_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="stock-quantity">Quantity *</Label>
+                  <Input
+                    id="stock-quantity"
+                    type="number"
+                    step="1"
+                    value={form.quantity}
+                    onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                {MOVEMENT_TYPES.find((type) => type.value === form.type)?.hint}
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="stock-order">Order</Label>
+                  <Input
+                    id="stock-order"
+                    value={form.orderId}
+                    onChange={(e) => setForm({ ...form, orderId: e.target.value })}
+                    placeholder="RFQ-2026-000123 (optional)"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="stock-note">Note</Label>
+                  <Input
+                    id="stock-note"
+                    value={form.note}
+                    onChange={(e) => setForm({ ...form, note: e.target.value })}
+                    placeholder="e.g. GRN or invoice number"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" disabled={isSaving || !form.warehouseId || !form.quantity.trim()}>
+                  {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Record
+                </Button>
+              </div>
+            </form>
+
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Recent Movements</h3>
+              {movements.length === 0 ? (
+                <p className="text-sm text-gray-500">No stock movements recorded.</p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Warehouse</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead className="text-right">On Hand</TableHead>
+                        <TableHead className="text-right">Reserved</TableHead>
+                        <TableHead>Note</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {movements.map((movement) => (
+                        <TableRow key={movement.id}>
+                          <TableCell className="whitespace-nowrap text-sm">
+                            {new Date(movement.createdAt).toLocaleString()}
+                          </TableCell>
+                          <TableCell>{movement.warehouseName}</TableCell>
+                          <TableCell className="capitalize">{movement.type}</TableCell>
+                          <TableCell className="text-right">{formatDelta(movement.onHandDelta)}</TableCell>
+                          <TableCell className="text-right">{formatDelta(movement.reservedDelta)}</TableCell>
+                          <TableCell className="max-w-[200px] truncate text-sm text-gray-600">
+                            {[movement.orderReference, movement.note, movement.createdBy]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { useAdminAuth } from '@/store/admin-auth-store'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -29,7 +29,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { Product, Category } from '@/types'
+import { Product, Category, CategoryAttribute, ProductAttributeValue, ProductFamily, ProductLifecycleStatus } from '@/types'
 import {
   Plus,
   Edit,
@@ -38,6 +38,11 @@ import {
   Upload,
   X,
   FileText,
+  Download,
+  Search,
+  Tags,
+  Warehouse,
+  Link2,
 } from 'lucide-react'
 import { ConfirmationDialog } from '@/components/ui/confirmation-dialog'
 import { Checkbox } from '@/components/ui/checkbox'
@@ -46,6 +51,12 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { apiClient } from '@/lib/api-client'
 import { formatPriceSimple } from '@/lib/format-price'
+import { PRODUCT_LIFECYCLE_LABELS, PRODUCT_LIFECYCLE_STATUSES } from '@/lib/product-lifecycle'
+import { ProductImportDialog } from './ProductImportDialog'
+import { CategoryAttributeFields } from './CategoryAttributeFields'
+import { PriceTiersDialog } from './PriceTiersDialog'
+import { StockDialog } from './StockDialog'
+import { RelatedProductsDialog } from './RelatedProductsDialog'
 
 const productSchema = z.object({
   sku: z.string().min(1, 'SKU is required').trim(),
@@ -103,6 +114,10 @@ const productSchema = z.object({
   })).optional(),
   datasheetUrl: z.string().optional(),
   drawingUrl: z.string().optional(),
+  lifecycleStatus: z.enum(PRODUCT_LIFECYCLE_STATUSES).default('active'),
+  lifecycleEffectiveDate: z.string().optional(),
+  lastTimeBuyDate: z.string().optional(),
+  replacementSku: z.string().optional(),
 })
 
 type ProductFormData = z.infer<typeof productSchema>
@@ -178,7 +193,17 @@ export default function AdminProductsPage() {
   const [isDeleting, setIsDeleting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [selectedCategoryId, setSelectedCategoryId] = useState<string | undefined>(undefined)
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false)
+  const [searchQuery, setSearchQuery] = useState('')
   const [selectedSubcategoryId, setSelectedSubcategoryId] = useState<string | undefined>(undefined)
+  const [attributeTemplate, setAttributeTemplate] = useState<CategoryAttribute[]>([])
+  const [attributeValues, setAttributeValues] = useState<Record<string, ProductAttributeValue>>({})
+  const [families, setFamilies] = useState<ProductFamily[]>([])
+  const [familyId, setFamilyId] = useState<string | undefined>(undefined)
+  const [variantOptions, setVariantOptions] = useState<Record<string, string>>({})
+  const [tiersProduct, setTiersProduct] = useState<Product | null>(null)
+  const [stockProduct, setStockProduct] = useState<Product | null>(null)
+  const [relationsProduct, setRelationsProduct] = useState<Product | null>(null)
 
   const {
     register,
@@ -197,12 +222,9 @@ export default function AdminProductsPage() {
 
   useEffect(() => {
     // Fetch data on mount
-    fetchProducts().catch(() => {
-      setError('Failed to load products. Please refresh the page.')
-      setIsLoading(false)
-    })
     // fetchCategories already has error handling, no need to wrap
     fetchCategories()
+    fetchFamilies()
   }, [])
 
   // When categories load and we're editing, re-determine category/subcategory
@@ -227,6 +249,41 @@ export default function AdminProductsPage() {
     }
   }, [categories, editingProduct, isDialogOpen, setValue])
 
+  // Load the attribute template of the selected (sub)category
+  const attributeCategoryId = selectedSubcategoryId || selectedCategoryId
+  useEffect(() => {
+    if (!isDialogOpen || !attributeCategoryId) {
+      setAttributeTemplate([])
+      return
+    }
+
+    let cancelled = false
+    fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/categories/${attributeCategoryId}/attributes`)
+      .then((response) => (response.ok ? response.json() : { attributes: [] }))
+      .then((data) => {
+        if (!cancelled) setAttributeTemplate(Array.isArray(data.attributes) ? data.attributes : [])
+      })
+      .catch(() => {
+        if (!cancelled) setAttributeTemplate([])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [attributeCategoryId, isDialogOpen])
+
+  const handleAttributeChange = (key: string, value: ProductAttributeValue | undefined) => {
+    setAttributeValues((prev) => {
+      const next = { ...prev }
+      if (value === undefined) {
+        delete next[key]
+      } else {
+        next[key] = value
+      }
+      return next
+    })
+  }
+
   const fetchCategories = async () => {
     try {
       const response = await fetch(
@@ -241,6 +298,20 @@ export default function AdminProductsPage() {
     }
   }
 
+  const fetchFamilies = async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}/api/product-families`)
+      if (response.ok) {
+        const data = await response.json()
+        setFamilies(Array.isArray(data.families) ? data.families : [])
+      }
+    } catch {
+      // Silently fail - families are optional
+    }
+  }
+
+  const selectedFamily = families.find((family) => family.id === familyId)
+
   // Get parent categories (categories without a parentId)
   const getParentCategories = (): Category[] => {
     return categories.filter(cat => !cat.parentId)
@@ -260,13 +331,17 @@ export default function AdminProductsPage() {
     return category
   }
 
-  const fetchProducts = async () => {
+  const fetchProducts = useCallback(async () => {
     try {
       setIsLoading(true)
       setError(null)
-      // Fetch all products for admin (use high limit to get all)
+      // Fetch all products for admin (use high limit to get all); searches come back by relevance
+      const params = new URLSearchParams({ limit: '10000', includeDiscontinued: 'true' })
+      if (searchQuery.trim()) {
+        params.set('search', searchQuery.trim())
+      }
       const data = await apiClient.get<{ products: Product[]; pagination?: any } | Product[]>(
-        '/api/products?limit=10000',
+        `/api/products?${params.toString()}`,
       )
       
       // Normalize products: ensure price is a number or null
@@ -299,7 +374,18 @@ export default function AdminProductsPage() {
     } finally {
       setIsLoading(false)
     }
-  }
+  }, [searchQuery])
+
+  // Load products on mount and whenever the search changes (debounced while typing)
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      fetchProducts().catch(() => {
+        setError('Failed to load products. Please refresh the page.')
+        setIsLoading(false)
+      })
+    }, searchQuery ? 300 : 0)
+    return () => clearTimeout(timeout)
+  }, [fetchProducts, searchQuery])
 
   const handleImageUpload = async (file: File) => {
     if (!isAuthenticated) {
@@ -580,6 +666,9 @@ export default function AdminProductsPage() {
     setDrawingUrl('')
     setSelectedCategoryId(undefined)
     setSelectedSubcategoryId(undefined)
+    setAttributeValues({})
+    setFamilyId(undefined)
+    setVariantOptions({})
     reset({
       sku: '',
       name: '',
@@ -590,6 +679,7 @@ export default function AdminProductsPage() {
       drawingUrl: '',
       priceType: 'per_unit',
       inStock: false,
+      lifecycleStatus: 'active',
     })
     setIsDialogOpen(true)
   }
@@ -638,6 +728,9 @@ export default function AdminProductsPage() {
       
       setSelectedCategoryId(parentCategoryId)
       setSelectedSubcategoryId(subcategoryId)
+      setAttributeValues(product.attributes && typeof product.attributes === 'object' ? { ...product.attributes } : {})
+      setFamilyId(product.familyId || undefined)
+      setVariantOptions(product.variantOptions && typeof product.variantOptions === 'object' ? { ...product.variantOptions } : {})
       
       reset({
         sku: typeof product.sku === 'string' ? product.sku : '',
@@ -699,6 +792,10 @@ export default function AdminProductsPage() {
         documents: safeDocuments,
         datasheetUrl: typeof product.datasheetUrl === 'string' ? product.datasheetUrl : '',
         drawingUrl: typeof product.drawingUrl === 'string' ? product.drawingUrl : '',
+        lifecycleStatus: product.lifecycleStatus ?? 'active',
+        lifecycleEffectiveDate: product.lifecycleEffectiveDate ?? '',
+        lastTimeBuyDate: product.lastTimeBuyDate ?? '',
+        replacementSku: product.replacement?.sku ?? '',
       })
       setIsDialogOpen(true)
     } catch (error) {
@@ -751,6 +848,13 @@ export default function AdminProductsPage() {
         documents: productDocuments || [],
         datasheetUrl: datasheetUrl || undefined,
         drawingUrl: drawingUrl || undefined,
+        // Values outside the category's template are discarded by the API
+        attributes: attributeValues,
+        familyId: familyId ?? null,
+        variantOptions: familyId ? variantOptions : {},
+        lifecycleEffectiveDate: data.lifecycleEffectiveDate || null,
+        lastTimeBuyDate: data.lifecycleStatus === 'last_time_buy' ? data.lastTimeBuyDate || null : null,
+        replacementSku: data.replacementSku?.trim() || null,
         // Ensure categoryId is valid UUID or undefined (handle __none__ special value)
         categoryId: data.categoryId && data.categoryId.trim() && data.categoryId !== '__none__' 
           ? data.categoryId.trim() 
@@ -783,6 +887,10 @@ export default function AdminProductsPage() {
       setDrawingUrl('')
       setSelectedCategoryId(undefined)
       setSelectedSubcategoryId(undefined)
+      setAttributeValues({})
+      setFamilyId(undefined)
+      setVariantOptions({})
+      await fetchFamilies()
     } catch (error: any) {
       // Handle validation errors with details
       let errorMessage = 'Failed to save product. Please try again.'
@@ -800,6 +908,15 @@ export default function AdminProductsPage() {
     }
   }
 
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    // Browser download; the admin_token cookie authenticates the request
+    const params = new URLSearchParams({ format })
+    if (searchQuery.trim()) {
+      params.set('search', searchQuery.trim())
+    }
+    window.location.href = `${process.env.NEXT_PUBLIC_API_URL || ''}/api/admin/products/export?${params.toString()}`
+  }
+
   const handleDeleteClick = (id: string) => {
     setProductToDelete(id)
     setDeleteDialogOpen(true)
@@ -851,12 +968,34 @@ export default function AdminProductsPage() {
           <h1 className="text-3xl font-bold text-gray-900">Products</h1>
           <p className="text-gray-600 mt-2">Manage your product catalog</p>
         </div>
-        <Button onClick={openCreateDialog} aria-label="Add new product">
-          <Plus className="h-4 w-4 mr-2" aria-hidden="true" />
-          Add Product
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setIsImportDialogOpen(true)} aria-label="Import products">
+            <Upload className="h-4 w-4 mr-2" aria-hidden="true" />
+            Import
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('csv')} aria-label="Export products as CSV">
+            <Download className="h-4 w-4 mr-2" aria-hidden="true" />
+            CSV
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('xlsx')} aria-label="Export products as XLSX">
+            <Download className="h-4 w-4 mr-2" aria-hidden="true" />
+            XLSX
+          </Button>
+          <Button onClick={openCreateDialog} aria-label="Add new product">
+            <Plus className="h-4 w-4 mr-2" aria-hidden="true" />
+            Add Product
+          </Button>
+        </div>
       </div>
 
+      <ProductImportDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        onImported={() => {
+          fetchProducts().catch(() => setError('Failed to reload products after import.'))
+        }}
+      />
+
       {error && (
         <div className="p-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
           {error}
@@ -872,6 +1011,18 @@ export default function AdminProductsPage() {
         </div>
       )}
 
+      <div className="relative max-w-md">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" aria-hidden="true" />
+        <Input
+          type="search"
+          placeholder="Search by SKU, MPN, name or specs (e.g. m12 a-coded 5 pin female)"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-9"
+          aria-label="Search products"
+        />
+      </div>
+
       <Card>
         <CardContent className="p-0">
           <Table>
@@ -899,7 +1050,18 @@ export default function AdminProductsPage() {
 
                   return (
                     <TableRow key={product.id}>
-                      <TableCell className="font-medium">{product.sku || 'N/A'}</TableCell>
+                      <TableCell className="font-medium">
+                        {product.sku || 'N/A'}
+                        {product.lifecycleStatus && product.lifecycleStatus !== 'active' && (
+                          <span
+                            className={`block text-xs font-normal ${
+                              product.lifecycleStatus === 'discontinued' ? 'text-red-600' : 'text-amber-600'
+                            }`}
+                          >
+                            {PRODUCT_LIFECYCLE_LABELS[product.lifecycleStatus]}
+                          </span>
+                        )}
+                      </TableCell>
                       <TableCell className="font-medium">{product.name || 'N/A'}</TableCell>
                       <TableCell className="max-w-md truncate">{product.description || 'N/A'}</TableCell>
                       <TableCell>{priceDisplay}</TableCell>
@@ -912,6 +1074,30 @@ export default function AdminProductsPage() {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setTiersProduct(product)}
+                            aria-label={`Edit price tiers of ${product.sku || product.id}`}
+                          >
+                            <Tags className="h-4 w-4" aria-hidden="true" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setStockProduct(product)}
+                            aria-label={`Manage stock of ${product.sku || product.id}`}
+                          >
+                            <Warehouse className="h-4 w-4" aria-hidden="true" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setRelationsProduct(product)}
+                            aria-label={`Edit related products of ${product.sku || product.id}`}
+                          >
+                            <Link2 className="h-4 w-4" aria-hidden="true" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="icon"
@@ -1052,6 +1238,90 @@ export default function AdminProductsPage() {
               )}
             </div>
 
+            <CategoryAttributeFields
+              attributes={attributeTemplate}
+              values={attributeValues}
+              onChange={handleAttributeChange}
+            />
+
+            <div className="space-y-3">
+              <div>
+                <Label htmlFor="familyId">Product Family</Label>
+                <Select
+                  value={familyId || '__none__'}
+                  onValueChange={(value) => setFamilyId(value === '__none__' ? undefined : value)}
+                >
+                  <SelectTrigger id="familyId">
+                    <SelectValue placeholder="Select a product family" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-[300px] overflow-y-auto">
+                    <SelectItem value="__none__">Standalone product</SelectItem>
+                    {families.map((family) => (
+                      <SelectItem key={family.id} value={family.id}>
+                        {family.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {selectedFamily && (
+                <div className="grid grid-cols-2 gap-4">
+                  {selectedFamily.axes.map((axis) => (
+                    <div key={axis.key}>
+                      <Label htmlFor={`variant-${axis.key}`}>{axis.label} *</Label>
+                      <Input
+                        id={`variant-${axis.key}`}
+                        value={variantOptions[axis.key] ?? ''}
+                        onChange={(e) => setVariantOptions((prev) => ({ ...prev, [axis.key]: e.target.value }))}
+                        placeholder="Value for this variant"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="lifecycleStatus">Lifecycle Status</Label>
+                <Select
+                  onValueChange={(value) => setValue('lifecycleStatus', value as ProductLifecycleStatus)}
+                  value={watch('lifecycleStatus') || 'active'}
+                >
+                  <SelectTrigger id="lifecycleStatus">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRODUCT_LIFECYCLE_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {PRODUCT_LIFECYCLE_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="lifecycleEffectiveDate">Status Effective From</Label>
+                <Input id="lifecycleEffectiveDate" type="date" {...register('lifecycleEffectiveDate')} />
+                <p className="text-xs text-gray-500 mt-1">Leave empty to apply the status now</p>
+              </div>
+
+              {watch('lifecycleStatus') === 'last_time_buy' && (
+                <div>
+                  <Label htmlFor="lastTimeBuyDate">Last Order Date</Label>
+                  <Input id="lastTimeBuyDate" type="date" {...register('lastTimeBuyDate')} />
+                </div>
+              )}
+
+              {watch('lifecycleStatus') !== 'active' && (
+                <div>
+                  <Label htmlFor="replacementSku">Replaced By (SKU)</Label>
+                  <Input id="replacementSku" {...register('replacementSku')} placeholder="SKU of the recommended successor" />
+                </div>
+              )}
+            </div>
+
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <Label htmlFor="mpn">MPN</Label>
@@ -1100,6 +1370,9 @@ export default function AdminProductsPage() {
                 {errors.stockQuantity && (
                   <p className="text-sm text-red-500">{errors.stockQuantity.message}</p>
                 )}
+                <p className="text-xs text-gray-500 mt-1">
+                  Ignored once stock is recorded per warehouse (warehouse icon in the product list)
+                </p>
               </div>
 
               <div>
@@ -1569,6 +1842,33 @@ export default function AdminProductsPage() {
         cancelText="Cancel"
         variant="destructive"
       />
+
+      <PriceTiersDialog
+        product={tiersProduct}
+        open={tiersProduct !== null}
+        onOpenChange={(open) => {
+          if (!open) setTiersProduct(null)
+        }}
+      />
+
+      <RelatedProductsDialog
+        product={relationsProduct}
+        open={relationsProduct !== null}
+        onOpenChange={(open) => {
+          if (!open) setRelationsProduct(null)
+        }}
+      />
+
+      <StockDialog
+        product={stockProduct}
+        open={stockProduct !== null}
+        onOpenChange={(open) => {
+          if (!open) setStockProduct(null)
+        }}
+        onChange={() => {
+          fetchProducts().catch(() => setError('Failed to reload products.'))
+        }}
+      />
     </div>
   )
 }
@@ -0,0 +1,226 @@
+'use client'
+
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ChevronDown, ChevronRight, Mail } from 'lucide-react'
+import { CordsetSpec } from '@/components/features/CordsetSpec'
+import { ABANDONED_RFQ_BASKET_DAYS } from '@/lib/rfq-basket-validation'
+import { AbandonedRfqBasket } from '@/types'
+
+const PAGE_SIZE = 20
+const DAY_OPTIONS = [1, ABANDONED_RFQ_BASKET_DAYS, 7, 14, 30].filter(
+  (days, index, all) => all.indexOf(days) === index,
+)
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })
+
+export default function AdminRfqBasketsPage() {
+  const [baskets, setBaskets] = useState<AbandonedRfqBasket[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [days, setDays] = useState(ABANDONED_RFQ_BASKET_DAYS)
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+
+  const fetchBaskets = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE), days: String(days) })
+      const response = await fetch(`${apiUrl}/api/rfq-baskets/abandoned?${params.toString()}`, {
+        credentials: 'include',
+      })
+      if (!response.ok) throw new Error('Failed to fetch abandoned baskets')
+      const data = await response.json()
+      setBaskets(Array.isArray(data.baskets) ? data.baskets : [])
+      setTotal(data.pagination?.total ?? 0)
+      setTotalPages(Math.max(1, data.pagination?.totalPages ?? 1))
+    } catch {
+      setBaskets([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [apiUrl, page, days])
+
+  useEffect(() => {
+    fetchBaskets()
+  }, [fetchBaskets])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Abandoned RFQ Baskets</h1>
+          <p className="text-gray-600 mt-2">
+            Customers who added products to a basket but have not submitted or changed it since
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="abandoned-days" className="whitespace-nowrap">Untouched for</Label>
+          <Select
+            value={String(days)}
+            onValueChange={(value) => {
+              setPage(1)
+              setDays(Number(value))
+            }}
+          >
+            <SelectTrigger id="abandoned-days" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DAY_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option} day{option !== 1 ? 's' : ''}+
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Customer</TableHead>
+                <TableHead>Basket</TableHead>
+                <TableHead className="text-right">Lines</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead>Last Changed</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {baskets.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-gray-500">
+                    No abandoned baskets found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                baskets.map((basket) => (
+                  <Fragment key={basket.id}>
+                    <TableRow>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => setExpanded(expanded === basket.id ? null : basket.id)}
+                          aria-label={expanded === basket.id ? 'Hide lines' : 'Show lines'}
+                        >
+                          {expanded === basket.id ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{basket.user.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {basket.user.company ? `${basket.user.company} · ` : ''}
+                          {basket.user.email}
+                        </div>
+                      </TableCell>
+                      <TableCell>{basket.name}</TableCell>
+                      <TableCell className="text-right">{basket.itemCount}</TableCell>
+                      <TableCell className="text-right">{basket.totalQuantity}</TableCell>
+                      <TableCell>{formatDate(basket.updatedAt)}</TableCell>
+                      <TableCell>{formatDate(basket.expiresAt)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button asChild variant="ghost" size="icon">
+                          <a
+                            href={`mailto:${basket.user.email}?subject=${encodeURIComponent(`Your RFQ basket "${basket.name}"`)}`}
+                            aria-label={`Email ${basket.user.name}`}
+                          >
+                            <Mail className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {expanded === basket.id && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={7} className="bg-gray-50">
+                          <ul className="space-y-2 text-sm">
+                            {(basket.items ?? []).map((item) => (
+                              <li key={item.productId}>
+                                <span className="font-medium">{item.quantity} ×</span>{' '}
+                                {item.productId && !item.configuration && !item.freeText ? (
+                                  <Link href={`/products/${item.productId}`} className="hover:underline">
+                                    {item.sku}
+                                  </Link>
+                                ) : (
+                                  <span className="font-mono">{item.sku}</span>
+                                )}{' '}
+                                <span className="text-gray-600">{item.name}</span>
+                                {item.freeText && (
+                                  <span className="text-amber-700"> (free text, not matched to a catalog product)</span>
+                                )}
+                                {item.configuration && (
+                                  <CordsetSpec configuration={item.configuration} className="mt-1" />
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            Page {page} of {totalPages} ({total} baskets)
+          </p>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </Button>
+            <Button variant="outline" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
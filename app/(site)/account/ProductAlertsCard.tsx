@@ -0,0 +1,149 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Loader2, Trash2 } from 'lucide-react'
+import { formatPrice } from '@/lib/format-price'
+import { PRODUCT_ALERT_LABELS } from '@/lib/product-alert-validation'
+import { ProductSubscription } from '@/types'
+
+export function ProductAlertsCard() {
+  const [subscriptions, setSubscriptions] = useState<ProductSubscription[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [removing, setRemoving] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+
+  const loadSubscriptions = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`${apiUrl}/api/product-subscriptions`, {
+        credentials: 'include',
+        cache: 'no-store',
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch your product alerts')
+      }
+      setSubscriptions(Array.isArray(data.subscriptions) ? data.subscriptions : [])
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to fetch your product alerts')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [apiUrl])
+
+  useEffect(() => {
+    loadSubscriptions()
+  }, [loadSubscriptions])
+
+  const handleRemove = async (subscription: ProductSubscription) => {
+    setRemoving(subscription.id)
+    setError(null)
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+
+      const response = await fetch(`${apiUrl}/api/product-subscriptions/${subscription.id}`, {
+        method: 'DELETE',
+        headers: {
+          'X-CSRF-Token': csrfData.token,
+        },
+        credentials: 'include',
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove product alert')
+      }
+      setSubscriptions((current) => current.filter((item) => item.id !== subscription.id))
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to remove product alert')
+    } finally {
+      setRemoving(null)
+    }
+  }
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Product Alerts</CardTitle>
+        <CardDescription>Products you are watching for stock or price changes</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 p-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+        )}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : subscriptions.length === 0 ? (
+          <p className="text-center py-8 text-gray-600">
+            You have no product alerts. Use the alert buttons on a product page to add one.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>SKU</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Alert</TableHead>
+                <TableHead className="text-right">Current Price</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {subscriptions.map((subscription) => (
+                <TableRow key={subscription.id}>
+                  <TableCell className="font-mono text-sm">{subscription.product?.sku}</TableCell>
+                  <TableCell>
+                    <Link href={`/products/${subscription.productId}`} className="hover:underline">
+                      {subscription.product?.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{PRODUCT_ALERT_LABELS[subscription.type]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {subscription.product?.price != null
+                      ? formatPrice(subscription.product.price, subscription.product.priceType)
+                      : '–'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemove(subscription)}
+                      disabled={removing === subscription.id}
+                      aria-label={`Remove ${PRODUCT_ALERT_LABELS[subscription.type].toLowerCase()} alert`}
+                    >
+                      {removing === subscription.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4 text-red-500" aria-hidden="true" />
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,23 @@
+import { Badge } from '@/components/ui/badge'
+import { orderStatusLabel } from '@/lib/order-status'
+
+const statusVariants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  under_review: 'outline',
+  quoted: 'secondary',
+  approved: 'default',
+  po_received: 'default',
+  in_production: 'default',
+  dispatched: 'default',
+  closed: 'secondary',
+  rejected: 'destructive',
+  cancelled: 'destructive',
+}
+
+export function RFQStatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant={statusVariants[status] || 'outline'}>
+      {orderStatusLabel(status)}
+    </Badge>
+  )
+}
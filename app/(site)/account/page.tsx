@@ -0,0 +1,210 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Header } from '@/components/shared/Header'
+import { Footer } from '@/components/shared/Footer'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Loader2, ChevronDown, ChevronUp, FileText } from 'lucide-react'
+import { useUserAuth } from '@/store/user-auth-store'
+import { RFQ } from '@/types'
+import { RFQStatusBadge } from './RFQStatusBadge'
+import { ProductAlertsCard } from './ProductAlertsCard'
+
+interface Pagination {
+  page: number
+  totalPages: number
+  hasNext: boolean
+  hasPrev: boolean
+}
+
+export default function AccountPage() {
+  const router = useRouter()
+  const { user } = useUserAuth()
+  const [orders, setOrders] = useState<RFQ[]>([])
+  const [pagination, setPagination] = useState<Pagination | null>(null)
+  const [page, setPage] = useState(1)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchOrders = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL || ''}/api/orders/mine?page=${page}`,
+          { credentials: 'include', cache: 'no-store' },
+        )
+
+        if (response.status === 401) {
+          router.push('/login?redirect=/account')
+          return
+        }
+        if (!response.ok) {
+          throw new Error('Failed to fetch your RFQs')
+        }
+
+        const data = await response.json()
+        setOrders(data.orders || [])
+        setPagination(data.pagination || null)
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to fetch your RFQs')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchOrders()
+  }, [page, router])
+
+  return (
+    <>
+      <Header />
+      <main>
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <div className="mb-8">
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-2">My Account</h1>
+            {user && (
+              <p className="text-gray-600">
+                {user.name} · {user.email}
+                {user.company ? ` · ${user.company}` : ''}
+              </p>
+            )}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>My RFQs</CardTitle>
+              <CardDescription>Quote requests you have submitted and their current status</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : error ? (
+                <div className="p-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+              ) : orders.length === 0 ? (
+                <div className="text-center py-12">
+                  <p className="text-gray-600 mb-4">You have not submitted any RFQs yet.</p>
+                  <Button asChild>
+                    <Link href="/products">Browse Products</Link>
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {orders.map((order) => {
+                    const isExpanded = expanded === order.id
+                    const totalQuantity = order.items.reduce((sum, item) => sum + item.quantity, 0)
+                    return (
+                      <div key={order.id} className="border rounded-lg">
+                        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4">
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-3">
+                              <span className="font-semibold text-gray-900">{order.reference}</span>
+                              <RFQStatusBadge status={order.status} />
+                            </div>
+                            <p className="text-sm text-gray-600">
+                              Submitted {new Date(order.createdAt).toLocaleDateString('en-US', {
+                                year: 'numeric',
+                                month: 'long',
+                                day: 'numeric',
+                              })}{' '}
+                              · {order.items.length} {order.items.length === 1 ? 'product' : 'products'} ·{' '}
+                              {totalQuantity} units · Last updated {new Date(order.updatedAt).toLocaleString()}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setExpanded(isExpanded ? null : order.id)}
+                              aria-expanded={isExpanded}
+                            >
+                              {isExpanded ? (
+                                <ChevronUp className="h-4 w-4 mr-1" />
+                              ) : (
+                                <ChevronDown className="h-4 w-4 mr-1" />
+                              )}
+                              Items
+                            </Button>
+                            <Button variant="outline" size="sm" asChild>
+                              <Link href={`/account/rfqs/${order.id}`}>
+                                <FileText className="h-4 w-4 mr-1" />
+                                Details
+                              </Link>
+                            </Button>
+                          </div>
+                        </div>
+                        {isExpanded && (
+                          <div className="border-t">
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead>SKU</TableHead>
+                                  <TableHead>Product</TableHead>
+                                  <TableHead className="text-right">Quantity</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {order.items.map((item, index) => (
+                                  <TableRow key={`${item.productId}-${index}`}>
+                                    <TableCell className="font-mono text-sm">{item.sku}</TableCell>
+                                    <TableCell>{item.name}</TableCell>
+                                    <TableCell className="text-right">{item.quantity}</TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+
+                  {pagination && pagination.totalPages > 1 && (
+                    <div className="flex items-center justify-between pt-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!pagination.hasPrev}
+                        onClick={() => setPage((p) => p - 1)}
+                      >
+                        Previous
+                      </Button>
+                      <span className="text-sm text-gray-600">
+                        Page {pagination.page} of {pagination.totalPages}
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!pagination.hasNext}
+                        onClick={() => setPage((p) => p + 1)}
+                      >
+                        Next
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <ProductAlertsCard />
+        </div>
+      </main>
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Header } from '@/components/shared/Header'
+import { Footer } from '@/components/shared/Footer'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ArrowLeft, Download, Loader2 } from 'lucide-react'
+import { CordsetSpec } from '@/components/features/CordsetSpec'
+import { OrderStatusTimeline } from '@/components/features/OrderStatusTimeline'
+import { MessageThread } from '@/components/features/MessageThread'
+import { RFQ } from '@/types'
+import { RFQStatusBadge } from '../../RFQStatusBadge'
+
+export default function AccountRFQDetailPage({ params }: { params: { id: string } }) {
+  const router = useRouter()
+  const [order, setOrder] = useState<RFQ | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchOrder = async () => {
+      try {
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL || ''}/api/orders/mine/${params.id}`,
+          { credentials: 'include', cache: 'no-store' },
+        )
+
+        if (response.status === 401) {
+          router.push(`/login?redirect=/account/rfqs/${params.id}`)
+          return
+        }
+        if (response.status === 404 || response.status === 400) {
+          throw new Error('RFQ not found')
+        }
+        if (!response.ok) {
+          throw new Error('Failed to fetch RFQ')
+        }
+
+        setOrder(await response.json())
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to fetch RFQ')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchOrder()
+  }, [params.id, router])
+
+  return (
+    <>
+      <Header />
+      <main>
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <Button variant="ghost" size="sm" asChild className="mb-6">
+            <Link href="/account">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to My RFQs
+            </Link>
+          </Button>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : error || !order ? (
+            <div className="p-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+              {error || 'RFQ not found'}
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap items-center gap-3">
+                  <h1 className="text-3xl font-bold text-gray-900">Request for Quote {order.reference}</h1>
+                  <RFQStatusBadge status={order.status} />
+                </div>
+                {order.quoteRevision ? (
+                  <Button asChild>
+                    <a href={`${process.env.NEXT_PUBLIC_API_URL || ''}/api/orders/mine/${order.id}/quote`}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Download Quotation (Rev {order.quoteRevision})
+                    </a>
+                  </Button>
+                ) : null}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Contact</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-sm text-gray-700">
+                    <p className="font-medium text-gray-900">{order.companyName}</p>
+                    <p>{order.contactName}</p>
+                    <p>{order.email}</p>
+                    <p>{order.phone}</p>
+                    {order.companyAddress && <p className="whitespace-pre-line">{order.companyAddress}</p>}
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Timeline</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <OrderStatusTimeline history={order.statusHistory ?? []} />
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Items</CardTitle>
+                </CardHeader>
+                <CardContent className="p-0">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>SKU</TableHead>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Notes</TableHead>
+                        <TableHead className="text-right">Quantity</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {order.items.map((item, index) => (
+                        <TableRow key={`${item.productId}-${index}`}>
+                          <TableCell className="font-mono text-sm">{item.sku}</TableCell>
+                          <TableCell>
+                            {item.configuration ? (
+                              <>
+                                {item.name}
+                                <CordsetSpec configuration={item.configuration} className="mt-1" />
+                              </>
+                            ) : item.productId ? (
+                              <Link href={`/products/${item.productId}`} className="hover:text-primary">
+                                {item.name}
+                              </Link>
+                            ) : (
+                              item.name
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-gray-600">{item.notes || '—'}</TableCell>
+                          <TableCell className="text-right">{item.quantity}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              {order.notes && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Notes</CardTitle>
+                  </CardHeader>
+                  <CardContent className="text-sm text-gray-700 whitespace-pre-line">{order.notes}</CardContent>
+                </Card>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Messages</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <MessageThread endpoint={`/api/orders/mine/${order.id}/messages`} viewer="customer" />
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+      </main>
+      <Footer />
+    </>
+  )
+}
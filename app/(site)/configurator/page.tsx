@@ -0,0 +1,43 @@
+import type { Metadata } from "next"
+import { Header } from "@/components/shared/Header"
+import { Footer } from "@/components/shared/Footer"
+import { CordsetConfigurator } from "@/components/features/CordsetConfigurator"
+import { fetchCordsetCatalog, type CordsetCatalog } from "@/lib/cordsets"
+
+export const metadata: Metadata = {
+  title: "Cordset Configurator",
+  description: "Configure a custom M12 or M8 cordset and add it to your request for quote.",
+}
+
+export const dynamic = 'force-dynamic'
+
+async function getCatalog(): Promise<CordsetCatalog> {
+  try {
+    return await fetchCordsetCatalog()
+  } catch (error) {
+    console.error('Failed to fetch cordset options:', error)
+    return { options: [], rules: [] }
+  }
+}
+
+export default async function ConfiguratorPage() {
+  const { options, rules } = await getCatalog()
+
+  return (
+    <>
+      <Header />
+      <main>
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <h1 className="text-4xl font-bold mb-4">Cordset Configurator</h1>
+          <p className="text-lg text-gray-600 mb-8 max-w-3xl">
+            Build a custom M12 or M8 cordset step by step. Options that do not fit your selection are
+            disabled, and the configured part number can be added to your RFQ like any other product.
+          </p>
+
+          <CordsetConfigurator options={options} rules={rules} />
+        </div>
+      </main>
+      <Footer />
+    </>
+  )
+}
@@ -30,6 +30,7 @@ interface ContactInfo {
 export default function ContactPage() {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submitted, setSubmitted] = useState(false)
+  const [reference, setReference] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [contactInfo, setContactInfo] = useState<ContactInfo>({
     phone: '+91-XXX-XXXX-XXXX',
@@ -80,8 +81,9 @@ export default function ContactPage() {
         message: data.message,
         meetingRequest: data.meetingRequest ?? false,
       }
-      const result = await apiClient.post('/api/inquiries', payload)
+      const inquiry = await apiClient.post<{ reference: string }>('/api/inquiries', payload)
 
+      setReference(inquiry.reference)
       setSubmitted(true)
       reset()
       setTimeout(() => setSubmitted(false), 5000)
@@ -131,6 +133,12 @@ export default function ContactPage() {
                       <p className="text-sm text-gray-600">
                         We&apos;ll get back to you within 24 hours.
                       </p>
+                      {reference && (
+                        <p className="text-sm text-gray-600 mt-2">
+                          Please quote <span className="font-semibold text-gray-900">{reference}</span> if you
+                          contact us about this message.
+                        </p>
+                      )}
                     </div>
                   ) : (
                     <form 
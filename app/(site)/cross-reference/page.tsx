@@ -0,0 +1,144 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { Header } from "@/components/shared/Header"
+import { Footer } from "@/components/shared/Footer"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Search } from "lucide-react"
+import { lookupCrossReferences } from "@/lib/cross-references"
+import { COMPETITOR_MANUFACTURERS, CROSS_REFERENCE_EQUIVALENCE_LABELS } from "@/lib/cross-reference-validation"
+import { lifecycleNotice } from "@/lib/product-lifecycle"
+import { CrossReference } from "@/types"
+
+export const metadata: Metadata = {
+  title: "Cross Reference",
+  description: "Find our equivalent of a Phoenix Contact, Lapp, Binder or Murrelektronik part number.",
+}
+
+export const dynamic = 'force-dynamic'
+
+interface CrossReferencePageProps {
+  searchParams: { partNumber?: string; manufacturer?: string }
+}
+
+async function getMatches(partNumber: string, manufacturer: string | null): Promise<CrossReference[] | null> {
+  try {
+    return await lookupCrossReferences(partNumber, manufacturer)
+  } catch (error) {
+    console.error('Failed to look up cross-references:', error)
+    return null
+  }
+}
+
+export default async function CrossReferencePage({ searchParams }: CrossReferencePageProps) {
+  const partNumber = (searchParams.partNumber || '').trim().slice(0, 100)
+  const manufacturer = (searchParams.manufacturer || '').trim() || null
+  const matches = partNumber ? await getMatches(partNumber, manufacturer) : []
+
+  return (
+    <>
+      <Header />
+      <main>
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12 max-w-4xl">
+          <h1 className="text-4xl font-bold mb-4">Cross Reference</h1>
+          <p className="text-lg text-gray-600 mb-8">
+            Paste a competitor part number to find our equivalent products.
+          </p>
+
+          <Card className="mb-8">
+            <CardContent className="pt-6">
+              <form method="get" className="grid gap-4 sm:grid-cols-[1fr_220px_auto] sm:items-end">
+                <div>
+                  <Label htmlFor="partNumber">Competitor part number</Label>
+                  <Input
+                    id="partNumber"
+                    name="partNumber"
+                    defaultValue={partNumber}
+                    placeholder="e.g. SAC-4P-M12MS/5,0-PUR"
+                    maxLength={100}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="manufacturer">Manufacturer</Label>
+                  <select
+                    id="manufacturer"
+                    name="manufacturer"
+                    defaultValue={manufacturer ?? ''}
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    <option value="">Any manufacturer</option>
+                    {COMPETITOR_MANUFACTURERS.map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <Button type="submit">
+                  <Search className="h-4 w-4 mr-2" />
+                  Find Equivalents
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {partNumber && matches === null && (
+            <p className="text-red-600">The lookup is unavailable right now. Please try again later.</p>
+          )}
+
+          {partNumber && matches?.length === 0 && (
+            <Card>
+              <CardContent className="py-8 text-center text-gray-600">
+                <p className="mb-4">
+                  We have no known equivalent for <span className="font-mono">{partNumber}</span> yet.
+                </p>
+                <Button asChild variant="outline">
+                  <Link href="/contact">Ask our team</Link>
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {matches && matches.length > 0 && (
+            <div className="space-y-4">
+              {matches.map((match) => {
+                const notice = match.product ? lifecycleNotice(match.product) : null
+                return (
+                  <Card key={match.id}>
+                    <CardHeader>
+                      <div className="flex flex-wrap items-start justify-between gap-2">
+                        <div>
+                          <CardTitle className="text-lg">
+                            <Link href={`/products/${match.productId}`} className="hover:underline">
+                              {match.product?.mpn || match.product?.sku}
+                            </Link>
+                          </CardTitle>
+                          <CardDescription>{match.product?.name}</CardDescription>
+                        </div>
+                        <Badge variant={match.equivalence === 'direct' ? 'default' : 'secondary'}>
+                          {CROSS_REFERENCE_EQUIVALENCE_LABELS[match.equivalence]}
+                        </Badge>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="text-sm text-gray-600 space-y-1">
+                      <p>
+                        Replaces {match.manufacturer} <span className="font-mono">{match.partNumber}</span>
+                      </p>
+                      {match.notes && <p>{match.notes}</p>}
+                      {notice && <p className="text-amber-700">{notice}</p>}
+                    </CardContent>
+                  </Card>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </main>
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,167 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { Header } from '@/components/shared/Header'
+import { Footer } from '@/components/shared/Footer'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Loader2, CheckCircle2, XCircle, BellOff } from 'lucide-react'
+import Link from 'next/link'
+
+type AlertStatus = 'loading' | 'confirmed' | 'unsubscribe' | 'unsubscribed' | 'error'
+
+function ProductAlertsForm() {
+  const searchParams = useSearchParams()
+  const confirmToken = searchParams.get('confirm')
+  const unsubscribeToken = searchParams.get('unsubscribe')
+  const [status, setStatus] = useState<AlertStatus>(unsubscribeToken ? 'unsubscribe' : 'loading')
+  const [message, setMessage] = useState<string>('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (unsubscribeToken) return
+
+    if (!confirmToken) {
+      setStatus('error')
+      setMessage('This link is incomplete. Please use the link from your email.')
+      return
+    }
+
+    // Confirm the alert
+    const confirmAlert = async () => {
+      try {
+        const response = await fetch(
+          `/api/product-subscriptions/confirm?token=${encodeURIComponent(confirmToken)}`,
+        )
+        const data = await response.json()
+
+        if (response.ok) {
+          setStatus('confirmed')
+          setMessage(data.message || 'Your product alert is confirmed.')
+        } else {
+          setStatus('error')
+          setMessage(data.error || 'Failed to confirm the alert. Please try again.')
+        }
+      } catch (error) {
+        setStatus('error')
+        setMessage('An error occurred while confirming your alert. Please try again.')
+      }
+    }
+
+    confirmAlert()
+  }, [confirmToken, unsubscribeToken])
+
+  // Unsubscribing needs a click, so mail scanners following links do not remove alerts
+  const handleUnsubscribe = async () => {
+    if (!unsubscribeToken) return
+
+    setIsSubmitting(true)
+    try {
+      const csrfResponse = await fetch('/api/csrf-token')
+      const csrfData = await csrfResponse.json()
+
+      const response = await fetch('/api/product-subscriptions/unsubscribe', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfData.token,
+        },
+        body: JSON.stringify({ token: unsubscribeToken }),
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        setStatus('unsubscribed')
+        setMessage(data.message || 'You will no longer receive this product alert.')
+      } else {
+        setStatus('error')
+        setMessage(data.error || 'Failed to unsubscribe. Please try again.')
+      }
+    } catch (error) {
+      setStatus('error')
+      setMessage('An error occurred. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <Header />
+      <main>
+        <div className="min-h-[calc(100vh-200px)] flex items-center justify-center bg-gradient-to-br from-gray-50 to-gray-100 p-4">
+          <Card className="w-full max-w-md">
+            <CardHeader className="space-y-1 text-center">
+              {status === 'loading' && (
+                <div className="mx-auto w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center mb-4">
+                  <Loader2 className="h-6 w-6 text-primary animate-spin" />
+                </div>
+              )}
+              {(status === 'confirmed' || status === 'unsubscribed') && (
+                <div className="mx-auto w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mb-4">
+                  <CheckCircle2 className="h-6 w-6 text-green-600" />
+                </div>
+              )}
+              {status === 'unsubscribe' && (
+                <div className="mx-auto w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center mb-4">
+                  <BellOff className="h-6 w-6 text-primary" />
+                </div>
+              )}
+              {status === 'error' && (
+                <div className="mx-auto w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mb-4">
+                  <XCircle className="h-6 w-6 text-red-600" />
+                </div>
+              )}
+              <CardTitle className="text-2xl font-bold">
+                {status === 'loading' && 'Confirming Alert...'}
+                {status === 'confirmed' && 'Alert Confirmed!'}
+                {status === 'unsubscribe' && 'Stop Product Alert'}
+                {status === 'unsubscribed' && 'Unsubscribed'}
+                {status === 'error' && 'Something Went Wrong'}
+              </CardTitle>
+              <CardDescription>
+                {status === 'loading' && 'Please wait while we confirm your product alert'}
+                {status === 'confirmed' && 'We will email you when the product changes'}
+                {status === 'unsubscribe' && 'You will no longer be emailed about this product'}
+                {status === 'unsubscribed' && 'Your product alert has been removed'}
+                {status === 'error' && 'We could not complete your request'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {message && <p className="text-center text-gray-600">{message}</p>}
+
+              {status === 'unsubscribe' && (
+                <Button onClick={handleUnsubscribe} disabled={isSubmitting} className="w-full">
+                  {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Unsubscribe
+                </Button>
+              )}
+
+              {status !== 'loading' && (
+                <div className="text-center">
+                  <Link href="/products" className="text-sm text-primary hover:underline">
+                    Browse Products
+                  </Link>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+      <Footer />
+    </>
+  )
+}
+
+export default function ProductAlertsPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    }>
+      <ProductAlertsForm />
+    </Suspense>
+  )
+}
@@ -7,22 +7,37 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Product } from "@/types"
+import { Product, ProductRelationType } from "@/types"
 import { AddToRFQButton } from "@/components/features/AddToRFQButton"
 import { ProductImageGallery } from "@/components/features/ProductImageGallery"
 import { Download, CheckCircle2 } from "lucide-react"
 import { pgPool } from "@/lib/pg"
+import { fetchCategoryTemplate } from "@/lib/category-attributes"
+import { formatAttributeValue } from "@/lib/product-attributes"
+import { fetchFamilyVariants, fetchProductFamily } from "@/lib/product-families"
+import { VariantSelector } from "@/components/features/VariantSelector"
+import { CategoryBreadcrumbs } from "@/components/features/CategoryBreadcrumbs"
+import { PriceBreakTable } from "@/components/features/PriceBreakTable"
+import { ProductAlerts } from "@/components/features/ProductAlerts"
+import { LifecycleNotice } from "@/components/features/LifecycleNotice"
+import { isDiscontinued } from "@/lib/product-lifecycle"
+import { fetchProductCrossReferences } from "@/lib/cross-references"
+import { CROSS_REFERENCE_EQUIVALENCE_LABELS } from "@/lib/cross-reference-validation"
+import { fetchProductRelations, fetchSimilarProductIds } from "@/lib/product-relations"
+import { PRODUCT_RELATION_LABELS } from "@/lib/product-relation-validation"
+import { RelatedProductsCarousel } from "@/components/features/RelatedProductsCarousel"
 
 
 interface ProductPageProps {
   params: { id: string }
 }
 
-import { fetchProductById } from '@/lib/data-fetching'
+import { fetchProductById, fetchProducts, fetchCategoryBreadcrumbs } from '@/lib/data-fetching'
+import { applyCustomerPricing, getServerPricingContext, type PricingContext } from '@/lib/customer-pricing'
 
-async function getProduct(id: string): Promise<Product | null> {
+async function getProduct(id: string, pricing: PricingContext | null = null): Promise<Product | null> {
   // Direct DB query eliminates HTTP overhead
-  return await fetchProductById(id)
+  return await fetchProductById(id, pricing)
 }
 
 async function getTechnicalDetails(productId: string) {
@@ -43,6 +58,84 @@ async function getTechnicalDetails(productId: string) {
   }
 }
 
+async function getAttributeTemplate(categoryId: string | undefined) {
+  try {
+    return await fetchCategoryTemplate(categoryId)
+  } catch (error) {
+    console.error('Failed to fetch category attributes:', error)
+    return []
+  }
+}
+
+async function getFamily(familyId: string | null | undefined, pricing: PricingContext | null) {
+  if (!familyId) return null
+  try {
+    const family = await fetchProductFamily(familyId)
+    if (!family) return null
+    return { family, variants: await applyCustomerPricing(await fetchFamilyVariants(familyId), pricing) }
+  } catch (error) {
+    console.error('Failed to fetch product family:', error)
+    return null
+  }
+}
+
+// Curated relations grouped for the carousels; without curated alternatives, products
+// of the same category with the same coding and pin count are suggested instead
+async function getRelatedProducts(productId: string, pricing: PricingContext | null) {
+  try {
+    const relations = await fetchProductRelations(productId)
+    const hasAlternatives = relations.some((relation) => relation.type === 'alternative')
+    const similarIds = hasAlternatives ? [] : await fetchSimilarProductIds(productId)
+
+    const ids = Array.from(new Set([...relations.map((relation) => relation.relatedProductId), ...similarIds]))
+    if (ids.length === 0) return null
+
+    const { products } = await fetchProducts({ ids, limit: ids.length, pricing })
+    const byId = new Map(products.filter((p) => !isDiscontinued(p)).map((p) => [p.id, p]))
+
+    const pick = (types: ProductRelationType[]) => {
+      const picked = new Map<string, Product>()
+      relations
+        .filter((relation) => types.includes(relation.type))
+        .forEach((relation) => {
+          const related = byId.get(relation.relatedProductId)
+          if (related && !picked.has(related.id)) picked.set(related.id, related)
+        })
+      return Array.from(picked.values())
+    }
+
+    // Accessories and cables share a carousel; the badge tells them apart
+    const accessoryBadges: Record<string, string> = {}
+    relations
+      .filter((relation) => relation.type === 'accessory' || relation.type === 'compatible_cable')
+      .forEach((relation) => {
+        accessoryBadges[relation.relatedProductId] ??= PRODUCT_RELATION_LABELS[relation.type]
+      })
+
+    return {
+      mates: pick(['mating']),
+      accessories: pick(['accessory', 'compatible_cable']),
+      accessoryBadges,
+      alternatives: hasAlternatives
+        ? pick(['alternative'])
+        : similarIds.map((id) => byId.get(id)).filter((p): p is Product => !!p),
+      alternativesTitle: hasAlternatives ? 'Alternatives' : 'Similar Products',
+    }
+  } catch (error) {
+    console.error('Failed to fetch related products:', error)
+    return null
+  }
+}
+
+async function getCrossReferences(productId: string) {
+  try {
+    return await fetchProductCrossReferences(productId)
+  } catch (error) {
+    console.error('Failed to fetch cross-references:', error)
+    return []
+  }
+}
+
 export async function generateMetadata({ params }: ProductPageProps): Promise<Metadata> {
   const product = await getProduct(params.id)
   
@@ -63,6 +156,50 @@ export async function generateMetadata({ params }: ProductPageProps): Promise<Me
   }
 }
 
+// Competitor part numbers this product is known to replace
+async function EquivalentParts({ productId }: { productId: string }) {
+  const crossReferences = await getCrossReferences(productId)
+  if (crossReferences.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="mb-12">
+      <CardHeader>
+        <CardTitle>Equivalent Parts</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-3 font-semibold">Manufacturer</th>
+                <th className="text-left p-3 font-semibold">Part Number</th>
+                <th className="text-left p-3 font-semibold">Equivalence</th>
+                <th className="text-left p-3 font-semibold">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {crossReferences.map((crossReference) => (
+                <tr key={crossReference.id} className="border-b last:border-b-0">
+                  <td className="p-3">{crossReference.manufacturer}</td>
+                  <td className="p-3 font-mono text-sm">{crossReference.partNumber}</td>
+                  <td className="p-3">
+                    <Badge variant={crossReference.equivalence === 'direct' ? 'default' : 'secondary'}>
+                      {CROSS_REFERENCE_EQUIVALENCE_LABELS[crossReference.equivalence]}
+                    </Badge>
+                  </td>
+                  <td className="p-3 text-sm text-gray-600">{crossReference.notes || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
 async function TechnicalDetailsTabs({ productId }: { productId: string }) {
   const details = await getTechnicalDetails(productId)
   const salesDetails = details.filter(d => d.tab === 'sales')
@@ -133,27 +270,50 @@ async function TechnicalDetailsTabs({ productId }: { productId: string }) {
 }
 
 export default async function ProductPage({ params }: ProductPageProps) {
-  const product = await getProduct(params.id)
+  const pricing = await getServerPricingContext()
+  const product = await getProduct(params.id, pricing)
 
   if (!product) {
     notFound()
   }
 
+  // Category-specific attributes that have a value on this product
+  const attributeRows = (await getAttributeTemplate(product.categoryId))
+    .map((attribute) => ({ attribute, value: formatAttributeValue(attribute, product.attributes?.[attribute.key]) }))
+    .filter((row) => row.value !== null)
+
+  // Variants share the family's content; their own images take precedence
+  const familyData = await getFamily(product.familyId, pricing)
+  const family = familyData?.family
+  const images = product.images?.length ? product.images : family?.images ?? []
+  const variantLabel = family?.axes
+    .map((axis) => product.variantOptions?.[axis.key])
+    .filter(Boolean)
+    .join(', ')
+
+  const breadcrumbs = product.categoryId ? await fetchCategoryBreadcrumbs(product.categoryId) : []
+  const related = await getRelatedProducts(product.id, pricing)
+
   return (
     <>
       <Header />
       <main>
         <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <CategoryBreadcrumbs path={breadcrumbs} current={product.mpn || product.sku} />
+          <LifecycleNotice product={product} />
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-12">
             {/* Product Images */}
             <ProductImageGallery 
-              images={product.images} 
+              images={images} 
               mpn={product.mpn}
             />
 
             {/* Product Info */}
             <div>
               <div className="mb-4">
+                {family && (
+                  <p className="text-sm font-medium text-gray-500 mb-1">{family.name}</p>
+                )}
                 <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-2">
                   {product.mpn || product.description.substring(0, 50)}
                 </h1>
@@ -170,10 +330,29 @@ export default async function ProductPage({ params }: ProductPageProps) {
 
               <p className="text-gray-700 mb-6">{product.description}</p>
 
+              {family?.description && (
+                <div
+                  className="prose prose-sm max-w-none text-gray-700 mb-6"
+                  dangerouslySetInnerHTML={{ __html: family.description }}
+                />
+              )}
+
+              {familyData && (
+                <VariantSelector
+                  axes={familyData.family.axes}
+                  variants={familyData.variants}
+                  currentId={product.id}
+                />
+              )}
+
+              <PriceBreakTable product={product} />
+
               <div className="flex flex-col sm:flex-row gap-4 mb-6">
-                <AddToRFQButton product={product} />
+                <AddToRFQButton product={product} variantLabel={variantLabel || undefined} />
               </div>
 
+              {!isDiscontinued(product) && <ProductAlerts product={product} />}
+
               {/* Download Options */}
               {(product.datasheetUrl || product.drawingUrl) && (
                 <Card className="mb-6">
@@ -289,6 +468,12 @@ export default async function ProductPage({ params }: ProductPageProps) {
                         <td className="p-3 font-medium">{product.productType}</td>
                       </tr>
                     )}
+                    {attributeRows.map(({ attribute, value }) => (
+                      <tr key={attribute.key} className="border-b">
+                        <td className="p-3">{attribute.label}</td>
+                        <td className="p-3 font-medium">{value}</td>
+                      </tr>
+                    ))}
                     {product.coupling && (
                       <tr className="border-b">
                         <td className="p-3">Coupling</td>
@@ -428,6 +613,22 @@ export default async function ProductPage({ params }: ProductPageProps) {
               </div>
             </CardContent>
           </Card>
+
+          {/* Related products */}
+          {related && (
+            <>
+              <RelatedProductsCarousel title="Mates with" products={related.mates} />
+              <RelatedProductsCarousel
+                title="Accessories"
+                products={related.accessories}
+                badges={related.accessoryBadges}
+              />
+              <RelatedProductsCarousel title={related.alternativesTitle} products={related.alternatives} />
+            </>
+          )}
+
+          {/* Competitor parts this product replaces */}
+          <EquivalentParts productId={product.id} />
         </div>
       </main>
       <Footer />
@@ -4,7 +4,10 @@ import { Footer } from "@/components/shared/Footer"
 import { FilterSidebar } from "@/components/features/FilterSidebar"
 import { ComparisonDrawer } from "@/components/features/ComparisonDrawer"
 import { ProductListServer } from "@/components/features/ProductListServer"
-import { fetchCategoryBySlug, fetchCategoryById } from "@/lib/data-fetching"
+import { fetchCategoryBySlug, fetchCategoryById, fetchCategoryBreadcrumbs } from "@/lib/data-fetching"
+import { CategoryBreadcrumbs } from "@/components/features/CategoryBreadcrumbs"
+import { parseSpecRangeFilters } from "@/lib/spec-ranges"
+import { parseAttributeFilters } from "@/lib/product-attributes"
 import { Suspense } from "react"
 
 export const metadata: Metadata = {
@@ -12,6 +15,9 @@ export const metadata: Metadata = {
   description: "Browse our complete catalog of M12, M8, RJ45, and PROFINET industrial connectors and cables.",
 }
 
+const firstParam = (value: string | string[] | undefined) =>
+  typeof value === 'string' && value ? value : undefined
+
 interface ProductsPageProps {
   searchParams: { [key: string]: string | string[] | undefined }
 }
@@ -29,20 +35,24 @@ export default async function ProductsPage({ searchParams }: ProductsPageProps)
   }
   
   const pageTitle = activeCategory ? activeCategory.name : 'Industrial Connectors & Cables'
+  const breadcrumbs = activeCategory ? await fetchCategoryBreadcrumbs(activeCategory.id) : []
 
   // Normalize searchParams for ProductListServer
   const normalizedSearchParams = {
     categoryId: typeof searchParams.categoryId === 'string' ? searchParams.categoryId : undefined,
     category: typeof searchParams.category === 'string' ? searchParams.category : undefined,
     connectorType: typeof searchParams.connectorType === 'string' ? searchParams.connectorType : undefined,
-    code: typeof searchParams.code === 'string' ? searchParams.code : undefined,
-    degreeOfProtection: typeof searchParams.degreeOfProtection === 'string' ? searchParams.degreeOfProtection : undefined,
+    // FilterSidebar writes coding/ipRating; the API names are code/degreeOfProtection
+    code: firstParam(searchParams.code) ?? firstParam(searchParams.coding),
+    degreeOfProtection: firstParam(searchParams.degreeOfProtection) ?? firstParam(searchParams.ipRating),
     pins: typeof searchParams.pins === 'string' ? searchParams.pins : undefined,
     gender: typeof searchParams.gender === 'string' ? searchParams.gender : undefined,
     inStock: typeof searchParams.inStock === 'string' ? searchParams.inStock : undefined,
     search: typeof searchParams.search === 'string' ? searchParams.search : undefined,
     cursor: typeof searchParams.cursor === 'string' ? searchParams.cursor : undefined,
     limit: typeof searchParams.limit === 'string' ? searchParams.limit : undefined,
+    ranges: parseSpecRangeFilters((name) => firstParam(searchParams[name])),
+    attributes: parseAttributeFilters(Object.entries(searchParams)),
   }
 
   return (
@@ -51,6 +61,7 @@ export default async function ProductsPage({ searchParams }: ProductsPageProps)
       <main>
         <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <div className="mb-8">
+            <CategoryBreadcrumbs path={breadcrumbs} />
             <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-2">
               {pageTitle}
             </h1>
@@ -9,8 +9,13 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { useRFQStore } from '@/store/rfq-store'
 import { RFQForm } from '@/components/features/RFQForm'
-import { Trash2, Plus, Minus } from 'lucide-react'
+import { CordsetSpec } from '@/components/features/CordsetSpec'
+import { RFQBasketPicker } from '@/components/features/RFQBasketPicker'
+import { Trash2, Plus, Minus, AlertTriangle } from 'lucide-react'
 import { Product } from '@/types'
+import { formatPrice } from '@/lib/format-price'
+import { resolveTierPrice } from '@/lib/tier-pricing'
+import { isDiscontinued, lifecycleNotice } from '@/lib/product-lifecycle'
 import Link from 'next/link'
 
 export default function RFQPage() {
@@ -20,15 +25,17 @@ export default function RFQPage() {
 
   useEffect(() => {
     const fetchProducts = async () => {
-      if (items.length === 0) {
+      // Configured cordsets and free-text BOM lines carry their own details
+      const catalogItems = items.filter((item) => !item.configuration && !item.freeText)
+      if (catalogItems.length === 0) {
         setProducts([])
         return
       }
 
       try {
         // Fetch all products for the items in a single batched request
-        const ids = Array.from(new Set(items.map((item) => item.productId))).join(',')
-        const response = await fetch(`/api/products?ids=${encodeURIComponent(ids)}`, {
+        const ids = Array.from(new Set(catalogItems.map((item) => item.productId))).join(',')
+        const response = await fetch(`/api/products?ids=${encodeURIComponent(ids)}&includePriceTiers=true`, {
           cache: 'no-store',
         })
 
@@ -51,6 +58,7 @@ export default function RFQPage() {
   }
 
   const totalItems = items.reduce((sum, item) => sum + item.quantity, 0)
+  const discontinuedCount = products.filter((product) => isDiscontinued(product)).length
 
   if (items.length === 0) {
     return (
@@ -63,11 +71,19 @@ export default function RFQPage() {
                 Request for Quote
               </h1>
               <p className="text-lg text-gray-600 mb-8">
-                Your RFQ list is empty. Add products to get started.
+                Your RFQ list is empty. Add products to get started, or upload your bill of materials.
               </p>
-              <Button asChild size="lg">
-                <Link href="/products">Browse Products</Link>
-              </Button>
+              <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                <Button asChild size="lg">
+                  <Link href="/products">Browse Products</Link>
+                </Button>
+                <Button asChild size="lg" variant="outline">
+                  <Link href="/rfq/upload">Upload a BOM</Link>
+                </Button>
+              </div>
+              <div className="mt-8 flex justify-center">
+                <RFQBasketPicker />
+              </div>
             </div>
           </div>
         </main>
@@ -88,14 +104,32 @@ export default function RFQPage() {
             <p className="text-lg text-gray-600">
               {totalItems} item{totalItems !== 1 ? 's' : ''} in your RFQ
             </p>
+            <div className="mt-4">
+              <RFQBasketPicker />
+            </div>
           </div>
 
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             {/* RFQ Items */}
             <div className="lg:col-span-2 space-y-4">
+              {discontinuedCount > 0 && (
+                <div role="alert" className="flex gap-3 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-900">
+                  <AlertTriangle className="h-5 w-5 flex-shrink-0" aria-hidden="true" />
+                  <p>
+                    Your RFQ contains {discontinuedCount === 1 ? 'a discontinued product' : `${discontinuedCount} discontinued products`}.
+                    We may not be able to quote {discontinuedCount === 1 ? 'it' : 'them'}; consider the recommended replacements below.
+                  </p>
+                </div>
+              )}
               {items.map((item) => {
-                const product = getProduct(item.productId)
-                if (!product) return null
+                const configuration = item.configuration
+                const product = configuration || item.freeText ? undefined : getProduct(item.productId)
+                if (!product && !configuration && !item.freeText) return null
+                // Indicative only; the quotation sets the final price
+                const linePrice = product
+                  ? resolveTierPrice(product.price, product.priceTiers, item.quantity)
+                  : null
+                const notice = product ? lifecycleNotice(product) : null
 
                 return (
                   <Card key={item.productId}>
@@ -106,6 +140,25 @@ export default function RFQPage() {
                             {item.name}
                           </h3>
                           <p className="text-sm text-gray-600 mb-2">SKU: {item.sku}</p>
+                          {configuration && <CordsetSpec configuration={configuration} className="mb-3" />}
+                          {item.freeText && (
+                            <p className="text-sm text-amber-700 mb-2">
+                              Not in our catalog under this part number; our team will match it when quoting.
+                            </p>
+                          )}
+                          {product && notice && (
+                            <p className={`text-sm mb-2 ${isDiscontinued(product) ? 'text-red-700' : 'text-amber-700'}`}>
+                              {notice}
+                              {product.replacement && (
+                                <>
+                                  {' '}Replacement:{' '}
+                                  <Link href={`/products/${product.replacement.id}`} className="font-medium underline">
+                                    {product.replacement.mpn || product.replacement.sku}
+                                  </Link>
+                                </>
+                              )}
+                            </p>
+                          )}
                           <div className="flex items-center gap-4">
                             <div className="flex items-center gap-2">
                               <Button
@@ -135,13 +188,34 @@ export default function RFQPage() {
                             </Button>
                           </div>
                         </div>
-                        <div className="text-right">
-                          <Link
-                            href={`/products/${product.id}`}
-                            className="text-sm text-primary hover:underline"
-                          >
-                            View Details
-                          </Link>
+                        <div className="text-right space-y-1">
+                          {product && linePrice && (
+                            <div>
+                              <p className="font-semibold">{formatPrice(linePrice.extendedPrice)}</p>
+                              <p className="text-xs text-gray-500">
+                                {item.quantity} × {formatPrice(linePrice.unitPrice, product.priceType)}
+                                {linePrice.tier && ` (${linePrice.tier.minQuantity}+ break)`}
+                              </p>
+                            </div>
+                          )}
+                          {configuration && (
+                            <div>
+                              <p className="font-semibold">
+                                {formatPrice(Math.round(configuration.estimatedPrice * item.quantity * 100) / 100)}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                {item.quantity} × {formatPrice(configuration.estimatedPrice)} (estimate)
+                              </p>
+                            </div>
+                          )}
+                          {!item.freeText && (
+                            <Link
+                              href={product ? `/products/${product.id}` : '/configurator'}
+                              className="text-sm text-primary hover:underline"
+                            >
+                              {product ? 'View Details' : 'Configure another'}
+                            </Link>
+                          )}
                         </div>
                       </div>
                     </CardContent>
@@ -149,13 +223,25 @@ export default function RFQPage() {
                 )
               })}
 
+              {(items.some((item) => item.configuration) ||
+                products.some((product) => product.price != null || product.priceTiers?.length)) && (
+                <p className="text-xs text-gray-500">
+                  Prices shown are indicative and exclude GST. Final prices are confirmed in your quotation.
+                </p>
+              )}
+
               <div className="flex justify-between items-center pt-4">
                 <Button variant="outline" onClick={clearItems}>
                   Clear All
                 </Button>
-                <Button asChild>
-                  <Link href="/products">Continue Shopping</Link>
-                </Button>
+                <div className="flex gap-2">
+                  <Button asChild variant="outline">
+                    <Link href="/rfq/upload">Upload a BOM</Link>
+                  </Button>
+                  <Button asChild>
+                    <Link href="/products">Continue Shopping</Link>
+                  </Button>
+                </div>
               </div>
             </div>
 
@@ -0,0 +1,31 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { Header } from "@/components/shared/Header"
+import { Footer } from "@/components/shared/Footer"
+import { BomUpload } from "@/components/features/BomUpload"
+
+export const metadata: Metadata = {
+  title: "Upload a BOM",
+  description: "Upload or paste your bill of materials to build a request for quote in one step.",
+}
+
+export default function BomUploadPage() {
+  return (
+    <>
+      <Header />
+      <main>
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12 max-w-5xl">
+          <h1 className="text-4xl font-bold mb-4">Upload a BOM</h1>
+          <p className="text-lg text-gray-600 mb-8">
+            Upload or paste your bill of materials. We match each line against our SKUs, manufacturer part numbers
+            and competitor cross-references, and add the lines to your{" "}
+            <Link href="/rfq" className="text-primary hover:underline">RFQ</Link>.
+          </p>
+
+          <BomUpload />
+        </div>
+      </main>
+      <Footer />
+    </>
+  )
+}
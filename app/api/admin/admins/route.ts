@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { rateLimit } from '@/lib/rate-limit'
+import { fetchAssignableAdmins } from '@/lib/assignments'
+
+// GET /api/admin/admins - usernames of the active admins, for choosing owners (admin only)
+export async function GET(req: NextRequest) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const admins = await fetchAssignableAdmins()
+    return NextResponse.json({ admins })
+  } catch (error) {
+    log.error('Error fetching admins', error)
+    return NextResponse.json({ error: 'Failed to fetch admins' }, { status: 500 })
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { pgPool } from '@/lib/pg'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+import { processOutbox, retryFailedEmails } from '@/lib/mail'
+import { getMailTransportKind } from '@/lib/mail-transport'
+
+const processSchema = z.object({
+  retryFailed: z.boolean().optional().default(false),
+})
+
+// GET /api/admin/email-outbox - Outbox counts and recent undelivered emails (admin only)
+export async function GET(req: NextRequest) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const countsResult = await pgPool.query<{ status: string; count: string }>(
+      `SELECT status, COUNT(*) AS count FROM "EmailOutbox" GROUP BY status`,
+    )
+    const counts: Record<string, number> = { pending: 0, sending: 0, sent: 0, failed: 0 }
+    for (const row of countsResult.rows) {
+      counts[row.status] = parseInt(row.count, 10)
+    }
+
+    const undeliveredResult = await pgPool.query(
+      `
+      SELECT id, template, "to", subject, status, attempts, "maxAttempts",
+             "nextAttemptAt", "lastError", "createdAt"
+      FROM "EmailOutbox"
+      WHERE status IN ('pending', 'failed')
+      ORDER BY "createdAt" DESC
+      LIMIT 50
+      `,
+    )
+
+    return NextResponse.json({
+      transport: getMailTransportKind(),
+      counts,
+      undelivered: undeliveredResult.rows,
+    })
+  } catch (error) {
+    log.error('Email outbox stats error', error)
+    return NextResponse.json(
+      { error: 'Failed to get email outbox stats' },
+      { status: 500 },
+    )
+  }
+}
+
+// POST /api/admin/email-outbox - Deliver due emails now, optionally re-queueing failed ones (admin only)
+export async function POST(req: NextRequest) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 5, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const json = await req.json().catch(() => ({}))
+    const data = processSchema.parse(json)
+
+    const requeued = data.retryFailed ? await retryFailedEmails() : 0
+    const result = await processOutbox()
+
+    log.info('Email outbox processed', { requeued, ...result })
+
+    return NextResponse.json({
+      success: true,
+      requeued,
+      ...result,
+    })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    log.error('Email outbox processing error', error)
+    return NextResponse.json(
+      { error: 'Failed to process email outbox' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { rateLimit } from '@/lib/rate-limit'
+import { pgPool } from '@/lib/pg'
+import { buildOrderFilters, orderSortSql, parseOrderFilterParams } from '@/lib/order-query'
+import { orderStatusLabel } from '@/lib/order-status'
+import { exportFormatParam, streamSpreadsheetExport, type ExportColumn } from '@/lib/spreadsheet-export'
+
+const BATCH_SIZE = 500
+
+const column = (header: string, key: string, numeric = false): ExportColumn => ({
+  header,
+  value: (row) => {
+    const value = row[key]
+    if (value === null || value === undefined) return null
+    return numeric ? Number(value) : String(value)
+  },
+})
+
+// One row per order item; quoted prices come from the order's latest quote revision
+const EXPORT_COLUMNS: ExportColumn[] = [
+  column('Reference', 'reference'),
+  column('Date', 'date'),
+  { header: 'Status', value: (row) => orderStatusLabel(row.status) },
+  column('Company', 'companyName'),
+  column('Contact', 'contactName'),
+  column('Email', 'email'),
+  column('Phone', 'phone'),
+  column('Owner', 'assignedTo'),
+  column('SKU', 'sku'),
+  column('Product', 'name'),
+  column('Quantity', 'quantity', true),
+  column('Item notes', 'itemNotes'),
+  column('Quote revision', 'quoteRevision', true),
+  column('Quoted unit price', 'unitPrice', true),
+  column('Quoted line total', 'lineTotal', true),
+]
+
+// GET /api/admin/orders/export - download the filtered orders as CSV or XLSX (admin)
+// Accepts the same filters and sort as GET /api/orders plus format=csv|xlsx
+export async function GET(req: NextRequest) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 10, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  const auth = checkAdmin(req)
+  if (auth instanceof NextResponse) return auth
+
+  const { searchParams } = new URL(req.url)
+  const format = exportFormatParam(searchParams)
+  const params = parseOrderFilterParams(searchParams, auth.username)
+  const { filters, values, nextIndex } = buildOrderFilters(params)
+  const where = filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : ''
+
+  // The list can be sorted on any column, so batches page by offset rather than by id
+  let offset = 0
+  const fetchBatch = async () => {
+    const result = await pgPool.query(
+      `
+      SELECT
+        o.reference,
+        to_char(o."createdAt" AT TIME ZONE 'Asia/Kolkata', 'YYYY-MM-DD') AS date,
+        o.status, o."companyName", o."contactName", o.email, o.phone, o."assignedTo",
+        oi.sku, oi.name, oi.quantity, oi.notes AS "itemNotes",
+        q.revision AS "quoteRevision", qi."unitPrice", qi."lineTotal"
+      FROM "Order" o
+      JOIN "OrderItem" oi ON oi."orderId" = o.id
+      LEFT JOIN LATERAL (
+        SELECT id, revision FROM "Quote" WHERE "orderId" = o.id ORDER BY revision DESC LIMIT 1
+      ) q ON TRUE
+      LEFT JOIN LATERAL (
+        SELECT "unitPrice", "lineTotal" FROM "QuoteItem"
+        WHERE "quoteId" = q.id AND "orderItemId" = oi.id
+        ORDER BY "sortOrder" LIMIT 1
+      ) qi ON TRUE
+      ${where}
+      ORDER BY ${orderSortSql(params)}, oi.id
+      LIMIT ${BATCH_SIZE}
+      OFFSET $${nextIndex}
+      `,
+      [...values, offset],
+    )
+    offset += result.rows.length
+    return { rows: result.rows, done: result.rows.length < BATCH_SIZE }
+  }
+
+  const date = new Date().toISOString().slice(0, 10)
+  return streamSpreadsheetExport(EXPORT_COLUMNS, fetchBatch, format, `orders-${date}.${format}`, 'Orders')
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { rateLimit } from '@/lib/rate-limit'
+import { pgPool } from '@/lib/pg'
+import { buildProductFilters, parseProductFilterParams } from '@/lib/product-query'
+import { formatCell, PRODUCT_COLUMNS } from '@/lib/product-spreadsheet'
+import { exportFormatParam, streamSpreadsheetExport, type ExportColumn } from '@/lib/spreadsheet-export'
+
+const BATCH_SIZE = 500
+
+// Headers are the product column names, so an export can be edited and imported again
+const EXPORT_COLUMNS: ExportColumn[] = PRODUCT_COLUMNS.map((c) => ({
+  header: c.column,
+  value: (row) => {
+    const value = row[c.column]
+    if ((c.kind === 'number' || c.kind === 'integer') && value !== null && value !== undefined) {
+      return Number(value)
+    }
+    return formatCell(c.kind, value)
+  },
+}))
+
+// GET /api/admin/products/export - stream the filtered catalog as CSV or XLSX (admin)
+// Accepts the same filters as GET /api/products plus format=csv|xlsx
+export async function GET(req: NextRequest) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 10, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  const auth = checkAdmin(req)
+  if (auth instanceof NextResponse) return auth
+
+  const { searchParams } = new URL(req.url)
+  const format = exportFormatParam(searchParams)
+  // Exports cover the whole catalog, discontinued products included
+  const { filters, values, nextIndex } = buildProductFilters({
+    ...parseProductFilterParams(searchParams),
+    includeDiscontinued: true,
+  })
+  const selectColumns = PRODUCT_COLUMNS.map((c) => `"${c.column}"`).join(', ')
+
+  // Keyset batches keep memory flat regardless of catalog size
+  let cursor: string | null = null
+  const fetchBatch = async () => {
+    const batchFilters = cursor ? [...filters, `id > $${nextIndex}`] : filters
+    const batchValues = cursor ? [...values, cursor] : values
+    const where = batchFilters.length > 0 ? `WHERE ${batchFilters.join(' AND ')}` : ''
+    const result = await pgPool.query(
+      `SELECT id, ${selectColumns} FROM "Product" ${where} ORDER BY id ASC LIMIT ${BATCH_SIZE}`,
+      batchValues,
+    )
+    cursor = result.rows.length === BATCH_SIZE ? result.rows[result.rows.length - 1].id : null
+    return { rows: result.rows, done: cursor === null }
+  }
+
+  const date = new Date().toISOString().slice(0, 10)
+  return streamSpreadsheetExport(EXPORT_COLUMNS, fetchBatch, format, `products-${date}.${format}`, 'Products')
+}
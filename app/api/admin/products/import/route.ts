@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+import { pgPool } from '@/lib/pg'
+import {
+  applyImportPlan,
+  buildImportPlan,
+  MAX_IMPORT_FILE_SIZE,
+  parseSpreadsheet,
+  ProductImportError,
+} from '@/lib/product-spreadsheet'
+
+// POST /api/admin/products/import - dry-run or commit a CSV/XLSX product import (admin)
+// Form fields: file, dryRun ('true' returns the per-row plan without writing)
+export async function POST(req: NextRequest) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 10, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const formData = await req.formData()
+    const file = formData.get('file')
+    const dryRun = formData.get('dryRun') !== 'false'
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file uploaded' }, { status: 400 })
+    }
+
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json(
+        { error: `File size exceeds maximum allowed size of ${MAX_IMPORT_FILE_SIZE / 1024 / 1024}MB` },
+        { status: 400 },
+      )
+    }
+
+    const sheet = await parseSpreadsheet(await file.arrayBuffer(), file.name)
+
+    if (dryRun) {
+      const { plan } = await buildImportPlan(sheet, pgPool)
+      return NextResponse.json({ dryRun: true, ...plan })
+    }
+
+    // Re-plan inside the transaction with the rows locked so the commit matches what is written
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('importProducts')
+    try {
+      await client.query('BEGIN')
+      const { plan, planned } = await buildImportPlan(sheet, client, true)
+
+      if (plan.summary.error > 0) {
+        await client.query('ROLLBACK')
+        return NextResponse.json(
+          { error: 'Import has rows with errors; nothing was written', dryRun: false, ...plan },
+          { status: 422 },
+        )
+      }
+
+      await applyImportPlan(client, planned)
+      await client.query('COMMIT')
+
+      log.info('Product import committed', { by: auth.username, ...plan.summary })
+      return NextResponse.json({ dryRun: false, ...plan })
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  } catch (error: any) {
+    if (error instanceof ProductImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    log.error('Error importing products', error)
+    return NextResponse.json({ error: 'Failed to import products' }, { status: 500 })
+  }
+}
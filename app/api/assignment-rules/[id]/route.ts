@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { assignmentRuleSchema } from '@/lib/assignment-validation'
+import { ASSIGNMENT_RULE_COLUMNS } from '@/lib/assignments'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+
+// PUT /api/assignment-rules/:id - update (admin-only)
+// Only affects orders and inquiries that arrive afterwards
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const body = await req.json()
+    const parsed = assignmentRuleSchema.parse(body)
+
+    const result = await pgPool.query(
+      `
+      WITH updated AS (
+        UPDATE "AssignmentRule"
+        SET
+          type = $1,
+          "categoryId" = $2,
+          territory = $3,
+          "adminUsername" = $4,
+          active = $5,
+          "updatedAt" = NOW()
+        WHERE id = $6
+        RETURNING *
+      )
+      SELECT ${ASSIGNMENT_RULE_COLUMNS}
+      FROM updated r
+      LEFT JOIN "Category" c ON c.id = r."categoryId"
+      `,
+      [parsed.type, parsed.categoryId, parsed.territory, parsed.adminUsername, parsed.active, params.id],
+    )
+
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(result.rows[0])
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'This admin already has this rule' }, { status: 409 })
+    }
+    if (error?.code === '23503') {
+      return NextResponse.json({ error: 'Unknown admin or category' }, { status: 400 })
+    }
+
+    log.error('Failed to update assignment rule', error)
+    return NextResponse.json({ error: 'Failed to update assignment rule' }, { status: 500 })
+  }
+}
+
+// DELETE /api/assignment-rules/:id - delete (admin-only)
+// Orders and inquiries it already assigned keep their owner
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const result = await pgPool.query(`DELETE FROM "AssignmentRule" WHERE id = $1 RETURNING id`, [params.id])
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    log.info('Assignment rule deleted', { id: params.id, by: auth.username })
+    return NextResponse.json({ message: 'Assignment rule deleted successfully' })
+  } catch (error) {
+    log.error('Failed to delete assignment rule', error)
+    return NextResponse.json({ error: 'Failed to delete assignment rule' }, { status: 500 })
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkAdmin, requireAdmin } from '@/lib/auth-middleware'
+import { assignmentRuleSchema } from '@/lib/assignment-validation'
+import { ASSIGNMENT_RULE_COLUMNS } from '@/lib/assignments'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+
+// GET /api/assignment-rules - rules for assigning new orders and inquiries (admin-only)
+export async function GET(req: NextRequest) {
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const result = await pgPool.query(
+      `
+      SELECT ${ASSIGNMENT_RULE_COLUMNS}
+      FROM "AssignmentRule" r
+      LEFT JOIN "Category" c ON c.id = r."categoryId"
+      ORDER BY array_position(ARRAY['category', 'territory', 'round_robin'], r.type), c.name, r.territory, r."adminUsername"
+      `,
+    )
+    return NextResponse.json({ rules: result.rows })
+  } catch (error) {
+    log.error('Failed to fetch assignment rules', error)
+    return NextResponse.json({ error: 'Failed to fetch assignment rules' }, { status: 500 })
+  }
+}
+
+// POST /api/assignment-rules - create (admin-only)
+export const POST = requireAdmin(async (req: NextRequest) => {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const body = await req.json()
+    const parsed = assignmentRuleSchema.parse(body)
+
+    const result = await pgPool.query(
+      `
+      WITH inserted AS (
+        INSERT INTO "AssignmentRule" (type, "categoryId", territory, "adminUsername", active, "createdAt", "updatedAt")
+        VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+        RETURNING *
+      )
+      SELECT ${ASSIGNMENT_RULE_COLUMNS}
+      FROM inserted r
+      LEFT JOIN "Category" c ON c.id = r."categoryId"
+      `,
+      [parsed.type, parsed.categoryId, parsed.territory, parsed.adminUsername, parsed.active],
+    )
+
+    return NextResponse.json(result.rows[0], { status: 201 })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'This admin already has this rule' }, { status: 409 })
+    }
+    if (error?.code === '23503') {
+      return NextResponse.json({ error: 'Unknown admin or category' }, { status: 400 })
+    }
+
+    log.error('Failed to create assignment rule', error)
+    return NextResponse.json({ error: 'Failed to create assignment rule' }, { status: 500 })
+  }
+})
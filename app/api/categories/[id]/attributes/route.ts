@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { categoryAttributesSchema } from '@/lib/category-validation'
+import { fetchCategoryTemplate } from '@/lib/category-attributes'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+
+// GET /api/categories/:id/attributes - resolved attribute template, including inherited attributes
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid category ID format' }, { status: 400 })
+    }
+
+    const existing = await pgPool.query(`SELECT id FROM "Category" WHERE id = $1`, [params.id])
+    if (existing.rows.length === 0) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+    }
+
+    const attributes = await fetchCategoryTemplate(params.id)
+    return NextResponse.json({ attributes })
+  } catch (error) {
+    log.error('Error fetching category attributes', error)
+    return NextResponse.json({ error: 'Failed to fetch category attributes' }, { status: 500 })
+  }
+}
+
+// PUT /api/categories/:id/attributes - replace the attributes this category defines (admin only)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid category ID format' }, { status: 400 })
+    }
+
+    const body = await req.json()
+    const { attributes } = categoryAttributesSchema.parse(body)
+
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('saveCategoryAttributes')
+    try {
+      await client.query('BEGIN')
+
+      const existing = await client.query(`SELECT id FROM "Category" WHERE id = $1 FOR UPDATE`, [params.id])
+      if (existing.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+      }
+
+      // Product values of removed attributes are kept until the product is next saved
+      await client.query(
+        `DELETE FROM "CategoryAttribute" WHERE "categoryId" = $1 AND NOT (key = ANY($2::text[]))`,
+        [params.id, attributes.map((attribute) => attribute.key)],
+      )
+
+      for (const attribute of attributes) {
+        await client.query(
+          `
+          INSERT INTO "CategoryAttribute" (
+            "categoryId", key, label, "dataType", unit, "allowedValues",
+            required, filterable, comparable, "sortOrder"
+          )
+          VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7, $8, $9, $10)
+          ON CONFLICT ("categoryId", key) DO UPDATE SET
+            label = EXCLUDED.label,
+            "dataType" = EXCLUDED."dataType",
+            unit = EXCLUDED.unit,
+            "allowedValues" = EXCLUDED."allowedValues",
+            required = EXCLUDED.required,
+            filterable = EXCLUDED.filterable,
+            comparable = EXCLUDED.comparable,
+            "sortOrder" = EXCLUDED."sortOrder",
+            "updatedAt" = NOW()
+          `,
+          [
+            params.id,
+            attribute.key,
+            attribute.label,
+            attribute.dataType,
+            attribute.unit || null,
+            JSON.stringify(attribute.dataType === 'select' ? attribute.allowedValues : []),
+            attribute.required,
+            attribute.filterable,
+            attribute.comparable,
+            attribute.sortOrder,
+          ],
+        )
+      }
+
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    log.info('Category attributes saved', { categoryId: params.id, count: attributes.length, by: auth.username })
+
+    const template = await fetchCategoryTemplate(params.id)
+    return NextResponse.json({ attributes: template })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    log.error('Error saving category attributes', error)
+    return NextResponse.json({ error: 'Failed to save category attributes' }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { log } from '@/lib/logger'
+import { rateLimit } from '@/lib/rate-limit'
+
+const MAX_CATEGORY_DEPTH = 20
+
+// GET /api/categories/:id/breadcrumbs - path from the root category down to this one
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid category ID format' }, { status: 400 })
+    }
+
+    // The depth limit also stops the walk on a parentId cycle
+    const result = await pgPool.query(
+      `
+      WITH RECURSIVE ancestry AS (
+        SELECT id, name, slug, "parentId", 0 AS depth FROM "Category" WHERE id = $1
+        UNION ALL
+        SELECT c.id, c.name, c.slug, c."parentId", a.depth + 1
+        FROM "Category" c
+        JOIN ancestry a ON c.id = a."parentId"
+        WHERE a.depth < $2
+      )
+      SELECT id, name, slug FROM ancestry ORDER BY depth DESC
+      `,
+      [params.id, MAX_CATEGORY_DEPTH],
+    )
+
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ breadcrumbs: result.rows })
+  } catch (error) {
+    log.error('Error fetching category breadcrumbs', error)
+    return NextResponse.json({ error: 'Failed to fetch category breadcrumbs' }, { status: 500 })
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import type { PoolClient } from 'pg'
 import { pgPool } from '@/lib/pg'
 import { categoryUpdateSchema } from '@/lib/category-validation'
 import { checkAdmin } from '@/lib/auth-middleware'
@@ -6,6 +7,56 @@ import { log } from '@/lib/logger'
 import { csrfProtection } from '@/lib/csrf'
 import { rateLimit } from '@/lib/rate-limit'
 
+/**
+ * A new parent must exist and must not be the category itself or one of its
+ * descendants; returns the error response when the move is not allowed
+ */
+async function checkParent(
+  client: Pick<PoolClient, 'query'>,
+  categoryId: string,
+  parentId: string,
+): Promise<NextResponse | null> {
+  if (parentId === categoryId) {
+    return NextResponse.json(
+      { error: 'A category cannot be its own parent', code: 'CATEGORY_CYCLE' },
+      { status: 400 },
+    )
+  }
+
+  // UNION (not UNION ALL) ends the walk if the existing data already contains a cycle
+  const result = await client.query(
+    `
+    WITH RECURSIVE ancestry AS (
+      SELECT id, "parentId" FROM "Category" WHERE id = $1
+      UNION
+      SELECT c.id, c."parentId"
+      FROM "Category" c
+      JOIN ancestry a ON c.id = a."parentId"
+    )
+    SELECT
+      EXISTS (SELECT 1 FROM ancestry) AS "parentExists",
+      EXISTS (SELECT 1 FROM ancestry WHERE id = $2) AS "isDescendant"
+    `,
+    [parentId, categoryId],
+  )
+  const { parentExists, isDescendant } = result.rows[0]
+
+  if (!parentExists) {
+    return NextResponse.json({ error: 'Parent category not found' }, { status: 400 })
+  }
+  if (isDescendant) {
+    return NextResponse.json(
+      {
+        error: 'Invalid parent category',
+        message: 'A category cannot be moved under one of its own subcategories.',
+        code: 'CATEGORY_CYCLE',
+      },
+      { status: 400 },
+    )
+  }
+  return null
+}
+
 // GET /api/categories/:id
 export async function GET(
   _req: NextRequest,
@@ -25,7 +76,7 @@ export async function GET(
 
     const result = await pgPool.query(
       `
-      SELECT id, name, slug, description, image, "parentId", "createdAt", "updatedAt"
+      SELECT id, name, slug, description, image, "parentId", "sortOrder", "createdAt", "updatedAt"
       FROM "Category"
       WHERE id = $1
       LIMIT 1
@@ -74,52 +125,78 @@ export async function PUT(
     const body = await req.json()
     const parsed = categoryUpdateSchema.parse(body)
 
-    const existingResult = await pgPool.query(
-      `
-      SELECT id, name, slug, description, image, "parentId"
-      FROM "Category"
-      WHERE id = $1
-      LIMIT 1
-      `,
-      [params.id],
-    )
-    const existing = existingResult.rows[0]
-    if (!existing) {
-      return NextResponse.json({ error: 'Category not found' }, { status: 404 })
-    }
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('updateCategory')
 
-    // Handle parentId: empty string or null means remove parent relationship
-    let parentIdValue: string | null
-    if (parsed.parentId !== undefined) {
-      parentIdValue = parsed.parentId === '' || parsed.parentId === null ? null : parsed.parentId
-    } else {
-      parentIdValue = existing.parentId
-    }
+    try {
+      await client.query('BEGIN')
+      // Serialize hierarchy changes so two concurrent moves cannot form a cycle together
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext('category-tree'))`)
 
-    const updatedResult = await pgPool.query(
-      `
-      UPDATE "Category"
-      SET
-        name = $1,
-        slug = $2,
-        description = $3,
-        image = $4,
-        "parentId" = $5,
-        "updatedAt" = NOW()
-      WHERE id = $6
-      RETURNING id, name, slug, description, image, "parentId", "createdAt", "updatedAt"
-      `,
-      [
-        parsed.name ?? existing.name,
-        parsed.slug ?? existing.slug,
-        parsed.description !== undefined ? parsed.description || null : existing.description,
-        parsed.image !== undefined ? parsed.image || null : existing.image,
-        parentIdValue,
-        params.id,
-      ],
-    )
+      const existingResult = await client.query(
+        `
+        SELECT id, name, slug, description, image, "parentId", "sortOrder"
+        FROM "Category"
+        WHERE id = $1
+        LIMIT 1
+        `,
+        [params.id],
+      )
+      const existing = existingResult.rows[0]
+      if (!existing) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+      }
+
+      // Handle parentId: empty string or null means remove parent relationship
+      let parentIdValue: string | null
+      if (parsed.parentId !== undefined) {
+        parentIdValue = parsed.parentId === '' || parsed.parentId === null ? null : parsed.parentId
+      } else {
+        parentIdValue = existing.parentId
+      }
 
-    return NextResponse.json(updatedResult.rows[0])
+      if (parentIdValue && parentIdValue !== existing.parentId) {
+        const parentCheck = await checkParent(client, params.id, parentIdValue)
+        if (parentCheck) {
+          await client.query('ROLLBACK')
+          return parentCheck
+        }
+      }
+
+      const updatedResult = await client.query(
+        `
+        UPDATE "Category"
+        SET
+          name = $1,
+          slug = $2,
+          description = $3,
+          image = $4,
+          "parentId" = $5,
+          "sortOrder" = $6,
+          "updatedAt" = NOW()
+        WHERE id = $7
+        RETURNING id, name, slug, description, image, "parentId", "sortOrder", "createdAt", "updatedAt"
+        `,
+        [
+          parsed.name ?? existing.name,
+          parsed.slug ?? existing.slug,
+          parsed.description !== undefined ? parsed.description || null : existing.description,
+          parsed.image !== undefined ? parsed.image || null : existing.image,
+          parentIdValue,
+          parsed.sortOrder ?? existing.sortOrder,
+          params.id,
+        ],
+      )
+
+      await client.query('COMMIT')
+      return NextResponse.json(updatedResult.rows[0])
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
   } catch (error: any) {
     if (error?.name === 'ZodError') {
       return NextResponse.json(
@@ -35,13 +35,13 @@ export async function GET(req: NextRequest) {
       `
       WITH filtered_categories AS (
         SELECT 
-          id, name, slug, description, image, "parentId", "createdAt", "updatedAt",
+          id, name, slug, description, image, "parentId", "sortOrder", "createdAt", "updatedAt",
           COUNT(*) OVER() AS total
         FROM "Category"
         ${whereClause}
       )
       SELECT * FROM filtered_categories
-      ORDER BY "createdAt" ASC
+      ORDER BY "sortOrder" ASC, "createdAt" ASC
       LIMIT $${dataValues.length - 1}
       OFFSET $${dataValues.length}
       `,
@@ -109,10 +109,10 @@ export const POST = requireAdmin(async (req: NextRequest) => {
     const result = await pgPool.query(
       `
       INSERT INTO "Category" (
-        name, slug, description, image, "parentId", "createdAt", "updatedAt"
+        name, slug, description, image, "parentId", "sortOrder", "createdAt", "updatedAt"
       )
-      VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
-      RETURNING id, name, slug, description, image, "parentId", "createdAt", "updatedAt"
+      VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
+      RETURNING id, name, slug, description, image, "parentId", "sortOrder", "createdAt", "updatedAt"
       `,
       [
         parsed.name,
@@ -120,6 +120,7 @@ export const POST = requireAdmin(async (req: NextRequest) => {
         parsed.description ?? null,
         parsed.image ?? null,
         parsed.parentId ?? null,
+        parsed.sortOrder ?? 0,
       ],
     )
 
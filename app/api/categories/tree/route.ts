@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { buildCategoryTree } from '@/lib/category-tree'
+import { log } from '@/lib/logger'
+import { rateLimit } from '@/lib/rate-limit'
+import { DISCONTINUED_SQL } from '@/lib/product-lifecycle'
+
+// GET /api/categories/tree - full nested hierarchy with product counts rolled up per node
+export async function GET(req: NextRequest) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const result = await pgPool.query(
+      `
+      SELECT
+        c.id, c.name, c.slug, c.description, c.image, c."parentId", c."sortOrder",
+        COALESCE(pc.count, 0)::int AS "productCount"
+      FROM "Category" c
+      LEFT JOIN (
+        SELECT "categoryId", COUNT(*) AS count
+        FROM "Product"
+        WHERE "categoryId" IS NOT NULL AND NOT ${DISCONTINUED_SQL}
+        GROUP BY "categoryId"
+      ) pc ON pc."categoryId" = c.id
+      `,
+    )
+
+    const directCounts = Object.fromEntries(result.rows.map((row) => [row.id, row.productCount]))
+    const tree = buildCategoryTree(result.rows, directCounts)
+
+    return NextResponse.json({ tree })
+  } catch (error) {
+    log.error('Error fetching category tree', error)
+    return NextResponse.json({ error: 'Failed to fetch category tree' }, { status: 500 })
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { cordsetOptionSchema } from '@/lib/cordset-validation'
+import { CORDSET_OPTION_COLUMNS, toCordsetOption } from '@/lib/cordsets'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+
+// PUT /api/cordsets/options/:id - update (admin-only)
+// Changing a code changes the part numbers of new configurations; submitted RFQs keep theirs
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const body = await req.json()
+    const parsed = cordsetOptionSchema.parse(body)
+
+    const result = await pgPool.query(
+      `
+      UPDATE "CordsetOption"
+      SET
+        "group" = $1,
+        code = $2,
+        label = $3,
+        price = $4,
+        "pricePerMeter" = $5,
+        "lengthMeters" = $6,
+        "sortOrder" = $7,
+        active = $8,
+        "updatedAt" = NOW()
+      WHERE id = $9
+      RETURNING ${CORDSET_OPTION_COLUMNS}
+      `,
+      [
+        parsed.group,
+        parsed.code,
+        parsed.label,
+        parsed.price,
+        parsed.pricePerMeter,
+        parsed.group === 'length' ? parsed.lengthMeters : null,
+        parsed.sortOrder,
+        parsed.active,
+        params.id,
+      ],
+    )
+
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(toCordsetOption(result.rows[0]))
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'An option with this code already exists in the group' }, { status: 409 })
+    }
+
+    log.error('Failed to update cordset option', error)
+    return NextResponse.json({ error: 'Failed to update cordset option' }, { status: 500 })
+  }
+}
+
+// DELETE /api/cordsets/options/:id - delete an option and its rules (admin-only)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const result = await pgPool.query(`DELETE FROM "CordsetOption" WHERE id = $1 RETURNING id`, [params.id])
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Cordset option deleted successfully' })
+  } catch (error) {
+    log.error('Failed to delete cordset option', error)
+    return NextResponse.json({ error: 'Failed to delete cordset option' }, { status: 500 })
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { requireAdmin } from '@/lib/auth-middleware'
+import { cordsetOptionSchema } from '@/lib/cordset-validation'
+import { CORDSET_OPTION_COLUMNS, toCordsetOption } from '@/lib/cordsets'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+
+// POST /api/cordsets/options - add a configurator option (admin-only)
+export const POST = requireAdmin(async (req: NextRequest) => {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const body = await req.json()
+    const parsed = cordsetOptionSchema.parse(body)
+
+    const result = await pgPool.query(
+      `
+      INSERT INTO "CordsetOption" ("group", code, label, price, "pricePerMeter", "lengthMeters", "sortOrder", active)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING ${CORDSET_OPTION_COLUMNS}
+      `,
+      [
+        parsed.group,
+        parsed.code,
+        parsed.label,
+        parsed.price,
+        parsed.pricePerMeter,
+        parsed.group === 'length' ? parsed.lengthMeters : null,
+        parsed.sortOrder,
+        parsed.active,
+      ],
+    )
+
+    return NextResponse.json(toCordsetOption(result.rows[0]), { status: 201 })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'An option with this code already exists in the group' }, { status: 409 })
+    }
+
+    log.error('Failed to create cordset option', error)
+    return NextResponse.json({ error: 'Failed to create cordset option' }, { status: 500 })
+  }
+})
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { fetchCordsetCatalog } from '@/lib/cordsets'
+import { rateLimit } from '@/lib/rate-limit'
+import { log } from '@/lib/logger'
+
+// GET /api/cordsets - configurator options and compatibility rules (public)
+// ?all=true includes inactive options (admin only)
+export async function GET(req: NextRequest) {
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const { searchParams } = new URL(req.url)
+    const includeInactive = searchParams.get('all') === 'true'
+
+    if (includeInactive) {
+      const auth = checkAdmin(req)
+      if (auth instanceof NextResponse) return auth
+    }
+
+    return NextResponse.json(await fetchCordsetCatalog({ includeInactive }))
+  } catch (error) {
+    log.error('Failed to fetch cordset options', error)
+    return NextResponse.json({ error: 'Failed to fetch cordset options' }, { status: 500 })
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+
+// DELETE /api/cordsets/rules/:id - delete (admin-only)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const result = await pgPool.query(`DELETE FROM "CordsetRule" WHERE id = $1 RETURNING id`, [params.id])
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Cordset rule deleted successfully' })
+  } catch (error) {
+    log.error('Failed to delete cordset rule', error)
+    return NextResponse.json({ error: 'Failed to delete cordset rule' }, { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { requireAdmin } from '@/lib/auth-middleware'
+import { cordsetRuleSchema } from '@/lib/cordset-validation'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+
+// POST /api/cordsets/rules - add a compatibility rule between two options (admin-only)
+export const POST = requireAdmin(async (req: NextRequest) => {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const body = await req.json()
+    const parsed = cordsetRuleSchema.parse(body)
+
+    const result = await pgPool.query(
+      `
+      INSERT INTO "CordsetRule" ("optionId", type, "targetOptionId", message)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id, "optionId", type, "targetOptionId", message
+      `,
+      [parsed.optionId, parsed.type, parsed.targetOptionId, parsed.message || null],
+    )
+
+    return NextResponse.json(result.rows[0], { status: 201 })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'This rule already exists' }, { status: 409 })
+    }
+    if (error?.code === '23503') {
+      return NextResponse.json({ error: 'Option not found' }, { status: 400 })
+    }
+
+    log.error('Failed to create cordset rule', error)
+    return NextResponse.json({ error: 'Failed to create cordset rule' }, { status: 500 })
+  }
+})
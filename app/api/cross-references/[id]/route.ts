@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { crossReferenceSchema } from '@/lib/cross-reference-validation'
+import { fetchCrossReference } from '@/lib/cross-references'
+import { findProductIdBySku } from '@/lib/product-replacements'
+import { normalizePartNumber } from '@/lib/product-search'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+
+// PUT /api/cross-references/:id - update (admin-only)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const body = await req.json()
+    const parsed = crossReferenceSchema.parse(body)
+
+    const productId = await findProductIdBySku(parsed.sku)
+    if (!productId) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: [{ field: 'sku', message: 'Product not found' }] },
+        { status: 400 },
+      )
+    }
+
+    const result = await pgPool.query(
+      `
+      UPDATE "CrossReference"
+      SET
+        manufacturer = $1,
+        "partNumber" = $2,
+        "partNumberKey" = $3,
+        "productId" = $4,
+        equivalence = $5,
+        notes = $6,
+        "updatedAt" = NOW()
+      WHERE id = $7
+      RETURNING id
+      `,
+      [
+        parsed.manufacturer,
+        parsed.partNumber,
+        normalizePartNumber(parsed.partNumber),
+        productId,
+        parsed.equivalence,
+        parsed.notes || null,
+        params.id,
+      ],
+    )
+
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(await fetchCrossReference(params.id))
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error?.code === '23505') {
+      return NextResponse.json(
+        { error: 'This part number is already mapped to that product' },
+        { status: 409 },
+      )
+    }
+
+    log.error('Failed to update cross-reference', error)
+    return NextResponse.json({ error: 'Failed to update cross-reference' }, { status: 500 })
+  }
+}
+
+// DELETE /api/cross-references/:id - delete (admin-only)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const result = await pgPool.query(`DELETE FROM "CrossReference" WHERE id = $1 RETURNING id`, [params.id])
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Cross-reference deleted successfully' })
+  } catch (error) {
+    log.error('Failed to delete cross-reference', error)
+    return NextResponse.json({ error: 'Failed to delete cross-reference' }, { status: 500 })
+  }
+}
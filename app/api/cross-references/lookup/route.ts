@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { lookupCrossReferences } from '@/lib/cross-references'
+import { rateLimit } from '@/lib/rate-limit'
+import { log } from '@/lib/logger'
+
+// GET /api/cross-references/lookup?partNumber=...&manufacturer=... - find our equivalents
+// of a competitor part number (public)
+export async function GET(req: NextRequest) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const { searchParams } = new URL(req.url)
+    const partNumber = searchParams.get('partNumber')?.trim() || ''
+    const manufacturer = searchParams.get('manufacturer')?.trim() || null
+
+    if (!partNumber) {
+      return NextResponse.json({ error: 'Part number is required' }, { status: 400 })
+    }
+    if (partNumber.length > 100) {
+      return NextResponse.json({ error: 'Part number is too long' }, { status: 400 })
+    }
+
+    const matches = await lookupCrossReferences(partNumber, manufacturer)
+    return NextResponse.json({ partNumber, manufacturer, matches })
+  } catch (error) {
+    log.error('Error looking up cross-references', error)
+    return NextResponse.json({ error: 'Failed to look up part number' }, { status: 500 })
+  }
+}
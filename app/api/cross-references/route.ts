@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { requireAdmin } from '@/lib/auth-middleware'
+import { crossReferenceSchema } from '@/lib/cross-reference-validation'
+import { CROSS_REFERENCE_SELECT, fetchCrossReference } from '@/lib/cross-references'
+import { findProductIdBySku } from '@/lib/product-replacements'
+import { normalizePartNumber } from '@/lib/product-search'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+
+// GET /api/cross-references - list cross-references (admin)
+// Query: search (competitor part number, manufacturer or our SKU), page, limit
+export const GET = requireAdmin(async (req: NextRequest) => {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const { searchParams } = new URL(req.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1)
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '50', 10) || 50))
+    const offset = (page - 1) * limit
+    const search = searchParams.get('search')?.trim() || null
+    const searchKey = search ? normalizePartNumber(search) : ''
+
+    const result = await pgPool.query(
+      `
+      WITH filtered AS (
+        ${CROSS_REFERENCE_SELECT}
+        WHERE $1::text IS NULL
+          OR ($2 <> '' AND x."partNumberKey" LIKE $2 || '%')
+          OR x.manufacturer ILIKE '%' || $1 || '%'
+          OR p.sku ILIKE '%' || $1 || '%'
+      )
+      SELECT *, COUNT(*) OVER() AS total FROM filtered
+      ORDER BY manufacturer ASC, "partNumber" ASC
+      LIMIT $3
+      OFFSET $4
+      `,
+      [search, searchKey, limit, offset],
+    )
+
+    const total: number = result.rows.length > 0 ? parseInt(result.rows[0].total) : 0
+
+    return NextResponse.json({
+      crossReferences: result.rows.map(({ total, ...crossReference }) => crossReference),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page < Math.ceil(total / limit),
+        hasPrev: page > 1,
+      },
+    })
+  } catch (error) {
+    log.error('Failed to fetch cross-references', error)
+    return NextResponse.json({ error: 'Failed to fetch cross-references' }, { status: 500 })
+  }
+})
+
+// POST /api/cross-references - map a competitor part number to one of our SKUs (admin)
+export const POST = requireAdmin(async (req: NextRequest) => {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const body = await req.json()
+    const parsed = crossReferenceSchema.parse(body)
+
+    const productId = await findProductIdBySku(parsed.sku)
+    if (!productId) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: [{ field: 'sku', message: 'Product not found' }] },
+        { status: 400 },
+      )
+    }
+
+    const result = await pgPool.query<{ id: string }>(
+      `
+      INSERT INTO "CrossReference" (manufacturer, "partNumber", "partNumberKey", "productId", equivalence, notes)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id
+      `,
+      [
+        parsed.manufacturer,
+        parsed.partNumber,
+        normalizePartNumber(parsed.partNumber),
+        productId,
+        parsed.equivalence,
+        parsed.notes || null,
+      ],
+    )
+
+    return NextResponse.json(await fetchCrossReference(result.rows[0].id), { status: 201 })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error?.code === '23505') {
+      return NextResponse.json(
+        { error: 'This part number is already mapped to that product' },
+        { status: 409 },
+      )
+    }
+
+    log.error('Failed to create cross-reference', error)
+    return NextResponse.json({ error: 'Failed to create cross-reference' }, { status: 500 })
+  }
+})
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { customerGroupMemberSchema } from '@/lib/pricing-validation'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+
+// GET /api/customer-groups/:id/members - customers assigned to the group (admin-only)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const result = await pgPool.query(
+      `
+      SELECT id, name, email, company
+      FROM "User"
+      WHERE "customerGroupId" = $1
+      ORDER BY name ASC
+      `,
+      [params.id],
+    )
+    return NextResponse.json({ members: result.rows })
+  } catch (error) {
+    log.error('Failed to fetch customer group members', error)
+    return NextResponse.json({ error: 'Failed to fetch customer group members' }, { status: 500 })
+  }
+}
+
+// POST /api/customer-groups/:id/members - assign a customer by email (admin-only)
+// A customer belongs to one group; assigning moves them out of their previous group
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const body = await req.json()
+    const { email } = customerGroupMemberSchema.parse(body)
+
+    const group = await pgPool.query(`SELECT id FROM "CustomerGroup" WHERE id = $1`, [params.id])
+    if (group.rows.length === 0) {
+      return NextResponse.json({ error: 'Customer group not found' }, { status: 404 })
+    }
+
+    const result = await pgPool.query(
+      `
+      UPDATE "User"
+      SET "customerGroupId" = $1, "updatedAt" = NOW()
+      WHERE LOWER(email) = LOWER($2)
+      RETURNING id, name, email, company
+      `,
+      [params.id, email],
+    )
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'No customer account with this email' }, { status: 404 })
+    }
+
+    log.info('Customer assigned to group', { groupId: params.id, userId: result.rows[0].id, by: auth.username })
+    return NextResponse.json(result.rows[0], { status: 201 })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    log.error('Failed to assign customer to group', error)
+    return NextResponse.json({ error: 'Failed to assign customer to group' }, { status: 500 })
+  }
+}
+
+// DELETE /api/customer-groups/:id/members?userId= - remove a customer from the group (admin-only)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const userId = req.nextUrl.searchParams.get('userId') || ''
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id) || !isValidUUID(userId)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const result = await pgPool.query(
+      `
+      UPDATE "User"
+      SET "customerGroupId" = NULL, "updatedAt" = NOW()
+      WHERE id = $1 AND "customerGroupId" = $2
+      RETURNING id
+      `,
+      [userId, params.id],
+    )
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    log.info('Customer removed from group', { groupId: params.id, userId, by: auth.username })
+    return NextResponse.json({ message: 'Customer removed from group' })
+  } catch (error) {
+    log.error('Failed to remove customer from group', error)
+    return NextResponse.json({ error: 'Failed to remove customer from group' }, { status: 500 })
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { customerGroupUpdateSchema } from '@/lib/pricing-validation'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+
+// PUT /api/customer-groups/:id - update (admin-only)
+// Renaming the code carries over to price tiers that reference it
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const body = await req.json()
+    const parsed = customerGroupUpdateSchema.parse(body)
+
+    const result = await pgPool.query(
+      `
+      UPDATE "CustomerGroup"
+      SET
+        code = COALESCE($1, code),
+        name = COALESCE($2, name),
+        description = CASE WHEN $3::boolean THEN $4 ELSE description END,
+        "updatedAt" = NOW()
+      WHERE id = $5
+      RETURNING id, code, name, description, "createdAt", "updatedAt"
+      `,
+      [
+        parsed.code ?? null,
+        parsed.name ?? null,
+        parsed.description !== undefined,
+        parsed.description || null,
+        params.id,
+      ],
+    )
+
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(result.rows[0])
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'A customer group with this code already exists' }, { status: 409 })
+    }
+
+    log.error('Failed to update customer group', error)
+    return NextResponse.json({ error: 'Failed to update customer group' }, { status: 500 })
+  }
+}
+
+// DELETE /api/customer-groups/:id - delete (admin-only)
+// Members fall back to catalog prices; the group's price lists and tiers are deleted
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const result = await pgPool.query(`DELETE FROM "CustomerGroup" WHERE id = $1 RETURNING id, code`, [params.id])
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    log.info('Customer group deleted', { id: params.id, code: result.rows[0].code, by: auth.username })
+    return NextResponse.json({ message: 'Customer group deleted successfully' })
+  } catch (error) {
+    log.error('Failed to delete customer group', error)
+    return NextResponse.json({ error: 'Failed to delete customer group' }, { status: 500 })
+  }
+}
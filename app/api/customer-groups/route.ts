@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkAdmin, requireAdmin } from '@/lib/auth-middleware'
+import { customerGroupSchema } from '@/lib/pricing-validation'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+
+// GET /api/customer-groups - list groups with their member counts (admin-only)
+export async function GET(req: NextRequest) {
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const result = await pgPool.query(
+      `
+      SELECT
+        g.id, g.code, g.name, g.description, g."createdAt", g."updatedAt",
+        (SELECT COUNT(*) FROM "User" u WHERE u."customerGroupId" = g.id)::int AS "memberCount"
+      FROM "CustomerGroup" g
+      ORDER BY g.name ASC
+      `,
+    )
+    return NextResponse.json({ groups: result.rows })
+  } catch (error) {
+    log.error('Failed to fetch customer groups', error)
+    return NextResponse.json({ error: 'Failed to fetch customer groups' }, { status: 500 })
+  }
+}
+
+// POST /api/customer-groups - create (admin-only)
+export const POST = requireAdmin(async (req: NextRequest) => {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const body = await req.json()
+    const parsed = customerGroupSchema.parse(body)
+
+    const result = await pgPool.query(
+      `
+      INSERT INTO "CustomerGroup" (code, name, description, "createdAt", "updatedAt")
+      VALUES ($1, $2, $3, NOW(), NOW())
+      RETURNING id, code, name, description, "createdAt", "updatedAt"
+      `,
+      [parsed.code, parsed.name, parsed.description || null],
+    )
+
+    return NextResponse.json({ ...result.rows[0], memberCount: 0 }, { status: 201 })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'A customer group with this code already exists' }, { status: 409 })
+    }
+
+    log.error('Failed to create customer group', error)
+    return NextResponse.json({ error: 'Failed to create customer group' }, { status: 500 })
+  }
+})
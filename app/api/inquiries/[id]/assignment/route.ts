@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+import { assignmentChangeSchema } from '@/lib/assignment-validation'
+import { AssignmentError, assignOwner, fetchAssignmentHistory } from '@/lib/assignments'
+
+// GET /api/inquiries/:id/assignment - current owner and reassignment history of an inquiry (admin)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid inquiry ID format' }, { status: 400 })
+    }
+
+    const inquiry = await pgPool.query(`SELECT "assignedTo" FROM "Inquiry" WHERE id = $1`, [params.id])
+    if (inquiry.rows.length === 0) {
+      return NextResponse.json({ error: 'Inquiry not found' }, { status: 404 })
+    }
+
+    const history = await fetchAssignmentHistory({ type: 'inquiry', id: params.id })
+    return NextResponse.json({ assignedTo: inquiry.rows[0].assignedTo, history })
+  } catch (error) {
+    log.error('Error fetching inquiry assignment', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch assignment' },
+      { status: 500 },
+    )
+  }
+}
+
+// PUT /api/inquiries/:id/assignment - reassign an inquiry to another admin, or unassign it (admin)
+// Body: { assignedTo: username | null, comment? }; the change is logged in the history
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid inquiry ID format' }, { status: 400 })
+    }
+
+    const json = await req.json()
+    const data = assignmentChangeSchema.parse(json)
+
+    const target = { type: 'inquiry', id: params.id } as const
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('assignInquiry')
+    let assignedTo
+    try {
+      await client.query('BEGIN')
+      assignedTo = await assignOwner(
+        target,
+        data.assignedTo,
+        { changedBy: auth.username, comment: data.comment },
+        client,
+      )
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    const history = await fetchAssignmentHistory(target)
+    return NextResponse.json({ assignedTo, history })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error instanceof AssignmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    log.error('Error assigning inquiry', error)
+    return NextResponse.json(
+      { error: 'Failed to assign inquiry' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+import { queueEmail } from '@/lib/mail'
+import { parseMessageForm } from '@/lib/message-validation'
+import { createMessage, fetchMessages, markMessagesRead, MessageError } from '@/lib/messages'
+
+// GET /api/inquiries/:id/messages - notes and replies on an inquiry (admin)
+// Opening the conversation marks it as read for this admin
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid inquiry ID format' }, { status: 400 })
+    }
+
+    const inquiry = await pgPool.query(`SELECT id FROM "Inquiry" WHERE id = $1`, [params.id])
+    if (inquiry.rows.length === 0) {
+      return NextResponse.json({ error: 'Inquiry not found' }, { status: 404 })
+    }
+
+    const target = { type: 'inquiry', id: params.id } as const
+    const messages = await fetchMessages(target, { includeInternal: true })
+    await markMessagesRead(target, auth.username)
+    return NextResponse.json({ messages })
+  } catch (error) {
+    log.error('Error fetching inquiry messages', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch messages' },
+      { status: 500 },
+    )
+  }
+}
+
+// POST /api/inquiries/:id/messages - add a note or reply to an inquiry (admin)
+// Form fields as for order messages. Inquiries come from the contact form, so the sender has no
+// account: replies they can see are emailed to them (which marks the inquiry as responded) and
+// cannot carry files
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid inquiry ID format' }, { status: 400 })
+    }
+
+    const formData = await req.formData()
+    const data = parseMessageForm(formData)
+    const files = formData.getAll('attachments').filter((file): file is File => file instanceof File)
+    if (!data.internal && files.length > 0) {
+      return NextResponse.json(
+        { error: 'Files can only be attached to internal notes on inquiries' },
+        { status: 400 },
+      )
+    }
+
+    const target = { type: 'inquiry', id: params.id } as const
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('createInquiryMessage')
+    let inquiry
+    let message
+    try {
+      await client.query('BEGIN')
+
+      const inquiryResult = await client.query(
+        `SELECT id, reference, name, email, subject FROM "Inquiry" WHERE id = $1`,
+        [params.id],
+      )
+      inquiry = inquiryResult.rows[0]
+      if (!inquiry) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Inquiry not found' }, { status: 404 })
+      }
+
+      message = await createMessage(
+        target,
+        { ...data, authorType: 'admin', authorName: auth.username, files },
+        client,
+      )
+      if (!message.internal) {
+        await client.query(
+          `UPDATE "Inquiry" SET read = true, responded = true, "updatedAt" = NOW() WHERE id = $1`,
+          [params.id],
+        )
+      }
+      await markMessagesRead(target, auth.username, client)
+
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    if (!message.internal) {
+      queueEmail('inquiryReply', inquiry.email, {
+        reference: inquiry.reference,
+        name: inquiry.name,
+        subject: inquiry.subject,
+        body: message.body,
+      })
+    }
+
+    return NextResponse.json(message, { status: 201 })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error instanceof MessageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    log.error('Error creating inquiry message', error)
+    return NextResponse.json(
+      { error: 'Failed to send message' },
+      { status: 500 },
+    )
+  }
+}
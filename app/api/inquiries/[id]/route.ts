@@ -9,7 +9,6 @@ import { rateLimit } from '@/lib/rate-limit'
 const inquiryUpdateSchema = z.object({
   read: z.boolean().optional(),
   responded: z.boolean().optional(),
-  notes: z.string().optional(),
 }).refine((data) => Object.keys(data).length > 0, {
   message: 'At least one field must be provided for update',
 })
@@ -36,8 +35,8 @@ export async function GET(
 
     const result = await pgPool.query(
       `
-      SELECT id, name, email, phone, company, subject, message, read, responded,
-             "createdAt", "updatedAt"
+      SELECT id, reference, name, email, phone, company, subject, message, read, responded,
+             "assignedTo", "createdAt", "updatedAt"
       FROM "Inquiry"
       WHERE id = $1
       LIMIT 1
@@ -93,13 +92,12 @@ export async function PUT(
       SET
         read = COALESCE($1, read),
         responded = COALESCE($2, responded),
-        notes = COALESCE($3, notes),
         "updatedAt" = NOW()
-      WHERE id = $4
-      RETURNING id, name, email, phone, company, subject, message, read, responded, notes,
-                "createdAt", "updatedAt"
+      WHERE id = $3
+      RETURNING id, reference, name, email, phone, company, subject, message, read, responded,
+                "assignedTo", "createdAt", "updatedAt"
       `,
-      [data.read ?? null, data.responded ?? null, data.notes ?? null, params.id],
+      [data.read ?? null, data.responded ?? null, params.id],
     )
 
     const inquiry = result.rows[0]
@@ -5,6 +5,10 @@ import { requireAdmin } from '@/lib/auth-middleware'
 import { log } from '@/lib/logger'
 import { csrfProtection } from '@/lib/csrf'
 import { rateLimit } from '@/lib/rate-limit'
+import { unreadMessagesSql } from '@/lib/messages'
+import { absoluteUrl, queueSalesEmail } from '@/lib/mail'
+import { autoAssign } from '@/lib/assignments'
+import { ASSIGNED_TO_ME, UNASSIGNED } from '@/lib/assignment-validation'
 
 const inquirySchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters').trim(),
@@ -19,7 +23,6 @@ const inquirySchema = z.object({
 const inquiryUpdateSchema = z.object({
   read: z.boolean().optional(),
   responded: z.boolean().optional(),
-  notes: z.string().optional(),
 }).refine((data) => Object.keys(data).length > 0, {
   message: 'At least one field must be provided for update',
 })
@@ -42,20 +45,53 @@ export async function POST(req: NextRequest) {
     const json = await req.json()
     const data = inquirySchema.parse(json)
 
-    const result = await pgPool.query(
-      `
-      INSERT INTO "Inquiry" (
-        name, email, phone, company, subject, message, "meetingRequest", read, responded,
-        "createdAt", "updatedAt"
+    // Assigned an owner by the assignment rules in the same transaction, as orders are
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('createInquiry')
+    let inquiry
+    try {
+      await client.query('BEGIN')
+
+      const result = await client.query(
+        `
+        INSERT INTO "Inquiry" (
+          name, email, phone, company, subject, message, "meetingRequest", read, responded,
+          "createdAt", "updatedAt"
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, false, false, NOW(), NOW())
+        RETURNING id, reference, name, email, phone, company, subject, message, "meetingRequest", read, responded,
+                  "createdAt", "updatedAt"
+        `,
+        [data.name, data.email, data.phone ?? null, data.company ?? null, data.subject, data.message, data.meetingRequest ?? false],
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, false, false, NOW(), NOW())
-      RETURNING id, name, email, phone, company, subject, message, "meetingRequest", read, responded,
-                "createdAt", "updatedAt"
-      `,
-      [data.name, data.email, data.phone ?? null, data.company ?? null, data.subject, data.message, data.meetingRequest ?? false],
+      inquiry = result.rows[0]
+      await autoAssign({ type: 'inquiry', id: inquiry.id }, client)
+
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    queueSalesEmail(
+      'inquiryReceived',
+      {
+        reference: inquiry.reference,
+        name: inquiry.name,
+        email: inquiry.email,
+        phone: inquiry.phone,
+        company: inquiry.company,
+        subject: inquiry.subject,
+        message: inquiry.message,
+        meetingRequest: inquiry.meetingRequest,
+        adminUrl: absoluteUrl('/admin/inquiries'),
+      },
+      { replyTo: inquiry.email },
     )
 
-    return NextResponse.json(result.rows[0], { status: 201 })
+    return NextResponse.json(inquiry, { status: 201 })
   } catch (error: any) {
     if (error?.name === 'ZodError') {
       return NextResponse.json(
@@ -79,7 +115,10 @@ export async function POST(req: NextRequest) {
 }
 
 // GET /api/inquiries - list inquiries (admin)
-export const GET = requireAdmin(async (req: NextRequest) => {
+// search matches the reference, name, email, company or subject; assignedTo is an owner's
+// username, "me" or "none" for unassigned. unreadMessages counts notes and replies this admin has
+// not seen yet
+export const GET = requireAdmin(async (req: NextRequest, auth) => {
   // Rate limiting
   const rateLimitResponse = await rateLimit(req)
   if (rateLimitResponse) {
@@ -91,23 +130,42 @@ export const GET = requireAdmin(async (req: NextRequest) => {
     const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1)
     const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20))
     const offset = (page - 1) * limit
+    const search = searchParams.get('search')?.trim() || null
+    const assignedTo = searchParams.get('assignedTo')?.trim() || null
 
     // Optimized: Single query with window function
     const result = await pgPool.query(
       `
       WITH filtered_inquiries AS (
         SELECT 
-          id, name, email, phone, company, subject, message, "meetingRequest", read, responded,
-          "createdAt", "updatedAt",
+          i.id, i.reference, i.name, i.email, i.phone, i.company, i.subject, i.message, i."meetingRequest", i.read, i.responded,
+          i."assignedTo",
+          ${unreadMessagesSql('inquiry', 'i.id', '$3')} AS "unreadMessages",
+          i."createdAt", i."updatedAt",
           COUNT(*) OVER() AS total
-        FROM "Inquiry"
+        FROM "Inquiry" i
+        WHERE ($4::text IS NULL
+          OR i.reference ILIKE '%' || $4 || '%'
+          OR i.name ILIKE '%' || $4 || '%'
+          OR i.email ILIKE '%' || $4 || '%'
+          OR i.company ILIKE '%' || $4 || '%'
+          OR i.subject ILIKE '%' || $4 || '%')
+          AND ($5::text IS NULL OR i."assignedTo" = $5)
+          AND (NOT $6::boolean OR i."assignedTo" IS NULL)
       )
       SELECT * FROM filtered_inquiries
       ORDER BY "createdAt" DESC
       LIMIT $1
       OFFSET $2
       `,
-      [limit, offset],
+      [
+        limit,
+        offset,
+        auth.username,
+        search,
+        assignedTo === ASSIGNED_TO_ME ? auth.username : assignedTo === UNASSIGNED ? null : assignedTo,
+        assignedTo === UNASSIGNED,
+      ],
     )
 
     const inquiries = result.rows
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdmin, checkCustomer } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { rateLimit } from '@/lib/rate-limit'
+import { fetchMessageAttachment, readMessageAttachment } from '@/lib/messages'
+
+// GET /api/messages/attachments/:id - download a message attachment
+// Admins can download any attachment; customers only those on their own orders' visible messages
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid attachment ID format' }, { status: 400 })
+    }
+
+    const admin = checkAdmin(req)
+    const customer = admin instanceof NextResponse ? checkCustomer(req) : null
+    if (customer instanceof NextResponse) return customer
+
+    const attachment = await fetchMessageAttachment(params.id)
+    const allowed =
+      attachment !== null &&
+      (customer === null ||
+        (attachment.orderId !== null && !attachment.internal && attachment.customerEmail === customer.username))
+    if (!attachment || !allowed) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+    }
+
+    let file: Buffer
+    try {
+      file = await readMessageAttachment(attachment)
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        log.warn('Message attachment file is missing', { attachmentId: params.id })
+        return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+      }
+      throw error
+    }
+
+    const asciiName = attachment.filename.replace(/[^\x20-\x7e]|["\\]/g, '_')
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        'Content-Type': attachment.contentType,
+        'Content-Disposition': `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    log.error('Error downloading message attachment', error)
+    return NextResponse.json(
+      { error: 'Failed to download attachment' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+import { absoluteUrl, queueEmail } from '@/lib/mail'
+import { parseMessageForm } from '@/lib/message-validation'
+import { createMessage, fetchMessages, markMessagesRead, MessageError } from '@/lib/messages'
+
+// GET /api/orders/:id/messages - the order's conversation, including internal messages (admin)
+// Opening the conversation marks it as read for this admin
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid order ID format' }, { status: 400 })
+    }
+
+    const order = await pgPool.query(`SELECT id FROM "Order" WHERE id = $1`, [params.id])
+    if (order.rows.length === 0) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    const target = { type: 'order', id: params.id } as const
+    const messages = await fetchMessages(target, { includeInternal: true })
+    await markMessagesRead(target, auth.username)
+    return NextResponse.json({ messages })
+  } catch (error) {
+    log.error('Error fetching order messages', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch messages' },
+      { status: 500 },
+    )
+  }
+}
+
+// POST /api/orders/:id/messages - post a message or reply (admin)
+// Form fields: body, internal ("true" keeps it from the customer), parentId, attachments (files).
+// The customer is emailed about messages they can see
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid order ID format' }, { status: 400 })
+    }
+
+    const formData = await req.formData()
+    const data = parseMessageForm(formData)
+    const files = formData.getAll('attachments').filter((file): file is File => file instanceof File)
+
+    const target = { type: 'order', id: params.id } as const
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('createOrderMessage')
+    let order
+    let message
+    try {
+      await client.query('BEGIN')
+
+      const orderResult = await client.query(
+        `SELECT id, reference, email, "contactName" FROM "Order" WHERE id = $1`,
+        [params.id],
+      )
+      order = orderResult.rows[0]
+      if (!order) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+      }
+
+      message = await createMessage(
+        target,
+        { ...data, authorType: 'admin', authorName: auth.username, files },
+        client,
+      )
+      await markMessagesRead(target, auth.username, client)
+
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    if (!message.internal) {
+      queueEmail('orderMessage', order.email, {
+        reference: order.reference,
+        contactName: order.contactName,
+        body: message.body,
+        attachmentCount: message.attachments.length,
+        orderUrl: absoluteUrl(`/account/rfqs/${order.id}`),
+      })
+    }
+
+    return NextResponse.json(message, { status: 201 })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error instanceof MessageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    log.error('Error creating order message', error)
+    return NextResponse.json(
+      { error: 'Failed to send message' },
+      { status: 500 },
+    )
+  }
+}
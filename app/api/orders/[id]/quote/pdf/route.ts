@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { rateLimit } from '@/lib/rate-limit'
+import { renderOrderQuotePdf } from '@/lib/quote'
+
+// GET /api/orders/:id/quote/pdf - download the quotation PDF, latest or ?revision=n (admin)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid order ID format' }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const revision = parseInt(searchParams.get('revision') || '', 10)
+
+    const result = await renderOrderQuotePdf(params.id, { revision: isNaN(revision) ? undefined : revision })
+    if (!result) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+    }
+
+    return new NextResponse(Buffer.from(result.pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${result.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    log.error('Error rendering quote PDF', error)
+    return NextResponse.json(
+      { error: 'Failed to generate quote PDF' },
+      { status: 500 },
+    )
+  }
+}
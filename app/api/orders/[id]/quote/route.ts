@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+import { quoteSchema } from '@/lib/quote-validation'
+import {
+  buildDraftQuote,
+  createQuoteRevision,
+  fetchQuote,
+  fetchQuoteRevisions,
+  QuoteError,
+} from '@/lib/quote'
+
+// GET /api/orders/:id/quote - current (or ?revision=n) quote with revision history (admin)
+// Returns a draft priced from the catalog (contract and tier prices included) when no quote has been saved yet
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid order ID format' }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const revisionParam = searchParams.get('revision')
+    const revision = revisionParam ? parseInt(revisionParam, 10) : undefined
+    if (revision !== undefined && (isNaN(revision) || revision < 1)) {
+      return NextResponse.json({ error: 'Invalid revision' }, { status: 400 })
+    }
+
+    const [quote, revisions] = await Promise.all([
+      fetchQuote(params.id, revision),
+      fetchQuoteRevisions(params.id),
+    ])
+
+    if (quote) {
+      return NextResponse.json({ quote, revisions, isDraft: false })
+    }
+    if (revision !== undefined) {
+      return NextResponse.json({ error: 'Quote revision not found' }, { status: 404 })
+    }
+
+    const draft = await buildDraftQuote(params.id)
+    if (!draft) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+    return NextResponse.json({ quote: draft, revisions, isDraft: true })
+  } catch (error) {
+    log.error('Error fetching quote', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch quote' },
+      { status: 500 },
+    )
+  }
+}
+
+// POST /api/orders/:id/quote - save a new quote revision (admin)
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid order ID format' }, { status: 400 })
+    }
+
+    const json = await req.json()
+    const data = quoteSchema.parse(json)
+
+    const quote = await createQuoteRevision(params.id, data, auth.username)
+    const revisions = await fetchQuoteRevisions(params.id)
+
+    return NextResponse.json({ quote, revisions, isDraft: false }, { status: 201 })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    if (error instanceof QuoteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    log.error('Error saving quote', error)
+    return NextResponse.json(
+      { error: 'Failed to save quote' },
+      { status: 500 },
+    )
+  }
+}
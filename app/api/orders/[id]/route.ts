@@ -5,15 +5,26 @@ import { checkAdmin } from '@/lib/auth-middleware'
 import { log } from '@/lib/logger'
 import { csrfProtection } from '@/lib/csrf'
 import { rateLimit } from '@/lib/rate-limit'
+import { absoluteUrl, queueEmail } from '@/lib/mail'
+import { dispatchOrderStock, releaseOrderStock, reserveOrderStock } from '@/lib/stock'
+import {
+  ORDER_STATUSES,
+  STOCK_DISPATCHED_STATUSES,
+  STOCK_HOLDING_STATUSES,
+  orderStatusChangeError,
+} from '@/lib/order-status'
+import { fetchOrderStatusHistory, recordOrderStatusChange } from '@/lib/order-status-history'
+import { parseOrderReference } from '@/lib/references'
+import type { OrderStatus, StockShortfall } from '@/types'
 
+// Notes on an order are kept as messages (./messages) instead of being overwritten here
 const orderUpdateSchema = z.object({
-  status: z.enum(['pending', 'quoted', 'approved', 'rejected']).optional(),
-  notes: z.string().optional(),
-}).refine((data) => Object.keys(data).length > 0, {
-  message: 'At least one field must be provided for update',
+  status: z.enum(ORDER_STATUSES),
+  // Recorded in the status history and shown to the customer; required to reject or cancel
+  comment: z.string().trim().max(1000).optional(),
 })
 
-// GET /api/orders/:id - admin only
+// GET /api/orders/:id - admin only; :id is the order's UUID or its reference (RFQ-2026-000123)
 export async function GET(
   req: NextRequest,
   { params }: { params: { id: string } },
@@ -29,14 +40,16 @@ export async function GET(
     if (auth instanceof NextResponse) return auth
 
     const { isValidUUID } = await import('@/lib/validation')
-    if (!isValidUUID(params.id)) {
-      return NextResponse.json({ error: 'Invalid order ID format' }, { status: 400 })
+    const reference = isValidUUID(params.id) ? null : parseOrderReference(params.id)
+    if (!isValidUUID(params.id) && !reference) {
+      return NextResponse.json({ error: 'Invalid order ID or reference' }, { status: 400 })
     }
 
     const result = await pgPool.query(
       `
       SELECT
         o.id,
+        o.reference,
         o."companyName",
         o."contactName",
         o.email,
@@ -44,6 +57,9 @@ export async function GET(
         o."companyAddress",
         o.notes,
         o.status,
+        o."userId",
+        o."assignedTo",
+        (SELECT MAX(q.revision) FROM "Quote" q WHERE q."orderId" = o.id) AS "quoteRevision",
         o."createdAt",
         o."updatedAt",
         COALESCE(
@@ -55,23 +71,25 @@ export async function GET(
               'sku', oi.sku,
               'name', oi.name,
               'quantity', oi.quantity,
-              'notes', oi.notes
+              'notes', oi.notes,
+              'configuration', oi.configuration
             )
           ) FILTER (WHERE oi.id IS NOT NULL),
           '[]'::json
         ) AS items
       FROM "Order" o
       LEFT JOIN "OrderItem" oi ON oi."orderId" = o.id
-      WHERE o.id = $1
+      WHERE ${reference ? 'o.reference' : 'o.id'} = $1
       GROUP BY o.id
       `,
-      [params.id],
+      [reference ?? params.id],
     )
     const order = result.rows[0]
     if (!order) {
       return NextResponse.json({ error: 'Order not found' }, { status: 404 })
     }
-    return NextResponse.json(order)
+    const statusHistory = await fetchOrderStatusHistory(order.id, { includeChangedBy: true })
+    return NextResponse.json({ ...order, statusHistory })
   } catch (error) {
     log.error('Error fetching order', error)
     return NextResponse.json(
@@ -81,7 +99,9 @@ export async function GET(
   }
 }
 
-// PUT /api/orders/:id - update status/notes (admin)
+// PUT /api/orders/:id - update status (admin)
+// Status changes must follow lib/order-status.ts and are logged in the status history.
+// Approval (or a PO) reserves stock for the order's lines; stockShortfalls lists what could not be reserved
 export async function PUT(
   req: NextRequest,
   { params }: { params: { id: string } },
@@ -110,27 +130,52 @@ export async function PUT(
     const json = await req.json()
     const data = orderUpdateSchema.parse(json)
 
-    // Optimized: Single query combining UPDATE and items fetch
-    const result = await pgPool.query(
-      `
-      WITH updated_order AS (
-        UPDATE "Order"
-        SET
-          status = COALESCE($1, status),
-          notes = COALESCE($2, notes),
-          "updatedAt" = NOW()
-        WHERE id = $3
-        RETURNING
-          id,
-          "companyName",
-          "contactName",
-          email,
-          phone,
-          "companyAddress",
-          notes,
-          status,
-          "createdAt",
-          "updatedAt"
+    // Status changes reserve and release stock in the same transaction
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('updateOrder')
+    let row
+    let stockShortfalls: StockShortfall[] = []
+    try {
+      await client.query('BEGIN')
+
+      const current = await client.query(`SELECT status FROM "Order" WHERE id = $1 FOR UPDATE`, [params.id])
+      if (current.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+      }
+      const currentStatus: OrderStatus = current.rows[0].status
+      if (data.status !== currentStatus) {
+        const statusError = orderStatusChangeError(currentStatus, data.status, data.comment)
+        if (statusError) {
+          await client.query('ROLLBACK')
+          return NextResponse.json({ error: statusError }, { status: 409 })
+        }
+      }
+
+      // Single query combining UPDATE and items fetch
+      const result = await client.query(
+        `
+        WITH updated_order AS (
+          UPDATE "Order" target
+          SET
+            status = $1,
+            "updatedAt" = NOW()
+          FROM (SELECT id, status FROM "Order" WHERE id = $2 FOR UPDATE) previous
+          WHERE target.id = previous.id
+          RETURNING
+            target.id,
+            target.reference,
+            target."companyName",
+            target."contactName",
+            target.email,
+            target.phone,
+            target."companyAddress",
+            target.notes,
+            target.status,
+            target."assignedTo",
+            target."createdAt",
+            target."updatedAt",
+            previous.status AS "previousStatus"
       )
       SELECT
         o.*,
@@ -143,25 +188,73 @@ export async function PUT(
               'sku', oi.sku,
               'name', oi.name,
               'quantity', oi.quantity,
-              'notes', oi.notes
+              'notes', oi.notes,
+              'configuration', oi.configuration
             )
           ) FILTER (WHERE oi.id IS NOT NULL),
           '[]'::json
         ) AS items
       FROM updated_order o
       LEFT JOIN "OrderItem" oi ON oi."orderId" = o.id
-      GROUP BY o.id, o."companyName", o."contactName", o.email, o.phone,
-               o."companyAddress", o.notes, o.status, o."createdAt", o."updatedAt"
+      GROUP BY o.id, o.reference, o."companyName", o."contactName", o.email, o.phone,
+               o."companyAddress", o.notes, o.status, o."assignedTo", o."createdAt", o."updatedAt",
+               o."previousStatus"
       `,
-      [data.status ?? null, data.notes ?? null, params.id],
-    )
+      [data.status, params.id],
+      )
 
-    const order = result.rows[0]
-    if (!order) {
-      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+      row = result.rows[0]
+      if (!row) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+      }
+
+      if (row.status !== row.previousStatus) {
+        await recordOrderStatusChange(
+          params.id,
+          { fromStatus: row.previousStatus, toStatus: row.status, comment: data.comment, changedBy: auth.username },
+          client,
+        )
+
+        const heldStock = STOCK_HOLDING_STATUSES.includes(row.previousStatus)
+        const holdsStock = STOCK_HOLDING_STATUSES.includes(row.status)
+        const wasDispatched = STOCK_DISPATCHED_STATUSES.includes(row.previousStatus)
+        if (STOCK_DISPATCHED_STATUSES.includes(row.status) && !wasDispatched) {
+          await dispatchOrderStock(params.id, auth.username, client)
+        } else if (holdsStock && !heldStock) {
+          stockShortfalls = await reserveOrderStock(params.id, auth.username, client)
+        } else if (heldStock && !holdsStock) {
+          await releaseOrderStock(params.id, auth.username, client)
+        }
+      }
+
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    const { previousStatus, ...order } = row
+
+    if (stockShortfalls.length > 0) {
+      log.warn('Order accepted without enough stock to reserve', { orderId: params.id, stockShortfalls })
+    }
+
+    if (order.status !== previousStatus) {
+      queueEmail('orderStatusChanged', order.email, {
+        reference: order.reference,
+        contactName: order.contactName,
+        previousStatus,
+        status: order.status,
+        comment: data.comment || null,
+        orderUrl: absoluteUrl(`/account/rfqs/${order.id}`),
+      })
     }
 
-    return NextResponse.json(order)
+    const statusHistory = await fetchOrderStatusHistory(params.id, { includeChangedBy: true })
+    return NextResponse.json({ ...order, statusHistory, stockShortfalls })
   } catch (error: any) {
     if (error?.name === 'ZodError') {
       return NextResponse.json(
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkCustomer } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+import { absoluteUrl, queueSalesEmail } from '@/lib/mail'
+import { parseMessageForm } from '@/lib/message-validation'
+import { createMessage, fetchMessages, MessageError } from '@/lib/messages'
+
+// Orders belonging to other customers are reported as not found
+const findOwnOrder = async (orderId: string, email: string) => {
+  const result = await pgPool.query(
+    `
+    SELECT o.id, o.reference, o."companyName", u.id AS "userId", u.name AS "userName"
+    FROM "Order" o
+    JOIN "User" u ON u.id = o."userId"
+    WHERE o.id = $1 AND u.email = $2
+    `,
+    [orderId, email],
+  )
+  return result.rows[0] ?? null
+}
+
+// GET /api/orders/mine/:id/messages - messages from our team on the customer's RFQ and their replies
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkCustomer(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid order ID format' }, { status: 400 })
+    }
+
+    const order = await findOwnOrder(params.id, auth.username)
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    const messages = await fetchMessages({ type: 'order', id: params.id })
+    return NextResponse.json({ messages })
+  } catch (error) {
+    log.error('Error fetching customer order messages', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch messages' },
+      { status: 500 },
+    )
+  }
+}
+
+// POST /api/orders/mine/:id/messages - reply to a message from our team (customer)
+// Form fields: body, parentId (required), attachments (files); the sales inbox is notified
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 10, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkCustomer(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid order ID format' }, { status: 400 })
+    }
+
+    const formData = await req.formData()
+    const data = parseMessageForm(formData)
+    const files = formData.getAll('attachments').filter((file): file is File => file instanceof File)
+
+    const order = await findOwnOrder(params.id, auth.username)
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('createCustomerOrderMessage')
+    let message
+    try {
+      await client.query('BEGIN')
+      message = await createMessage(
+        { type: 'order', id: params.id },
+        { ...data, authorType: 'customer', authorName: order.userName, userId: order.userId, files },
+        client,
+      )
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    queueSalesEmail(
+      'orderMessageSales',
+      {
+        reference: order.reference,
+        companyName: order.companyName,
+        authorName: order.userName,
+        body: message.body,
+        attachmentCount: message.attachments.length,
+        adminUrl: absoluteUrl('/admin/orders'),
+      },
+      { replyTo: auth.username },
+    )
+
+    return NextResponse.json(message, { status: 201 })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error instanceof MessageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    log.error('Error creating customer order message', error)
+    return NextResponse.json(
+      { error: 'Failed to send reply' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkCustomer } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { rateLimit } from '@/lib/rate-limit'
+import { fetchOrderStatusHistory } from '@/lib/order-status-history'
+
+// GET /api/orders/mine/:id - a single RFQ owned by the authenticated customer
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkCustomer(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid order ID format' }, { status: 400 })
+    }
+
+    // Orders belonging to other customers are reported as not found
+    const result = await pgPool.query(
+      `
+      SELECT
+        o.id,
+        o.reference,
+        o."companyName",
+        o."contactName",
+        o.email,
+        o.phone,
+        o."companyAddress",
+        o.notes,
+        o.status,
+        (SELECT MAX(q.revision) FROM "Quote" q WHERE q."orderId" = o.id) AS "quoteRevision",
+        o."createdAt",
+        o."updatedAt",
+        COALESCE(
+          json_agg(
+            json_build_object(
+              'id', oi.id,
+              'orderId', oi."orderId",
+              'productId', oi."productId",
+              'sku', oi.sku,
+              'name', oi.name,
+              'quantity', oi.quantity,
+              'notes', oi.notes,
+              'configuration', oi.configuration
+            )
+          ) FILTER (WHERE oi.id IS NOT NULL),
+          '[]'::json
+        ) AS items
+      FROM "Order" o
+      JOIN "User" u ON u.id = o."userId"
+      LEFT JOIN "OrderItem" oi ON oi."orderId" = o.id
+      WHERE o.id = $1 AND u.email = $2
+      GROUP BY o.id
+      `,
+      [params.id, auth.username],
+    )
+    const order = result.rows[0]
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+    const statusHistory = await fetchOrderStatusHistory(params.id)
+    return NextResponse.json({ ...order, statusHistory })
+  } catch (error) {
+    log.error('Error fetching customer order', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch order' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { requireCustomer } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { rateLimit } from '@/lib/rate-limit'
+
+// GET /api/orders/mine - list the authenticated customer's RFQs
+export const GET = requireCustomer(async (req: NextRequest, auth) => {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const { searchParams } = new URL(req.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1)
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '10', 10) || 10))
+    const offset = (page - 1) * limit
+
+    // Customer tokens carry the account email as username
+    const result = await pgPool.query(
+      `
+      WITH my_orders AS (
+        SELECT
+          o.id,
+          o.reference,
+          o."companyName",
+          o."contactName",
+          o.email,
+          o.phone,
+          o."companyAddress",
+          o.notes,
+          o.status,
+          (SELECT MAX(q.revision) FROM "Quote" q WHERE q."orderId" = o.id) AS "quoteRevision",
+          o."createdAt",
+          o."updatedAt",
+          COUNT(*) OVER() AS total,
+          COALESCE(
+            json_agg(
+              json_build_object(
+                'id', oi.id,
+                'orderId', oi."orderId",
+                'productId', oi."productId",
+                'sku', oi.sku,
+                'name', oi.name,
+                'quantity', oi.quantity,
+                'notes', oi.notes,
+                'configuration', oi.configuration
+              )
+            ) FILTER (WHERE oi.id IS NOT NULL),
+            '[]'::json
+          ) AS items
+        FROM "Order" o
+        JOIN "User" u ON u.id = o."userId"
+        LEFT JOIN "OrderItem" oi ON oi."orderId" = o.id
+        WHERE u.email = $1
+        GROUP BY o.id
+      )
+      SELECT * FROM my_orders
+      ORDER BY "createdAt" DESC
+      LIMIT $2
+      OFFSET $3
+      `,
+      [auth.username, limit, offset],
+    )
+
+    const orders = result.rows
+    const total: number = orders.length > 0 ? parseInt(orders[0].total) : 0
+
+    return NextResponse.json({
+      orders: orders.map(({ total, ...order }) => order), // Remove total from each row
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page < Math.ceil(total / limit),
+        hasPrev: page > 1,
+      },
+    })
+  } catch (error) {
+    log.error('Error fetching customer orders', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch orders' },
+      { status: 500 },
+    )
+  }
+})
@@ -6,6 +6,14 @@ import { requireAdmin, requireCustomer } from '@/lib/auth-middleware'
 import { log } from '@/lib/logger'
 import { csrfProtection } from '@/lib/csrf'
 import { rateLimit } from '@/lib/rate-limit'
+import { unreadMessagesSql } from '@/lib/messages'
+import { buildOrderFilters, orderSortSql, parseOrderFilterParams } from '@/lib/order-query'
+import { absoluteUrl, queueEmail, queueSalesEmail } from '@/lib/mail'
+import { cordsetLineName, cordsetSelectionSchema } from '@/lib/cordset-validation'
+import { resolveSubmittedCordset } from '@/lib/cordsets'
+import { recordOrderStatusChange } from '@/lib/order-status-history'
+import { autoAssign } from '@/lib/assignments'
+import type { CordsetConfiguration } from '@/types'
 
 const orderItemSchema = z.object({
   productId: z.string().min(1, 'Product ID is required'),
@@ -13,6 +21,10 @@ const orderItemSchema = z.object({
   name: z.string().min(1, 'Product name is required'),
   quantity: z.number().int().positive('Quantity must be a positive number'),
   notes: z.string().optional(),
+  // Configured cordsets send only their selections; the rest is resolved server-side
+  configuration: z.object({ selections: cordsetSelectionSchema }).optional(),
+  // Unmatched BOM lines: sku and name are the customer's part number and description
+  freeText: z.boolean().optional(),
 })
 
 const orderSchema = z.object({
@@ -23,18 +35,10 @@ const orderSchema = z.object({
   companyAddress: z.string().trim().optional(),
   items: z.array(orderItemSchema).min(1, 'At least one item is required'),
   notes: z.string().optional(),
-  status: z.enum(['pending', 'quoted', 'approved', 'rejected']).optional(),
-})
-
-const orderUpdateSchema = z.object({
-  status: z.enum(['pending', 'quoted', 'approved', 'rejected']).optional(),
-  notes: z.string().optional(),
-}).refine((data) => Object.keys(data).length > 0, {
-  message: 'At least one field must be provided for update',
 })
 
 // POST /api/orders - create order (RFQ, authenticated customer)
-export const POST = requireCustomer(async (req: NextRequest) => {
+export const POST = requireCustomer(async (req: NextRequest, auth) => {
   // CSRF protection
   const csrfResponse = csrfProtection(req)
   if (csrfResponse) {
@@ -52,6 +56,30 @@ export const POST = requireCustomer(async (req: NextRequest) => {
     const json = await req.json()
     const data = orderSchema.parse(json)
 
+    const configurations: (CordsetConfiguration | null)[] = []
+    for (const [index, item] of data.items.entries()) {
+      if (!item.configuration) {
+        configurations.push(null)
+        continue
+      }
+      const configuration = await resolveSubmittedCordset(item.configuration.selections)
+      if (!configuration) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: [
+              {
+                field: `items.${index}.configuration`,
+                message: 'This cordset configuration is no longer available. Please configure it again.',
+              },
+            ],
+          },
+          { status: 400 },
+        )
+      }
+      configurations.push(configuration)
+    }
+
     // Start a transaction - use getClientWithRetry for better connection management
     const { getClientWithRetry } = await import('@/lib/pg')
     const client = await getClientWithRetry('createOrder')
@@ -62,12 +90,16 @@ export const POST = requireCustomer(async (req: NextRequest) => {
         `
         INSERT INTO "Order" (
           "companyName", "contactName", email, phone,
-          "companyAddress", notes, status,
+          "companyAddress", notes, status, "userId",
           "createdAt", "updatedAt"
         )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
-        RETURNING id, "companyName", "contactName", email, phone,
-                  "companyAddress", notes, status, "createdAt", "updatedAt"
+        VALUES (
+          $1, $2, $3, $4, $5, $6, $7,
+          (SELECT id FROM "User" WHERE email = $8 LIMIT 1),
+          NOW(), NOW()
+        )
+        RETURNING id, reference, "companyName", "contactName", email, phone,
+                  "companyAddress", notes, status, "userId", "createdAt", "updatedAt"
         `,
         [
           data.companyName,
@@ -76,7 +108,10 @@ export const POST = requireCustomer(async (req: NextRequest) => {
           data.phone,
           data.companyAddress ?? null,
           data.notes ?? null,
-          data.status ?? 'pending',
+          // New RFQs always start pending; see lib/order-status.ts
+          'pending',
+          // Customer tokens carry the account email as username
+          auth.username,
         ],
       )
 
@@ -89,31 +124,62 @@ export const POST = requireCustomer(async (req: NextRequest) => {
         valuesChunks.push(
           `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7})`,
         )
+        // id is defaulted in the DB; configured cordsets and free-text lines have no product
+        const configuration = configurations[index]
         itemsValues.push(
           order.id,
-          item.productId,
-          item.sku,
-          item.name,
+          configuration || item.freeText ? null : item.productId,
+          configuration ? configuration.partNumber : item.sku,
+          configuration ? cordsetLineName(configuration) : item.name,
           item.quantity,
           item.notes ?? null,
-          // id is defaulted in the DB
-          null,
+          configuration ? JSON.stringify(configuration) : null,
         )
       })
 
       const itemsResult = await client.query(
         `
         INSERT INTO "OrderItem" (
-          "orderId", "productId", sku, name, quantity, notes, id
+          "orderId", "productId", sku, name, quantity, notes, configuration
         )
         VALUES ${valuesChunks.join(', ')}
-        RETURNING id, "orderId", "productId", sku, name, quantity, notes
+        RETURNING id, "orderId", "productId", sku, name, quantity, notes, configuration
         `,
         itemsValues,
       )
 
+      await recordOrderStatusChange(
+        order.id,
+        { fromStatus: null, toStatus: 'pending', changedBy: auth.username },
+        client,
+      )
+      await autoAssign({ type: 'order', id: order.id }, client)
+
       await client.query('COMMIT')
 
+      queueEmail('rfqReceivedCustomer', order.email, {
+        reference: order.reference,
+        contactName: order.contactName,
+        companyName: order.companyName,
+        items: itemsResult.rows,
+        accountUrl: absoluteUrl(`/account/rfqs/${order.id}`),
+      })
+      queueSalesEmail(
+        'rfqReceivedSales',
+        {
+          reference: order.reference,
+          companyName: order.companyName,
+          contactName: order.contactName,
+          email: order.email,
+          phone: order.phone,
+          companyAddress: order.companyAddress,
+          notes: order.notes,
+          items: itemsResult.rows,
+          adminUrl: absoluteUrl('/admin/orders'),
+        },
+        { replyTo: order.email },
+      )
+
       return NextResponse.json(
         {
           ...order,
@@ -150,7 +216,10 @@ export const POST = requireCustomer(async (req: NextRequest) => {
 })
 
 // GET /api/orders - list orders (admin)
-export const GET = requireAdmin(async (req: NextRequest) => {
+// Filters: status (comma-separated), from/to (dates), company, email, sku, search, assignedTo
+// (owner, "me" or "none"); sort and direction pick the order (see lib/order-query.ts).
+// unreadMessages counts messages this admin has not seen yet
+export const GET = requireAdmin(async (req: NextRequest, auth) => {
   // Rate limiting
   const rateLimitResponse = await rateLimit(req)
   if (rateLimitResponse) {
@@ -162,6 +231,8 @@ export const GET = requireAdmin(async (req: NextRequest) => {
     const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1)
     const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20))
     const offset = (page - 1) * limit
+    const params = parseOrderFilterParams(searchParams, auth.username)
+    const { filters, values } = buildOrderFilters(params, 4)
 
     // Optimized: Single query with window function for count + data
     // Using LATERAL JOIN for better performance than LEFT JOIN + GROUP BY
@@ -170,6 +241,7 @@ export const GET = requireAdmin(async (req: NextRequest) => {
       WITH orders_with_items AS (
         SELECT
           o.id,
+          o.reference,
           o."companyName",
           o."contactName",
           o.email,
@@ -177,6 +249,10 @@ export const GET = requireAdmin(async (req: NextRequest) => {
           o."companyAddress",
           o.notes,
           o.status,
+          o."userId",
+          o."assignedTo",
+          (SELECT MAX(q.revision) FROM "Quote" q WHERE q."orderId" = o.id) AS "quoteRevision",
+          ${unreadMessagesSql('order', 'o.id', '$3')} AS "unreadMessages",
           o."createdAt",
           o."updatedAt",
           COUNT(*) OVER() AS total,
@@ -189,21 +265,23 @@ export const GET = requireAdmin(async (req: NextRequest) => {
                 'sku', oi.sku,
                 'name', oi.name,
                 'quantity', oi.quantity,
-                'notes', oi.notes
+                'notes', oi.notes,
+                'configuration', oi.configuration
               )
             ) FILTER (WHERE oi.id IS NOT NULL),
             '[]'::json
           ) AS items
         FROM "Order" o
         LEFT JOIN "OrderItem" oi ON oi."orderId" = o.id
+        ${filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : ''}
         GROUP BY o.id
       )
-      SELECT * FROM orders_with_items
-      ORDER BY "createdAt" DESC
+      SELECT * FROM orders_with_items o
+      ORDER BY ${orderSortSql(params)}
       LIMIT $1
       OFFSET $2
       `,
-      [limit, offset],
+      [limit, offset, auth.username, ...values],
     )
 
     const orders = result.rows
@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { priceListSchema } from '@/lib/pricing-validation'
+import { replacePriceListItems } from '@/lib/customer-pricing'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+
+// GET /api/price-lists/:id - price list with its items (admin-only)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const result = await pgPool.query(
+      `
+      SELECT
+        pl.id, pl.name, pl."customerGroupId", g.name AS "customerGroupName",
+        pl."discountPercent"::float AS "discountPercent",
+        TO_CHAR(pl."validFrom", 'YYYY-MM-DD') AS "validFrom",
+        TO_CHAR(pl."validTo", 'YYYY-MM-DD') AS "validTo",
+        pl.active, pl."createdAt", pl."updatedAt"
+      FROM "PriceList" pl
+      JOIN "CustomerGroup" g ON g.id = pl."customerGroupId"
+      WHERE pl.id = $1
+      `,
+      [params.id],
+    )
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const items = await pgPool.query(
+      `
+      SELECT pli."productId", p.sku, p.name, pli."unitPrice"::float AS "unitPrice"
+      FROM "PriceListItem" pli
+      JOIN "Product" p ON p.id = pli."productId"
+      WHERE pli."priceListId" = $1
+      ORDER BY p.sku ASC
+      `,
+      [params.id],
+    )
+
+    return NextResponse.json({ ...result.rows[0], items: items.rows })
+  } catch (error) {
+    log.error('Failed to fetch price list', error)
+    return NextResponse.json({ error: 'Failed to fetch price list' }, { status: 500 })
+  }
+}
+
+// PUT /api/price-lists/:id - replace the price list and its items (admin-only)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const body = await req.json()
+    const parsed = priceListSchema.parse(body)
+
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('updatePriceList')
+    try {
+      await client.query('BEGIN')
+
+      const group = await client.query(`SELECT id FROM "CustomerGroup" WHERE id = $1`, [parsed.customerGroupId])
+      if (group.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Customer group not found' }, { status: 400 })
+      }
+
+      const updated = await client.query(
+        `
+        UPDATE "PriceList"
+        SET name = $1, "customerGroupId" = $2, "discountPercent" = $3, "validFrom" = $4, "validTo" = $5,
+            active = $6, "updatedAt" = NOW()
+        WHERE id = $7
+        RETURNING id
+        `,
+        [
+          parsed.name,
+          parsed.customerGroupId,
+          parsed.discountPercent,
+          parsed.validFrom ?? null,
+          parsed.validTo ?? null,
+          parsed.active,
+          params.id,
+        ],
+      )
+      if (updated.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Not found' }, { status: 404 })
+      }
+
+      const { unknownSkus } = await replacePriceListItems(params.id, parsed.items, client)
+      if (unknownSkus.length > 0) {
+        await client.query('ROLLBACK')
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: unknownSkus.map((index) => ({
+              field: `items.${index}.sku`,
+              message: `Unknown SKU "${parsed.items[index].sku}"`,
+            })),
+          },
+          { status: 400 },
+        )
+      }
+
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    log.info('Price list saved', { id: params.id, items: parsed.items.length, by: auth.username })
+    return NextResponse.json({ id: params.id })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    log.error('Failed to update price list', error)
+    return NextResponse.json({ error: 'Failed to update price list' }, { status: 500 })
+  }
+}
+
+// DELETE /api/price-lists/:id - delete (admin-only)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const result = await pgPool.query(`DELETE FROM "PriceList" WHERE id = $1 RETURNING id`, [params.id])
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    log.info('Price list deleted', { id: params.id, by: auth.username })
+    return NextResponse.json({ message: 'Price list deleted successfully' })
+  } catch (error) {
+    log.error('Failed to delete price list', error)
+    return NextResponse.json({ error: 'Failed to delete price list' }, { status: 500 })
+  }
+}
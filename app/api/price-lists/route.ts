@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkAdmin, requireAdmin } from '@/lib/auth-middleware'
+import { priceListSchema } from '@/lib/pricing-validation'
+import { replacePriceListItems } from '@/lib/customer-pricing'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+
+// GET /api/price-lists - list price lists with group names and item counts (admin-only)
+export async function GET(req: NextRequest) {
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const result = await pgPool.query(
+      `
+      SELECT
+        pl.id, pl.name, pl."customerGroupId", g.name AS "customerGroupName",
+        pl."discountPercent"::float AS "discountPercent",
+        TO_CHAR(pl."validFrom", 'YYYY-MM-DD') AS "validFrom",
+        TO_CHAR(pl."validTo", 'YYYY-MM-DD') AS "validTo",
+        pl.active, pl."createdAt", pl."updatedAt",
+        (SELECT COUNT(*) FROM "PriceListItem" pli WHERE pli."priceListId" = pl.id)::int AS "itemCount"
+      FROM "PriceList" pl
+      JOIN "CustomerGroup" g ON g.id = pl."customerGroupId"
+      ORDER BY g.name ASC, pl.name ASC
+      `,
+    )
+    return NextResponse.json({ priceLists: result.rows })
+  } catch (error) {
+    log.error('Failed to fetch price lists', error)
+    return NextResponse.json({ error: 'Failed to fetch price lists' }, { status: 500 })
+  }
+}
+
+// POST /api/price-lists - create a price list with its items (admin-only)
+export const POST = requireAdmin(async (req: NextRequest, auth) => {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const body = await req.json()
+    const parsed = priceListSchema.parse(body)
+
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('createPriceList')
+    let priceListId: string
+    try {
+      await client.query('BEGIN')
+
+      const group = await client.query(`SELECT id FROM "CustomerGroup" WHERE id = $1`, [parsed.customerGroupId])
+      if (group.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Customer group not found' }, { status: 400 })
+      }
+
+      const inserted = await client.query(
+        `
+        INSERT INTO "PriceList" (name, "customerGroupId", "discountPercent", "validFrom", "validTo", active, "createdAt", "updatedAt")
+        VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
+        RETURNING id
+        `,
+        [parsed.name, parsed.customerGroupId, parsed.discountPercent, parsed.validFrom ?? null, parsed.validTo ?? null, parsed.active],
+      )
+      priceListId = inserted.rows[0].id
+
+      const { unknownSkus } = await replacePriceListItems(priceListId, parsed.items, client)
+      if (unknownSkus.length > 0) {
+        await client.query('ROLLBACK')
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: unknownSkus.map((index) => ({
+              field: `items.${index}.sku`,
+              message: `Unknown SKU "${parsed.items[index].sku}"`,
+            })),
+          },
+          { status: 400 },
+        )
+      }
+
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    log.info('Price list created', { id: priceListId, items: parsed.items.length, by: auth.username })
+    return NextResponse.json({ id: priceListId }, { status: 201 })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    log.error('Failed to create price list', error)
+    return NextResponse.json({ error: 'Failed to create price list' }, { status: 500 })
+  }
+})
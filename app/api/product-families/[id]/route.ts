@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { productFamilySchema } from '@/lib/product-validation'
+import { PRODUCT_FAMILY_COLUMNS, fetchFamilyVariants, fetchProductFamily } from '@/lib/product-families'
+import { sanitizeRichText } from '@/lib/sanitize'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+import { checkAdmin } from '@/lib/auth-middleware'
+
+// GET /api/product-families/:id - family with its variants
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const family = await fetchProductFamily(params.id)
+    if (!family) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const variants = await fetchFamilyVariants(params.id)
+    return NextResponse.json({ ...family, variantCount: variants.length, variants })
+  } catch (error: any) {
+    log.error('Failed to fetch product family', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch product family' },
+      { status: 500 },
+    )
+  }
+}
+
+// PUT /api/product-families/:id - update (admin-only)
+// Variants missing a value for a new axis are reported when they are next saved
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const body = await req.json()
+    const parsed = productFamilySchema.parse(body)
+
+    const result = await pgPool.query(
+      `
+      UPDATE "ProductFamily"
+      SET
+        name = $1,
+        description = $2,
+        images = $3::jsonb,
+        "categoryId" = $4,
+        axes = $5::jsonb,
+        "updatedAt" = NOW()
+      WHERE id = $6
+      RETURNING ${PRODUCT_FAMILY_COLUMNS}
+      `,
+      [
+        parsed.name,
+        parsed.description ? sanitizeRichText(parsed.description) : null,
+        JSON.stringify(parsed.images.filter((img) => img.trim().length > 0)),
+        parsed.categoryId ?? null,
+        JSON.stringify(parsed.axes),
+        params.id,
+      ],
+    )
+
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(result.rows[0])
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    log.error('Failed to update product family', error)
+    return NextResponse.json(
+      { error: 'Failed to update product family' },
+      { status: 500 },
+    )
+  }
+}
+
+// DELETE /api/product-families/:id - delete (admin-only); variants become standalone products
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('deleteProductFamily')
+    try {
+      await client.query('BEGIN')
+      await client.query(
+        `UPDATE "Product" SET "familyId" = NULL, "variantOptions" = '{}'::jsonb, "updatedAt" = NOW() WHERE "familyId" = $1`,
+        [params.id],
+      )
+      const result = await client.query(`DELETE FROM "ProductFamily" WHERE id = $1 RETURNING id`, [params.id])
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Not found' }, { status: 404 })
+      }
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    log.error('Failed to delete product family', error)
+    return NextResponse.json(
+      { error: 'Failed to delete product family' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { requireAdmin } from '@/lib/auth-middleware'
+import { productFamilySchema } from '@/lib/product-validation'
+import { PRODUCT_FAMILY_COLUMNS } from '@/lib/product-families'
+import { sanitizeRichText } from '@/lib/sanitize'
+import { rateLimit } from '@/lib/rate-limit'
+import { csrfProtection } from '@/lib/csrf'
+import { log } from '@/lib/logger'
+
+// GET /api/product-families - list families with their variant counts
+export async function GET(req: NextRequest) {
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const result = await pgPool.query(
+      `
+      SELECT
+        f.id, f.name, f.description, f.images, f."categoryId", f.axes, f."createdAt", f."updatedAt",
+        (SELECT COUNT(*) FROM "Product" p WHERE p."familyId" = f.id)::int AS "variantCount"
+      FROM "ProductFamily" f
+      ORDER BY f.name ASC
+      `,
+    )
+    return NextResponse.json({ families: result.rows })
+  } catch (error: any) {
+    log.error('Failed to fetch product families', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch product families',
+        details: process.env.NODE_ENV === 'development' ? error?.message : undefined,
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// POST /api/product-families - create (admin-only)
+export const POST = requireAdmin(async (req: NextRequest) => {
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const body = await req.json()
+    const parsed = productFamilySchema.parse(body)
+
+    const result = await pgPool.query(
+      `
+      INSERT INTO "ProductFamily" (name, description, images, "categoryId", axes, "createdAt", "updatedAt")
+      VALUES ($1, $2, $3::jsonb, $4, $5::jsonb, NOW(), NOW())
+      RETURNING ${PRODUCT_FAMILY_COLUMNS}
+      `,
+      [
+        parsed.name,
+        parsed.description ? sanitizeRichText(parsed.description) : null,
+        JSON.stringify(parsed.images.filter((img) => img.trim().length > 0)),
+        parsed.categoryId ?? null,
+        JSON.stringify(parsed.axes),
+      ],
+    )
+
+    return NextResponse.json({ ...result.rows[0], variantCount: 0 }, { status: 201 })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    log.error('Failed to create product family', error)
+    return NextResponse.json(
+      { error: 'Failed to create product family' },
+      { status: 500 },
+    )
+  }
+})
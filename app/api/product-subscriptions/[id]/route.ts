@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkCustomer } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+
+// DELETE /api/product-subscriptions/:id - remove one of the customer's product alerts
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkCustomer(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid subscription ID format' }, { status: 400 })
+    }
+
+    const result = await pgPool.query(
+      `DELETE FROM "ProductSubscription" WHERE id = $1 AND email = $2 RETURNING id`,
+      [params.id, auth.username],
+    )
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Product alert not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Product alert removed' })
+  } catch (error) {
+    log.error('Error deleting product subscription', error)
+    return NextResponse.json({ error: 'Failed to remove product alert' }, { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { log } from '@/lib/logger'
+import { rateLimit } from '@/lib/rate-limit'
+import { PRODUCT_ALERT_LABELS } from '@/lib/product-alert-validation'
+import type { ProductSubscriptionType } from '@/types'
+
+// GET /api/product-subscriptions/confirm?token=... - confirm a guest's product alert
+export async function GET(req: NextRequest) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 5, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const { searchParams } = new URL(req.url)
+    const token = searchParams.get('token')
+
+    if (!token) {
+      return NextResponse.json({ error: 'Confirmation token is required' }, { status: 400 })
+    }
+
+    const subscriptionResult = await pgPool.query<{
+      id: string
+      type: ProductSubscriptionType
+      verificationTokenExpires: Date | null
+      productName: string
+    }>(
+      `
+      SELECT s.id, s.type, s."verificationTokenExpires", p.name AS "productName"
+      FROM "ProductSubscription" s
+      JOIN "Product" p ON p.id = s."productId"
+      WHERE s."verificationToken" = $1
+      LIMIT 1
+      `,
+      [token],
+    )
+
+    if (subscriptionResult.rows.length === 0) {
+      return NextResponse.json({ error: 'Invalid or already used confirmation link' }, { status: 400 })
+    }
+
+    const subscription = subscriptionResult.rows[0]
+
+    if (
+      subscription.verificationTokenExpires &&
+      new Date() > new Date(subscription.verificationTokenExpires)
+    ) {
+      return NextResponse.json(
+        { error: 'Confirmation link has expired. Please subscribe again.' },
+        { status: 400 },
+      )
+    }
+
+    // Link the alert to an account with the same email, so it shows on the account page
+    await pgPool.query(
+      `
+      UPDATE "ProductSubscription" s
+      SET verified = TRUE,
+          "verificationToken" = NULL,
+          "verificationTokenExpires" = NULL,
+          "userId" = (SELECT u.id FROM "User" u WHERE u.email = s.email LIMIT 1),
+          "updatedAt" = NOW()
+      WHERE s.id = $1
+      `,
+      [subscription.id],
+    )
+
+    return NextResponse.json({
+      message: `${PRODUCT_ALERT_LABELS[subscription.type]} alert confirmed for ${subscription.productName}`,
+      verified: true,
+    })
+  } catch (error) {
+    log.error('Error confirming product subscription', error)
+    return NextResponse.json({ error: 'Failed to confirm product alert' }, { status: 500 })
+  }
+}
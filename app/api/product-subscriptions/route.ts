@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { requireCustomer } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { rateLimit } from '@/lib/rate-limit'
+
+// GET /api/product-subscriptions - the authenticated customer's product alerts
+// Includes confirmed alerts made as a guest with the account email
+export const GET = requireCustomer(async (req: NextRequest, auth) => {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const result = await pgPool.query(
+      `
+      SELECT
+        s.id, s."productId", s.type, s.email, s.verified, s."lastNotifiedAt", s."createdAt",
+        json_build_object(
+          'sku', p.sku,
+          'name', p.name,
+          'price', p.price,
+          'priceType', p."priceType",
+          'inStock', p."inStock",
+          'stockQuantity', p."stockQuantity"
+        ) AS product
+      FROM "ProductSubscription" s
+      JOIN "Product" p ON p.id = s."productId"
+      WHERE s.email = $1 AND s.verified = TRUE
+      ORDER BY s."createdAt" DESC
+      `,
+      [auth.username],
+    )
+    return NextResponse.json({ subscriptions: result.rows })
+  } catch (error) {
+    log.error('Error fetching product subscriptions', error)
+    return NextResponse.json({ error: 'Failed to fetch product alerts' }, { status: 500 })
+  }
+})
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+
+// POST /api/product-subscriptions/unsubscribe - remove an alert using the link from an alert email
+export async function POST(req: NextRequest) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 5, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const json = await req.json()
+    const { token } = json
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json({ error: 'Unsubscribe token is required' }, { status: 400 })
+    }
+
+    const result = await pgPool.query(
+      `DELETE FROM "ProductSubscription" WHERE "unsubscribeToken" = $1 RETURNING id`,
+      [token],
+    )
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'This alert was already removed' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'You will no longer receive this product alert' })
+  } catch (error) {
+    log.error('Error unsubscribing from product alert', error)
+    return NextResponse.json({ error: 'Failed to unsubscribe' }, { status: 500 })
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { priceTiersSchema } from '@/lib/product-validation'
+import { fetchPriceTiers, replacePriceTiers } from '@/lib/price-tiers'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+
+// GET /api/products/:id/price-tiers - all tiers of a product, including customer group tiers (admin only)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid product ID format' }, { status: 400 })
+    }
+
+    const existing = await pgPool.query(`SELECT id FROM "Product" WHERE id = $1`, [params.id])
+    if (existing.rows.length === 0) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    const tiers = await fetchPriceTiers([params.id], { allGroups: true })
+    return NextResponse.json({ tiers: tiers[params.id] ?? [] })
+  } catch (error) {
+    log.error('Error fetching price tiers', error)
+    return NextResponse.json({ error: 'Failed to fetch price tiers' }, { status: 500 })
+  }
+}
+
+// PUT /api/products/:id/price-tiers - replace all tiers of a product (admin only)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid product ID format' }, { status: 400 })
+    }
+
+    const body = await req.json()
+    const { tiers } = priceTiersSchema.parse(body)
+
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('savePriceTiers')
+    let saved
+    try {
+      await client.query('BEGIN')
+
+      const existing = await client.query(`SELECT id FROM "Product" WHERE id = $1 FOR UPDATE`, [params.id])
+      if (existing.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+      }
+
+      saved = await replacePriceTiers(params.id, tiers, client)
+
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    log.info('Price tiers saved', { productId: params.id, count: saved.length, by: auth.username })
+
+    return NextResponse.json({ tiers: saved })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    log.error('Error saving price tiers', error)
+    return NextResponse.json({ error: 'Failed to save price tiers' }, { status: 500 })
+  }
+}
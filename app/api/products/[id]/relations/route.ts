@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { productRelationsSchema } from '@/lib/product-relation-validation'
+import { fetchProductRelations, findProductIdsBySku, replaceProductRelations } from '@/lib/product-relations'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+
+// GET /api/products/:id/relations - mating parts, accessories, cables and alternatives of a product (admin only)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid product ID format' }, { status: 400 })
+    }
+
+    const existing = await pgPool.query(`SELECT id FROM "Product" WHERE id = $1`, [params.id])
+    if (existing.rows.length === 0) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ relations: await fetchProductRelations(params.id) })
+  } catch (error) {
+    log.error('Error fetching product relations', error)
+    return NextResponse.json({ error: 'Failed to fetch related products' }, { status: 500 })
+  }
+}
+
+// PUT /api/products/:id/relations - replace all relations of a product (admin only)
+// Body: { relations: [{ type, sku }] }; list order is the display order
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid product ID format' }, { status: 400 })
+    }
+
+    const body = await req.json()
+    const { relations } = productRelationsSchema.parse(body)
+
+    const relatedIds = await findProductIdsBySku(relations.map((relation) => relation.sku))
+    const details = relations.flatMap((relation, index) => {
+      const relatedId = relatedIds.get(relation.sku)
+      if (!relatedId) {
+        return [{ field: `relations.${index}.sku`, message: `Product ${relation.sku} not found` }]
+      }
+      if (relatedId === params.id) {
+        return [{ field: `relations.${index}.sku`, message: 'A product cannot be related to itself' }]
+      }
+      return []
+    })
+    if (details.length > 0) {
+      return NextResponse.json({ error: 'Validation failed', details }, { status: 400 })
+    }
+
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('saveProductRelations')
+    let saved
+    try {
+      await client.query('BEGIN')
+
+      const existing = await client.query(`SELECT id FROM "Product" WHERE id = $1 FOR UPDATE`, [params.id])
+      if (existing.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+      }
+
+      saved = await replaceProductRelations(params.id, relations, relatedIds, client)
+
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    log.info('Product relations saved', { productId: params.id, count: saved.length, by: auth.username })
+
+    return NextResponse.json({ relations: saved })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    log.error('Error saving product relations', error)
+    return NextResponse.json({ error: 'Failed to save related products' }, { status: 500 })
+  }
+}
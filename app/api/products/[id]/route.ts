@@ -6,6 +6,14 @@ import { sanitizeRichText } from '@/lib/sanitize'
 import { rateLimit } from '@/lib/rate-limit'
 import { csrfProtection } from '@/lib/csrf'
 import { log } from '@/lib/logger'
+import { refreshProductSpecRanges } from '@/lib/spec-ranges'
+import { fetchCategoryTemplate, validateProductAttributes } from '@/lib/category-attributes'
+import { fetchProductFamily, validateVariantOptions } from '@/lib/product-families'
+import { applyPriceTiers } from '@/lib/price-tiers'
+import { applyCustomerPricing, getRequestPricingContext } from '@/lib/customer-pricing'
+import { STOCK_TRACKED_SQL } from '@/lib/stock'
+import { notifyProductSubscribers } from '@/lib/product-alerts'
+import { applyProductReplacements, findProductIdBySku } from '@/lib/product-replacements'
 
 // GET /api/products/:id
 export async function GET(
@@ -65,6 +73,13 @@ export async function GET(
         p.documents,
         p."datasheetUrl",
         p."drawingUrl",
+        p.attributes,
+        p."familyId",
+        p."variantOptions",
+        p."lifecycleStatus",
+        TO_CHAR(p."lifecycleEffectiveDate", 'YYYY-MM-DD') AS "lifecycleEffectiveDate",
+        TO_CHAR(p."lastTimeBuyDate", 'YYYY-MM-DD') AS "lastTimeBuyDate",
+        p."replacementProductId",
         p."createdAt",
         p."updatedAt"
       FROM "Product" p
@@ -78,7 +93,13 @@ export async function GET(
       return NextResponse.json({ error: 'Product not found' }, { status: 404 })
     }
 
-    return NextResponse.json(product)
+    // Prices and tiers are resolved for the logged-in customer's group
+    const pricing = await getRequestPricingContext(req)
+    const [priced] = await applyCustomerPricing(
+      await applyPriceTiers(await applyProductReplacements([product]), pricing?.customerGroupCode ?? null),
+      pricing,
+    )
+    return NextResponse.json(priced)
   } catch (error: any) {
     log.error('Error fetching product', error)
     
@@ -171,7 +192,12 @@ export async function PUT(
         "bendingRadiusFixed", "bendingRadiusRepeated", "contactPlating",
         voltage, current, "halogenFree", "connectorType", coding,
         "strippingForce", price, "priceType", "inStock", "stockQuantity",
-        images, documents, "datasheetUrl", "drawingUrl"
+        images, documents, "datasheetUrl", "drawingUrl", attributes,
+        "familyId", "variantOptions",
+        "lifecycleStatus",
+        TO_CHAR("lifecycleEffectiveDate", 'YYYY-MM-DD') AS "lifecycleEffectiveDate",
+        TO_CHAR("lastTimeBuyDate", 'YYYY-MM-DD') AS "lastTimeBuyDate",
+        "replacementProductId"
       FROM "Product"
       WHERE id = $1
       `,
@@ -264,6 +290,42 @@ export async function PUT(
     const imagesJson = JSON.stringify(imagesArray)
     const documentsJson = JSON.stringify(documentsArray)
 
+    // Attribute values follow the template of the (possibly new) category; products saved
+    // without attribute changes keep their values even if the template changed since
+    const categoryId = parsed.categoryId !== undefined ? (parsed.categoryId ? parsed.categoryId : null) : existing.categoryId
+    const attributes = parsed.attributes !== undefined || categoryId !== existing.categoryId
+      ? validateProductAttributes(await fetchCategoryTemplate(categoryId), parsed.attributes ?? existing.attributes)
+      : existing.attributes ?? {}
+
+    // Variant options are checked against the family axes when either of them is submitted
+    const familyId = parsed.familyId !== undefined ? parsed.familyId ?? null : existing.familyId ?? null
+    let variantOptions: Record<string, string> = familyId ? existing.variantOptions ?? {} : {}
+    if (familyId && (parsed.familyId !== undefined || parsed.variantOptions !== undefined)) {
+      const family = await fetchProductFamily(familyId)
+      if (!family) {
+        return NextResponse.json({ error: 'Product family not found' }, { status: 400 })
+      }
+      variantOptions = validateVariantOptions(family, parsed.variantOptions ?? existing.variantOptions)
+    }
+
+    // The replacement is named by SKU; clearing the SKU removes it
+    let replacementProductId: string | null = existing.replacementProductId ?? null
+    if (parsed.replacementSku !== undefined) {
+      replacementProductId = parsed.replacementSku ? await findProductIdBySku(parsed.replacementSku) : null
+      const message = parsed.replacementSku && !replacementProductId
+        ? `No product with SKU "${parsed.replacementSku}"`
+        : replacementProductId === params.id
+          ? 'A product cannot replace itself'
+          : null
+      if (message) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: [{ field: 'replacementSku', message }] },
+          { status: 400 },
+        )
+      }
+    }
+
+    // Stock of products tracked per warehouse only changes through stock movements
     const updatedResult = await pgPool.query(
       `
       UPDATE "Product"
@@ -299,12 +361,19 @@ export async function PUT(
         "strippingForce" = $29,
         price = $30,
         "priceType" = $31,
-        "inStock" = $32,
-        "stockQuantity" = $33,
+        "inStock" = CASE WHEN ${STOCK_TRACKED_SQL} THEN "inStock" ELSE $32 END,
+        "stockQuantity" = CASE WHEN ${STOCK_TRACKED_SQL} THEN "stockQuantity" ELSE $33 END,
         images = $34::jsonb,
         documents = $35::jsonb,
         "datasheetUrl" = $36,
         "drawingUrl" = $37,
+        attributes = $39::jsonb,
+        "familyId" = $40,
+        "variantOptions" = $41::jsonb,
+        "lifecycleStatus" = $42,
+        "lifecycleEffectiveDate" = $43,
+        "lastTimeBuyDate" = $44,
+        "replacementProductId" = $45,
         "updatedAt" = NOW()
       WHERE id = $38
       RETURNING
@@ -318,14 +387,19 @@ export async function PUT(
         "bendingRadiusFixed", "bendingRadiusRepeated", "contactPlating",
         voltage as "operatingVoltage", current as "ratedCurrent", "halogenFree", "connectorType", coding as "code",
         "strippingForce", price, "priceType", "inStock", "stockQuantity",
-        images, documents, "datasheetUrl", "drawingUrl",
+        images, documents, "datasheetUrl", "drawingUrl", attributes,
+        "familyId", "variantOptions",
+        "lifecycleStatus",
+        TO_CHAR("lifecycleEffectiveDate", 'YYYY-MM-DD') AS "lifecycleEffectiveDate",
+        TO_CHAR("lastTimeBuyDate", 'YYYY-MM-DD') AS "lastTimeBuyDate",
+        "replacementProductId",
         "createdAt", "updatedAt"
       `,
       [
         parsed.sku !== undefined ? parsed.sku : existing.sku,
         parsed.name !== undefined ? parsed.name : existing.name,
         sanitizedDescription,
-        parsed.categoryId !== undefined ? (parsed.categoryId ? parsed.categoryId : null) : existing.categoryId,
+        categoryId,
         parsed.mpn !== undefined ? emptyToNull(parsed.mpn) : existing.mpn,
         parsed.productType !== undefined ? emptyToNull(parsed.productType) : existing.productType,
         parsed.coupling !== undefined ? emptyToNull(parsed.coupling) : existing.coupling,
@@ -361,9 +435,20 @@ export async function PUT(
         parsed.datasheetUrl !== undefined ? emptyToNull(parsed.datasheetUrl) : existing.datasheetUrl,
         parsed.drawingUrl !== undefined ? emptyToNull(parsed.drawingUrl) : existing.drawingUrl,
         params.id,
+        JSON.stringify(attributes),
+        familyId,
+        JSON.stringify(variantOptions),
+        parsed.lifecycleStatus !== undefined ? parsed.lifecycleStatus : existing.lifecycleStatus,
+        parsed.lifecycleEffectiveDate !== undefined ? parsed.lifecycleEffectiveDate : existing.lifecycleEffectiveDate,
+        parsed.lastTimeBuyDate !== undefined ? parsed.lastTimeBuyDate : existing.lastTimeBuyDate,
+        replacementProductId,
       ],
     )
 
+    await refreshProductSpecRanges(pgPool, [params.id])
+
+    notifyProductSubscribers(existing, updatedResult.rows[0])
+
     return NextResponse.json(updatedResult.rows[0])
   } catch (error: any) {
     if (error?.name === 'ZodError') {
@@ -379,6 +464,13 @@ export async function PUT(
       )
     }
 
+    if (error?.code === '23505' && error?.constraint === 'idx_product_family_variant') {
+      return NextResponse.json(
+        { error: 'Another variant of this family already has these options' },
+        { status: 409 },
+      )
+    }
+
     log.error('Error updating product', error)
     
     // Check if this is a missing column error
@@ -465,6 +557,21 @@ export async function DELETE(
       return NextResponse.json({ error: 'Product not found' }, { status: 404 })
     }
 
+    // Order lines keep their product link, so ordered products are discontinued instead
+    const orderedResult = await pgPool.query(
+      `SELECT COUNT(DISTINCT "orderId")::int AS count FROM "OrderItem" WHERE "productId" = $1`,
+      [params.id],
+    )
+    const orderCount = orderedResult.rows[0].count
+    if (orderCount > 0) {
+      return NextResponse.json(
+        {
+          error: `This product is on ${orderCount} ${orderCount === 1 ? 'order' : 'orders'}. Mark it as discontinued instead of deleting it.`,
+        },
+        { status: 409 },
+      )
+    }
+
     await pgPool.query(
       `
       DELETE FROM "Product"
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { stockMovementSchema } from '@/lib/stock-validation'
+import { parseOrderReference } from '@/lib/references'
+import { fetchStockLevels, fetchStockMovements, recordStockMovement, StockError } from '@/lib/stock'
+import { notifyProductSubscribers } from '@/lib/product-alerts'
+import { checkAdmin } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+
+// Product state compared for back-in-stock alerts
+const ALERT_COLUMNS = 'id, sku, name, price, "priceType", "inStock", "stockQuantity"'
+
+// GET /api/products/:id/stock - stock per warehouse and recent movements (admin only)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid product ID format' }, { status: 400 })
+    }
+
+    const existing = await pgPool.query(`SELECT id FROM "Product" WHERE id = $1`, [params.id])
+    if (existing.rows.length === 0) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    const [levels, movements] = await Promise.all([
+      fetchStockLevels(params.id),
+      fetchStockMovements(params.id),
+    ])
+    return NextResponse.json({ levels, movements })
+  } catch (error) {
+    log.error('Error fetching stock', error)
+    return NextResponse.json({ error: 'Failed to fetch stock' }, { status: 500 })
+  }
+}
+
+// POST /api/products/:id/stock - record a stock movement (admin only)
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkAdmin(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid product ID format' }, { status: 400 })
+    }
+
+    const body = await req.json()
+    const movement = stockMovementSchema.parse(body)
+
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('recordStockMovement')
+    let recorded
+    let levels
+    let before
+    let after
+    try {
+      await client.query('BEGIN')
+
+      const existing = await client.query(
+        `SELECT ${ALERT_COLUMNS} FROM "Product" WHERE id = $1 FOR UPDATE`,
+        [params.id],
+      )
+      before = existing.rows[0]
+      if (!before) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+      }
+
+      if (movement.orderId) {
+        const reference = parseOrderReference(movement.orderId)
+        const order = await client.query(
+          `SELECT id FROM "Order" WHERE ${reference ? 'reference' : 'id'} = $1`,
+          [reference ?? movement.orderId],
+        )
+        if (order.rows.length === 0) {
+          await client.query('ROLLBACK')
+          return NextResponse.json({ error: 'Order not found' }, { status: 400 })
+        }
+        movement.orderId = order.rows[0].id
+      }
+
+      recorded = await recordStockMovement(params.id, movement, auth.username, client)
+      levels = await fetchStockLevels(params.id, client)
+      after = (await client.query(`SELECT ${ALERT_COLUMNS} FROM "Product" WHERE id = $1`, [params.id])).rows[0]
+
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+
+    notifyProductSubscribers(before, after)
+
+    log.info('Stock movement recorded', {
+      productId: params.id,
+      type: recorded.type,
+      quantity: recorded.quantity,
+      by: auth.username,
+    })
+
+    return NextResponse.json({ movement: recorded, levels }, { status: 201 })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    if (error instanceof StockError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    log.error('Error recording stock movement', error)
+    return NextResponse.json({ error: 'Failed to record stock movement' }, { status: 500 })
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import crypto from 'crypto'
+import { pgPool } from '@/lib/pg'
+import { authenticateRequest } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+import { absoluteUrl, queueEmail } from '@/lib/mail'
+import { SUBSCRIPTION_CONFIRM_DAYS } from '@/lib/product-alerts'
+import { PRODUCT_ALERT_LABELS, productSubscriptionSchema } from '@/lib/product-alert-validation'
+
+// POST /api/products/:id/subscriptions - subscribe to back-in-stock or price-drop alerts
+// Logged-in customers are subscribed at once; guests confirm through an emailed link
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting - guest subscriptions send email
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 5, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid product ID format' }, { status: 400 })
+    }
+
+    const json = await req.json()
+    const data = productSubscriptionSchema.parse(json)
+
+    const productResult = await pgPool.query<{ id: string; sku: string; name: string }>(
+      `SELECT id, sku, name FROM "Product" WHERE id = $1`,
+      [params.id],
+    )
+    const product = productResult.rows[0]
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    // Customer tokens carry the account email as username
+    const auth = authenticateRequest(req, { requireAuth: false, allowedRoles: ['customer'], tokenType: 'user_token' })
+    if (auth) {
+      const result = await pgPool.query(
+        `
+        INSERT INTO "ProductSubscription" ("productId", "userId", email, type, verified, "unsubscribeToken")
+        SELECT $1, u.id, u.email, $3, TRUE, $4
+        FROM "User" u
+        WHERE u.email = $2 AND u."isActive" = TRUE
+        ON CONFLICT ("productId", email, type) DO UPDATE
+        SET "userId" = EXCLUDED."userId",
+            verified = TRUE,
+            "verificationToken" = NULL,
+            "verificationTokenExpires" = NULL,
+            "updatedAt" = NOW()
+        RETURNING id
+        `,
+        [product.id, auth.username, data.type, crypto.randomBytes(32).toString('hex')],
+      )
+      if (result.rows.length === 0) {
+        return NextResponse.json({ error: 'Account not found' }, { status: 401 })
+      }
+      return NextResponse.json({ subscribed: true, confirmationRequired: false }, { status: 201 })
+    }
+
+    if (!data.email) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: [{ field: 'email', message: 'Email is required' }],
+        },
+        { status: 400 },
+      )
+    }
+
+    const existing = await pgPool.query(
+      `SELECT verified FROM "ProductSubscription" WHERE "productId" = $1 AND email = $2 AND type = $3`,
+      [product.id, data.email, data.type],
+    )
+    // Same response as a new subscription, so the endpoint does not reveal who is subscribed
+    if (existing.rows[0]?.verified) {
+      return NextResponse.json({ subscribed: false, confirmationRequired: true }, { status: 201 })
+    }
+
+    const verificationToken = crypto.randomBytes(32).toString('hex')
+    const expiresAt = new Date()
+    expiresAt.setDate(expiresAt.getDate() + SUBSCRIPTION_CONFIRM_DAYS)
+
+    await pgPool.query(
+      `
+      INSERT INTO "ProductSubscription"
+        ("productId", email, type, verified, "verificationToken", "verificationTokenExpires", "unsubscribeToken")
+      VALUES ($1, $2, $3, FALSE, $4, $5, $6)
+      ON CONFLICT ("productId", email, type) DO UPDATE
+      SET "verificationToken" = EXCLUDED."verificationToken",
+          "verificationTokenExpires" = EXCLUDED."verificationTokenExpires",
+          "updatedAt" = NOW()
+      WHERE "ProductSubscription".verified = FALSE
+      `,
+      [product.id, data.email, data.type, verificationToken, expiresAt, crypto.randomBytes(32).toString('hex')],
+    )
+
+    queueEmail('productAlertConfirm', data.email, {
+      productName: product.name,
+      sku: product.sku,
+      alertLabel: PRODUCT_ALERT_LABELS[data.type],
+      confirmUrl: absoluteUrl(`/product-alerts?confirm=${encodeURIComponent(verificationToken)}`),
+      expiresInDays: SUBSCRIPTION_CONFIRM_DAYS,
+    })
+
+    return NextResponse.json({ subscribed: false, confirmationRequired: true }, { status: 201 })
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    log.error('Error creating product subscription', error)
+    return NextResponse.json({ error: 'Failed to subscribe' }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+import { MAX_IMPORT_FILE_SIZE, parseSpreadsheet, ProductImportError } from '@/lib/product-spreadsheet'
+import { bomLinesFromSheet, bomLinesFromText, matchBomLines, type ParsedBom } from '@/lib/bom'
+
+// POST /api/products/bom-match - match a bill of materials against the catalog (public)
+// Form fields: file (CSV/XLSX) or text (a pasted list); nothing is stored
+export async function POST(req: NextRequest) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 10, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const formData = await req.formData()
+    const file = formData.get('file')
+    const text = formData.get('text')
+
+    let parsed: ParsedBom
+    if (file instanceof File) {
+      if (file.size > MAX_IMPORT_FILE_SIZE) {
+        return NextResponse.json(
+          { error: `File size exceeds maximum allowed size of ${MAX_IMPORT_FILE_SIZE / 1024 / 1024}MB` },
+          { status: 400 },
+        )
+      }
+      parsed = bomLinesFromSheet(await parseSpreadsheet(await file.arrayBuffer(), file.name))
+    } else if (typeof text === 'string' && text.trim() !== '') {
+      parsed = bomLinesFromText(text)
+    } else {
+      return NextResponse.json({ error: 'Upload a file or paste a list of part numbers' }, { status: 400 })
+    }
+
+    if (parsed.lines.length === 0) {
+      return NextResponse.json(
+        { error: 'No part numbers found', skipped: parsed.skipped },
+        { status: 400 },
+      )
+    }
+
+    const lines = await matchBomLines(parsed.lines)
+    return NextResponse.json({
+      lines,
+      skipped: parsed.skipped,
+      summary: {
+        matched: lines.filter((line) => line.product).length,
+        unmatched: lines.filter((line) => !line.product).length,
+      },
+    })
+  } catch (error: any) {
+    if (error instanceof ProductImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    log.error('Error matching BOM', error)
+    return NextResponse.json({ error: 'Failed to read the BOM' }, { status: 500 })
+  }
+}
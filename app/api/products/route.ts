@@ -7,8 +7,25 @@ import { rateLimit } from '@/lib/rate-limit'
 import { csrfProtection } from '@/lib/csrf'
 import { log } from '@/lib/logger'
 import { isValidUUID } from '@/lib/validation'
+import { refreshProductSpecRanges } from '@/lib/spec-ranges'
+import { fetchCategoryTemplate, validateProductAttributes } from '@/lib/category-attributes'
+import { applyFamilyContent, fetchProductFamily, validateVariantOptions } from '@/lib/product-families'
+import { applyPriceTiers } from '@/lib/price-tiers'
+import { applyCustomerPricing, getRequestPricingContext } from '@/lib/customer-pricing'
+import { applyProductReplacements, findProductIdBySku } from '@/lib/product-replacements'
+import {
+  buildProductFilters,
+  buildProductListSource,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  parseProductFilterParams,
+} from '@/lib/product-query'
 
 // GET /api/products - list products with cursor-based pagination and filters
+// With ?search= results are ordered by relevance and the cursor is an offset token
+// With ?groupFamilies=true each product family is listed once with its variant count
+// With ?includePriceTiers=true each product carries its public quantity-break tiers
+// Discontinued products are left out unless requested by ?ids= or ?includeDiscontinued=true
 export async function GET(req: NextRequest) {
   // Rate limiting
   const rateLimitResponse = await rateLimit(req)
@@ -24,118 +41,26 @@ export async function GET(req: NextRequest) {
     const maxLimit = isAdmin ? 10000 : 100
     const limit = Math.min(maxLimit, Math.max(1, parseInt(searchParams.get('limit') || '10', 10) || 10))
     
-    // Cursor-based pagination: cursor is the last product id from previous page
-    const cursor = searchParams.get('cursor')
-    const validCursor = cursor && isValidUUID(cursor) ? cursor : null
-
-    const idsParam = searchParams.get('ids')
-    const categoryIdParam = searchParams.get('categoryId')
-    const connectorType = searchParams.get('connectorType')
-    const code = searchParams.get('code')
-    const degreeOfProtection = searchParams.get('degreeOfProtection')
-    const pinsParam = searchParams.get('pins')
-    const genderParam = searchParams.get('gender')
-    const inStockParam = searchParams.get('inStock')
-    const search = searchParams.get('search')
-
-    const filters: string[] = []
-    const values: any[] = []
-    let paramIndex = 1
+    const filterParams = parseProductFilterParams(searchParams)
+    const { filters, values, nextIndex, searchRank } = buildProductFilters(filterParams)
+    const source = buildProductListSource(filters, searchRank, filterParams.groupFamilies)
+    const countWhere = filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : ''
 
-    // Category filtering: support multiple categoryIds
-    if (categoryIdParam) {
-      const categoryIds = categoryIdParam.split(',').map((id) => id.trim()).filter(Boolean).filter(isValidUUID)
-      if (categoryIds.length > 0) {
-        if (categoryIds.length === 1) {
-          filters.push(`"categoryId" = $${paramIndex}`)
-          values.push(categoryIds[0])
-          paramIndex++
-        } else {
-          const placeholders = categoryIds.map(() => `$${paramIndex++}`)
-          filters.push(`"categoryId" IN (${placeholders.join(',')})`)
-          values.push(...categoryIds)
-        }
-      }
-    }
+    // Cursor-based pagination: cursor is the last product id from previous page,
+    // or an offset token when ordering by search relevance
+    const cursor = searchParams.get('cursor')
+    const validCursor = !searchRank && cursor && isValidUUID(cursor) ? cursor : null
+    const searchOffset = searchRank ? decodeSearchCursor(cursor) : 0
 
     // Cursor-based pagination: id > cursor for next page
+    const pageFilters = [...source.filters]
+    const pageValues = [...values]
     if (validCursor) {
-      filters.push(`id > $${paramIndex}`)
-      values.push(validCursor)
-      paramIndex++
-    }
-
-    if (idsParam) {
-      const ids = idsParam.split(',').map((id) => id.trim()).filter(Boolean).filter(isValidUUID)
-      if (ids.length > 0) {
-        const placeholders = ids.map(() => `$${paramIndex++}`)
-        filters.push(`id IN (${placeholders.join(',')})`)
-        values.push(...ids)
-      }
-    }
-
-    if (connectorType) {
-      const list = connectorType.split(',').map((v) => v.trim()).filter(Boolean)
-      if (list.length > 0) {
-        const placeholders = list.map(() => `$${paramIndex++}`)
-        filters.push(`"connectorType" IN (${placeholders.join(',')})`)
-        values.push(...list)
-      }
-    }
-
-    if (code) {
-      const list = code.split(',').map((v) => v.trim()).filter(Boolean)
-      if (list.length > 0) {
-        const placeholders = list.map(() => `$${paramIndex++}`)
-        filters.push(`coding IN (${placeholders.join(',')})`)
-        values.push(...list)
-      }
-    }
-
-    if (degreeOfProtection) {
-      const list = degreeOfProtection.split(',').map((v) => v.trim()).filter(Boolean)
-      if (list.length > 0) {
-        const placeholders = list.map(() => `$${paramIndex++}`)
-        filters.push(`"ipRating" IN (${placeholders.join(',')})`)
-        values.push(...list)
-      }
-    }
-
-    if (pinsParam) {
-      const pins = pinsParam.split(',').map((v) => parseInt(v.trim(), 10)).filter((v) => !isNaN(v))
-      if (pins.length > 0) {
-        const placeholders = pins.map(() => `$${paramIndex++}`)
-        filters.push(`pins IN (${placeholders.join(',')})`)
-        values.push(...pins)
-      }
-    }
-
-    if (genderParam) {
-      const list = genderParam.split(',').map((v) => v.trim()).filter(Boolean)
-      if (list.length > 0) {
-        const placeholders = list.map(() => `$${paramIndex++}`)
-        filters.push(`gender IN (${placeholders.join(',')})`)
-        values.push(...list)
-      }
+      pageFilters.push(`id > $${nextIndex}`)
+      pageValues.push(validCursor)
     }
 
-    if (inStockParam === 'true') {
-      filters.push(`"inStock" = true`)
-    }
-
-    if (search) {
-      // Search across name, sku, description, and mpn fields (handle NULL mpn)
-      const searchTerm = search.trim()
-      if (searchTerm) {
-        filters.push(
-          `(name ILIKE $${paramIndex} OR sku ILIKE $${paramIndex + 1} OR description ILIKE $${paramIndex + 2} OR (mpn IS NOT NULL AND mpn ILIKE $${paramIndex + 3}))`,
-        )
-        values.push(`%${searchTerm}%`, `%${searchTerm}%`, `%${searchTerm}%`, `%${searchTerm}%`)
-        paramIndex += 4
-      }
-    }
-
-    const whereClause = filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : ''
+    const whereClause = pageFilters.length > 0 ? `WHERE ${pageFilters.join(' AND ')}` : ''
 
     // Check if total count is requested (for dashboard stats)
     const includeTotal = searchParams.get('includeTotal') === 'true'
@@ -143,18 +68,9 @@ export async function GET(req: NextRequest) {
     // Get total count if requested (excluding cursor filter for accurate total)
     let total: number | undefined = undefined
     if (includeTotal) {
-      // Build count query without cursor filter (cursor is for pagination, not filtering)
-      const countFilters = filters.filter((f) => !f.includes('id >'))
-      const countWhere = countFilters.length > 0 ? `WHERE ${countFilters.join(' AND ')}` : ''
-      // Get values without cursor value (cursor is added after other filters)
-      const cursorValueIndex = validCursor ? values.findIndex((v) => v === validCursor) : -1
-      const countValues = cursorValueIndex >= 0 
-        ? [...values.slice(0, cursorValueIndex), ...values.slice(cursorValueIndex + 1)]
-        : values
-      
       const countResult = await pgPool.query(
-        `SELECT COUNT(*) as total FROM "Product" ${countWhere}`,
-        countValues,
+        `SELECT ${source.total} as total FROM "Product" ${countWhere}`,
+        values,
       )
       total = parseInt(countResult.rows[0].total, 10)
     }
@@ -164,7 +80,7 @@ export async function GET(req: NextRequest) {
     // - Uses idx_product_in_stock_id_asc for inStock filtering
     // - Select only required columns to reduce data transfer
     // Note: ORDER BY id ASC is required for cursor pagination consistency
-    const queryValues = [...values, limit + 1] // Fetch one extra to check if there's a next page
+    const queryValues = [...pageValues, limit + 1] // Fetch one extra to check if there's a next page
     const productsResult = await pgPool.query(
       `
       SELECT
@@ -206,25 +122,42 @@ export async function GET(req: NextRequest) {
         documents,
         "datasheetUrl",
         "drawingUrl",
+        attributes,
+        "familyId",
+        "variantOptions",
+        "lifecycleStatus",
+        TO_CHAR("lifecycleEffectiveDate", 'YYYY-MM-DD') AS "lifecycleEffectiveDate",
+        TO_CHAR("lastTimeBuyDate", 'YYYY-MM-DD') AS "lastTimeBuyDate",
+        "replacementProductId",
         "createdAt",
-        "updatedAt"
-      FROM "Product"
+        "updatedAt"${source.columns}
+      FROM ${source.from}
       ${whereClause}
-      ORDER BY id ASC
+      ORDER BY ${searchRank ? `${searchRank} DESC, id ASC` : 'id ASC'}
       LIMIT $${queryValues.length}
+      ${searchRank ? `OFFSET ${searchOffset}` : ''}
       `,
       queryValues,
     )
 
-    const products = productsResult.rows.slice(0, limit)
+    // Prices and tiers are resolved for the logged-in customer's group
+    const pricing = await getRequestPricingContext(req)
+    let products = await applyProductReplacements(await applyFamilyContent(productsResult.rows.slice(0, limit)))
+    if (searchParams.get('includePriceTiers') === 'true') {
+      products = await applyPriceTiers(products, pricing?.customerGroupCode ?? null)
+    }
+    products = await applyCustomerPricing(products, pricing)
     const hasNext = productsResult.rows.length > limit
-    const nextCursor = hasNext && products.length > 0 ? products[products.length - 1].id : null
+    let nextCursor: string | null = null
+    if (hasNext && products.length > 0) {
+      nextCursor = searchRank ? encodeSearchCursor(searchOffset + limit) : products[products.length - 1].id
+    }
 
     const pagination: any = {
       limit,
       cursor: nextCursor,
       hasNext,
-      hasPrev: validCursor !== null,
+      hasPrev: searchRank ? searchOffset > 0 : validCursor !== null,
     }
 
     if (total !== undefined) {
@@ -294,6 +227,31 @@ export const POST = requireAdmin(async (req: NextRequest) => {
 
     // Sanitize HTML content fields
     const sanitizedDescription = sanitizeRichText(parsed.description || '')
+    const attributes = validateProductAttributes(
+      await fetchCategoryTemplate(parsed.categoryId),
+      parsed.attributes,
+    )
+
+    // Variants need a value for every axis of their family
+    let variantOptions: Record<string, string> = {}
+    if (parsed.familyId) {
+      const family = await fetchProductFamily(parsed.familyId)
+      if (!family) {
+        return NextResponse.json({ error: 'Product family not found' }, { status: 400 })
+      }
+      variantOptions = validateVariantOptions(family, parsed.variantOptions)
+    }
+
+    const replacementProductId = parsed.replacementSku ? await findProductIdBySku(parsed.replacementSku) : null
+    if (parsed.replacementSku && !replacementProductId) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: [{ field: 'replacementSku', message: `No product with SKU "${parsed.replacementSku}"` }],
+        },
+        { status: 400 },
+      )
+    }
 
     const result = await pgPool.query(
       `
@@ -308,7 +266,9 @@ export const POST = requireAdmin(async (req: NextRequest) => {
         "bendingRadiusFixed", "bendingRadiusRepeated", "contactPlating",
         voltage, current, "halogenFree", "connectorType", coding,
         "strippingForce", price, "priceType", "inStock", "stockQuantity",
-        images, documents, "datasheetUrl", "drawingUrl",
+        images, documents, "datasheetUrl", "drawingUrl", attributes,
+        "familyId", "variantOptions",
+        "lifecycleStatus", "lifecycleEffectiveDate", "lastTimeBuyDate", "replacementProductId",
         "createdAt", "updatedAt"
       )
       VALUES (
@@ -320,7 +280,9 @@ export const POST = requireAdmin(async (req: NextRequest) => {
         $21, $22, $23,
         $24, $25, $26, $27, $28,
         $29, $30, $31, $32, $33,
-        $34, $35, $36, $37,
+        $34, $35, $36, $37, $38::jsonb,
+        $39, $40::jsonb,
+        $41, $42, $43, $44,
         NOW(), NOW()
       )
       RETURNING
@@ -334,7 +296,12 @@ export const POST = requireAdmin(async (req: NextRequest) => {
         "bendingRadiusFixed", "bendingRadiusRepeated", "contactPlating",
         voltage as "operatingVoltage", current as "ratedCurrent", "halogenFree", "connectorType", coding as "code",
         "strippingForce", price, "priceType", "inStock", "stockQuantity",
-        images, documents, "datasheetUrl", "drawingUrl",
+        images, documents, "datasheetUrl", "drawingUrl", attributes,
+        "familyId", "variantOptions",
+        "lifecycleStatus",
+        TO_CHAR("lifecycleEffectiveDate", 'YYYY-MM-DD') AS "lifecycleEffectiveDate",
+        TO_CHAR("lastTimeBuyDate", 'YYYY-MM-DD') AS "lastTimeBuyDate",
+        "replacementProductId",
         "createdAt", "updatedAt"
       `,
       [
@@ -375,9 +342,18 @@ export const POST = requireAdmin(async (req: NextRequest) => {
         parsed.documents ?? [],
         parsed.datasheetUrl ?? null,
         parsed.drawingUrl ?? null,
+        JSON.stringify(attributes),
+        parsed.familyId ?? null,
+        JSON.stringify(variantOptions),
+        parsed.lifecycleStatus,
+        parsed.lifecycleEffectiveDate ?? null,
+        parsed.lastTimeBuyDate ?? null,
+        replacementProductId,
       ],
     )
 
+    await refreshProductSpecRanges(pgPool, [result.rows[0].id])
+
     return NextResponse.json(result.rows[0], { status: 201 })
   } catch (error: any) {
     if (error?.name === 'ZodError') {
@@ -393,6 +369,13 @@ export const POST = requireAdmin(async (req: NextRequest) => {
       )
     }
 
+    if (error?.code === '23505' && error?.constraint === 'idx_product_family_variant') {
+      return NextResponse.json(
+        { error: 'Another variant of this family already has these options' },
+        { status: 409 },
+      )
+    }
+
     log.error('Error creating product', error)
     
     // Check if this is a missing column error
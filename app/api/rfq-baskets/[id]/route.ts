@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pgPool } from '@/lib/pg'
+import { checkCustomer } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+import { rfqBasketUpdateSchema } from '@/lib/rfq-basket-validation'
+import { fetchRfqBasket, findCustomerId, updateRfqBasket } from '@/lib/rfq-baskets'
+
+// GET /api/rfq-baskets/:id - one of the customer's baskets with its items
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkCustomer(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const userId = await findCustomerId(auth.username)
+    const basket = userId ? await fetchRfqBasket(userId, params.id) : null
+    if (!basket) {
+      return NextResponse.json({ error: 'Basket not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(basket)
+  } catch (error) {
+    log.error('Error fetching RFQ basket', error)
+    return NextResponse.json({ error: 'Failed to fetch basket' }, { status: 500 })
+  }
+}
+
+// PUT /api/rfq-baskets/:id - rename, replace the lines or make it the active basket
+// The RFQ page sends the active basket's lines here as they change
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting - basket edits are synced as the customer changes quantities
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 60, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkCustomer(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const json = await req.json()
+    const data = rfqBasketUpdateSchema.parse(json)
+
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('updateRfqBasket')
+    try {
+      await client.query('BEGIN')
+      const userId = await findCustomerId(auth.username, client)
+      const basket = userId ? await updateRfqBasket(userId, params.id, data, client) : null
+      if (!basket) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Basket not found' }, { status: 404 })
+      }
+
+      await client.query('COMMIT')
+      return NextResponse.json(basket)
+    } catch (e) {
+      await client.query('ROLLBACK')
+      throw e
+    } finally {
+      client.release()
+    }
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'You already have a basket with this name' }, { status: 409 })
+    }
+
+    log.error('Error updating RFQ basket', error)
+    return NextResponse.json({ error: 'Failed to update basket' }, { status: 500 })
+  }
+}
+
+// DELETE /api/rfq-baskets/:id - delete one of the customer's baskets
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const auth = checkCustomer(req)
+    if (auth instanceof NextResponse) return auth
+
+    const { isValidUUID } = await import('@/lib/validation')
+    if (!isValidUUID(params.id)) {
+      return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 })
+    }
+
+    const result = await pgPool.query(
+      `
+      DELETE FROM "RfqBasket"
+      WHERE id = $1 AND "userId" = (SELECT id FROM "User" WHERE email = $2 LIMIT 1)
+      RETURNING id, active
+      `,
+      [params.id, auth.username],
+    )
+    if (result.rows.length === 0) {
+      return NextResponse.json({ error: 'Basket not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Basket deleted successfully', wasActive: result.rows[0].active })
+  } catch (error) {
+    log.error('Error deleting RFQ basket', error)
+    return NextResponse.json({ error: 'Failed to delete basket' }, { status: 500 })
+  }
+}
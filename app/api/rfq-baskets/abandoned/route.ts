@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { rateLimit } from '@/lib/rate-limit'
+import { ABANDONED_RFQ_BASKET_DAYS } from '@/lib/rfq-basket-validation'
+import { fetchAbandonedRfqBaskets } from '@/lib/rfq-baskets'
+
+// GET /api/rfq-baskets/abandoned - customer baskets with items and no recent changes (admin)
+// ?days=N sets how long a basket must be untouched (default 3)
+export const GET = requireAdmin(async (req: NextRequest) => {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const { searchParams } = new URL(req.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1)
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20))
+    const olderThanDays = Math.min(
+      365,
+      Math.max(0, parseInt(searchParams.get('days') || String(ABANDONED_RFQ_BASKET_DAYS), 10) || 0),
+    )
+
+    const { baskets, total } = await fetchAbandonedRfqBaskets({ olderThanDays, page, limit })
+    const totalPages = Math.ceil(total / limit)
+
+    return NextResponse.json({
+      baskets,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    })
+  } catch (error) {
+    log.error('Error fetching abandoned RFQ baskets', error)
+    return NextResponse.json({ error: 'Failed to fetch abandoned baskets' }, { status: 500 })
+  }
+})
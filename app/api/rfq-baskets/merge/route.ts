@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireCustomer } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+import { rfqBasketItemsSchema } from '@/lib/rfq-basket-validation'
+import { findCustomerId, mergeIntoActiveRfqBasket } from '@/lib/rfq-baskets'
+
+const mergeSchema = z.object({
+  items: rfqBasketItemsSchema.default([]),
+})
+
+// POST /api/rfq-baskets/merge - called after login: adds the basket built before login to
+// the customer's active basket and returns it with its items (an empty list just loads it)
+export const POST = requireCustomer(async (req: NextRequest, auth) => {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const json = await req.json()
+    const data = mergeSchema.parse(json)
+
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('mergeRfqBasket')
+    try {
+      await client.query('BEGIN')
+      const userId = await findCustomerId(auth.username, client)
+      if (!userId) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Account not found' }, { status: 404 })
+      }
+
+      const basket = await mergeIntoActiveRfqBasket(userId, data.items, client)
+      await client.query('COMMIT')
+      return NextResponse.json(basket)
+    } catch (e) {
+      await client.query('ROLLBACK')
+      throw e
+    } finally {
+      client.release()
+    }
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    log.error('Error merging RFQ basket', error)
+    return NextResponse.json({ error: 'Failed to load basket' }, { status: 500 })
+  }
+})
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireCustomer } from '@/lib/auth-middleware'
+import { log } from '@/lib/logger'
+import { csrfProtection } from '@/lib/csrf'
+import { rateLimit } from '@/lib/rate-limit'
+import { rfqBasketCreateSchema } from '@/lib/rfq-basket-validation'
+import { createRfqBasket, findCustomerId, listRfqBaskets, RfqBasketError } from '@/lib/rfq-baskets'
+
+// GET /api/rfq-baskets - the authenticated customer's saved baskets (without items)
+export const GET = requireCustomer(async (req: NextRequest, auth) => {
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req)
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const userId = await findCustomerId(auth.username)
+    if (!userId) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ baskets: await listRfqBaskets(userId) })
+  } catch (error) {
+    log.error('Error fetching RFQ baskets', error)
+    return NextResponse.json({ error: 'Failed to fetch baskets' }, { status: 500 })
+  }
+})
+
+// POST /api/rfq-baskets - save a named basket, e.g. one per project
+export const POST = requireCustomer(async (req: NextRequest, auth) => {
+  // CSRF protection
+  const csrfResponse = csrfProtection(req)
+  if (csrfResponse) {
+    return csrfResponse
+  }
+
+  // Rate limiting
+  const rateLimitResponse = await rateLimit(req, { maxRequests: 20, windowSeconds: 60 })
+  if (rateLimitResponse) {
+    return rateLimitResponse
+  }
+
+  try {
+    const json = await req.json()
+    const data = rfqBasketCreateSchema.parse(json)
+
+    const { getClientWithRetry } = await import('@/lib/pg')
+    const client = await getClientWithRetry('createRfqBasket')
+    try {
+      await client.query('BEGIN')
+      const userId = await findCustomerId(auth.username, client)
+      if (!userId) {
+        await client.query('ROLLBACK')
+        return NextResponse.json({ error: 'Account not found' }, { status: 404 })
+      }
+
+      const basket = await createRfqBasket(userId, data, client)
+      await client.query('COMMIT')
+      return NextResponse.json(basket, { status: 201 })
+    } catch (e) {
+      await client.query('ROLLBACK')
+      throw e
+    } finally {
+      client.release()
+    }
+  } catch (error: any) {
+    if (error?.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors?.map((e: any) => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+    if (error instanceof RfqBasketError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'You already have a basket with this name' }, { status: 409 })
+    }
+
+    log.error('Error creating RFQ basket', error)
+    return NextResponse.json({ error: 'Failed to save basket' }, { status: 500 })
+  }
+})
@@ -6,6 +6,7 @@ import { log } from '@/lib/logger'
 import { csrfProtection } from '@/lib/csrf'
 import { rateLimit } from '@/lib/rate-limit'
 import { reportApiError } from '@/lib/error-reporting'
+import { absoluteUrl, queueEmail } from '@/lib/mail'
 
 const resetRequestSchema = z.object({
   email: z.string().email('Invalid email address').toLowerCase().trim(),
@@ -76,8 +77,15 @@ export async function POST(req: NextRequest) {
       [user.id, resetToken, expiresAt],
     )
 
+    queueEmail('passwordReset', user.email, {
+      name: user.name,
+      resetUrl: absoluteUrl(`/reset-password?token=${resetToken}`),
+      expiresInMinutes: 60,
+    })
+
+    // Same message as the unknown-email branch to prevent enumeration
     return NextResponse.json({
-      message: 'If an account exists with this email, a password reset token has been created.',
+      message: 'If an account exists with this email, a password reset link has been sent.',
     })
   } catch (error: any) {
     if (error?.name === 'ZodError') {
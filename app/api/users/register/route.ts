@@ -8,6 +8,7 @@ import { log } from '@/lib/logger'
 import { csrfProtection } from '@/lib/csrf'
 import { rateLimit } from '@/lib/rate-limit'
 import { reportApiError } from '@/lib/error-reporting'
+import { absoluteUrl, queueEmail } from '@/lib/mail'
 
 const registerSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters').trim(),
@@ -78,6 +79,12 @@ export async function POST(req: NextRequest) {
 
     const user = inserted.rows[0]
 
+    queueEmail('emailVerification', user.email, {
+      name: user.name,
+      verifyUrl: absoluteUrl(`/verify-email?token=${verificationToken}`),
+      expiresInDays: 7,
+    })
+
     const token = generateToken(user.email, 'customer')
 
     const response = NextResponse.json(
@@ -8,17 +8,20 @@ import { ShoppingCart } from 'lucide-react'
 interface AddToRFQButtonProps {
   product: Product
   quantity?: number
+  // Option values of a family variant, e.g. "5 m, PUR", so RFQ lines can be told apart
+  variantLabel?: string
 }
 
-export function AddToRFQButton({ product, quantity = 1 }: AddToRFQButtonProps) {
+export function AddToRFQButton({ product, quantity = 1, variantLabel }: AddToRFQButtonProps) {
   const addItem = useRFQStore((state) => state.addItem)
 
   const handleAdd = () => {
+    const name = product.description.substring(0, 50) || product.mpn || product.id
     // Add item to RFQ (no authentication required)
     addItem({
       productId: product.id,
       sku: product.mpn || product.id,
-      name: product.description.substring(0, 50) || product.mpn || product.id,
+      name: variantLabel ? `${name} (${variantLabel})` : name,
       quantity,
     })
   }
@@ -0,0 +1,366 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { CheckCircle2, HelpCircle, Loader2, Search, ShoppingCart, Upload } from 'lucide-react'
+import { useRFQStore } from '@/store/rfq-store'
+import { normalizePartNumber } from '@/lib/product-search'
+import { CROSS_REFERENCE_EQUIVALENCE_LABELS } from '@/lib/cross-reference-validation'
+import type { BomLineMatch, BomLineProduct, BomMatchSource } from '@/types'
+
+interface BomRow extends BomLineMatch {
+  // The product the line will be quoted as; null quotes it as free text
+  selected: BomLineProduct | null
+  include: boolean
+  retryPartNumber: string
+}
+
+interface BomMatchResponse {
+  lines: BomLineMatch[]
+  skipped: { line: number; message: string }[]
+}
+
+const MATCHED_BY_LABELS: Record<BomMatchSource, string> = {
+  sku: 'SKU',
+  mpn: 'MPN',
+  crossReference: 'Cross reference',
+}
+
+const toRow = (line: BomLineMatch): BomRow => ({
+  ...line,
+  selected: line.product,
+  include: true,
+  retryPartNumber: line.partNumber,
+})
+
+export function BomUpload() {
+  const router = useRouter()
+  const addItem = useRFQStore((state) => state.addItem)
+  const [mode, setMode] = useState<'file' | 'paste'>('file')
+  const [file, setFile] = useState<File | null>(null)
+  const [text, setText] = useState('')
+  const [rows, setRows] = useState<BomRow[]>([])
+  const [skipped, setSkipped] = useState<BomMatchResponse['skipped']>([])
+  const [isMatching, setIsMatching] = useState(false)
+  const [retrying, setRetrying] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+
+  const requestMatch = async (body: FormData): Promise<BomMatchResponse> => {
+    // Get CSRF token for state-changing operations
+    const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+    const csrfData = await csrfResponse.json()
+    const csrfToken = csrfData.token
+
+    const response = await fetch(`${apiUrl}/api/products/bom-match`, {
+      method: 'POST',
+      headers: {
+        'X-CSRF-Token': csrfToken,
+      },
+      credentials: 'include',
+      body,
+    })
+    const data = await response.json().catch(() => ({ error: 'Failed to read the BOM' }))
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to read the BOM')
+    }
+    return data
+  }
+
+  const handleMatch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const body = new FormData()
+    if (mode === 'file') {
+      if (!file) return
+      body.append('file', file)
+    } else {
+      if (!text.trim()) return
+      body.append('text', text)
+    }
+
+    setIsMatching(true)
+    setError(null)
+    try {
+      const data = await requestMatch(body)
+      setRows(data.lines.map(toRow))
+      setSkipped(data.skipped)
+    } catch (err) {
+      setRows([])
+      setSkipped([])
+      setError(err instanceof Error ? err.message : 'Failed to read the BOM. Please try again.')
+    } finally {
+      setIsMatching(false)
+    }
+  }
+
+  const updateRow = (index: number, changes: Partial<BomRow>) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  // Look a line up again under a corrected part number
+  const handleRetry = async (index: number) => {
+    const row = rows[index]
+    if (!row.retryPartNumber.trim()) return
+
+    setRetrying(index)
+    try {
+      const body = new FormData()
+      body.append('text', `${row.retryPartNumber.trim()}\t${row.quantity}`)
+      const data = await requestMatch(body)
+      const [match] = data.lines
+      if (match) {
+        updateRow(index, {
+          ...match,
+          line: row.line,
+          quantity: row.quantity,
+          description: row.description,
+          manufacturer: row.manufacturer,
+          selected: match.product,
+          include: true,
+          retryPartNumber: match.partNumber,
+        })
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to look up the part number')
+    } finally {
+      setRetrying(null)
+    }
+  }
+
+  const includedRows = rows.filter((row) => row.include)
+  const matchedCount = rows.filter((row) => row.product).length
+  const freeTextCount = includedRows.filter((row) => !row.selected).length
+
+  const handleAddToRFQ = () => {
+    includedRows.forEach((row) => {
+      if (row.selected) {
+        addItem({
+          productId: row.selected.id,
+          sku: row.selected.mpn || row.selected.sku,
+          name: row.selected.name,
+          quantity: row.quantity,
+        })
+      } else {
+        addItem({
+          productId: `bom:${normalizePartNumber(row.partNumber)}`,
+          sku: row.partNumber,
+          name: row.description || row.partNumber,
+          quantity: row.quantity,
+          notes: row.manufacturer ? `Manufacturer: ${row.manufacturer}` : undefined,
+          freeText: true,
+        })
+      }
+    })
+    router.push('/rfq')
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6">
+          <form onSubmit={handleMatch} className="space-y-4">
+            <Tabs value={mode} onValueChange={(value) => setMode(value as 'file' | 'paste')}>
+              <TabsList>
+                <TabsTrigger value="file">Upload file</TabsTrigger>
+                <TabsTrigger value="paste">Paste list</TabsTrigger>
+              </TabsList>
+              <TabsContent value="file" className="space-y-2">
+                <Label htmlFor="bom-file">CSV or Excel (.xlsx) file</Label>
+                <Input
+                  id="bom-file"
+                  type="file"
+                  accept=".csv,.xlsx"
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                />
+                <p className="text-xs text-gray-500">
+                  Use a header row with a part number column (e.g. &quot;Part Number&quot;, &quot;SKU&quot; or &quot;MPN&quot;) and
+                  a quantity column; description and manufacturer columns are optional.
+                </p>
+              </TabsContent>
+              <TabsContent value="paste" className="space-y-2">
+                <Label htmlFor="bom-text">One part number per line, followed by the quantity</Label>
+                <textarea
+                  id="bom-text"
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  className="flex min-h-[160px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-sm"
+                  placeholder={'SAC-4P-M12MS/5,0-PUR  10\nM12A04ML-5PUR  25'}
+                />
+                <p className="text-xs text-gray-500">You can also paste columns copied from a spreadsheet.</p>
+              </TabsContent>
+            </Tabs>
+
+            {error && (
+              <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+            )}
+
+            <Button type="submit" disabled={isMatching || (mode === 'file' ? !file : !text.trim())}>
+              {isMatching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Match Parts
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {rows.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <p className="text-sm text-gray-600">
+              {matchedCount} of {rows.length} line{rows.length !== 1 ? 's' : ''} matched.
+              {rows.length > matchedCount && ' Choose a suggestion for the others, or send them as free text and we will match them when quoting.'}
+            </p>
+            <Button onClick={handleAddToRFQ} disabled={includedRows.length === 0}>
+              <ShoppingCart className="h-4 w-4 mr-2" />
+              Add {includedRows.length} line{includedRows.length !== 1 ? 's' : ''} to RFQ
+              {freeTextCount > 0 && ` (${freeTextCount} free text)`}
+            </Button>
+          </div>
+
+          {skipped.length > 0 && (
+            <div className="p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md">
+              Skipped {skipped.length} line{skipped.length !== 1 ? 's' : ''}:{' '}
+              {skipped.map((entry) => `line ${entry.line} (${entry.message})`).join(', ')}
+            </div>
+          )}
+
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <span className="sr-only">Include</span>
+                    </TableHead>
+                    <TableHead>Your Part Number</TableHead>
+                    <TableHead className="w-24">Quantity</TableHead>
+                    <TableHead>Our Product</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow key={`${row.line}-${index}`} className={row.include ? undefined : 'opacity-50'}>
+                      <TableCell className="align-top">
+                        <Checkbox
+                          checked={row.include}
+                          onCheckedChange={(checked) => updateRow(index, { include: checked === true })}
+                          aria-label={`Include line ${row.line}`}
+                        />
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <div className="font-mono text-sm">{row.partNumber}</div>
+                        {(row.description || row.manufacturer) && (
+                          <div className="text-xs text-gray-500">
+                            {[row.manufacturer, row.description].filter(Boolean).join(' · ')}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <Input
+                          type="number"
+                          min={1}
+                          value={row.quantity}
+                          onChange={(e) => updateRow(index, { quantity: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                          aria-label={`Quantity for line ${row.line}`}
+                          className="h-8"
+                        />
+                      </TableCell>
+                      <TableCell className="align-top">
+                        {row.product ? (
+                          <div className="flex items-start gap-2">
+                            <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600 flex-shrink-0" />
+                            <div>
+                              <Link href={`/products/${row.product.id}`} className="font-mono text-sm hover:underline">
+                                {row.product.mpn || row.product.sku}
+                              </Link>
+                              <div className="text-xs text-gray-500">{row.product.name}</div>
+                              {row.matchedBy && (
+                                <Badge variant="secondary" className="mt-1">
+                                  {MATCHED_BY_LABELS[row.matchedBy]}
+                                </Badge>
+                              )}
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="space-y-2">
+                            <div className="flex items-center gap-2 text-sm text-amber-700">
+                              <HelpCircle className="h-4 w-4 flex-shrink-0" />
+                              {row.selected ? 'Suggestion chosen' : 'No exact match; will be quoted as free text'}
+                            </div>
+                            {row.suggestions.length > 0 && (
+                              <div className="flex flex-wrap gap-2">
+                                {row.suggestions.map((suggestion) => {
+                                  const chosen = row.selected?.id === suggestion.product.id
+                                  return (
+                                    <Button
+                                      key={suggestion.product.id}
+                                      type="button"
+                                      size="sm"
+                                      variant={chosen ? 'default' : 'outline'}
+                                      aria-pressed={chosen}
+                                      title={suggestion.product.name}
+                                      onClick={() => updateRow(index, { selected: chosen ? null : suggestion.product })}
+                                    >
+                                      {suggestion.product.mpn || suggestion.product.sku}
+                                      {suggestion.equivalence && (
+                                        <span className="ml-1 text-xs opacity-75">
+                                          ({CROSS_REFERENCE_EQUIVALENCE_LABELS[suggestion.equivalence]})
+                                        </span>
+                                      )}
+                                    </Button>
+                                  )
+                                })}
+                              </div>
+                            )}
+                            <div className="flex gap-2 max-w-sm">
+                              <Input
+                                value={row.retryPartNumber}
+                                onChange={(e) => updateRow(index, { retryPartNumber: e.target.value })}
+                                aria-label={`Corrected part number for line ${row.line}`}
+                                className="h-8 font-mono text-sm"
+                              />
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleRetry(index)}
+                                disabled={retrying !== null}
+                                aria-label={`Look up line ${row.line} again`}
+                              >
+                                {retrying === index ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Search className="h-4 w-4" />
+                                )}
+                              </Button>
+                            </div>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
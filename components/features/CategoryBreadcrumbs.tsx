@@ -0,0 +1,43 @@
+import Link from 'next/link'
+import { ChevronRight } from 'lucide-react'
+import { CategoryBreadcrumb } from '@/types'
+
+interface CategoryBreadcrumbsProps {
+  path: CategoryBreadcrumb[]
+  // Trailing item after the category path, e.g. the product on a detail page
+  current?: string
+}
+
+// Home / Products / category path; the last item is not a link
+export function CategoryBreadcrumbs({ path, current }: CategoryBreadcrumbsProps) {
+  const items = [
+    { label: 'Home', href: '/' },
+    { label: 'Products', href: '/products' },
+    ...path.map((category) => ({ label: category.name, href: `/products?category=${category.slug}` })),
+    ...(current ? [{ label: current, href: '' }] : []),
+  ]
+
+  return (
+    <nav aria-label="Breadcrumb" className="mb-4">
+      <ol className="flex flex-wrap items-center gap-1 text-sm text-gray-500">
+        {items.map((item, index) => {
+          const isLast = index === items.length - 1
+          return (
+            <li key={`${item.href}-${index}`} className="flex items-center gap-1">
+              {index > 0 && <ChevronRight className="h-4 w-4 text-gray-400" aria-hidden="true" />}
+              {isLast ? (
+                <span className="font-medium text-gray-900" aria-current="page">
+                  {item.label}
+                </span>
+              ) : (
+                <Link href={item.href} className="hover:text-gray-900">
+                  {item.label}
+                </Link>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+    </nav>
+  )
+}
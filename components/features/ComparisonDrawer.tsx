@@ -2,7 +2,8 @@
 
 import { useMemo, useState, useEffect } from 'react'
 import { useComparisonStore } from '@/store/comparison-store'
-import { Product } from '@/types'
+import { CategoryAttribute, Product } from '@/types'
+import { formatAttributeValue } from '@/lib/product-attributes'
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet'
 import { Button } from '@/components/ui/button'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
@@ -11,6 +12,7 @@ import { X } from 'lucide-react'
 export function ComparisonDrawer() {
   const { items, clear } = useComparisonStore()
   const [products, setProducts] = useState<Product[]>([])
+  const [attributes, setAttributes] = useState<CategoryAttribute[]>([])
 
   useEffect(() => {
     const fetchProducts = async () => {
@@ -40,6 +42,42 @@ export function ComparisonDrawer() {
     fetchProducts()
   }, [items])
 
+  // Comparable attributes from the templates of every compared product's category
+  useEffect(() => {
+    const categoryIds = Array.from(
+      new Set(products.map((product) => product.categoryId).filter((id): id is string => !!id)),
+    )
+    if (categoryIds.length === 0) {
+      setAttributes([])
+      return
+    }
+
+    let cancelled = false
+    Promise.all(
+      categoryIds.map(async (categoryId) => {
+        const response = await fetch(`/api/categories/${categoryId}/attributes`)
+        if (!response.ok) return []
+        const data = await response.json()
+        return (data.attributes as CategoryAttribute[] | undefined) || []
+      }),
+    )
+      .then((templates) => {
+        if (cancelled) return
+        const byKey = new Map<string, CategoryAttribute>()
+        templates.flat().forEach((attribute) => {
+          if (attribute.comparable && !byKey.has(attribute.key)) byKey.set(attribute.key, attribute)
+        })
+        setAttributes(Array.from(byKey.values()))
+      })
+      .catch(() => {
+        if (!cancelled) setAttributes([])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [products])
+
   const comparedProducts = useMemo(
     () => items.map((i) => products.find((p) => p.id === i.id)).filter(Boolean),
     [items, products]
@@ -231,6 +269,16 @@ export function ComparisonDrawer() {
                     <TableCell key={product!.id}>{product!.strippingForce || 'N/A'}</TableCell>
                   ))}
                 </TableRow>
+                {attributes.map((attribute) => (
+                  <TableRow key={attribute.key}>
+                    <TableCell className="font-medium">{attribute.label}</TableCell>
+                    {comparedProducts.map((product) => (
+                      <TableCell key={product!.id}>
+                        {formatAttributeValue(attribute, product!.attributes?.[attribute.key]) || 'N/A'}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
               </TableBody>
             </Table>
           </div>
@@ -0,0 +1,199 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AlertTriangle, Check, RotateCcw, ShoppingCart } from 'lucide-react'
+import { useRFQStore } from '@/store/rfq-store'
+import { formatPrice } from '@/lib/format-price'
+import {
+  CORDSET_STEPS,
+  buildCordsetPartNumber,
+  cordsetLineName,
+  estimateCordsetPrice,
+  findCordsetViolations,
+  resolveCordsetConfiguration,
+  type CordsetSelection,
+} from '@/lib/cordset-validation'
+import type { CordsetOption, CordsetRule } from '@/types'
+
+interface CordsetConfiguratorProps {
+  options: CordsetOption[]
+  rules: CordsetRule[]
+}
+
+export function CordsetConfigurator({ options, rules }: CordsetConfiguratorProps) {
+  const addItem = useRFQStore((state) => state.addItem)
+  const [selection, setSelection] = useState<CordsetSelection>({})
+  const [quantity, setQuantity] = useState(1)
+  const [addedPartNumber, setAddedPartNumber] = useState<string | null>(null)
+
+  const violations = useMemo(() => findCordsetViolations(selection, options, rules), [selection, options, rules])
+  const partNumber = buildCordsetPartNumber(selection, options)
+  const estimatedPrice = estimateCordsetPrice(selection, options)
+  const configuration = resolveCordsetConfiguration(selection, options, rules)
+  // The first open step is the one to work on; later steps can still be chosen out of order
+  const currentStep = CORDSET_STEPS.find((step) => !selection[step.key])?.key
+
+  // Why an option cannot be chosen with the rest of the current selection, if it cannot
+  const conflictFor = (stepKey: keyof CordsetSelection, optionId: string) => {
+    const conflicts = findCordsetViolations({ ...selection, [stepKey]: optionId }, options, rules)
+    return conflicts.find((message) => !violations.includes(message)) ?? null
+  }
+
+  const choose = (stepKey: keyof CordsetSelection, optionId: string) => {
+    setAddedPartNumber(null)
+    setSelection((current) => ({ ...current, [stepKey]: current[stepKey] === optionId ? undefined : optionId }))
+  }
+
+  const reset = () => {
+    setSelection({})
+    setQuantity(1)
+    setAddedPartNumber(null)
+  }
+
+  const handleAdd = () => {
+    if (!configuration) return
+    addItem({
+      productId: `cordset:${configuration.partNumber}`,
+      sku: configuration.partNumber,
+      name: cordsetLineName(configuration),
+      quantity,
+      configuration,
+    })
+    setAddedPartNumber(configuration.partNumber)
+  }
+
+  if (options.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-gray-600">
+          The configurator is not available right now. Please <Link href="/contact" className="text-primary hover:underline">contact us</Link> for custom cordsets.
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <div className="lg:col-span-2 space-y-4">
+        {CORDSET_STEPS.map((step, index) => {
+          const stepOptions = options.filter((option) => option.group === step.group)
+          const selectedId = selection[step.key]
+
+          return (
+            <Card key={step.key} className={currentStep === step.key ? 'border-primary' : undefined}>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <span className="flex h-6 w-6 items-center justify-center rounded-full bg-gray-100 text-xs font-semibold">
+                    {selectedId ? <Check className="h-3.5 w-3.5 text-green-600" /> : index + 1}
+                  </span>
+                  {step.label}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {stepOptions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No options available.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {stepOptions.map((option) => {
+                      const selected = selectedId === option.id
+                      const conflict = selected ? null : conflictFor(step.key, option.id)
+
+                      return (
+                        <Button
+                          key={option.id}
+                          type="button"
+                          size="sm"
+                          variant={selected ? 'default' : 'outline'}
+                          disabled={!!conflict}
+                          title={conflict ?? undefined}
+                          aria-pressed={selected}
+                          onClick={() => choose(step.key, option.id)}
+                        >
+                          {option.label}
+                        </Button>
+                      )
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+
+      <div className="lg:col-span-1">
+        <Card className="lg:sticky lg:top-24">
+          <CardHeader>
+            <CardTitle>Your cordset</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <p className="text-sm text-gray-500">Part number</p>
+              <p className="font-mono font-semibold break-all">{partNumber ?? 'Complete all steps'}</p>
+            </div>
+
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+              {CORDSET_STEPS.map((step) => (
+                <div key={step.key} className="contents">
+                  <dt className="text-gray-500">{step.label}</dt>
+                  <dd>{options.find((option) => option.id === selection[step.key])?.label ?? '—'}</dd>
+                </div>
+              ))}
+            </dl>
+
+            {violations.length > 0 && (
+              <div role="alert" className="flex gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-900">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" aria-hidden="true" />
+                <ul className="space-y-1">
+                  {violations.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div>
+              <p className="text-sm text-gray-500">Estimated price</p>
+              <p className="text-2xl font-bold">{formatPrice(estimatedPrice, 'per_unit')}</p>
+              <p className="text-xs text-gray-500">Excludes GST. Final prices are confirmed in your quotation.</p>
+            </div>
+
+            <div className="flex items-end gap-2">
+              <div className="w-24">
+                <Label htmlFor="cordset-quantity">Quantity</Label>
+                <Input
+                  id="cordset-quantity"
+                  type="number"
+                  min={1}
+                  value={quantity}
+                  onChange={(e) => setQuantity(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                />
+              </div>
+              <Button className="flex-1" disabled={!configuration} onClick={handleAdd}>
+                <ShoppingCart className="h-4 w-4 mr-2" />
+                Add to RFQ
+              </Button>
+            </div>
+
+            {addedPartNumber && (
+              <p className="text-sm text-green-700">
+                {addedPartNumber} added to your RFQ.{' '}
+                <Link href="/rfq" className="font-medium underline">View RFQ</Link>
+              </p>
+            )}
+
+            <Button variant="ghost" size="sm" className="w-full" onClick={reset}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Start over
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+import type { CordsetConfiguration } from '@/types'
+
+interface CordsetSpecProps {
+  configuration: CordsetConfiguration
+  className?: string
+}
+
+// Selected options of a configured cordset line
+export function CordsetSpec({ configuration, className = '' }: CordsetSpecProps) {
+  return (
+    <dl className={`grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs text-gray-600 ${className}`}>
+      {configuration.spec.map((line) => (
+        <div key={line.label} className="contents">
+          <dt className="text-gray-500">{line.label}</dt>
+          <dd>{line.value}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
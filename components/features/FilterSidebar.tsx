@@ -1,12 +1,20 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
 import { useProductFilters } from '@/hooks/use-product-filters'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Label } from '@/components/ui/label'
 import { Button } from '@/components/ui/button'
-import { Category } from '@/types'
+import { Slider } from '@/components/ui/slider'
+import { SPEC_RANGES, SPEC_RANGE_PARAMS, type SpecRange, type SpecRangeDefinition } from '@/lib/spec-ranges'
+import { ATTRIBUTE_PARAM_PREFIX } from '@/lib/product-attributes'
+import type { ProductAttributeFacet } from '@/lib/product-facets'
+import { CategoryTreeNode, SpecRangeKey } from '@/types'
+import { flattenCategoryTree } from '@/lib/category-tree'
+
+type FacetKey = 'categories' | 'connectorTypes' | 'codings' | 'ipRatings' | 'pins' | 'genders'
 
 interface FilterOptions {
   connectorTypes: string[]
@@ -14,11 +22,74 @@ interface FilterOptions {
   ipRatings: string[]
   pins: number[]
   genders: string[]
+  // Products per value given the other active filters, keyed by value
+  counts: Partial<Record<FacetKey, Record<string, number>>>
+  // Slider bounds per spec given the other active filters
+  ranges: Partial<Record<SpecRangeKey, SpecRange | null>>
+  // Filterable attributes of the selected category's template
+  attributes: ProductAttributeFacet[]
+}
+
+// Sidebar URL keys -> GET /api/products keys (the sidebar writes coding/ipRating)
+const FACET_QUERY_PARAMS: Array<[string, string[]]> = [
+  ['connectorType', ['connectorType']],
+  ['code', ['code', 'coding']],
+  ['degreeOfProtection', ['degreeOfProtection', 'ipRating']],
+  ['pins', ['pins']],
+  ['gender', ['gender']],
+  ['inStock', ['inStock']],
+  ['search', ['search']],
+  ...SPEC_RANGE_PARAMS.map((name): [string, string[]] => [name, [name]]),
+]
+
+const formatSpecValue = (value: number) => String(Number(value.toFixed(2)))
+
+interface SpecRangeSliderProps {
+  spec: SpecRangeDefinition
+  extent: SpecRange
+  selectedMin?: number
+  selectedMax?: number
+  onCommit: (min: number | undefined, max: number | undefined) => void
+}
+
+// Two-thumb slider that only updates the URL when a thumb is released
+function SpecRangeSlider({ spec, extent, selectedMin, selectedMax, onCommit }: SpecRangeSliderProps) {
+  // Widen the track so a selection outside the current extent stays visible
+  const lower = Math.min(extent.min, selectedMin ?? extent.min)
+  const upper = Math.max(extent.max, selectedMax ?? extent.max)
+  const [draft, setDraft] = useState<number[] | null>(null)
+  const value = draft ?? [selectedMin ?? lower, selectedMax ?? upper]
+
+  return (
+    <div>
+      <Label className="text-sm font-semibold mb-3 block">
+        {spec.label} ({spec.unit})
+      </Label>
+      <Slider
+        min={lower}
+        max={upper}
+        step={spec.step}
+        value={value}
+        onValueChange={setDraft}
+        onValueCommit={([min, max]) => {
+          setDraft(null)
+          // A thumb at the end of the track means no bound on that side
+          onCommit(min > lower ? min : undefined, max < upper ? max : undefined)
+        }}
+        aria-label={spec.label}
+      />
+      <div className="mt-2 flex justify-between text-xs text-gray-500">
+        <span>{formatSpecValue(value[0])} {spec.unit}</span>
+        <span>{formatSpecValue(value[1])} {spec.unit}</span>
+      </div>
+    </div>
+  )
 }
 
 export function FilterSidebar() {
   const { filters, updateFilters, clearFilters } = useProductFilters()
-  const [categories, setCategories] = useState<Category[]>([])
+  const searchParams = useSearchParams()
+  const [categoryTree, setCategoryTree] = useState<CategoryTreeNode[]>([])
   const [isLoadingCategories, setIsLoadingCategories] = useState(true)
   const [filterOptions, setFilterOptions] = useState<FilterOptions>({
     connectorTypes: [],
@@ -26,17 +97,42 @@ export function FilterSidebar() {
     ipRatings: [],
     pins: [],
     genders: [],
+    counts: {},
+    ranges: {},
+    attributes: [],
   })
   const [isLoadingFilters, setIsLoadingFilters] = useState(true)
 
+  // Current filters as a /api/products query string; null until a category slug can be resolved
+  const facetQuery = useMemo(() => {
+    const params = new URLSearchParams()
+    const categoryId = searchParams.get('categoryId')
+    const categorySlug = searchParams.get('category')
+    if (categoryId) {
+      params.set('categoryId', categoryId)
+    } else if (categorySlug) {
+      if (isLoadingCategories) return null
+      const category = flattenCategoryTree(categoryTree).find((c) => c.slug === categorySlug)
+      if (category) params.set('categoryId', category.id)
+    }
+    for (const [apiKey, urlKeys] of FACET_QUERY_PARAMS) {
+      const value = urlKeys.map((key) => searchParams.get(key)).find(Boolean)
+      if (value) params.set(apiKey, value)
+    }
+    searchParams.forEach((value, name) => {
+      if (name.startsWith(ATTRIBUTE_PARAM_PREFIX) && value) params.set(name, value)
+    })
+    return params.toString()
+  }, [searchParams, categoryTree, isLoadingCategories])
+
   useEffect(() => {
     const fetchCategories = async () => {
       try {
         const baseUrl = process.env.NEXT_PUBLIC_API_URL || window.location.origin
-        const response = await fetch(`${baseUrl}/api/categories?limit=1000`)
+        const response = await fetch(`${baseUrl}/api/categories/tree`)
         if (response.ok) {
           const data = await response.json()
-          setCategories(Array.isArray(data) ? data : (data.categories || []))
+          setCategoryTree(Array.isArray(data.tree) ? data.tree : [])
         }
       } catch (error) {
         // Error handled silently - categories are optional for filtering
@@ -45,76 +141,59 @@ export function FilterSidebar() {
       }
     }
 
+    fetchCategories()
+  }, [])
+
+  // Refetch counts whenever the active filters change
+  useEffect(() => {
+    if (facetQuery === null) return
+    const controller = new AbortController()
+
     const fetchFilterOptions = async () => {
       try {
         const baseUrl = process.env.NEXT_PUBLIC_API_URL || window.location.origin
-        const response = await fetch(`${baseUrl}/api/products/filter-options`)
+        const response = await fetch(`${baseUrl}/api/products/filter-options?${facetQuery}`, {
+          signal: controller.signal,
+        })
         if (response.ok) {
           const data = await response.json()
-          
-          // Debug logging in development
-          if (process.env.NODE_ENV === 'development') {
-            console.log('Filter options received:', {
-              connectorTypes: data.connectorTypes?.length || 0,
-              codings: data.codings?.length || 0,
-              ipRatings: data.ipRatings?.length || 0,
-              pins: data.pins?.length || 0,
-              genders: data.genders?.length || 0,
-              pinsData: data.pins,
-              gendersData: data.genders,
-            })
-          }
-          
           setFilterOptions({
             connectorTypes: Array.isArray(data.connectorTypes) ? data.connectorTypes : [],
             codings: Array.isArray(data.codings) ? data.codings : [],
             ipRatings: Array.isArray(data.ipRatings) ? data.ipRatings : [],
             pins: Array.isArray(data.pins) ? data.pins : [],
             genders: Array.isArray(data.genders) ? data.genders : [],
+            counts: data.counts && typeof data.counts === 'object' ? data.counts : {},
+            ranges: data.ranges && typeof data.ranges === 'object' ? data.ranges : {},
+            attributes: Array.isArray(data.attributes) ? data.attributes : [],
           })
         } else {
           console.error('Failed to fetch filter options:', response.status, response.statusText)
         }
       } catch (error) {
+        if (controller.signal.aborted) return
         // Error handled silently - use empty arrays as fallback
         console.error('Failed to fetch filter options:', error)
       } finally {
-        setIsLoadingFilters(false)
+        if (!controller.signal.aborted) {
+          setIsLoadingFilters(false)
+        }
       }
     }
 
-    fetchCategories()
     fetchFilterOptions()
-  }, [])
+    return () => controller.abort()
+  }, [facetQuery])
 
-  // Build hierarchical category structure
-  const buildCategoryTree = () => {
-    const categoryMap = new Map<string, Category>()
-    const rootCategories: Category[] = []
+  // Count for a value, or undefined while counts are unavailable
+  // Options with a zero count are disabled unless selected, so they can always be cleared
+  const facetCount = (facet: FacetKey, value: string | number): number | undefined =>
+    filterOptions.counts[facet]?.[String(value)]
 
-    // Build map
-    categories.forEach(cat => {
-      categoryMap.set(cat.id, { ...cat, children: [] })
-    })
+  const renderCount = (count: number | undefined) =>
+    count === undefined ? null : <span className="ml-1 text-xs text-gray-500">({count})</span>
 
-    // Build hierarchy
-    categories.forEach(cat => {
-      const category = categoryMap.get(cat.id)!
-      if (cat.parentId) {
-        const parent = categoryMap.get(cat.parentId)
-        if (parent) {
-          if (!parent.children) parent.children = []
-          parent.children.push(category)
-        }
-      } else {
-        rootCategories.push(category)
-      }
-    })
-
-    return rootCategories
-  }
-
-  const renderCategoryTree = (cats: Category[], level = 0) => {
+  const renderCategoryTree = (cats: CategoryTreeNode[], level = 0) => {
     const selectedCategoryIds = Array.isArray(filters.categoryId) 
       ? filters.categoryId 
       : filters.categoryId 
@@ -123,6 +202,10 @@ export function FilterSidebar() {
     
     return cats.map((category) => {
       const isChecked = selectedCategoryIds.includes(category.id)
+      const count = facetCount('categories', category.id) ?? (filterOptions.counts.categories ? 0 : undefined)
+      // Parents stay enabled so their subcategories remain reachable
+      const hasChildren = category.children.length > 0
+      const disabled = !isChecked && !hasChildren && count === 0
       
       return (
         <div key={category.id} className={level > 0 ? 'ml-4' : ''}>
@@ -130,6 +213,7 @@ export function FilterSidebar() {
             <Checkbox
               id={`category-${category.id}`}
               checked={isChecked}
+              disabled={disabled}
               onCheckedChange={(checked) => {
                 const currentIds = Array.isArray(filters.categoryId) 
                   ? filters.categoryId 
@@ -147,17 +231,19 @@ export function FilterSidebar() {
                 updateFilters({
                   categoryId: newCategoryIds.length > 0 ? newCategoryIds : undefined,
                   category: undefined, // Clear slug when using categoryId
+                  attributes: undefined, // Attribute filters belong to the previous category's template
                 })
               }}
             />
             <Label
               htmlFor={`category-${category.id}`}
-              className="text-sm font-normal cursor-pointer"
+              className={`text-sm font-normal ${disabled ? 'cursor-not-allowed text-gray-400' : 'cursor-pointer'}`}
             >
               {category.name}
+              {renderCount(count)}
             </Label>
           </div>
-          {category.children && category.children.length > 0 && (
+          {hasChildren && (
             <div className="mt-1 space-y-1">
               {renderCategoryTree(category.children, level + 1)}
             </div>
@@ -184,6 +270,16 @@ export function FilterSidebar() {
     }
   }
 
+  const handleAttributeChange = (key: string, value: string, checked: boolean) => {
+    const current = filters.attributes?.[key] ?? []
+    updateFilters({
+      attributes: {
+        ...filters.attributes,
+        [key]: checked ? [...current, value] : current.filter((v) => v !== value),
+      },
+    })
+  }
+
   const handleInStockChange = (checked: boolean) => {
     updateFilters({
       inStock: checked ? true : undefined,
@@ -215,7 +311,7 @@ export function FilterSidebar() {
               <div className="text-sm text-gray-500">Loading categories...</div>
             ) : (
               <div className="space-y-2 max-h-64 overflow-y-auto">
-                {renderCategoryTree(buildCategoryTree())}
+                {renderCategoryTree(categoryTree)}
               </div>
             )}
           </div>
@@ -227,23 +323,30 @@ export function FilterSidebar() {
               <div className="text-sm text-gray-500">Loading...</div>
             ) : filterOptions.connectorTypes.length > 0 ? (
               <div className="space-y-2">
-                {filterOptions.connectorTypes.map((type) => (
-                  <div key={type} className="flex items-center space-x-2">
-                    <Checkbox
-                      id={`type-${type}`}
-                      checked={filters.connectorType?.includes(type) || false}
-                      onCheckedChange={(checked) =>
-                        handleFilterChange('connectorType', type, checked as boolean)
-                      }
-                    />
-                    <Label
-                      htmlFor={`type-${type}`}
-                      className="text-sm font-normal cursor-pointer"
-                    >
-                      {type}
-                    </Label>
-                  </div>
-                ))}
+                {filterOptions.connectorTypes.map((type) => {
+                  const checked = filters.connectorType?.includes(type) || false
+                  const count = facetCount('connectorTypes', type)
+                  const disabled = !checked && count === 0
+                  return (
+                    <div key={type} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`type-${type}`}
+                        checked={checked}
+                        disabled={disabled}
+                        onCheckedChange={(checked) =>
+                          handleFilterChange('connectorType', type, checked as boolean)
+                        }
+                      />
+                      <Label
+                        htmlFor={`type-${type}`}
+                        className={`text-sm font-normal ${disabled ? 'cursor-not-allowed text-gray-400' : 'cursor-pointer'}`}
+                      >
+                        {type}
+                        {renderCount(count)}
+                      </Label>
+                    </div>
+                  )
+                })}
               </div>
             ) : (
               <div className="text-sm text-gray-500">No connector types available</div>
@@ -257,23 +360,30 @@ export function FilterSidebar() {
               <div className="text-sm text-gray-500">Loading...</div>
             ) : filterOptions.codings.length > 0 ? (
               <div className="space-y-2">
-                {filterOptions.codings.map((coding) => (
-                  <div key={coding} className="flex items-center space-x-2">
-                    <Checkbox
-                      id={`coding-${coding}`}
-                      checked={filters.coding?.includes(coding) || false}
-                      onCheckedChange={(checked) =>
-                        handleFilterChange('coding', coding, checked as boolean)
-                      }
-                    />
-                    <Label
-                      htmlFor={`coding-${coding}`}
-                      className="text-sm font-normal cursor-pointer"
-                    >
-                      {coding}-Code
-                    </Label>
-                  </div>
-                ))}
+                {filterOptions.codings.map((coding) => {
+                  const checked = filters.coding?.includes(coding) || false
+                  const count = facetCount('codings', coding)
+                  const disabled = !checked && count === 0
+                  return (
+                    <div key={coding} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`coding-${coding}`}
+                        checked={checked}
+                        disabled={disabled}
+                        onCheckedChange={(checked) =>
+                          handleFilterChange('coding', coding, checked as boolean)
+                        }
+                      />
+                      <Label
+                        htmlFor={`coding-${coding}`}
+                        className={`text-sm font-normal ${disabled ? 'cursor-not-allowed text-gray-400' : 'cursor-pointer'}`}
+                      >
+                        {coding}-Code
+                        {renderCount(count)}
+                      </Label>
+                    </div>
+                  )
+                })}
               </div>
             ) : (
               <div className="text-sm text-gray-500">No codings available</div>
@@ -287,23 +397,30 @@ export function FilterSidebar() {
               <div className="text-sm text-gray-500">Loading...</div>
             ) : filterOptions.pins.length > 0 ? (
               <div className="space-y-2">
-                {filterOptions.pins.map((pin) => (
-                  <div key={pin} className="flex items-center space-x-2">
-                    <Checkbox
-                      id={`pin-${pin}`}
-                      checked={filters.pins?.includes(pin) || false}
-                      onCheckedChange={(checked) =>
-                        handleFilterChange('pins', pin, checked as boolean)
-                      }
-                    />
-                    <Label
-                      htmlFor={`pin-${pin}`}
-                      className="text-sm font-normal cursor-pointer"
-                    >
-                      {pin} Pin
-                    </Label>
-                  </div>
-                ))}
+                {filterOptions.pins.map((pin) => {
+                  const checked = filters.pins?.includes(pin) || false
+                  const count = facetCount('pins', pin)
+                  const disabled = !checked && count === 0
+                  return (
+                    <div key={pin} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`pin-${pin}`}
+                        checked={checked}
+                        disabled={disabled}
+                        onCheckedChange={(checked) =>
+                          handleFilterChange('pins', pin, checked as boolean)
+                        }
+                      />
+                      <Label
+                        htmlFor={`pin-${pin}`}
+                        className={`text-sm font-normal ${disabled ? 'cursor-not-allowed text-gray-400' : 'cursor-pointer'}`}
+                      >
+                        {pin} Pin
+                        {renderCount(count)}
+                      </Label>
+                    </div>
+                  )
+                })}
               </div>
             ) : (
               <div className="text-sm text-gray-500">No pin counts available</div>
@@ -317,23 +434,30 @@ export function FilterSidebar() {
               <div className="text-sm text-gray-500">Loading...</div>
             ) : filterOptions.ipRatings.length > 0 ? (
               <div className="space-y-2">
-                {filterOptions.ipRatings.map((rating) => (
-                  <div key={rating} className="flex items-center space-x-2">
-                    <Checkbox
-                      id={`ip-${rating}`}
-                      checked={filters.ipRating?.includes(rating) || false}
-                      onCheckedChange={(checked) =>
-                        handleFilterChange('ipRating', rating, checked as boolean)
-                      }
-                    />
-                    <Label
-                      htmlFor={`ip-${rating}`}
-                      className="text-sm font-normal cursor-pointer"
-                    >
-                      {rating}
-                    </Label>
-                  </div>
-                ))}
+                {filterOptions.ipRatings.map((rating) => {
+                  const checked = filters.ipRating?.includes(rating) || false
+                  const count = facetCount('ipRatings', rating)
+                  const disabled = !checked && count === 0
+                  return (
+                    <div key={rating} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`ip-${rating}`}
+                        checked={checked}
+                        disabled={disabled}
+                        onCheckedChange={(checked) =>
+                          handleFilterChange('ipRating', rating, checked as boolean)
+                        }
+                      />
+                      <Label
+                        htmlFor={`ip-${rating}`}
+                        className={`text-sm font-normal ${disabled ? 'cursor-not-allowed text-gray-400' : 'cursor-pointer'}`}
+                      >
+                        {rating}
+                        {renderCount(count)}
+                      </Label>
+                    </div>
+                  )
+                })}
               </div>
             ) : (
               <div className="text-sm text-gray-500">No IP ratings available</div>
@@ -347,29 +471,97 @@ export function FilterSidebar() {
               <div className="text-sm text-gray-500">Loading...</div>
             ) : filterOptions.genders.length > 0 ? (
               <div className="space-y-2">
-                {filterOptions.genders.map((gender) => (
-                  <div key={gender} className="flex items-center space-x-2">
-                    <Checkbox
-                      id={`gender-${gender}`}
-                      checked={filters.gender?.includes(gender) || false}
-                      onCheckedChange={(checked) =>
-                        handleFilterChange('gender', gender, checked as boolean)
-                      }
-                    />
-                    <Label
-                      htmlFor={`gender-${gender}`}
-                      className="text-sm font-normal cursor-pointer"
-                    >
-                      {gender}
-                    </Label>
-                  </div>
-                ))}
+                {filterOptions.genders.map((gender) => {
+                  const checked = filters.gender?.includes(gender) || false
+                  const count = facetCount('genders', gender)
+                  const disabled = !checked && count === 0
+                  return (
+                    <div key={gender} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`gender-${gender}`}
+                        checked={checked}
+                        disabled={disabled}
+                        onCheckedChange={(checked) =>
+                          handleFilterChange('gender', gender, checked as boolean)
+                        }
+                      />
+                      <Label
+                        htmlFor={`gender-${gender}`}
+                        className={`text-sm font-normal ${disabled ? 'cursor-not-allowed text-gray-400' : 'cursor-pointer'}`}
+                      >
+                        {gender}
+                        {renderCount(count)}
+                      </Label>
+                    </div>
+                  )
+                })}
               </div>
             ) : (
               <div className="text-sm text-gray-500">No genders available</div>
             )}
           </div>
 
+          {/* Category attributes, offered when a single category with a template is selected */}
+          {!isLoadingFilters &&
+            filterOptions.attributes
+              .filter((facet) => facet.values.length > 0)
+              .map((facet) => (
+                <div key={facet.key}>
+                  <Label className="text-sm font-semibold mb-3 block">
+                    {facet.label}
+                    {facet.unit ? ` (${facet.unit})` : ''}
+                  </Label>
+                  <div className="space-y-2">
+                    {facet.values.map(({ value, count }) => {
+                      const checked = filters.attributes?.[facet.key]?.includes(value) || false
+                      const disabled = !checked && count === 0
+                      const id = `attr-${facet.key}-${value}`
+                      return (
+                        <div key={value} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={id}
+                            checked={checked}
+                            disabled={disabled}
+                            onCheckedChange={(checked) =>
+                              handleAttributeChange(facet.key, value, checked as boolean)
+                            }
+                          />
+                          <Label
+                            htmlFor={id}
+                            className={`text-sm font-normal ${disabled ? 'cursor-not-allowed text-gray-400' : 'cursor-pointer'}`}
+                          >
+                            {facet.dataType === 'boolean' ? (value === 'true' ? 'Yes' : 'No') : value}
+                            {renderCount(count)}
+                          </Label>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              ))}
+
+          {/* Spec ranges; a slider is only shown when matching products have different values */}
+          {!isLoadingFilters &&
+            SPEC_RANGES.map((spec) => {
+              const extent = filterOptions.ranges[spec.key]
+              const selectedMin = filters[`${spec.key}Min`]
+              const selectedMax = filters[`${spec.key}Max`]
+              const isActive = selectedMin !== undefined || selectedMax !== undefined
+              if (!extent || (extent.min === extent.max && !isActive)) return null
+              return (
+                <SpecRangeSlider
+                  key={spec.key}
+                  spec={spec}
+                  extent={extent}
+                  selectedMin={selectedMin}
+                  selectedMax={selectedMax}
+                  onCommit={(min, max) =>
+                    updateFilters({ [`${spec.key}Min`]: min, [`${spec.key}Max`]: max })
+                  }
+                />
+              )
+            })}
+
           {/* In Stock */}
           <div>
             <div className="flex items-center space-x-2">
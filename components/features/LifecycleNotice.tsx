@@ -0,0 +1,42 @@
+import Link from 'next/link'
+import { AlertTriangle } from 'lucide-react'
+import { isDiscontinued, lifecycleNotice } from '@/lib/product-lifecycle'
+import { Product } from '@/types'
+
+interface LifecycleNoticeProps {
+  product: Pick<Product, 'lifecycleStatus' | 'lifecycleEffectiveDate' | 'lastTimeBuyDate' | 'replacement'>
+}
+
+// End-of-life banner with a link to the recommended replacement; nothing for active products
+export function LifecycleNotice({ product }: LifecycleNoticeProps) {
+  const notice = lifecycleNotice(product)
+  if (!notice) {
+    return null
+  }
+
+  const discontinued = isDiscontinued(product)
+  const replacement = product.replacement
+
+  return (
+    <div
+      role="status"
+      className={`flex gap-3 rounded-md border p-4 mb-6 ${
+        discontinued ? 'border-red-200 bg-red-50 text-red-900' : 'border-amber-200 bg-amber-50 text-amber-900'
+      }`}
+    >
+      <AlertTriangle className="h-5 w-5 flex-shrink-0" aria-hidden="true" />
+      <div className="text-sm">
+        <p className="font-medium">{notice}</p>
+        {replacement && (
+          <p className="mt-1">
+            Recommended replacement:{' '}
+            <Link href={`/products/${replacement.id}`} className="font-medium underline">
+              {replacement.mpn || replacement.sku}
+            </Link>
+            {replacement.name ? ` – ${replacement.name}` : ''}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
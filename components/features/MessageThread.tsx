@@ -0,0 +1,358 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Loader2, Lock, Paperclip, Reply } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  MAX_MESSAGE_ATTACHMENTS,
+  MAX_MESSAGE_ATTACHMENT_SIZE,
+  MAX_MESSAGE_LENGTH,
+  MESSAGE_ATTACHMENT_ACCEPT,
+} from '@/lib/message-validation'
+import type { Message } from '@/types'
+
+interface MessageThreadProps {
+  // Messages route of the order or inquiry; GET lists the messages and POST adds one
+  endpoint: string
+  viewer: 'admin' | 'customer'
+  // Where messages that are not internal end up, shown to admins next to the internal checkbox
+  visibleHint?: string
+  // Inquiry senders have no account to download files from
+  allowVisibleAttachments?: boolean
+  // Called once the messages have loaded; admins have then read them
+  onLoaded?: (messages: Message[]) => void
+  onSent?: (message: Message) => void
+  className?: string
+}
+
+interface ComposerProps {
+  endpoint: string
+  viewer: MessageThreadProps['viewer']
+  parentId?: string
+  // Replies to an internal note stay internal
+  internalThread?: boolean
+  visibleHint?: string
+  allowVisibleAttachments: boolean
+  onSent: (message: Message) => void
+  onCancel?: () => void
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+
+function MessageComposer({
+  endpoint,
+  viewer,
+  parentId,
+  internalThread = false,
+  visibleHint,
+  allowVisibleAttachments,
+  onSent,
+  onCancel,
+}: ComposerProps) {
+  const [body, setBody] = useState('')
+  // New admin messages start internal so nothing reaches the customer by accident
+  const [internal, setInternal] = useState(viewer === 'admin' && !parentId)
+  const [files, setFiles] = useState<File[]>([])
+  const [isSending, setIsSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const isInternal = internalThread || internal
+  const canAttach = viewer === 'customer' || isInternal || allowVisibleAttachments
+  const idPrefix = `message-${parentId ?? 'new'}`
+
+  const handleFiles = (selected: File[]) => {
+    const tooLarge = selected.find((file) => file.size > MAX_MESSAGE_ATTACHMENT_SIZE)
+    if (tooLarge) {
+      setError(`${tooLarge.name} exceeds the maximum size of ${MAX_MESSAGE_ATTACHMENT_SIZE / 1024 / 1024}MB`)
+    } else if (selected.length > MAX_MESSAGE_ATTACHMENTS) {
+      setError(`Attach at most ${MAX_MESSAGE_ATTACHMENTS} files to a message`)
+    } else {
+      setError(null)
+      setFiles(selected)
+      return
+    }
+    setFiles([])
+    if (fileInput.current) fileInput.current.value = ''
+  }
+
+  const handleSend = async () => {
+    if (!body.trim()) {
+      setError('Write a message')
+      return
+    }
+
+    setIsSending(true)
+    setError(null)
+    try {
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+
+      const formData = new FormData()
+      formData.append('body', body)
+      formData.append('internal', String(isInternal))
+      if (parentId) formData.append('parentId', parentId)
+      if (canAttach) files.forEach((file) => formData.append('attachments', file))
+
+      const response = await fetch(`${apiUrl}${endpoint}`, {
+        method: 'POST',
+        headers: {
+          'X-CSRF-Token': csrfData.token,
+        },
+        credentials: 'include',
+        body: formData,
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to send message')
+      }
+
+      onSent(data)
+      setBody('')
+      setFiles([])
+      if (fileInput.current) fileInput.current.value = ''
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to send message')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={`${idPrefix}-body`} className="sr-only">
+        {parentId ? 'Reply' : 'Message'}
+      </Label>
+      <textarea
+        id={`${idPrefix}-body`}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        maxLength={MAX_MESSAGE_LENGTH}
+        rows={parentId ? 2 : 3}
+        placeholder={parentId ? 'Write a reply' : 'Write a message'}
+        className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+      />
+      {canAttach && (
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-files`} className="text-xs text-gray-600">
+            Attachments (up to {MAX_MESSAGE_ATTACHMENTS} files, {MAX_MESSAGE_ATTACHMENT_SIZE / 1024 / 1024}MB each)
+          </Label>
+          <Input
+            id={`${idPrefix}-files`}
+            ref={fileInput}
+            type="file"
+            multiple
+            accept={MESSAGE_ATTACHMENT_ACCEPT}
+            onChange={(e) => handleFiles(Array.from(e.target.files ?? []))}
+          />
+        </div>
+      )}
+      {viewer === 'admin' && (
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id={`${idPrefix}-internal`}
+            checked={isInternal}
+            disabled={internalThread}
+            onCheckedChange={(checked) => setInternal(checked === true)}
+          />
+          <div>
+            <Label htmlFor={`${idPrefix}-internal`} className="font-normal">
+              Internal only
+            </Label>
+            <p className="text-xs text-gray-500">
+              {internalThread
+                ? 'Replies to an internal note stay internal.'
+                : isInternal
+                  ? 'Only admins will see this.'
+                  : visibleHint}
+            </p>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSend} disabled={isSending}>
+          {isSending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {parentId ? 'Send Reply' : 'Send'}
+        </Button>
+        {onCancel && (
+          <Button size="sm" variant="ghost" onClick={onCancel} disabled={isSending}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function MessageItem({ message, viewer }: { message: Message; viewer: MessageThreadProps['viewer'] }) {
+  const author =
+    message.authorType === 'admin'
+      ? message.authorName ?? 'Our team'
+      : viewer === 'customer'
+        ? 'You'
+        : `${message.authorName ?? 'Customer'} (customer)`
+
+  return (
+    <div className={cn('rounded-md p-3 text-sm', message.internal ? 'bg-amber-50' : 'bg-gray-50')}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-gray-900">{author}</span>
+        <span className="text-xs text-gray-500">{new Date(message.createdAt).toLocaleString()}</span>
+        {viewer === 'admin' &&
+          (message.internal ? (
+            <Badge variant="outline" className="border-amber-300 text-amber-800">
+              <Lock className="h-3 w-3 mr-1" />
+              Internal
+            </Badge>
+          ) : (
+            message.authorType === 'admin' && <Badge variant="secondary">Visible to customer</Badge>
+          ))}
+      </div>
+      <p className="mt-1 whitespace-pre-line text-gray-700">{message.body}</p>
+      {message.attachments.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {message.attachments.map((attachment) => (
+            <li key={attachment.id}>
+              <a
+                href={`${process.env.NEXT_PUBLIC_API_URL || ''}${attachment.url}`}
+                className="inline-flex items-center text-primary hover:underline"
+              >
+                <Paperclip className="h-3 w-3 mr-1" />
+                {attachment.filename}
+              </a>{' '}
+              <span className="text-xs text-gray-500">({formatSize(attachment.size)})</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+// Conversation on an order or inquiry: threads oldest first, each with its replies.
+// Admins start threads and reply to any of them; customers reply to the threads they can see
+export function MessageThread({
+  endpoint,
+  viewer,
+  visibleHint = 'The customer will see this.',
+  allowVisibleAttachments = true,
+  onLoaded,
+  onSent,
+  className,
+}: MessageThreadProps) {
+  const [messages, setMessages] = useState<Message[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+
+  const fetchThread = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}${endpoint}`, {
+        credentials: 'include',
+        cache: 'no-store',
+      })
+      if (!response.ok) throw new Error('Failed to fetch messages')
+      const data = await response.json()
+      const loaded: Message[] = Array.isArray(data.messages) ? data.messages : []
+      setMessages(loaded)
+      onLoaded?.(loaded)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to fetch messages')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [endpoint, onLoaded])
+
+  useEffect(() => {
+    setIsLoading(true)
+    setReplyTo(null)
+    fetchThread()
+  }, [fetchThread])
+
+  const handleSent = (message: Message) => {
+    setMessages((current) => [...current, message])
+    setReplyTo(null)
+    onSent?.(message)
+  }
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-red-600">{error}</p>
+        <Button size="sm" variant="outline" onClick={fetchThread}>
+          Retry
+        </Button>
+      </div>
+    )
+  }
+
+  const threads = messages.filter((message) => !message.parentId)
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {threads.length === 0 && (
+        <p className="text-sm text-gray-500">
+          {viewer === 'admin'
+            ? 'No messages yet.'
+            : 'No messages yet. Our team will post here if they have questions about your request.'}
+        </p>
+      )}
+
+      {threads.map((thread) => (
+        <div key={thread.id} className="space-y-2">
+          <MessageItem message={thread} viewer={viewer} />
+          <div className="ml-4 space-y-2 border-l border-gray-200 pl-4">
+            {messages
+              .filter((message) => message.parentId === thread.id)
+              .map((reply) => (
+                <MessageItem key={reply.id} message={reply} viewer={viewer} />
+              ))}
+            {replyTo === thread.id ? (
+              <MessageComposer
+                endpoint={endpoint}
+                viewer={viewer}
+                parentId={thread.id}
+                internalThread={thread.internal}
+                visibleHint={visibleHint}
+                allowVisibleAttachments={allowVisibleAttachments}
+                onSent={handleSent}
+                onCancel={() => setReplyTo(null)}
+              />
+            ) : (
+              <Button size="sm" variant="ghost" onClick={() => setReplyTo(thread.id)}>
+                <Reply className="h-4 w-4 mr-1" />
+                Reply
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {viewer === 'admin' && (
+        <div className="border-t pt-4">
+          <h4 className="text-sm font-medium mb-2">New message</h4>
+          <MessageComposer
+            endpoint={endpoint}
+            viewer={viewer}
+            visibleHint={visibleHint}
+            allowVisibleAttachments={allowVisibleAttachments}
+            onSent={handleSent}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
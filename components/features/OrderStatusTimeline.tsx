@@ -0,0 +1,42 @@
+import { cn } from '@/lib/utils'
+import { orderStatusLabel, REASON_REQUIRED_STATUSES } from '@/lib/order-status'
+import { OrderStatusHistoryEntry } from '@/types'
+
+interface OrderStatusTimelineProps {
+  history: OrderStatusHistoryEntry[]
+  className?: string
+}
+
+// Status history of an order, oldest first; who made each change is only present for admins
+export function OrderStatusTimeline({ history, className }: OrderStatusTimelineProps) {
+  if (history.length === 0) {
+    return <p className={cn('text-sm text-gray-500', className)}>No status changes recorded yet.</p>
+  }
+
+  return (
+    <ol className={cn('relative space-y-4 border-l border-gray-200 pl-5', className)}>
+      {history.map((entry) => {
+        const ended = REASON_REQUIRED_STATUSES.includes(entry.toStatus)
+        return (
+          <li key={entry.id} className="relative text-sm">
+            <span
+              className={cn(
+                'absolute -left-[1.6rem] top-1 h-2.5 w-2.5 rounded-full ring-4 ring-white',
+                ended ? 'bg-red-500' : 'bg-primary',
+              )}
+              aria-hidden="true"
+            />
+            <p className="font-medium text-gray-900">
+              {entry.fromStatus ? orderStatusLabel(entry.toStatus) : 'Submitted'}
+            </p>
+            <p className="text-xs text-gray-500">
+              {new Date(entry.createdAt).toLocaleString()}
+              {entry.changedBy && ` · ${entry.changedBy}`}
+            </p>
+            {entry.comment && <p className="mt-1 whitespace-pre-line text-gray-700">{entry.comment}</p>}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
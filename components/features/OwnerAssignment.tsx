@@ -0,0 +1,167 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import { UNASSIGNED } from '@/lib/assignment-validation'
+import type { AssignmentHistoryEntry } from '@/types'
+
+interface OwnerAssignmentProps {
+  // Assignment route of the order or inquiry; GET returns the owner and history, PUT reassigns
+  endpoint: string
+  // Usernames of the admins that can own it
+  admins: string[]
+  onChanged?: (assignedTo: string | null) => void
+}
+
+const ownerName = (username: string | null) => username ?? 'Unassigned'
+
+// Owner of an order or inquiry with its reassignment history, oldest first (admin only)
+export function OwnerAssignment({ endpoint, admins, onChanged }: OwnerAssignmentProps) {
+  const [assignedTo, setAssignedTo] = useState<string | null>(null)
+  const [history, setHistory] = useState<AssignmentHistoryEntry[]>([])
+  const [owner, setOwner] = useState<string>(UNASSIGNED)
+  const [comment, setComment] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const applyAssignment = useCallback((data: { assignedTo: string | null; history?: AssignmentHistoryEntry[] }) => {
+    setAssignedTo(data.assignedTo)
+    setOwner(data.assignedTo ?? UNASSIGNED)
+    setHistory(Array.isArray(data.history) ? data.history : [])
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+    setComment('')
+    fetch(`${process.env.NEXT_PUBLIC_API_URL || ''}${endpoint}`, { credentials: 'include', cache: 'no-store' })
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}))
+        if (!response.ok) throw new Error(data.error || 'Failed to fetch assignment')
+        if (!cancelled) applyAssignment(data)
+      })
+      .catch((error) => {
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to fetch assignment')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [endpoint, applyAssignment])
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+
+      const response = await fetch(`${apiUrl}${endpoint}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfData.token,
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          assignedTo: owner === UNASSIGNED ? null : owner,
+          comment: comment.trim() || undefined,
+        }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to reassign')
+      }
+
+      applyAssignment(data)
+      setComment('')
+      onChanged?.(data.assignedTo)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to reassign')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+  }
+
+  // A deactivated owner stays selectable until someone else is chosen
+  const options = assignedTo && !admins.includes(assignedTo) ? [assignedTo, ...admins] : admins
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <Label htmlFor="owner-select">Owner</Label>
+          <Select value={owner} onValueChange={setOwner}>
+            <SelectTrigger id="owner-select" className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {options.map((username) => (
+                <SelectItem key={username} value={username}>
+                  {username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex-1 min-w-[200px]">
+          <Label htmlFor="owner-comment">Comment</Label>
+          <Input
+            id="owner-comment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={1000}
+            placeholder="Why it is being reassigned (optional)"
+          />
+        </div>
+        <Button size="sm" onClick={handleSave} disabled={isSaving || owner === (assignedTo ?? UNASSIGNED)}>
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Reassign
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {history.length === 0 ? (
+        <p className="text-sm text-gray-500">Never assigned.</p>
+      ) : (
+        <ol className="space-y-2 border-l border-gray-200 pl-4">
+          {history.map((entry) => (
+            <li key={entry.id} className="text-sm">
+              <p className="text-gray-900">
+                {entry.fromAdmin || entry.changedBy
+                  ? `${ownerName(entry.fromAdmin)} → ${ownerName(entry.toAdmin)}`
+                  : `Assigned to ${ownerName(entry.toAdmin)}`}
+              </p>
+              <p className="text-xs text-gray-500">
+                {new Date(entry.createdAt).toLocaleString()}
+                {` · ${entry.changedBy ?? 'automatic'}`}
+              </p>
+              {entry.reason && <p className="mt-1 whitespace-pre-line text-gray-700">{entry.reason}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatPrice } from '@/lib/format-price'
+import { buildPriceBreaks } from '@/lib/tier-pricing'
+import { Product } from '@/types'
+
+interface PriceBreakTableProps {
+  product: Pick<Product, 'price' | 'listPrice' | 'priceType' | 'priceTiers'>
+}
+
+// Quantity-break prices; rendered only when the product has tiers
+export function PriceBreakTable({ product }: PriceBreakTableProps) {
+  if (!product.priceTiers?.length) {
+    return null
+  }
+
+  const breaks = buildPriceBreaks(product.price, product.priceTiers)
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-sm font-semibold text-gray-900 mb-2">Volume Pricing</h2>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Quantity</TableHead>
+              <TableHead className="text-right">Unit Price</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {breaks.map((row) => (
+              <TableRow key={row.minQuantity}>
+                <TableCell>
+                  {row.maxQuantity === null
+                    ? `${row.minQuantity}+`
+                    : row.maxQuantity === row.minQuantity
+                      ? row.minQuantity
+                      : `${row.minQuantity} – ${row.maxQuantity}`}
+                </TableCell>
+                <TableCell className="text-right font-medium">
+                  {formatPrice(row.unitPrice, product.priceType)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        {product.listPrice != null ? 'Includes your contract pricing. ' : ''}
+        Indicative prices excluding GST; final prices are confirmed in the quotation.
+      </p>
+    </div>
+  )
+}
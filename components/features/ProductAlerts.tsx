@@ -0,0 +1,132 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Bell, BellRing, Loader2 } from 'lucide-react'
+import { useUserAuth } from '@/store/user-auth-store'
+import { Product, ProductSubscriptionType } from '@/types'
+
+interface ProductAlertsProps {
+  product: Pick<Product, 'id' | 'price' | 'inStock' | 'stockQuantity'>
+}
+
+const ALERT_OPTIONS: Array<{ type: ProductSubscriptionType; label: string }> = [
+  { type: 'back_in_stock', label: 'Notify me when back in stock' },
+  { type: 'price_drop', label: 'Alert me on price drop' },
+]
+
+// Back-in-stock and price-drop subscriptions; guests confirm by email
+export function ProductAlerts({ product }: ProductAlertsProps) {
+  const { isAuthenticated } = useUserAuth()
+  const [email, setEmail] = useState('')
+  const [pending, setPending] = useState<ProductSubscriptionType | null>(null)
+  const [subscribed, setSubscribed] = useState<ProductSubscriptionType[]>([])
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const outOfStock = product.inStock === false || product.stockQuantity === 0
+  const options = ALERT_OPTIONS.filter((option) =>
+    option.type === 'back_in_stock' ? outOfStock : product.price != null,
+  )
+  if (options.length === 0) {
+    return null
+  }
+
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+
+  const handleSubscribe = async (type: ProductSubscriptionType) => {
+    if (!isAuthenticated && !email.trim()) {
+      setError('Enter your email address to receive alerts')
+      return
+    }
+
+    setPending(type)
+    setError(null)
+    setMessage(null)
+    try {
+      // Get CSRF token for state-changing operations
+      const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+      const csrfData = await csrfResponse.json()
+
+      const response = await fetch(`${apiUrl}/api/products/${product.id}/subscriptions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfData.token,
+        },
+        credentials: 'include',
+        body: JSON.stringify({ type, email: isAuthenticated ? undefined : email.trim() }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        const details = Array.isArray(data.details)
+          ? `: ${data.details.map((d: any) => d.message).join(', ')}`
+          : ''
+        throw new Error(`${data.error || 'Failed to subscribe'}${details}`)
+      }
+
+      setSubscribed((current) => [...current, type])
+      setMessage(
+        data.confirmationRequired
+          ? 'Check your inbox and confirm the alert using the link we sent you.'
+          : 'Alert saved. You can manage your alerts from your account.',
+      )
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to subscribe')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="mb-6 rounded-md border p-4 space-y-3">
+      <h2 className="text-sm font-semibold text-gray-900">Product Alerts</h2>
+      {!isAuthenticated && (
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="your.email@company.com"
+          aria-label="Email address for product alerts"
+        />
+      )}
+      <div className="flex flex-col sm:flex-row gap-2">
+        {options.map((option) => {
+          const isSubscribed = subscribed.includes(option.type)
+          return (
+            <Button
+              key={option.type}
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={pending !== null || isSubscribed}
+              onClick={() => handleSubscribe(option.type)}
+            >
+              {pending === option.type ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : isSubscribed ? (
+                <BellRing className="h-4 w-4 mr-2" />
+              ) : (
+                <Bell className="h-4 w-4 mr-2" />
+              )}
+              {option.label}
+            </Button>
+          )
+        })}
+      </div>
+      {message && <p className="text-sm text-green-700">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {!isAuthenticated && (
+        <p className="text-xs text-gray-500">
+          <Link href="/login" className="text-primary hover:underline">
+            Log in
+          </Link>{' '}
+          to skip the email confirmation and manage alerts from your account.
+        </p>
+      )}
+    </div>
+  )
+}
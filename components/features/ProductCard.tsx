@@ -27,6 +27,8 @@ export function ProductCard({ product }: ProductCardProps) {
   const addItem = useRFQStore((state) => state.addItem)
   const { items, toggleItem } = useComparisonStore()
   const isSelectedForCompare = items.some((i) => i.id === product.id)
+  // On lists grouped by family the card stands for the whole family
+  const isFamily = (product.variantCount ?? 1) > 1
 
   const handleAddToRFQ = () => {
     addItem({
@@ -138,7 +140,9 @@ export function ProductCard({ product }: ProductCardProps) {
         <CardHeader className="space-y-2">
           <div className="flex items-start justify-between gap-2">
             <div>
-              <CardTitle className="text-lg line-clamp-2">{product.mpn || product.description.substring(0, 50)}</CardTitle>
+              <CardTitle className="text-lg line-clamp-2">
+                {(isFamily && product.familyName) || product.mpn || product.description.substring(0, 50)}
+              </CardTitle>
               {product.mpn && (
                 <CardDescription 
                   className="text-sm cursor-pointer hover:text-primary transition-colors"
@@ -179,6 +183,9 @@ export function ProductCard({ product }: ProductCardProps) {
             {product.description}
           </p>
           <div className="flex flex-wrap gap-2 mb-4">
+            {isFamily && (
+              <Badge variant="secondary">{product.variantCount} variants</Badge>
+            )}
             {product.connectorType && (
               <Badge variant="outline">{product.connectorType}</Badge>
             )}
@@ -191,14 +198,25 @@ export function ProductCard({ product }: ProductCardProps) {
           </div>
         </CardContent>
         <CardFooter className="flex flex-col sm:flex-row gap-2">
-          <Button
-            onClick={handleAddToRFQ}
-            className="flex-1"
-            size="sm"
-            aria-label={`Add product to RFQ`}
-          >
-            Add to RFQ
-          </Button>
+          {isFamily ? (
+            <Button
+              asChild
+              className="flex-1"
+              size="sm"
+              aria-label={`Choose a variant of ${product.familyName || 'this product'}`}
+            >
+              <Link href={`/products/${product.id}`}>Choose Variant</Link>
+            </Button>
+          ) : (
+            <Button
+              onClick={handleAddToRFQ}
+              className="flex-1"
+              size="sm"
+              aria-label={`Add product to RFQ`}
+            >
+              Add to RFQ
+            </Button>
+          )}
           <Button
             asChild
             variant="outline"
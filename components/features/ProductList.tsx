@@ -5,6 +5,8 @@ import { useSearchParams } from 'next/navigation'
 import { ProductCard } from './ProductCard'
 import { ProductPagination } from './ProductPagination'
 import { Product, Category } from '@/types'
+import { SPEC_RANGE_PARAMS } from '@/lib/spec-ranges'
+import { ATTRIBUTE_PARAM_PREFIX } from '@/lib/product-attributes'
 
 interface ProductsResponse {
   products: Product[]
@@ -94,6 +96,20 @@ export function ProductList() {
       
       const search = searchParams.get('search')
       if (search) params.set('search', search)
+
+      // Spec range bounds (operatingVoltageMin, ratedCurrentMax, ...)
+      for (const name of SPEC_RANGE_PARAMS) {
+        const bound = searchParams.get(name)
+        if (bound) params.set(name, bound)
+      }
+
+      // Category attribute filters (attr.<key>)
+      searchParams.forEach((value, name) => {
+        if (name.startsWith(ATTRIBUTE_PARAM_PREFIX) && value) params.set(name, value)
+      })
+
+      // Show each product family once, with its variant count
+      params.set('groupFamilies', 'true')
       
       // Cursor-based pagination
       const cursor = searchParams.get('cursor')
@@ -178,7 +194,7 @@ export function ProductList() {
           ))}
         </div>
         <ProductPagination
-          cursor={products.length > 0 ? products[products.length - 1].id : null}
+          cursor={pagination.cursor}
           nextCursor={pagination.cursor}
           hasNext={pagination.hasNext}
           hasPrev={pagination.hasPrev}
@@ -235,7 +251,7 @@ export function ProductList() {
         ))}
       </div>
       <ProductPagination
-        cursor={products.length > 0 ? products[products.length - 1].id : null}
+        cursor={pagination.cursor}
         nextCursor={pagination.cursor}
         hasNext={pagination.hasNext}
         hasPrev={pagination.hasPrev}
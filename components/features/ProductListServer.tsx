@@ -1,7 +1,8 @@
 import { ProductCard } from './ProductCard'
 import { ProductPagination } from './ProductPagination'
 import { fetchProducts, fetchCategories } from '@/lib/data-fetching'
-import type { Product, Category } from '@/types'
+import { getServerPricingContext } from '@/lib/customer-pricing'
+import type { Product, Category, SpecRangeFilters } from '@/types'
 
 interface ProductListServerProps {
   searchParams: {
@@ -16,6 +17,10 @@ interface ProductListServerProps {
     search?: string
     cursor?: string
     limit?: string
+    // Parsed spec range bounds (operatingVoltageMin, ratedCurrentMax, ...)
+    ranges?: SpecRangeFilters
+    // Category attribute filters from attr.<key> params
+    attributes?: Record<string, string[]>
   }
 }
 
@@ -42,8 +47,14 @@ export async function ProductListServer({ searchParams }: ProductListServerProps
     gender: searchParams.gender ? searchParams.gender.split(',').filter(Boolean) : undefined,
     inStock: searchParams.inStock === 'true' ? true : undefined,
     search: searchParams.search,
+    ...searchParams.ranges,
+    attributes: searchParams.attributes,
+    // Show each product family once, with its variant count
+    groupFamilies: true,
     cursor: searchParams.cursor,
     limit: searchParams.limit ? parseInt(searchParams.limit, 10) : 10,
+    // Contract prices of the logged-in customer's group
+    pricing: await getServerPricingContext(),
   }
 
   // Fetch products
@@ -67,7 +78,9 @@ export async function ProductListServer({ searchParams }: ProductListServerProps
     searchParams.pins ||
     searchParams.gender ||
     searchParams.inStock ||
-    searchParams.search
+    searchParams.search ||
+    Object.keys(searchParams.ranges ?? {}).length > 0 ||
+    !!searchParams.attributes
   )
 
   // If no filters are applied, show all products in a flat list
@@ -80,7 +93,7 @@ export async function ProductListServer({ searchParams }: ProductListServerProps
           ))}
         </div>
         <ProductPagination
-          cursor={products.length > 0 ? products[products.length - 1].id : null}
+          cursor={pagination.cursor}
           nextCursor={pagination.cursor}
           hasNext={pagination.hasNext}
           hasPrev={pagination.hasPrev}
@@ -137,7 +150,7 @@ export async function ProductListServer({ searchParams }: ProductListServerProps
         ))}
       </div>
       <ProductPagination
-        cursor={products.length > 0 ? products[products.length - 1].id : null}
+        cursor={pagination.cursor}
         nextCursor={pagination.cursor}
         hasNext={pagination.hasNext}
         hasPrev={pagination.hasPrev}
@@ -5,7 +5,7 @@ import { Button } from '@/components/ui/button'
 import { ChevronLeft, ChevronRight } from 'lucide-react'
 
 interface ProductPaginationProps {
-  cursor: string | null // Last product id on current page (for next page)
+  cursor: string | null // Cursor for the next page (last product id, or an offset token for search)
   nextCursor: string | null // Next cursor from API (for validation)
   hasNext: boolean
   hasPrev: boolean
@@ -26,7 +26,7 @@ export function ProductPagination({ cursor, nextCursor, hasNext, hasPrev }: Prod
   }
 
   const handleNext = () => {
-    // Use the last product id as cursor for next page
+    // The API decides the cursor format (id order vs. search relevance)
     if (cursor && hasNext) {
       updateCursor(cursor)
     }
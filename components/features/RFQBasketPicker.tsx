@@ -0,0 +1,230 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog'
+import { FolderOpen, Pencil, Plus, Trash2 } from 'lucide-react'
+import { useRFQStore } from '@/store/rfq-store'
+import { useUserAuth } from '@/store/user-auth-store'
+import { createBasket, deleteBasket, listBaskets, mergeBasket, updateBasket } from '@/lib/rfq-basket-api'
+import { MAX_RFQ_BASKETS } from '@/lib/rfq-basket-validation'
+import type { RfqBasket } from '@/types'
+
+type NameDialog = { mode: 'create' | 'rename'; name: string; copyItems: boolean }
+
+// Named baskets (e.g. one per project) for logged-in customers; guests are invited to log in
+export function RFQBasketPicker() {
+  const { isAuthenticated } = useUserAuth()
+  const { basketId, basketName, setBasket } = useRFQStore()
+  const [isMounted, setIsMounted] = useState(false)
+  const [baskets, setBaskets] = useState<RfqBasket[]>([])
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  useEffect(() => {
+    setIsMounted(true)
+  }, [])
+
+  const loadBaskets = useCallback(async () => {
+    try {
+      setBaskets(await listBaskets())
+    } catch (error) {
+      console.error('Failed to fetch RFQ baskets', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAuthenticated && basketId) {
+      loadBaskets()
+    }
+  }, [isAuthenticated, basketId, loadBaskets])
+
+  // Save pending edits of the current basket before leaving it
+  const saveCurrent = async () => {
+    const { basketId, items, unsynced, markSynced } = useRFQStore.getState()
+    if (basketId && unsynced) {
+      await updateBasket(basketId, { items })
+      markSynced()
+    }
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+      await loadBaskets()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Something went wrong')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSwitch = (id: string) =>
+    run(async () => {
+      if (id === basketId) return
+      await saveCurrent()
+      setBasket(await updateBasket(id, { active: true }))
+    })
+
+  const handleSaveName = () => {
+    if (!nameDialog) return
+    const name = nameDialog.name.trim()
+    if (!name) {
+      setError('Enter a name for the basket')
+      return
+    }
+
+    run(async () => {
+      if (nameDialog.mode === 'rename' && basketId) {
+        await saveCurrent()
+        setBasket(await updateBasket(basketId, { name }))
+      } else {
+        await saveCurrent()
+        const items = nameDialog.copyItems ? useRFQStore.getState().items : []
+        setBasket(await createBasket(name, items))
+      }
+      setNameDialog(null)
+    })
+  }
+
+  const handleDelete = () =>
+    run(async () => {
+      if (!basketId) return
+      await deleteBasket(basketId)
+      // Falls back to the most recently used basket, or a fresh one
+      setBasket(await mergeBasket([]))
+      setConfirmDelete(false)
+    })
+
+  if (!isMounted) return null
+
+  if (!isAuthenticated) {
+    return (
+      <p className="text-sm text-gray-600">
+        <Link href="/login" className="text-primary hover:underline">Log in</Link> to keep your RFQ on every
+        device and save separate baskets for each project.
+      </p>
+    )
+  }
+
+  if (!basketId) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <FolderOpen className="h-4 w-4 text-gray-500" aria-hidden="true" />
+        <Label htmlFor="rfq-basket" className="sr-only">Basket</Label>
+        <Select value={basketId} onValueChange={handleSwitch} disabled={busy}>
+          <SelectTrigger id="rfq-basket" className="w-56">
+            <SelectValue placeholder={basketName || 'Basket'} />
+          </SelectTrigger>
+          <SelectContent>
+            {(baskets.some((basket) => basket.id === basketId)
+              ? baskets
+              : [{ id: basketId, name: basketName || 'Basket', itemCount: 0 } as RfqBasket, ...baskets]
+            ).map((basket) => (
+              <SelectItem key={basket.id} value={basket.id}>
+                {basket.name}
+                {basket.id !== basketId && ` (${basket.itemCount} line${basket.itemCount !== 1 ? 's' : ''})`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={busy || baskets.length >= MAX_RFQ_BASKETS}
+          onClick={() => setNameDialog({ mode: 'create', name: '', copyItems: false })}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          New basket
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={busy}
+          onClick={() => setNameDialog({ mode: 'rename', name: basketName || '', copyItems: false })}
+        >
+          <Pencil className="h-4 w-4 mr-1" />
+          Rename
+        </Button>
+        <Button variant="ghost" size="sm" disabled={busy} onClick={() => setConfirmDelete(true)}>
+          <Trash2 className="h-4 w-4 mr-1 text-red-500" />
+          Delete
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{nameDialog?.mode === 'rename' ? 'Rename basket' : 'New basket'}</DialogTitle>
+            <DialogDescription>
+              {nameDialog?.mode === 'rename'
+                ? 'Give this basket a name you will recognise, such as the project it is for.'
+                : 'Start a separate basket, for example for another project. Your current basket stays saved.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rfq-basket-name">Name</Label>
+              <Input
+                id="rfq-basket-name"
+                value={nameDialog?.name ?? ''}
+                maxLength={100}
+                onChange={(e) => nameDialog && setNameDialog({ ...nameDialog, name: e.target.value })}
+              />
+            </div>
+            {nameDialog?.mode === 'create' && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="rfq-basket-copy"
+                  checked={nameDialog.copyItems}
+                  onCheckedChange={(checked) => setNameDialog({ ...nameDialog, copyItems: checked === true })}
+                />
+                <Label htmlFor="rfq-basket-copy" className="font-normal">
+                  Copy the lines from the current basket
+                </Label>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialog(null)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveName} disabled={busy}>
+              {busy ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        open={confirmDelete}
+        onOpenChange={setConfirmDelete}
+        onConfirm={handleDelete}
+        title="Delete basket"
+        description={`Delete "${basketName || 'this basket'}" and all of its lines? This cannot be undone.`}
+        confirmText="Delete"
+        variant="destructive"
+      />
+    </div>
+  )
+}
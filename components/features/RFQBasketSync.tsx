@@ -0,0 +1,93 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useRFQStore } from '@/store/rfq-store'
+import { useUserAuth } from '@/store/user-auth-store'
+import { mergeBasket, RfqBasketRequestError, updateBasket } from '@/lib/rfq-basket-api'
+import type { RFQItem } from '@/types'
+
+const PUSH_DELAY_MS = 1000
+
+// Module state so it survives the Header remounting on every navigation
+let loaded = false
+let pushTimer: ReturnType<typeof setTimeout> | null = null
+
+// The basket was deleted or expired elsewhere: keep the lines in the customer's active basket
+const recover = async (items: RFQItem[]) => {
+  useRFQStore.getState().setBasket(await mergeBasket(items))
+}
+
+async function loadBasket() {
+  const { basketId, items, unsynced } = useRFQStore.getState()
+  try {
+    if (basketId && unsynced) {
+      // Changes made on this device that never reached the server win
+      useRFQStore.getState().setBasket(await updateBasket(basketId, { items, active: true }))
+    } else {
+      // Lines added before login are merged in; otherwise this just loads the active basket,
+      // which may have changed on another device
+      useRFQStore.getState().setBasket(await mergeBasket(basketId ? [] : items))
+    }
+  } catch (error) {
+    if (basketId && error instanceof RfqBasketRequestError && error.status === 404) {
+      await recover(items).catch((e) => console.error('Failed to load RFQ basket', e))
+      return
+    }
+    loaded = false
+    console.error('Failed to load RFQ basket', error)
+  }
+}
+
+async function pushItems() {
+  pushTimer = null
+  const { basketId, items, unsynced } = useRFQStore.getState()
+  if (!basketId || !unsynced) return
+
+  try {
+    await updateBasket(basketId, { items })
+    // Edits made while the request was in flight go out with the next push
+    if (useRFQStore.getState().items === items) {
+      useRFQStore.getState().markSynced()
+    }
+  } catch (error) {
+    if (error instanceof RfqBasketRequestError && error.status === 404) {
+      await recover(items).catch((e) => console.error('Failed to save RFQ basket', e))
+      return
+    }
+    // Left unsynced; retried on the next change or page load
+    console.error('Failed to save RFQ basket', error)
+  }
+}
+
+const schedulePush = () => {
+  if (pushTimer) clearTimeout(pushTimer)
+  pushTimer = setTimeout(pushItems, PUSH_DELAY_MS)
+}
+
+// Keeps the RFQ store in step with the logged-in customer's active server basket
+export function RFQBasketSync() {
+  const isAuthenticated = useUserAuth((state) => state.isAuthenticated)
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      loaded = false
+      if (useRFQStore.getState().basketId) {
+        useRFQStore.getState().detachBasket()
+      }
+      return
+    }
+
+    if (!loaded) {
+      loaded = true
+      loadBasket()
+    }
+
+    return useRFQStore.subscribe((state, previous) => {
+      if (state.items !== previous.items && state.basketId && state.unsynced) {
+        schedulePush()
+      }
+    })
+  }, [isAuthenticated])
+
+  return null
+}
@@ -8,7 +8,7 @@ import { rfqFormSchema, type RFQFormData } from '@/lib/zod-schemas'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { RFQItem } from '@/types'
+import { RFQ, RFQItem } from '@/types'
 import { Loader2 } from 'lucide-react'
 import { apiClient } from '@/lib/api-client'
 import { useUserAuth } from '@/store/user-auth-store'
@@ -24,6 +24,7 @@ export function RFQForm({ items, onSuccess }: RFQFormProps) {
   const { isAuthenticated } = useUserAuth()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submitted, setSubmitted] = useState(false)
+  const [reference, setReference] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
   const idempotencyKeyRef = useRef<string | null>(null)
@@ -67,7 +68,7 @@ export function RFQForm({ items, onSuccess }: RFQFormProps) {
 
     try {
       // Submit order with idempotency key (CSRF token handled automatically by apiClient)
-      const response = await apiClient.post(
+      const order = await apiClient.post<RFQ>(
         '/api/orders',
         {
           ...data,
@@ -77,6 +78,10 @@ export function RFQForm({ items, onSuccess }: RFQFormProps) {
             name: item.name,
             quantity: item.quantity,
             notes: item.notes,
+            configuration: item.configuration
+              ? { selections: item.configuration.selections }
+              : undefined,
+            freeText: item.freeText || undefined,
           })),
         },
         {
@@ -87,6 +92,7 @@ export function RFQForm({ items, onSuccess }: RFQFormProps) {
         }
       )
 
+      setReference(order.reference)
       setSubmitted(true)
       reset()
       idempotencyKeyRef.current = null // Reset after successful submission
@@ -114,7 +120,19 @@ export function RFQForm({ items, onSuccess }: RFQFormProps) {
     return (
       <div className="text-center py-8">
       <div className="text-green-600 mb-2">✓ RFQ Submitted Successfully!</div>
+        {reference && (
+          <p className="text-sm text-gray-600">
+            Your reference is <span className="font-semibold text-gray-900">{reference}</span>.
+          </p>
+        )}
         <p className="text-sm text-gray-600">We&apos;ll contact you shortly with a quote.</p>
+        <p className="text-sm text-gray-600 mt-2">
+          Track its status under{' '}
+          <Link href="/account" className="text-primary hover:underline">
+            My RFQs
+          </Link>
+          .
+        </p>
       </div>
     )
   }
@@ -0,0 +1,102 @@
+'use client'
+
+import { useRef } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { AddToRFQButton } from '@/components/features/AddToRFQButton'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { formatPrice } from '@/lib/format-price'
+import { Product } from '@/types'
+
+interface RelatedProductsCarouselProps {
+  title: string
+  products: Product[]
+  // Optional badge per product id, e.g. the relation type when a carousel mixes several
+  badges?: Record<string, string>
+}
+
+// Helper function to construct image URL
+function getImageSrc(imageUrl: string): string {
+  if (imageUrl.startsWith('http://') || imageUrl.startsWith('https://')) {
+    return imageUrl
+  }
+
+  const normalized = imageUrl.startsWith('/') ? imageUrl : `/${imageUrl}`
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL
+  return apiUrl ? `${apiUrl}${normalized}` : normalized
+}
+
+export function RelatedProductsCarousel({ title, products, badges }: RelatedProductsCarouselProps) {
+  const trackRef = useRef<HTMLDivElement>(null)
+
+  if (products.length === 0) {
+    return null
+  }
+
+  const scroll = (direction: 1 | -1) => {
+    const track = trackRef.current
+    if (!track) return
+    track.scrollBy({ left: direction * track.clientWidth * 0.8, behavior: 'smooth' })
+  }
+
+  return (
+    <section className="mb-12" aria-label={title}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold">{title}</h2>
+        {products.length > 1 && (
+          <div className="flex space-x-2">
+            <Button variant="outline" size="icon" onClick={() => scroll(-1)} aria-label={`Scroll ${title} left`}>
+              <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => scroll(1)} aria-label={`Scroll ${title} right`}>
+              <ChevronRight className="h-4 w-4" aria-hidden="true" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div ref={trackRef} className="flex gap-4 overflow-x-auto snap-x snap-mandatory pb-2">
+        {products.map((product) => {
+          const image = product.images?.[0]
+          const imageSrc = image ? getImageSrc(image) : null
+          return (
+            <div
+              key={product.id}
+              className="snap-start flex-shrink-0 w-60 flex flex-col rounded-lg border bg-white p-4"
+            >
+              <Link href={`/products/${product.id}`} className="block">
+                <div className="relative aspect-square w-full mb-3 bg-gray-100 rounded-md overflow-hidden">
+                  {imageSrc ? (
+                    <Image
+                      src={imageSrc}
+                      alt={product.mpn || product.name || 'Product'}
+                      fill
+                      className="object-contain"
+                      sizes="240px"
+                      unoptimized={!imageSrc.startsWith('http')}
+                    />
+                  ) : (
+                    <div className="flex h-full items-center justify-center text-xs text-gray-400">No image</div>
+                  )}
+                </div>
+                <p className="font-semibold line-clamp-1 hover:underline">{product.mpn || product.sku}</p>
+                <p className="text-sm text-gray-600 line-clamp-2">{product.name}</p>
+              </Link>
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                {badges?.[product.id] && <Badge variant="secondary">{badges[product.id]}</Badge>}
+                {product.price != null && (
+                  <span className="font-medium">{formatPrice(product.price, product.priceType)}</span>
+                )}
+              </div>
+              <div className="mt-auto pt-3 flex">
+                <AddToRFQButton product={product} />
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,111 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { formatPrice } from '@/lib/format-price'
+import { cn } from '@/lib/utils'
+import { ProductVariant, VariantAxis } from '@/types'
+
+interface VariantSelectorProps {
+  axes: VariantAxis[]
+  variants: ProductVariant[]
+  currentId: string
+}
+
+const byNaturalOrder = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' })
+
+export function VariantSelector({ axes, variants, currentId }: VariantSelectorProps) {
+  const router = useRouter()
+  const current = variants.find((variant) => variant.id === currentId)
+
+  if (!current || variants.length < 2) {
+    return null
+  }
+
+  const selection = current.variantOptions
+
+  // Variant for a changed option: the exact combination if it exists, otherwise the
+  // variant with that option sharing the most of the other current options
+  const findVariant = (axisKey: string, value: string) => {
+    const wanted = { ...selection, [axisKey]: value }
+    let best: { variant: ProductVariant; score: number } | null = null
+    for (const variant of variants) {
+      if (variant.variantOptions[axisKey] !== value) continue
+      const score = axes.filter((axis) => variant.variantOptions[axis.key] === wanted[axis.key]).length
+      if (!best || score > best.score) best = { variant, score }
+    }
+    return best ? { variant: best.variant, exact: best.score === axes.length } : null
+  }
+
+  const selectOption = (axisKey: string, value: string) => {
+    const match = findVariant(axisKey, value)
+    if (match && match.variant.id !== currentId) {
+      router.push(`/products/${match.variant.id}`, { scroll: false })
+    }
+  }
+
+  return (
+    <div className="space-y-4 mb-6">
+      {axes.map((axis) => {
+        const values = Array.from(
+          new Set(variants.map((variant) => variant.variantOptions[axis.key]).filter(Boolean)),
+        ).sort(byNaturalOrder)
+
+        return (
+          <div key={axis.key}>
+            <p className="text-sm font-medium text-gray-700 mb-2">
+              {axis.label}: <span className="font-semibold">{selection[axis.key]}</span>
+            </p>
+            <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={axis.label}>
+              {values.map((value) => {
+                const isSelected = selection[axis.key] === value
+                const available = isSelected || findVariant(axis.key, value)?.exact
+                return (
+                  <Button
+                    key={value}
+                    type="button"
+                    size="sm"
+                    variant={isSelected ? 'default' : 'outline'}
+                    className={cn(!available && 'border-dashed text-gray-500')}
+                    role="radio"
+                    aria-checked={isSelected}
+                    title={available ? undefined : 'Not available with the current selection'}
+                    onClick={() => selectOption(axis.key, value)}
+                  >
+                    {value}
+                  </Button>
+                )
+              })}
+            </div>
+          </div>
+        )
+      })}
+
+      <dl className="grid grid-cols-3 gap-4 rounded-md border p-3 text-sm">
+        <div>
+          <dt className="text-gray-500">SKU</dt>
+          <dd className="font-semibold">{current.sku}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Price</dt>
+          <dd className="font-semibold">
+            {current.price !== undefined ? formatPrice(current.price, current.priceType) : 'On request'}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Availability</dt>
+          <dd>
+            {current.inStock ? (
+              <Badge variant="secondary">
+                In stock{current.stockQuantity ? ` (${current.stockQuantity})` : ''}
+              </Badge>
+            ) : (
+              <Badge variant="outline">On request</Badge>
+            )}
+          </dd>
+        </div>
+      </dl>
+    </div>
+  )
+}
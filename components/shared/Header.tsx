@@ -14,16 +14,17 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { useRFQStore } from '@/store/rfq-store'
+import { RFQBasketSync } from '@/components/features/RFQBasketSync'
 import { useUserAuth } from '@/store/user-auth-store'
-import { Category } from '@/types'
-import { LogOut } from 'lucide-react'
+import { CategoryTreeNode } from '@/types'
+import { LogOut, User } from 'lucide-react'
 
 export function Header() {
   const router = useRouter()
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
   const [isMounted, setIsMounted] = useState(false)
-  const [categories, setCategories] = useState<Category[]>([])
+  const [categories, setCategories] = useState<CategoryTreeNode[]>([])
   const totalItems = useRFQStore((state) => state.getTotalItems())
   const { isAuthenticated, logout } = useUserAuth()
   const [isLoggingOut, setIsLoggingOut] = useState(false)
@@ -37,12 +38,11 @@ export function Header() {
     const fetchCategories = async () => {
       try {
         const baseUrl = process.env.NEXT_PUBLIC_API_URL || window.location.origin
-        const response = await fetch(`${baseUrl}/api/categories?limit=1000`)
+        const response = await fetch(`${baseUrl}/api/categories/tree`)
         if (response.ok) {
           const data = await response.json()
-          const fetchedCategories = Array.isArray(data) ? data : (data.categories || [])
-          // Only show root categories (no parentId) in the header navigation
-          setCategories(fetchedCategories.filter((cat: Category) => !cat.parentId))
+          // Root categories become the menu columns, their children the links
+          setCategories(Array.isArray(data.tree) ? data.tree : [])
         }
       } catch (error) {
         // Error handled silently - categories are optional for navigation
@@ -55,6 +55,7 @@ export function Header() {
 
   return (
     <header className="sticky top-0 z-50 w-full border-b bg-white/95 backdrop-blur supports-[backdrop-filter]:bg-white/60">
+      <RFQBasketSync />
       <nav className="container mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex h-24 items-center justify-between">
           {/* Logo */}
@@ -80,20 +81,41 @@ export function Header() {
                   <ChevronDown className="h-4 w-4" />
                 </Button>
               </DropdownMenuTrigger>
-              <DropdownMenuContent align="start" className="w-56">
-                {categories.map((category) => (
-                  <DropdownMenuItem key={category.id} asChild>
-                    <Link href={`/products?category=${category.slug}`}>
-                      {category.name}
-                    </Link>
-                  </DropdownMenuItem>
-                ))}
+              <DropdownMenuContent align="start" className="w-[min(90vw,48rem)] p-4">
+                <div className="grid grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-4">
+                  {categories.map((category) => (
+                    <div key={category.id} className="min-w-0">
+                      <DropdownMenuItem asChild className="font-semibold">
+                        <Link href={`/products?category=${category.slug}`}>
+                          {category.name}
+                          <span className="ml-auto pl-2 text-xs font-normal text-gray-500">
+                            {category.productCount}
+                          </span>
+                        </Link>
+                      </DropdownMenuItem>
+                      {category.children.map((child) => (
+                        <DropdownMenuItem key={child.id} asChild className="pl-4 text-gray-600">
+                          <Link href={`/products?category=${child.slug}`}>
+                            {child.name}
+                            <span className="ml-auto pl-2 text-xs text-gray-400">{child.productCount}</span>
+                          </Link>
+                        </DropdownMenuItem>
+                      ))}
+                    </div>
+                  ))}
+                </div>
               </DropdownMenuContent>
             </DropdownMenu>
 
             <Link href="/products" className="text-sm font-medium text-gray-700 hover:text-gray-900">
               All Products
             </Link>
+            <Link href="/cross-reference" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+              Cross Reference
+            </Link>
+            <Link href="/configurator" className="text-sm font-medium text-gray-700 hover:text-gray-900">
+              Cordset Configurator
+            </Link>
             {/* <Link href="/resources" className="text-sm font-medium text-gray-700 hover:text-gray-900">
               Resources
             </Link> */}
@@ -134,6 +156,14 @@ export function Header() {
               </Button>
             </Link>
 
+            {isAuthenticated && (
+              <Link href="/account" className="hidden md:inline-flex">
+                <Button variant="ghost" size="icon" aria-label="My account">
+                  <User className="h-5 w-5" />
+                </Button>
+              </Link>
+            )}
+
             {isAuthenticated ? (
               <Button
                 variant="outline"
@@ -192,14 +222,25 @@ export function Header() {
             </div>
             <div className="space-y-2">
               {categories.map((category) => (
-                <Link
-                  key={category.id}
-                  href={`/products?category=${category.slug}`}
-                  className="block px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-md"
-                  onClick={() => setMobileMenuOpen(false)}
-                >
-                  {category.name}
-                </Link>
+                <div key={category.id}>
+                  <Link
+                    href={`/products?category=${category.slug}`}
+                    className="block px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-md"
+                    onClick={() => setMobileMenuOpen(false)}
+                  >
+                    {category.name}
+                  </Link>
+                  {category.children.map((child) => (
+                    <Link
+                      key={child.id}
+                      href={`/products?category=${child.slug}`}
+                      className="block pl-8 pr-3 py-1.5 text-sm text-gray-600 hover:bg-gray-50 rounded-md"
+                      onClick={() => setMobileMenuOpen(false)}
+                    >
+                      {child.name}
+                    </Link>
+                  ))}
+                </div>
               ))}
               <Link
                 href="/products"
@@ -208,6 +249,20 @@ export function Header() {
               >
                 All Products
               </Link>
+              <Link
+                href="/cross-reference"
+                className="block px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-md"
+                onClick={() => setMobileMenuOpen(false)}
+              >
+                Cross Reference
+              </Link>
+              <Link
+                href="/configurator"
+                className="block px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-md"
+                onClick={() => setMobileMenuOpen(false)}
+              >
+                Cordset Configurator
+              </Link>
               <Link
                 href="/resources"
                 className="block px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-md"
@@ -222,6 +277,15 @@ export function Header() {
               >
                 Contact
               </Link>
+              {isAuthenticated && (
+                <Link
+                  href="/account"
+                  className="block px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-md"
+                  onClick={() => setMobileMenuOpen(false)}
+                >
+                  My Account
+                </Link>
+              )}
               {isAuthenticated ? (
                 <Button
                   variant="outline"
@@ -3,6 +3,8 @@
 import { useSearchParams, useRouter, usePathname } from 'next/navigation'
 import { useCallback } from 'react'
 import { FilterState } from '@/types'
+import { parseSpecRangeFilters } from '@/lib/spec-ranges'
+import { ATTRIBUTE_PARAM_PREFIX, parseAttributeFilters } from '@/lib/product-attributes'
 
 export function useProductFilters() {
   const searchParams = useSearchParams()
@@ -22,6 +24,8 @@ export function useProductFilters() {
       search: searchParams.get('search') || undefined,
       category: searchParams.get('category') || undefined,
       categoryId: categoryIdParam ? (categoryIdParam.includes(',') ? categoryIdParam.split(',').filter(Boolean) : categoryIdParam) : undefined,
+      ...parseSpecRangeFilters((name) => searchParams.get(name)),
+      attributes: parseAttributeFilters(searchParams.entries()),
     }
   }, [searchParams])
 
@@ -29,7 +33,15 @@ export function useProductFilters() {
     const current = new URLSearchParams(searchParams.toString())
     
     Object.entries(updates).forEach(([key, value]) => {
-      if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      if (key === 'attributes') {
+        // Attribute filters are stored as one attr.<key> param per attribute
+        Array.from(current.keys())
+          .filter((name) => name.startsWith(ATTRIBUTE_PARAM_PREFIX))
+          .forEach((name) => current.delete(name))
+        Object.entries((value as FilterState['attributes']) ?? {}).forEach(([attribute, selected]) => {
+          if (selected.length > 0) current.set(`${ATTRIBUTE_PARAM_PREFIX}${attribute}`, selected.join(','))
+        })
+      } else if (value === undefined || (Array.isArray(value) && value.length === 0)) {
         current.delete(key)
       } else if (Array.isArray(value)) {
         current.set(key, value.join(','))
@@ -0,0 +1,52 @@
+import { z } from 'zod'
+import { TERRITORIES } from '@/lib/territories'
+import type { AssignmentRuleType } from '@/types'
+
+/**
+ * Owners of orders and inquiries: rule types and the bodies of the assignment routes
+ */
+
+export const ASSIGNMENT_RULE_TYPES = ['category', 'territory', 'round_robin'] as const
+
+export const ASSIGNMENT_RULE_TYPE_LABELS: Record<AssignmentRuleType, string> = {
+  category: 'Product category',
+  territory: 'Territory',
+  round_robin: 'Round-robin',
+}
+
+// Owner filter values besides a username: the signed-in admin, or nobody
+export const ASSIGNED_TO_ME = 'me'
+export const UNASSIGNED = 'none'
+
+export const assignmentRuleSchema = z
+  .object({
+    type: z.enum(ASSIGNMENT_RULE_TYPES),
+    categoryId: z.string().uuid('Choose a category').nullable().optional(),
+    territory: z.enum(TERRITORIES).nullable().optional(),
+    adminUsername: z.string().trim().min(1, 'Choose an admin'),
+    active: z.boolean().default(true),
+  })
+  .superRefine((rule, ctx) => {
+    if (rule.type === 'category' && !rule.categoryId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Choose a category', path: ['categoryId'] })
+    }
+    if (rule.type === 'territory' && !rule.territory) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Choose a territory', path: ['territory'] })
+    }
+  })
+  // Only the field of the rule's own type is kept
+  .transform((rule) => ({
+    ...rule,
+    categoryId: rule.type === 'category' ? rule.categoryId! : null,
+    territory: rule.type === 'territory' ? rule.territory! : null,
+  }))
+
+export const assignmentChangeSchema = z.object({
+  // Admin username; null leaves the order or inquiry unassigned
+  assignedTo: z.string().trim().min(1, 'Choose an admin').nullable(),
+  // Recorded in the assignment history
+  comment: z.string().trim().max(1000).optional(),
+})
+
+export type AssignmentRuleInput = z.infer<typeof assignmentRuleSchema>
+export type AssignmentChangeInput = z.infer<typeof assignmentChangeSchema>
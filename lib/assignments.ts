@@ -0,0 +1,192 @@
+import type { PoolClient } from 'pg'
+import { pgPool } from '@/lib/pg'
+import { TERRITORY_LABELS, detectTerritory } from '@/lib/territories'
+import type { AssignmentHistoryEntry, AssignmentRuleType } from '@/types'
+
+/**
+ * Owners of orders and inquiries. A new one goes to a candidate of the first kind of rule that
+ * has any: product category (orders only), then territory, then round-robin. Among the
+ * candidates, the admin who was last given something longest ago gets it, so admins sharing a
+ * rule take turns. Every change of owner is logged in "AssignmentHistory".
+ */
+
+type Queryable = Pick<PoolClient, 'query'>
+
+export type AssignmentTarget = { type: 'order' | 'inquiry'; id: string }
+
+export class AssignmentError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'AssignmentError'
+  }
+}
+
+// Columns of an AssignmentRule r joined with its Category c
+export const ASSIGNMENT_RULE_COLUMNS = `
+  r.id, r.type, r."categoryId", c.name AS "categoryName", r.territory, r."adminUsername", r.active,
+  r."createdAt", r."updatedAt"
+`
+
+const targetTable = (target: AssignmentTarget) => (target.type === 'order' ? '"Order"' : '"Inquiry"')
+
+const targetColumn = (target: AssignmentTarget) => (target.type === 'order' ? '"orderId"' : '"inquiryId"')
+
+// Categories of the order's catalogue items and all their ancestors
+const ORDER_CATEGORIES_SQL = `
+  WITH RECURSIVE item_categories AS (
+    SELECT c.id, c."parentId"
+    FROM "OrderItem" oi
+    JOIN "Product" p ON p.id = oi."productId"
+    JOIN "Category" c ON c.id = p."categoryId"
+    WHERE oi."orderId" = $1
+    UNION
+    SELECT c.id, c."parentId"
+    FROM "Category" c
+    JOIN item_categories ic ON c.id = ic."parentId"
+  )
+  SELECT id FROM item_categories
+`
+
+/**
+ * Active admin of an active rule of this type, least recently assigned first. detail names the
+ * matched category for category rules.
+ */
+async function findCandidate(
+  type: AssignmentRuleType,
+  condition: string,
+  values: any[],
+  db: Queryable,
+): Promise<{ username: string; detail: string | null } | null> {
+  const result = await db.query(
+    `
+    SELECT r."adminUsername" AS username, MIN(c.name) AS detail
+    FROM "AssignmentRule" r
+    JOIN "Admin" a ON a.username = r."adminUsername" AND a."isActive"
+    LEFT JOIN "Category" c ON c.id = r."categoryId"
+    WHERE r.active AND r.type = '${type}' AND ${condition}
+    GROUP BY r."adminUsername"
+    ORDER BY
+      (SELECT MAX(h."createdAt") FROM "AssignmentHistory" h WHERE h."toAdmin" = r."adminUsername") ASC NULLS FIRST,
+      r."adminUsername"
+    LIMIT 1
+    `,
+    values,
+  )
+  return result.rows[0] ?? null
+}
+
+async function setOwner(
+  target: AssignmentTarget,
+  fromAdmin: string | null,
+  toAdmin: string | null,
+  reason: string | null,
+  changedBy: string | null,
+  db: Queryable,
+): Promise<void> {
+  await db.query(`UPDATE ${targetTable(target)} SET "assignedTo" = $1, "updatedAt" = NOW() WHERE id = $2`, [
+    toAdmin,
+    target.id,
+  ])
+  await db.query(
+    `
+    INSERT INTO "AssignmentHistory" (${targetColumn(target)}, "fromAdmin", "toAdmin", reason, "changedBy")
+    VALUES ($1, $2, $3, $4, $5)
+    `,
+    [target.id, fromAdmin, toAdmin, reason, changedBy],
+  )
+}
+
+/**
+ * Assign a new order or inquiry by the assignment rules; call in the transaction that creates it,
+ * after its items. Returns the owner, or null when no rule matched.
+ */
+export async function autoAssign(target: AssignmentTarget, db: Queryable = pgPool): Promise<string | null> {
+  // One at a time, so concurrent submissions do not all go to the same admin
+  await db.query(`SELECT pg_advisory_xact_lock(hashtext('auto-assignment'))`)
+
+  const contact = await db.query(
+    target.type === 'order'
+      ? `SELECT "companyAddress" AS address, phone FROM "Order" WHERE id = $1`
+      : `SELECT NULL AS address, phone FROM "Inquiry" WHERE id = $1`,
+    [target.id],
+  )
+  if (contact.rows.length === 0) return null
+  const territory = detectTerritory(contact.rows[0])
+
+  let candidate: { username: string; detail: string | null } | null = null
+  let reason = ''
+  if (target.type === 'order') {
+    candidate = await findCandidate('category', `r."categoryId" IN (${ORDER_CATEGORIES_SQL})`, [target.id], db)
+    reason = `Product category: ${candidate?.detail}`
+  }
+  if (!candidate && territory) {
+    candidate = await findCandidate('territory', 'r.territory = $1', [territory], db)
+    reason = `Territory: ${TERRITORY_LABELS[territory]}`
+  }
+  if (!candidate) {
+    candidate = await findCandidate('round_robin', 'TRUE', [], db)
+    reason = 'Round-robin'
+  }
+  if (!candidate) return null
+
+  await setOwner(target, null, candidate.username, reason, null, db)
+  return candidate.username
+}
+
+/**
+ * Change the owner of an order or inquiry; null unassigns it. Nothing is recorded when the owner
+ * stays the same. Returns the new owner.
+ */
+export async function assignOwner(
+  target: AssignmentTarget,
+  assignedTo: string | null,
+  change: { changedBy: string; comment?: string | null },
+  db: Queryable = pgPool,
+): Promise<string | null> {
+  const current = await db.query(`SELECT "assignedTo" FROM ${targetTable(target)} WHERE id = $1 FOR UPDATE`, [
+    target.id,
+  ])
+  if (current.rows.length === 0) {
+    throw new AssignmentError(target.type === 'order' ? 'Order not found' : 'Inquiry not found', 404)
+  }
+
+  const previous: string | null = current.rows[0].assignedTo
+  if (previous === assignedTo) return previous
+
+  if (assignedTo !== null) {
+    const admin = await db.query(`SELECT 1 FROM "Admin" WHERE username = $1 AND "isActive"`, [assignedTo])
+    if (admin.rows.length === 0) {
+      throw new AssignmentError(`${assignedTo} is not an active admin`)
+    }
+  }
+
+  await setOwner(target, previous, assignedTo, change.comment?.trim() || null, change.changedBy, db)
+  return assignedTo
+}
+
+/**
+ * Owner changes of an order or inquiry, oldest first
+ */
+export async function fetchAssignmentHistory(
+  target: AssignmentTarget,
+  db: Queryable = pgPool,
+): Promise<AssignmentHistoryEntry[]> {
+  const result = await db.query(
+    `
+    SELECT id, "fromAdmin", "toAdmin", reason, "changedBy", "createdAt"
+    FROM "AssignmentHistory"
+    WHERE ${targetColumn(target)} = $1
+    ORDER BY "createdAt" ASC, id ASC
+    `,
+    [target.id],
+  )
+  return result.rows
+}
+
+/**
+ * Usernames of the admins that orders and inquiries can be assigned to
+ */
+export async function fetchAssignableAdmins(db: Queryable = pgPool): Promise<string[]> {
+  const result = await db.query(`SELECT username FROM "Admin" WHERE "isActive" ORDER BY username`)
+  return result.rows.map((row) => row.username)
+}
@@ -0,0 +1,273 @@
+import type { PoolClient } from 'pg'
+import { pgPool } from '@/lib/pg'
+import { normalizePartNumber } from '@/lib/product-search'
+import { DISCONTINUED_SQL } from '@/lib/product-lifecycle'
+import { ParsedSheet, ProductImportError } from '@/lib/product-spreadsheet'
+import { bomLineSchema } from '@/lib/zod-schemas'
+import type { BomLineMatch, BomLineProduct, BomMatchSource, BomSuggestion, CrossReferenceEquivalence } from '@/types'
+
+/**
+ * Bill of materials upload: turns a CSV/XLSX sheet or a pasted list into part number +
+ * quantity lines and matches them against our SKUs, MPNs and competitor cross-references
+ */
+
+type Queryable = Pick<PoolClient, 'query'>
+
+export const MAX_BOM_LINES = 500
+export const MAX_BOM_TEXT_LENGTH = 100_000
+
+const MAX_SUGGESTIONS = 3
+
+export interface ParsedBom {
+  lines: Omit<BomLineMatch, 'product' | 'matchedBy' | 'suggestions'>[]
+  // 1-based line numbers that had a part number but could not be read (e.g. a bad quantity)
+  skipped: { line: number; message: string }[]
+}
+
+type BomField = 'partNumber' | 'quantity' | 'description' | 'manufacturer'
+
+// Header names seen in customer BOMs, compared without case, spaces or punctuation
+const HEADER_ALIASES: Record<BomField, string[]> = {
+  partNumber: [
+    'partnumber', 'partno', 'part', 'pn', 'sku', 'mpn', 'manufacturerpartnumber', 'mfrpartnumber',
+    'mfrpn', 'ordercode', 'ordernumber', 'articlenumber', 'article', 'catalognumber',
+  ],
+  quantity: ['quantity', 'qty', 'qnty', 'pcs', 'units', 'count', 'amount'],
+  description: ['description', 'desc', 'name', 'productname', 'itemdescription'],
+  manufacturer: ['manufacturer', 'mfr', 'mfg', 'make', 'brand', 'vendor'],
+}
+
+const resolveHeader = (header: string): BomField | undefined => {
+  const key = normalizePartNumber(header)
+  return (Object.keys(HEADER_ALIASES) as BomField[]).find((field) => HEADER_ALIASES[field].includes(key))
+}
+
+/**
+ * "10", "1,000", "5 pcs" and "x5" are all quantities; an empty cell means one
+ */
+export function parseBomQuantity(raw: string): number | null {
+  const value = raw
+    .trim()
+    .toLowerCase()
+    .replace(/^x\s*/, '')
+    .replace(/\s*(pcs|pc|nos|no|ea|units?|x)\.?$/, '')
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+  if (value === '') return 1
+  if (!/^\d+(\.0+)?$/.test(value)) return null
+  return Number(value)
+}
+
+const looksLikeQuantity = (value: string) => value.trim() !== '' && parseBomQuantity(value) !== null
+
+/**
+ * Read BOM lines from a table. With a recognizable header row its columns are used;
+ * otherwise the first column is the part number and the first numeric column after it
+ * the quantity.
+ */
+export function bomLinesFromTable(table: string[][]): ParsedBom {
+  const rows = table.filter((cells) => cells.some((cell) => cell.trim() !== ''))
+  const headerFields = (rows[0] ?? []).map(resolveHeader)
+  const hasHeader = headerFields.includes('partNumber')
+
+  const columns: Partial<Record<BomField, number>> = {}
+  if (hasHeader) {
+    headerFields.forEach((field, index) => {
+      if (field && columns[field] === undefined) columns[field] = index
+    })
+  } else {
+    columns.partNumber = 0
+    const width = Math.max(0, ...rows.map((cells) => cells.length))
+    for (let index = 1; index < width; index++) {
+      const values = rows.map((cells) => cells[index] ?? '').filter((value) => value.trim() !== '')
+      if (values.length === 0) continue
+      if (columns.quantity === undefined && values.every(looksLikeQuantity)) {
+        columns.quantity = index
+      } else if (columns.description === undefined && !values.every(looksLikeQuantity)) {
+        columns.description = index
+      }
+    }
+  }
+
+  const cell = (cells: string[], field: BomField) => {
+    const index = columns[field]
+    return index === undefined ? '' : (cells[index] ?? '').trim()
+  }
+
+  const parsed: ParsedBom = { lines: [], skipped: [] }
+  const dataRows = hasHeader ? rows.slice(1) : rows
+
+  dataRows.forEach((cells, index) => {
+    const line = index + 1
+    const partNumber = cell(cells, 'partNumber')
+    if (!partNumber) return
+
+    const quantity = parseBomQuantity(cell(cells, 'quantity'))
+    const result = bomLineSchema.safeParse({
+      partNumber,
+      quantity: quantity ?? NaN,
+      description: cell(cells, 'description') || undefined,
+      manufacturer: cell(cells, 'manufacturer') || undefined,
+    })
+    if (!result.success) {
+      const message = quantity === null ? 'Quantity is not a number' : result.error.errors[0]?.message
+      parsed.skipped.push({ line, message: message || 'Line could not be read' })
+      return
+    }
+    parsed.lines.push({ line, ...result.data })
+  })
+
+  if (parsed.lines.length > MAX_BOM_LINES) {
+    throw new ProductImportError(`A BOM can have at most ${MAX_BOM_LINES} lines`)
+  }
+
+  return parsed
+}
+
+export function bomLinesFromSheet(sheet: ParsedSheet): ParsedBom {
+  return bomLinesFromTable([sheet.headers, ...sheet.rows])
+}
+
+/**
+ * Pasted lists: tab-separated (copied from a spreadsheet), semicolon- or comma-separated,
+ * or "part number quantity [description]" separated by spaces. "5x PART" also works.
+ */
+export function bomLinesFromText(text: string): ParsedBom {
+  if (text.length > MAX_BOM_TEXT_LENGTH) {
+    throw new ProductImportError(`Pasted list is too long (at most ${MAX_BOM_TEXT_LENGTH.toLocaleString('en-IN')} characters)`)
+  }
+
+  const textLines = text.split(/\r?\n/)
+  const filled = textLines.filter((line) => line.trim() !== '')
+  // Part numbers like "SAC-4P-M12MS/5,0-PUR" contain commas, so commas only separate
+  // columns when every line below the first has a quantity column after them
+  const isCsv = filled.length > 0 && filled.every((line, index) => {
+    const fields = line.split(',')
+    return fields.length > 1 && (index === 0 || fields.slice(1).some(looksLikeQuantity))
+  })
+  const delimiter = ['\t', ';'].find((candidate) => filled.some((line) => line.includes(candidate))) ?? (isCsv ? ',' : undefined)
+
+  const table = textLines.map((line) => {
+    if (delimiter) return line.split(delimiter)
+
+    const tokens = line.trim().split(/\s+/)
+    if (tokens.length > 1 && /^\d+\s*x?$/i.test(tokens[0])) {
+      const [quantity, partNumber, ...description] = tokens
+      return [partNumber, quantity, description.join(' ')]
+    }
+    const [partNumber, ...rest] = tokens
+    // "25 pcs" is one quantity
+    if (rest.length > 1 && looksLikeQuantity(`${rest[0]} ${rest[1]}`) && !looksLikeQuantity(rest[1])) {
+      return [partNumber, `${rest[0]} ${rest[1]}`, rest.slice(2).join(' ')]
+    }
+    if (rest.length > 0 && looksLikeQuantity(rest[0])) {
+      return [partNumber, rest[0], rest.slice(1).join(' ')]
+    }
+    return [partNumber, '', rest.join(' ')]
+  })
+
+  return bomLinesFromTable(table)
+}
+
+const PRODUCT_JSON_SQL = `json_build_object('id', p.id, 'sku', p.sku, 'mpn', p.mpn, 'name', p.name)`
+
+/**
+ * Match parsed lines, in order of confidence:
+ * 1. an exact SKU or MPN (ignoring case and punctuation)
+ * 2. a direct-replacement cross-reference of a competitor part number
+ * Lines left unmatched get suggestions: other cross-references and similar part numbers.
+ * Discontinued products are only matched by their own part number, never suggested.
+ */
+export async function matchBomLines(lines: ParsedBom['lines'], db: Queryable = pgPool): Promise<BomLineMatch[]> {
+  const keyed = lines.map((line) => ({ ...line, key: normalizePartNumber(line.partNumber) }))
+  const indexes = keyed.map((_, index) => index)
+  const keys = keyed.map((line) => line.key)
+  const manufacturers = keyed.map((line) => line.manufacturer ?? null)
+
+  if (keyed.length === 0) return []
+
+  const linesSql = `SELECT * FROM unnest($1::int[], $2::text[], $3::text[]) AS l(idx, key, manufacturer) WHERE key <> ''`
+
+  const exactResult = await db.query<{ idx: number; product: BomLineProduct; matchedBy: BomMatchSource }>(
+    `
+    WITH lines AS (${linesSql})
+    SELECT DISTINCT ON (l.idx)
+      l.idx,
+      ${PRODUCT_JSON_SQL} AS product,
+      CASE WHEN product_part_number(p.sku) = l.key THEN 'sku' ELSE 'mpn' END AS "matchedBy"
+    FROM lines l
+    JOIN "Product" p ON ' ' || p."searchPartNumbers" || ' ' LIKE '% ' || l.key || ' %'
+    ORDER BY l.idx, (product_part_number(p.sku) = l.key) DESC, ${DISCONTINUED_SQL} ASC, p.sku
+    `,
+    [indexes, keys, manufacturers],
+  )
+
+  const crossReferenceResult = await db.query<{
+    idx: number
+    product: BomLineProduct
+    equivalence: CrossReferenceEquivalence
+  }>(
+    `
+    WITH lines AS (${linesSql})
+    SELECT l.idx, ${PRODUCT_JSON_SQL} AS product, x.equivalence
+    FROM lines l
+    JOIN "CrossReference" x ON x."partNumberKey" = l.key
+    JOIN "Product" p ON p.id = x."productId"
+    WHERE NOT ${DISCONTINUED_SQL}
+    ORDER BY
+      l.idx,
+      (l.manufacturer IS NOT NULL AND lower(x.manufacturer) = lower(l.manufacturer)) DESC,
+      CASE x.equivalence WHEN 'direct' THEN 0 WHEN 'functional' THEN 1 ELSE 2 END,
+      p.sku
+    `,
+    [indexes, keys, manufacturers],
+  )
+
+  const matches = new Map<number, { product: BomLineProduct; matchedBy: BomMatchSource }>()
+  exactResult.rows.forEach((row) => matches.set(row.idx, { product: row.product, matchedBy: row.matchedBy }))
+
+  const suggestions = new Map<number, BomSuggestion[]>()
+  const addSuggestion = (idx: number, suggestion: BomSuggestion) => {
+    const list = suggestions.get(idx) ?? []
+    if (list.length < MAX_SUGGESTIONS && !list.some((entry) => entry.product.id === suggestion.product.id)) {
+      suggestions.set(idx, [...list, suggestion])
+    }
+  }
+
+  crossReferenceResult.rows.forEach((row) => {
+    if (matches.has(row.idx)) return
+    if (row.equivalence === 'direct' && !suggestions.has(row.idx)) {
+      matches.set(row.idx, { product: row.product, matchedBy: 'crossReference' })
+    } else {
+      addSuggestion(row.idx, { product: row.product, reason: 'crossReference', equivalence: row.equivalence })
+    }
+  })
+
+  const unmatched = indexes.filter((idx) => !matches.has(idx) && keys[idx].length >= 3)
+  if (unmatched.length > 0) {
+    const similarResult = await db.query<{ idx: number; product: BomLineProduct }>(
+      `
+      WITH lines AS (${linesSql})
+      SELECT l.idx, s.product
+      FROM lines l
+      CROSS JOIN LATERAL (
+        SELECT ${PRODUCT_JSON_SQL} AS product
+        FROM "Product" p
+        WHERE l.key <% p."searchPartNumbers" AND NOT ${DISCONTINUED_SQL}
+        ORDER BY word_similarity(l.key, p."searchPartNumbers") DESC, p.sku
+        LIMIT ${MAX_SUGGESTIONS}
+      ) s
+      WHERE l.idx = ANY($4::int[])
+      ORDER BY l.idx
+      `,
+      [indexes, keys, manufacturers, unmatched],
+    )
+    similarResult.rows.forEach((row) => addSuggestion(row.idx, { product: row.product, reason: 'similar' }))
+  }
+
+  return keyed.map(({ key: _key, ...line }, idx) => ({
+    ...line,
+    product: matches.get(idx)?.product ?? null,
+    matchedBy: matches.get(idx)?.matchedBy ?? null,
+    suggestions: matches.has(idx) ? [] : suggestions.get(idx) ?? [],
+  }))
+}
@@ -0,0 +1,95 @@
+import type { PoolClient } from 'pg'
+import { z } from 'zod'
+import { pgPool } from '@/lib/pg'
+import type { CategoryAttribute, ProductAttributeValue } from '@/types'
+
+/**
+ * Category attribute templates.
+ * A category's template is its own attributes plus those of every ancestor up the
+ * parentId chain; a child can redefine an inherited key to change its label, options or flags.
+ */
+
+const MAX_CATEGORY_DEPTH = 20
+
+type Queryable = Pick<PoolClient, 'query'>
+
+const byDisplayOrder = (a: CategoryAttribute, b: CategoryAttribute) =>
+  a.sortOrder - b.sortOrder || a.label.localeCompare(b.label)
+
+/**
+ * Resolved template for a category, nearest definition winning for each key
+ */
+export async function fetchCategoryTemplate(
+  categoryId: string | null | undefined,
+  db: Queryable = pgPool,
+): Promise<CategoryAttribute[]> {
+  if (!categoryId) return []
+
+  const result = await db.query<CategoryAttribute>(
+    `
+    WITH RECURSIVE ancestry AS (
+      SELECT id, "parentId", 0 AS depth FROM "Category" WHERE id = $1
+      UNION ALL
+      SELECT c.id, c."parentId", a.depth + 1
+      FROM "Category" c
+      JOIN ancestry a ON c.id = a."parentId"
+      WHERE a.depth < $2
+    )
+    SELECT DISTINCT ON (ca.key)
+      ca.id, ca."categoryId", ca.key, ca.label, ca."dataType", ca.unit, ca."allowedValues",
+      ca.required, ca.filterable, ca.comparable, ca."sortOrder",
+      a.depth > 0 AS inherited
+    FROM ancestry a
+    JOIN "CategoryAttribute" ca ON ca."categoryId" = a.id
+    ORDER BY ca.key, a.depth
+    `,
+    [categoryId, MAX_CATEGORY_DEPTH],
+  )
+
+  return result.rows.sort(byDisplayOrder)
+}
+
+const isEmpty = (value: unknown) => value === null || value === undefined || (typeof value === 'string' && value.trim() === '')
+
+function valueSchema(attribute: CategoryAttribute): z.ZodTypeAny {
+  const required_error = `${attribute.label} is required`
+  switch (attribute.dataType) {
+    case 'number':
+      return z.coerce.number({ required_error, invalid_type_error: `${attribute.label} must be a number` })
+    case 'boolean':
+      return z.union([z.boolean(), z.enum(['true', 'false']).transform((v) => v === 'true')], {
+        required_error,
+        invalid_type_error: `${attribute.label} must be yes or no`,
+      })
+    case 'select':
+      return z.string({ required_error }).refine((v) => attribute.allowedValues.includes(v), {
+        message: `${attribute.label} must be one of: ${attribute.allowedValues.join(', ')}`,
+      })
+    default:
+      return z.coerce.string({ required_error }).trim().max(500)
+  }
+}
+
+/**
+ * Validate attribute values against a template. Empty values are dropped, keys
+ * outside the template are discarded, and a ZodError with paths like
+ * attributes.jacketMaterial is thrown for invalid or missing required values.
+ */
+export function validateProductAttributes(
+  template: CategoryAttribute[],
+  values: Record<string, unknown> | null | undefined,
+): Record<string, ProductAttributeValue> {
+  const shape: Record<string, z.ZodTypeAny> = {}
+  for (const attribute of template) {
+    const schema = valueSchema(attribute)
+    shape[attribute.key] = attribute.required ? schema : schema.optional()
+  }
+
+  const provided: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(values ?? {})) {
+    if (!isEmpty(value)) provided[key] = value
+  }
+
+  const parsed = z.object({ attributes: z.object(shape) }).parse({ attributes: provided })
+  return parsed.attributes as Record<string, ProductAttributeValue>
+}
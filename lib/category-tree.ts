@@ -0,0 +1,87 @@
+import type { Category, CategoryBreadcrumb, CategoryTreeNode } from '@/types'
+
+/**
+ * Category hierarchy helpers shared by the tree API, server components and client
+ * navigation. Safe to import from client components.
+ */
+
+const bySiblingOrder = (a: CategoryTreeNode, b: CategoryTreeNode) =>
+  a.sortOrder - b.sortOrder || a.name.localeCompare(b.name)
+
+/**
+ * Nest a flat category list by parentId, sort siblings and roll product counts up
+ * to every ancestor. Categories whose parent is missing become roots; categories
+ * caught in a parentId cycle (which PUT /api/categories/:id prevents) are attached
+ * once, at the first point the walk reaches them.
+ */
+export function buildCategoryTree(
+  categories: Array<Pick<Category, 'id' | 'name' | 'slug' | 'description' | 'image' | 'parentId' | 'sortOrder'>>,
+  directCounts: Record<string, number> = {},
+): CategoryTreeNode[] {
+  const nodes = new Map<string, CategoryTreeNode>()
+  for (const category of categories) {
+    nodes.set(category.id, {
+      id: category.id,
+      name: category.name,
+      slug: category.slug,
+      description: category.description ?? null,
+      image: category.image ?? null,
+      parentId: category.parentId ?? null,
+      sortOrder: category.sortOrder ?? 0,
+      productCount: 0,
+      children: [],
+    })
+  }
+
+  const childrenOf = new Map<string | null, CategoryTreeNode[]>()
+  for (const node of Array.from(nodes.values())) {
+    const parentKey = node.parentId && nodes.has(node.parentId) ? node.parentId : null
+    const siblings = childrenOf.get(parentKey) ?? []
+    siblings.push(node)
+    childrenOf.set(parentKey, siblings)
+  }
+
+  const visited = new Set<string>()
+  const attach = (node: CategoryTreeNode): number => {
+    visited.add(node.id)
+    let count = directCounts[node.id] ?? 0
+    for (const child of (childrenOf.get(node.id) ?? []).sort(bySiblingOrder)) {
+      if (visited.has(child.id)) continue
+      node.children.push(child)
+      count += attach(child)
+    }
+    node.productCount = count
+    return count
+  }
+
+  const roots = (childrenOf.get(null) ?? []).sort(bySiblingOrder)
+  roots.forEach(attach)
+
+  // Nodes only reachable through a cycle
+  for (const node of Array.from(nodes.values()).sort(bySiblingOrder)) {
+    if (visited.has(node.id)) continue
+    roots.push(node)
+    attach(node)
+  }
+
+  return roots
+}
+
+/**
+ * Depth-first list of all nodes, parents before their children
+ */
+export function flattenCategoryTree(tree: CategoryTreeNode[]): CategoryTreeNode[] {
+  return tree.flatMap((node) => [node, ...flattenCategoryTree(node.children)])
+}
+
+/**
+ * Path from the root to a category (inclusive), or [] when it is not in the tree
+ */
+export function findCategoryPath(tree: CategoryTreeNode[], categoryId: string): CategoryBreadcrumb[] {
+  for (const node of tree) {
+    if (node.id === categoryId) return [{ id: node.id, name: node.name, slug: node.slug }]
+    const path = findCategoryPath(node.children, categoryId)
+    if (path.length > 0) return [{ id: node.id, name: node.name, slug: node.slug }, ...path]
+  }
+  return []
+}
@@ -40,10 +40,58 @@ export const categorySchema = z.object({
   description: z.string().optional(),
   image: imageUrlSchema,
   parentId: z.union([z.string().uuid(), z.literal('')]).optional(),
+  sortOrder: z.number().int().min(0, 'Sort order cannot be negative').optional(),
 })
 
 export const categoryUpdateSchema = categorySchema.partial()
 
+// Attribute keys are used as JSON keys and in attr.<key> query params
+export const ATTRIBUTE_KEY_PATTERN = /^[a-z][a-zA-Z0-9]*$/
+
+export const categoryAttributeSchema = z
+  .object({
+    key: z
+      .string()
+      .trim()
+      .max(50, 'Key must be at most 50 characters')
+      .regex(ATTRIBUTE_KEY_PATTERN, {
+        message: 'Key must start with a lowercase letter and contain only letters and numbers (e.g. jacketMaterial)',
+      }),
+    label: z.string().trim().min(1, 'Label is required').max(100),
+    dataType: z.enum(['text', 'number', 'boolean', 'select']).default('text'),
+    unit: z.string().trim().max(20).optional().nullable(),
+    allowedValues: z.array(z.string().trim().min(1)).max(100).default([]),
+    required: z.boolean().default(false),
+    filterable: z.boolean().default(false),
+    comparable: z.boolean().default(true),
+    sortOrder: z.number().int().default(0),
+  })
+  .refine((attribute) => attribute.dataType !== 'select' || attribute.allowedValues.length > 0, {
+    message: 'Select attributes need at least one allowed value',
+    path: ['allowedValues'],
+  })
+
+// Replaces the attributes a category defines itself; inherited ones are edited on the ancestor
+export const categoryAttributesSchema = z.object({
+  attributes: z
+    .array(categoryAttributeSchema)
+    .max(100)
+    .superRefine((attributes, ctx) => {
+      const seen = new Set<string>()
+      attributes.forEach((attribute, index) => {
+        if (seen.has(attribute.key)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Duplicate attribute key "${attribute.key}"`,
+            path: [index, 'key'],
+          })
+        }
+        seen.add(attribute.key)
+      })
+    }),
+})
+
 export type CategoryInput = z.infer<typeof categorySchema>
 export type CategoryUpdateInput = z.infer<typeof categoryUpdateSchema>
+export type CategoryAttributeInput = z.infer<typeof categoryAttributeSchema>
 
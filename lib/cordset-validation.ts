@@ -0,0 +1,209 @@
+import { z } from 'zod'
+import type {
+  CordsetConfiguration,
+  CordsetOption,
+  CordsetOptionGroup,
+  CordsetRule,
+  CordsetStepKey,
+} from '@/types'
+
+/**
+ * Cordset configurator: steps, admin input schemas and the compatibility, part number
+ * and price logic shared by the configurator page and the order API
+ */
+
+export const CORDSET_OPTION_GROUPS = [
+  'connector',
+  'coding',
+  'pins',
+  'cableType',
+  'mantle',
+  'shielding',
+  'length',
+] as const
+
+export const CORDSET_GROUP_LABELS: Record<CordsetOptionGroup, string> = {
+  connector: 'Connector',
+  coding: 'Coding',
+  pins: 'Pins',
+  cableType: 'Cable type',
+  mantle: 'Mantle material',
+  shielding: 'Shielding',
+  length: 'Cable length',
+}
+
+export const CORDSET_STEPS: { key: CordsetStepKey; group: CordsetOptionGroup; label: string }[] = [
+  { key: 'connectorA', group: 'connector', label: 'Connector A' },
+  { key: 'connectorB', group: 'connector', label: 'Connector B' },
+  { key: 'coding', group: 'coding', label: 'Coding' },
+  { key: 'pins', group: 'pins', label: 'Pins' },
+  { key: 'cableType', group: 'cableType', label: 'Cable type' },
+  { key: 'mantle', group: 'mantle', label: 'Mantle material' },
+  { key: 'shielding', group: 'shielding', label: 'Shielding' },
+  { key: 'length', group: 'length', label: 'Cable length' },
+]
+
+export const CORDSET_PART_NUMBER_PREFIX = 'CS'
+
+// Part number segments: uppercase letters, digits and dots
+const CORDSET_CODE_PATTERN = /^[A-Z0-9.]+$/
+
+export const cordsetOptionSchema = z
+  .object({
+    group: z.enum(CORDSET_OPTION_GROUPS),
+    code: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .min(1, 'Code is required')
+      .max(10)
+      .regex(CORDSET_CODE_PATTERN, 'Use uppercase letters, digits and dots'),
+    label: z.string().trim().min(1, 'Label is required').max(100),
+    price: z.coerce.number().min(0, 'Price cannot be negative').default(0),
+    pricePerMeter: z.coerce.number().min(0, 'Price per meter cannot be negative').default(0),
+    lengthMeters: z.coerce.number().positive('Length must be positive').nullable().optional(),
+    sortOrder: z.coerce.number().int().default(0),
+    active: z.boolean().default(true),
+  })
+  .superRefine((option, ctx) => {
+    if (option.group === 'length' && !option.lengthMeters) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Length options need a length in meters',
+        path: ['lengthMeters'],
+      })
+    }
+  })
+
+export const cordsetRuleSchema = z
+  .object({
+    optionId: z.string().uuid('Invalid option'),
+    type: z.enum(['requires', 'excludes']),
+    targetOptionId: z.string().uuid('Invalid option'),
+    message: z.string().trim().max(200).nullable().optional(),
+  })
+  .refine((rule) => rule.optionId !== rule.targetOptionId, {
+    message: 'An option cannot have a rule on itself',
+    path: ['targetOptionId'],
+  })
+
+export const cordsetSelectionSchema = z.object(
+  Object.fromEntries(CORDSET_STEPS.map((step) => [step.key, z.string().uuid(`Choose a ${step.label.toLowerCase()}`)])) as Record<
+    CordsetStepKey,
+    z.ZodString
+  >,
+)
+
+export type CordsetOptionInput = z.infer<typeof cordsetOptionSchema>
+export type CordsetRuleInput = z.infer<typeof cordsetRuleSchema>
+export type CordsetSelection = Partial<Record<CordsetStepKey, string>>
+
+const describeRule = (rule: CordsetRule, option: CordsetOption, target: CordsetOption) =>
+  rule.message ||
+  (rule.type === 'requires'
+    ? `${option.label} requires ${target.label}`
+    : `${option.label} cannot be combined with ${target.label}`)
+
+/**
+ * Messages of the rules a (possibly partial) selection breaks. A "requires" rule is met
+ * when any of the option's required options of that group is chosen, and is only checked
+ * once that group has been chosen. Connector rules apply to either end.
+ */
+export function findCordsetViolations(
+  selection: CordsetSelection,
+  options: CordsetOption[],
+  rules: CordsetRule[],
+): string[] {
+  const optionsById = new Map(options.map((option) => [option.id, option]))
+  const selectedIds = new Set(Object.values(selection).filter((id): id is string => !!id))
+  const selectedGroups = new Set(
+    Array.from(selectedIds)
+      .map((id) => optionsById.get(id)?.group)
+      .filter(Boolean),
+  )
+  const violations: string[] = []
+
+  // Requires rules of one option on one group are alternatives
+  const requirements = new Map<string, CordsetRule[]>()
+
+  for (const rule of rules) {
+    if (!selectedIds.has(rule.optionId)) continue
+    const option = optionsById.get(rule.optionId)
+    const target = optionsById.get(rule.targetOptionId)
+    if (!option || !target) continue
+
+    if (rule.type === 'excludes') {
+      if (selectedIds.has(target.id)) violations.push(describeRule(rule, option, target))
+    } else if (selectedGroups.has(target.group)) {
+      const key = `${rule.optionId}:${target.group}`
+      requirements.set(key, [...(requirements.get(key) ?? []), rule])
+    }
+  }
+
+  requirements.forEach((alternatives) => {
+    if (!alternatives.some((rule) => selectedIds.has(rule.targetOptionId))) {
+      const rule = alternatives[0]
+      violations.push(describeRule(rule, optionsById.get(rule.optionId)!, optionsById.get(rule.targetOptionId)!))
+    }
+  })
+
+  return Array.from(new Set(violations))
+}
+
+const selectedOptions = (selection: CordsetSelection, options: CordsetOption[]) => {
+  const optionsById = new Map(options.map((option) => [option.id, option]))
+  return CORDSET_STEPS.map((step) => {
+    const option = optionsById.get(selection[step.key] ?? '')
+    return { step, option: option?.group === step.group ? option : undefined }
+  })
+}
+
+/**
+ * Part number of a complete selection: the option codes in step order,
+ * e.g. CS-M12FS-M12MA-A-4-STD-PUR-U-5M; null while a step is open
+ */
+export function buildCordsetPartNumber(selection: CordsetSelection, options: CordsetOption[]): string | null {
+  const chosen = selectedOptions(selection, options)
+  if (chosen.some(({ option }) => !option)) return null
+  return [CORDSET_PART_NUMBER_PREFIX, ...chosen.map(({ option }) => option!.code)].join('-')
+}
+
+/**
+ * Estimated unit price: fixed option prices plus per-meter prices times the cable length
+ */
+export function estimateCordsetPrice(selection: CordsetSelection, options: CordsetOption[]): number {
+  const chosen = selectedOptions(selection, options)
+    .map(({ option }) => option)
+    .filter((option): option is CordsetOption => !!option)
+  const meters = Number(chosen.find((option) => option.group === 'length')?.lengthMeters ?? 0)
+  const total = chosen.reduce(
+    (sum, option) => sum + Number(option.price) + Number(option.pricePerMeter) * meters,
+    0,
+  )
+  return Math.round(total * 100) / 100
+}
+
+/**
+ * Configuration of a complete, valid selection; null when a step is open or a rule is broken
+ */
+export function resolveCordsetConfiguration(
+  selection: CordsetSelection,
+  options: CordsetOption[],
+  rules: CordsetRule[],
+): CordsetConfiguration | null {
+  const partNumber = buildCordsetPartNumber(selection, options)
+  if (!partNumber || findCordsetViolations(selection, options, rules).length > 0) return null
+
+  return {
+    partNumber,
+    selections: selection as Record<CordsetStepKey, string>,
+    spec: selectedOptions(selection, options).map(({ step, option }) => ({ label: step.label, value: option!.label })),
+    estimatedPrice: estimateCordsetPrice(selection, options),
+  }
+}
+
+// RFQ line name, e.g. "Cordset M12 female, straight / M12 male, angled, 5 m"
+export const cordsetLineName = (configuration: CordsetConfiguration): string => {
+  const value = (label: string) => configuration.spec.find((line) => line.label === label)?.value ?? ''
+  return `Cordset ${value('Connector A')} / ${value('Connector B')}, ${value('Cable length')}`
+}
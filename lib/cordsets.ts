@@ -0,0 +1,67 @@
+import type { PoolClient } from 'pg'
+import { pgPool } from '@/lib/pg'
+import { resolveCordsetConfiguration, type CordsetSelection } from '@/lib/cordset-validation'
+import type { CordsetConfiguration, CordsetOption, CordsetRule } from '@/types'
+
+/**
+ * Admin-maintained cordset configurator options and rules (see lib/cordset-validation.ts)
+ */
+
+type Queryable = Pick<PoolClient, 'query'>
+
+export interface CordsetCatalog {
+  options: CordsetOption[]
+  rules: CordsetRule[]
+}
+
+export const CORDSET_OPTION_COLUMNS = `id, "group", code, label, price, "pricePerMeter", "lengthMeters", "sortOrder", active`
+
+export const toCordsetOption = (row: any): CordsetOption => ({
+  ...row,
+  price: Number(row.price),
+  pricePerMeter: Number(row.pricePerMeter),
+  lengthMeters: row.lengthMeters === null ? null : Number(row.lengthMeters),
+})
+
+/**
+ * Options and rules in display order. Without `includeInactive` only active options
+ * are returned, with the rules between them.
+ */
+export async function fetchCordsetCatalog(
+  options: { includeInactive?: boolean } = {},
+  db: Queryable = pgPool,
+): Promise<CordsetCatalog> {
+  const activeOnly = !options.includeInactive
+  const optionsResult = await db.query(
+    `
+    SELECT ${CORDSET_OPTION_COLUMNS}
+    FROM "CordsetOption"
+    ${activeOnly ? 'WHERE active' : ''}
+    ORDER BY "group" ASC, "sortOrder" ASC, label ASC
+    `,
+  )
+  const rulesResult = await db.query<CordsetRule>(
+    `
+    SELECT r.id, r."optionId", r.type, r."targetOptionId", r.message
+    FROM "CordsetRule" r
+    ${activeOnly ? `
+    JOIN "CordsetOption" o ON o.id = r."optionId" AND o.active
+    JOIN "CordsetOption" t ON t.id = r."targetOptionId" AND t.active` : ''}
+    ORDER BY r."createdAt" ASC
+    `,
+  )
+
+  return { options: optionsResult.rows.map(toCordsetOption), rules: rulesResult.rows }
+}
+
+/**
+ * Resolve a selection submitted with an RFQ against the current active options,
+ * so the stored part number, spec and price never come from the client
+ */
+export async function resolveSubmittedCordset(
+  selection: CordsetSelection,
+  db: Queryable = pgPool,
+): Promise<CordsetConfiguration | null> {
+  const catalog = await fetchCordsetCatalog({}, db)
+  return resolveCordsetConfiguration(selection, catalog.options, catalog.rules)
+}
@@ -0,0 +1,33 @@
+import { z } from 'zod'
+import type { CrossReferenceEquivalence } from '@/types'
+
+export const CROSS_REFERENCE_EQUIVALENCES = ['direct', 'functional', 'similar'] as const
+
+export const CROSS_REFERENCE_EQUIVALENCE_LABELS: Record<CrossReferenceEquivalence, string> = {
+  direct: 'Direct replacement',
+  functional: 'Functional equivalent',
+  similar: 'Similar',
+}
+
+// Suggested in the admin form and used to canonicalize the spelling of imported names
+export const COMPETITOR_MANUFACTURERS = ['Phoenix Contact', 'Lapp', 'Binder', 'Murrelektronik'] as const
+
+export const canonicalManufacturer = (name: string): string => {
+  const trimmed = name.trim()
+  return COMPETITOR_MANUFACTURERS.find((m) => m.toLowerCase() === trimmed.toLowerCase()) ?? trimmed
+}
+
+export const crossReferenceSchema = z.object({
+  manufacturer: z.string().trim().min(1, 'Manufacturer is required').max(100).transform(canonicalManufacturer),
+  partNumber: z
+    .string()
+    .trim()
+    .min(1, 'Part number is required')
+    .max(100)
+    .refine((value) => /[a-z0-9]/i.test(value), 'Part number must contain letters or digits'),
+  sku: z.string().trim().min(1, 'SKU is required'),
+  equivalence: z.enum(CROSS_REFERENCE_EQUIVALENCES).default('direct'),
+  notes: z.string().trim().max(500).nullable().optional(),
+})
+
+export type CrossReferenceInput = z.infer<typeof crossReferenceSchema>
@@ -0,0 +1,257 @@
+import type { PoolClient } from 'pg'
+import { pgPool } from '@/lib/pg'
+import { normalizePartNumber } from '@/lib/product-search'
+import { DISCONTINUED_SQL } from '@/lib/product-lifecycle'
+import { MAX_IMPORT_ROWS, ParsedSheet, ProductImportError } from '@/lib/product-spreadsheet'
+import { crossReferenceSchema, type CrossReferenceInput } from '@/lib/cross-reference-validation'
+import type { CrossReference } from '@/types'
+
+/**
+ * Competitor cross-references: a competitor manufacturer + part number mapped to one or
+ * more of our products. Part numbers are matched on their normalized key, so
+ * "SAC-4P-M12MS/5,0-PUR" and "sac4pm12ms50pur" find the same entries.
+ */
+
+type Queryable = Pick<PoolClient, 'query'>
+
+export const CROSS_REFERENCE_SELECT = `
+  SELECT
+    x.id, x.manufacturer, x."partNumber", x."productId", x.equivalence, x.notes,
+    x."createdAt", x."updatedAt",
+    json_build_object(
+      'id', p.id, 'sku', p.sku, 'mpn', p.mpn, 'name', p.name, 'images', p.images,
+      'lifecycleStatus', p."lifecycleStatus",
+      'lifecycleEffectiveDate', TO_CHAR(p."lifecycleEffectiveDate", 'YYYY-MM-DD')
+    ) AS product
+  FROM "CrossReference" x
+  JOIN "Product" p ON p.id = x."productId"
+`
+
+// Closest equivalents first
+const EQUIVALENCE_ORDER_SQL = `CASE x.equivalence WHEN 'direct' THEN 0 WHEN 'functional' THEN 1 ELSE 2 END`
+
+// Shorter keys only match exactly; prefixes like "sac" would match most of a catalog
+const MIN_PREFIX_LENGTH = 5
+const MAX_LOOKUP_RESULTS = 50
+
+/**
+ * Public lookup of a competitor part number, optionally narrowed to one manufacturer.
+ * Exact matches come before part numbers that merely start with the query.
+ * Discontinued products are not offered as equivalents.
+ */
+export async function lookupCrossReferences(
+  partNumber: string,
+  manufacturer: string | null = null,
+  db: Queryable = pgPool,
+): Promise<CrossReference[]> {
+  const key = normalizePartNumber(partNumber)
+  if (!key) return []
+
+  const result = await db.query<CrossReference>(
+    `
+    ${CROSS_REFERENCE_SELECT}
+    WHERE (x."partNumberKey" = $1 OR ($2::boolean AND x."partNumberKey" LIKE $1 || '%'))
+      AND ($3::text IS NULL OR lower(x.manufacturer) = lower($3))
+      AND NOT ${DISCONTINUED_SQL}
+    ORDER BY (x."partNumberKey" = $1) DESC, ${EQUIVALENCE_ORDER_SQL}, x.manufacturer, x."partNumber", p.sku
+    LIMIT ${MAX_LOOKUP_RESULTS}
+    `,
+    [key, key.length >= MIN_PREFIX_LENGTH, manufacturer],
+  )
+  return result.rows
+}
+
+/**
+ * Competitor parts that one of our products replaces, for the product page
+ */
+export async function fetchProductCrossReferences(productId: string, db: Queryable = pgPool): Promise<CrossReference[]> {
+  const result = await db.query<CrossReference>(
+    `
+    ${CROSS_REFERENCE_SELECT}
+    WHERE x."productId" = $1
+    ORDER BY ${EQUIVALENCE_ORDER_SQL}, x.manufacturer, x."partNumber"
+    `,
+    [productId],
+  )
+  return result.rows
+}
+
+export async function fetchCrossReference(id: string, db: Queryable = pgPool): Promise<CrossReference | null> {
+  const result = await db.query<CrossReference>(`${CROSS_REFERENCE_SELECT} WHERE x.id = $1`, [id])
+  return result.rows[0] ?? null
+}
+
+// ---------------------------------------------------------------------------
+// CSV/XLSX import
+// ---------------------------------------------------------------------------
+
+export type CrossReferenceImportAction = 'create' | 'update' | 'skip' | 'error'
+
+export interface CrossReferenceImportRow {
+  row: number
+  manufacturer: string
+  partNumber: string
+  sku: string
+  action: CrossReferenceImportAction
+  errors: { field: string; message: string }[]
+}
+
+export interface CrossReferenceImportPlan {
+  rows: CrossReferenceImportRow[]
+  summary: Record<CrossReferenceImportAction, number>
+}
+
+interface PlannedCrossReference extends CrossReferenceImportRow {
+  values?: CrossReferenceInput & { productId: string }
+}
+
+const IMPORT_COLUMNS = ['manufacturer', 'partNumber', 'sku', 'equivalence', 'notes'] as const
+type ImportColumn = (typeof IMPORT_COLUMNS)[number]
+const REQUIRED_COLUMNS: ImportColumn[] = ['manufacturer', 'partNumber', 'sku']
+
+// Headers are matched without case or punctuation, so "Part Number" and "part_number" work
+const resolveImportColumn = (header: string): ImportColumn | undefined =>
+  IMPORT_COLUMNS.find((column) => normalizePartNumber(column) === normalizePartNumber(header))
+
+/**
+ * Validate every row of an import and work out what it would change, without writing.
+ * Rows are keyed on manufacturer + part number + SKU; a matching row updates the
+ * equivalence and notes of the existing entry.
+ */
+export async function buildCrossReferenceImportPlan(
+  sheet: ParsedSheet,
+  db: Queryable,
+): Promise<{ plan: CrossReferenceImportPlan; planned: PlannedCrossReference[] }> {
+  const mapped = sheet.headers.map((header) => (header ? resolveImportColumn(header) : undefined))
+  const unknown = sheet.headers.filter((header, i) => header && !mapped[i])
+  if (unknown.length > 0) {
+    throw new ProductImportError(`Unknown columns: ${unknown.join(', ')}`)
+  }
+  const missing = REQUIRED_COLUMNS.filter((column) => !mapped.includes(column))
+  if (missing.length > 0) {
+    throw new ProductImportError(`Missing required columns: ${missing.join(', ')}`)
+  }
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw new ProductImportError(`Files are limited to ${MAX_IMPORT_ROWS} rows`)
+  }
+
+  const records = sheet.rows.map((cells) => {
+    const record: Record<string, string> = {}
+    mapped.forEach((column, i) => {
+      if (column && (cells[i] ?? '').trim() !== '') record[column] = cells[i]
+    })
+    return record
+  })
+
+  const skus = Array.from(new Set(records.map((r) => (r.sku || '').trim()).filter(Boolean)))
+  const productResult = await db.query<{ id: string; sku: string }>(
+    `SELECT id, sku FROM "Product" WHERE sku = ANY($1::text[])`,
+    [skus],
+  )
+  const productIdBySku = new Map(productResult.rows.map((r) => [r.sku, r.id]))
+
+  const existingResult = await db.query<{
+    manufacturer: string
+    partNumberKey: string
+    productId: string
+    partNumber: string
+    equivalence: string
+    notes: string | null
+  }>(
+    `
+    SELECT manufacturer, "partNumberKey", "productId", "partNumber", equivalence, notes
+    FROM "CrossReference"
+    WHERE "productId" = ANY($1::uuid[])
+    `,
+    [Array.from(productIdBySku.values())],
+  )
+  const entryKey = (manufacturer: string, partNumberKey: string, productId: string) =>
+    `${manufacturer}|${partNumberKey}|${productId}`
+  const existing = new Map(existingResult.rows.map((r) => [entryKey(r.manufacturer, r.partNumberKey, r.productId), r]))
+
+  const seen = new Map<string, number>()
+  const planned: PlannedCrossReference[] = records.map((record, i) => {
+    // Header is row 1 in the spreadsheet
+    const rowNumber = i + 2
+    const result: PlannedCrossReference = {
+      row: rowNumber,
+      manufacturer: (record.manufacturer || '').trim(),
+      partNumber: (record.partNumber || '').trim(),
+      sku: (record.sku || '').trim(),
+      action: 'error',
+      errors: [],
+    }
+
+    const parsed = crossReferenceSchema.safeParse(record)
+    if (!parsed.success) {
+      result.errors = parsed.error.errors.map((e) => ({ field: e.path.join('.'), message: e.message }))
+      return result
+    }
+
+    const values = parsed.data
+    const productId = productIdBySku.get(values.sku)
+    if (!productId) {
+      result.errors.push({ field: 'sku', message: 'Product not found' })
+      return result
+    }
+
+    const key = entryKey(values.manufacturer, normalizePartNumber(values.partNumber), productId)
+    if (seen.has(key)) {
+      result.errors.push({ field: 'partNumber', message: `Duplicate entry (also on row ${seen.get(key)})` })
+      return result
+    }
+    seen.set(key, rowNumber)
+
+    result.manufacturer = values.manufacturer
+    result.values = { ...values, productId }
+
+    const current = existing.get(key)
+    if (!current) {
+      result.action = 'create'
+    } else {
+      const unchanged =
+        current.partNumber === values.partNumber &&
+        current.equivalence === values.equivalence &&
+        (current.notes || null) === (values.notes || null)
+      result.action = unchanged ? 'skip' : 'update'
+    }
+    return result
+  })
+
+  const summary: Record<CrossReferenceImportAction, number> = { create: 0, update: 0, skip: 0, error: 0 }
+  planned.forEach((r) => summary[r.action]++)
+
+  return {
+    plan: { rows: planned.map(({ values: _values, ...row }) => row), summary },
+    planned,
+  }
+}
+
+/**
+ * Write a validated plan inside the caller's transaction
+ */
+export async function applyCrossReferenceImport(client: Queryable, planned: PlannedCrossReference[]): Promise<void> {
+  for (const row of planned) {
+    if ((row.action !== 'create' && row.action !== 'update') || !row.values) continue
+    const values = row.values
+    await client.query(
+      `
+      INSERT INTO "CrossReference" (manufacturer, "partNumber", "partNumberKey", "productId", equivalence, notes)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (manufacturer, "partNumberKey", "productId") DO UPDATE
+      SET "partNumber" = EXCLUDED."partNumber",
+          equivalence = EXCLUDED.equivalence,
+          notes = EXCLUDED.notes,
+          "updatedAt" = NOW()
+      `,
+      [
+        values.manufacturer,
+        values.partNumber,
+        normalizePartNumber(values.partNumber),
+        values.productId,
+        values.equivalence,
+        values.notes || null,
+      ],
+    )
+  }
+}
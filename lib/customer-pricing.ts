@@ -0,0 +1,173 @@
+import type { PoolClient } from 'pg'
+import type { NextRequest } from 'next/server'
+import { cookies } from 'next/headers'
+import { pgPool } from '@/lib/pg'
+import { log } from '@/lib/logger'
+import { verifyToken } from '@/lib/jwt'
+import { authenticateRequest } from '@/lib/auth-middleware'
+import type { PriceTier } from '@/types'
+
+/**
+ * Contract pricing for customer groups. A logged-in customer's group selects its
+ * price lists that are active today; a list item overrides the product price,
+ * otherwise the largest list discount applies to the catalog price and public tiers.
+ * Visitors and customers without a group see catalog prices.
+ */
+
+type Queryable = Pick<PoolClient, 'query'>
+
+export interface PricingContext {
+  customerGroupId: string
+  customerGroupCode: string
+}
+
+type PricedProduct = {
+  id: string
+  price?: number | string | null
+  priceTiers?: PriceTier[]
+}
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100
+
+export async function fetchUserPricingContext(
+  user: { email: string } | { userId: string },
+  db: Queryable = pgPool,
+): Promise<PricingContext | null> {
+  const [column, value] = 'email' in user ? ['u.email', user.email] : ['u.id', user.userId]
+  const result = await db.query<PricingContext>(
+    `
+    SELECT g.id AS "customerGroupId", g.code AS "customerGroupCode"
+    FROM "User" u
+    JOIN "CustomerGroup" g ON g.id = u."customerGroupId"
+    WHERE ${column} = $1 AND u."isActive" = TRUE
+    LIMIT 1
+    `,
+    [value],
+  )
+  return result.rows[0] ?? null
+}
+
+/**
+ * Pricing context of the customer logged in on an API request. Requests with an
+ * admin session get catalog prices, so the admin product form never loads (and
+ * saves back) a contract price.
+ */
+export async function getRequestPricingContext(req: NextRequest): Promise<PricingContext | null> {
+  if (authenticateRequest(req, { requireAuth: false, allowedRoles: ['admin', 'superadmin'], tokenType: 'admin_token' })) {
+    return null
+  }
+  const auth = authenticateRequest(req, { requireAuth: false, allowedRoles: ['customer'], tokenType: 'user_token' })
+  return auth ? fetchUserPricingContext({ email: auth.username }) : null
+}
+
+/**
+ * Pricing context of the customer logged in on a server component render;
+ * falls back to catalog prices if the group cannot be loaded
+ */
+export async function getServerPricingContext(): Promise<PricingContext | null> {
+  const token = cookies().get('user_token')?.value
+  const decoded = token ? verifyToken(token) : null
+  if (!decoded || decoded.role !== 'customer') return null
+  try {
+    return await fetchUserPricingContext({ email: decoded.username })
+  } catch (error) {
+    log.error('Error resolving customer pricing group', error)
+    return null
+  }
+}
+
+/**
+ * Cache key segment; results priced for one group must never be served to another
+ */
+export function pricingCacheScope(context: PricingContext | null | undefined): string {
+  return context ? `pricing:${context.customerGroupId}` : 'pricing:public'
+}
+
+/**
+ * Replace catalog prices with the group's contract prices. `listPrice` keeps the
+ * catalog price of products whose price changed. Load tiers (with the group's own
+ * tiers) before calling this so public tiers get the discount too.
+ */
+export async function applyCustomerPricing<T extends PricedProduct>(
+  products: T[],
+  context: PricingContext | null | undefined,
+  db: Queryable = pgPool,
+): Promise<T[]> {
+  if (!context || products.length === 0) return products
+
+  const result = await db.query(
+    `
+    SELECT pl."discountPercent", pli."productId", pli."unitPrice"
+    FROM "PriceList" pl
+    LEFT JOIN "PriceListItem" pli ON pli."priceListId" = pl.id AND pli."productId" = ANY($2::uuid[])
+    WHERE pl."customerGroupId" = $1
+      AND pl.active = TRUE
+      AND (pl."validFrom" IS NULL OR pl."validFrom" <= CURRENT_DATE)
+      AND (pl."validTo" IS NULL OR pl."validTo" >= CURRENT_DATE)
+    `,
+    [context.customerGroupId, products.map((product) => product.id)],
+  )
+
+  let discount = 0
+  const overrides = new Map<string, number>()
+  for (const row of result.rows) {
+    discount = Math.max(discount, Number(row.discountPercent))
+    if (row.productId) {
+      const unitPrice = Number(row.unitPrice)
+      const current = overrides.get(row.productId)
+      // Several active lists may price the same product; the customer gets the lowest
+      overrides.set(row.productId, current === undefined ? unitPrice : Math.min(current, unitPrice))
+    }
+  }
+
+  if (discount === 0 && overrides.size === 0) return products
+
+  const applyDiscount = (value: number) => roundPrice(value * (1 - discount / 100))
+
+  return products.map((product) => {
+    const listPrice = product.price === null || product.price === undefined ? null : Number(product.price)
+    const override = overrides.get(product.id)
+    const price = override !== undefined ? override : listPrice !== null ? applyDiscount(listPrice) : null
+
+    const priceTiers = product.priceTiers?.map((tier) =>
+      tier.customerGroup || discount === 0 ? tier : { ...tier, unitPrice: applyDiscount(tier.unitPrice) },
+    )
+
+    return {
+      ...product,
+      ...(price !== null && price !== listPrice ? { price, listPrice } : {}),
+      ...(priceTiers ? { priceTiers } : {}),
+    }
+  })
+}
+
+/**
+ * Replace a price list's items, resolving SKUs to products. Returns the indexes of
+ * items whose SKU is unknown; nothing is written in that case.
+ */
+export async function replacePriceListItems(
+  priceListId: string,
+  items: Array<{ sku: string; unitPrice: number }>,
+  db: Queryable = pgPool,
+): Promise<{ unknownSkus: number[] }> {
+  const products = await db.query<{ id: string; sku: string }>(
+    `SELECT id, sku FROM "Product" WHERE sku = ANY($1::text[])`,
+    [items.map((item) => item.sku)],
+  )
+  const productIds = new Map(products.rows.map((row) => [row.sku, row.id]))
+  const unknownSkus = items.flatMap((item, index) => (productIds.has(item.sku) ? [] : [index]))
+  if (unknownSkus.length > 0) return { unknownSkus }
+
+  await db.query(`DELETE FROM "PriceListItem" WHERE "priceListId" = $1`, [priceListId])
+  if (items.length > 0) {
+    await db.query(
+      `
+      INSERT INTO "PriceListItem" ("priceListId", "productId", "unitPrice")
+      SELECT $1, item."productId", item."unitPrice"
+      FROM UNNEST($2::uuid[], $3::numeric[]) AS item("productId", "unitPrice")
+      `,
+      [priceListId, items.map((item) => productIds.get(item.sku)), items.map((item) => item.unitPrice)],
+    )
+  }
+  return { unknownSkus }
+}
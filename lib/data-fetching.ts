@@ -13,22 +13,29 @@
 import { queryWithRetry } from '@/lib/pg'
 import { log } from '@/lib/logger'
 import { isValidUUID } from '@/lib/validation'
-import type { Product, Category } from '@/types'
+import type { Product, Category, CategoryBreadcrumb, CategoryTreeNode } from '@/types'
 import { unstable_cache } from 'next/cache'
+import { SPEC_RANGE_PARAMS } from '@/lib/spec-ranges'
 import { cacheGet, cacheSet } from '@/lib/redis'
-
-export interface ProductsQueryParams {
-  categoryId?: string | string[]
-  connectorType?: string | string[]
-  code?: string | string[]
-  degreeOfProtection?: string | string[]
-  pins?: number | number[]
-  gender?: string | string[]
-  inStock?: boolean
-  search?: string
+import { applyFamilyContent } from '@/lib/product-families'
+import { applyPriceTiers } from '@/lib/price-tiers'
+import { applyCustomerPricing, pricingCacheScope, type PricingContext } from '@/lib/customer-pricing'
+import { applyProductReplacements } from '@/lib/product-replacements'
+import { DISCONTINUED_SQL } from '@/lib/product-lifecycle'
+import { buildCategoryTree, findCategoryPath } from '@/lib/category-tree'
+import {
+  buildProductFilters,
+  buildProductListSource,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  type ProductFilterParams,
+} from '@/lib/product-query'
+
+export interface ProductsQueryParams extends ProductFilterParams {
   cursor?: string
   limit?: number
-  ids?: string[]
+  // Logged-in customer's group; prices are catalog prices when omitted
+  pricing?: PricingContext | null
 }
 
 export interface ProductsResponse {
@@ -74,6 +81,14 @@ function getProductsCacheKey(params: ProductsQueryParams): string {
   if (params.inStock === true) {
     keyParts.push('stock:true')
   }
+  for (const name of SPEC_RANGE_PARAMS) {
+    if (params[name] !== undefined) {
+      keyParts.push(`${name}:${params[name]}`)
+    }
+  }
+  for (const key of Object.keys(params.attributes ?? {}).sort()) {
+    keyParts.push(`attr.${key}:${[...params.attributes![key]].sort().join(',')}`)
+  }
   if (params.search) {
     keyParts.push(`search:${params.search.trim().toLowerCase()}`)
   }
@@ -83,9 +98,16 @@ function getProductsCacheKey(params: ProductsQueryParams): string {
   if (params.limit) {
     keyParts.push(`limit:${params.limit}`)
   }
+  if (params.groupFamilies) {
+    keyParts.push('group:families')
+  }
   if (params.ids && params.ids.length > 0) {
     keyParts.push(`ids:${params.ids.sort().join(',')}`)
   }
+  if (params.includeDiscontinued) {
+    keyParts.push('lifecycle:all')
+  }
+  keyParts.push(pricingCacheScope(params.pricing))
   
   return keyParts.join('|')
 }
@@ -109,115 +131,16 @@ export async function fetchProducts(params: ProductsQueryParams = {}): Promise<P
 
   try {
     const limit = Math.min(100, Math.max(1, params.limit || 10))
-    const validCursor = params.cursor && isValidUUID(params.cursor) ? params.cursor : null
 
-    const filters: string[] = []
-    const values: any[] = []
-    let paramIndex = 1
-
-    // Category filtering: support multiple categoryIds
-    if (params.categoryId) {
-      const categoryIds = Array.isArray(params.categoryId) 
-        ? params.categoryId.filter(isValidUUID)
-        : [params.categoryId].filter(isValidUUID)
-      
-      if (categoryIds.length > 0) {
-        if (categoryIds.length === 1) {
-          filters.push(`"categoryId" = $${paramIndex}`)
-          values.push(categoryIds[0])
-          paramIndex++
-        } else {
-          const placeholders = categoryIds.map(() => `$${paramIndex++}`)
-          filters.push(`"categoryId" IN (${placeholders.join(',')})`)
-          values.push(...categoryIds)
-        }
-      }
-    }
+    const { filters: productFilters, values, nextIndex, searchRank } = buildProductFilters(params)
+    const { from, filters, columns } = buildProductListSource(productFilters, searchRank, params.groupFamilies)
 
-    // Cursor-based pagination
+    // Search results are ordered by relevance and page by offset; everything else pages by id
+    const validCursor = !searchRank && params.cursor && isValidUUID(params.cursor) ? params.cursor : null
+    const searchOffset = searchRank ? decodeSearchCursor(params.cursor) : 0
     if (validCursor) {
-      filters.push(`id > $${paramIndex}`)
+      filters.push(`id > $${nextIndex}`)
       values.push(validCursor)
-      paramIndex++
-    }
-
-    // IDs filter
-    if (params.ids && params.ids.length > 0) {
-      const validIds = params.ids.filter(isValidUUID)
-      if (validIds.length > 0) {
-        const placeholders = validIds.map(() => `$${paramIndex++}`)
-        filters.push(`id IN (${placeholders.join(',')})`)
-        values.push(...validIds)
-      }
-    }
-
-    // Connector type filter
-    if (params.connectorType) {
-      const types = Array.isArray(params.connectorType) ? params.connectorType : [params.connectorType]
-      if (types.length > 0) {
-        const placeholders = types.map(() => `$${paramIndex++}`)
-        filters.push(`"connectorType" IN (${placeholders.join(',')})`)
-        values.push(...types)
-      }
-    }
-
-    // Code filter
-    if (params.code) {
-      const codes = Array.isArray(params.code) ? params.code : [params.code]
-      if (codes.length > 0) {
-        const placeholders = codes.map(() => `$${paramIndex++}`)
-        filters.push(`coding IN (${placeholders.join(',')})`)
-        values.push(...codes)
-      }
-    }
-
-    // Degree of protection filter
-    if (params.degreeOfProtection) {
-      const degrees = Array.isArray(params.degreeOfProtection) 
-        ? params.degreeOfProtection 
-        : [params.degreeOfProtection]
-      if (degrees.length > 0) {
-        const placeholders = degrees.map(() => `$${paramIndex++}`)
-        filters.push(`"ipRating" IN (${placeholders.join(',')})`)
-        values.push(...degrees)
-      }
-    }
-
-    // Pins filter
-    if (params.pins !== undefined) {
-      const pins = Array.isArray(params.pins) ? params.pins : [params.pins]
-      if (pins.length > 0) {
-        const placeholders = pins.map(() => `$${paramIndex++}`)
-        filters.push(`pins IN (${placeholders.join(',')})`)
-        values.push(...pins)
-      }
-    }
-
-    // Gender filter
-    if (params.gender) {
-      const genders = Array.isArray(params.gender) ? params.gender : [params.gender]
-      if (genders.length > 0) {
-        const placeholders = genders.map(() => `$${paramIndex++}`)
-        filters.push(`gender IN (${placeholders.join(',')})`)
-        values.push(...genders)
-      }
-    }
-
-    // In stock filter
-    if (params.inStock === true) {
-      filters.push(`"inStock" = true`)
-    }
-
-    // Search filter
-    if (params.search) {
-      const searchTerm = params.search.trim()
-      if (searchTerm) {
-        filters.push(
-          `(name ILIKE $${paramIndex} OR sku ILIKE $${paramIndex + 1} OR description ILIKE $${paramIndex + 2} OR (mpn IS NOT NULL AND mpn ILIKE $${paramIndex + 3}))`,
-        )
-        values.push(`%${searchTerm}%`, `%${searchTerm}%`, `%${searchTerm}%`, `%${searchTerm}%`)
-        paramIndex += 4
-      }
     }
 
     const whereClause = filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : ''
@@ -264,20 +187,34 @@ export async function fetchProducts(params: ProductsQueryParams = {}): Promise<P
         documents,
         "datasheetUrl",
         "drawingUrl",
+        attributes,
+        "familyId",
+        "variantOptions",
+        "lifecycleStatus",
+        TO_CHAR("lifecycleEffectiveDate", 'YYYY-MM-DD') AS "lifecycleEffectiveDate",
+        TO_CHAR("lastTimeBuyDate", 'YYYY-MM-DD') AS "lastTimeBuyDate",
+        "replacementProductId",
         "createdAt",
-        "updatedAt"
-      FROM "Product"
+        "updatedAt"${columns}
+      FROM ${from}
       ${whereClause}
-      ORDER BY id ASC
+      ORDER BY ${searchRank ? `${searchRank} DESC, id ASC` : 'id ASC'}
       LIMIT $${queryValues.length}
+      ${searchRank ? `OFFSET ${searchOffset}` : ''}
       `,
       queryValues,
       'fetchProducts',
     )
 
-    const products = productsResult.rows.slice(0, limit) as Product[]
+    const products = await applyCustomerPricing(
+      await applyFamilyContent(productsResult.rows.slice(0, limit) as Product[]),
+      params.pricing,
+    )
     const hasNext = productsResult.rows.length > limit
-    const nextCursor = hasNext && products.length > 0 ? products[products.length - 1].id : null
+    let nextCursor: string | null = null
+    if (hasNext && products.length > 0) {
+      nextCursor = searchRank ? encodeSearchCursor(searchOffset + limit) : products[products.length - 1].id
+    }
 
     const result: ProductsResponse = {
       products,
@@ -285,7 +222,7 @@ export async function fetchProducts(params: ProductsQueryParams = {}): Promise<P
         limit,
         cursor: nextCursor,
         hasNext,
-        hasPrev: validCursor !== null,
+        hasPrev: searchRank ? searchOffset > 0 : validCursor !== null,
       },
     }
 
@@ -315,15 +252,16 @@ export async function fetchProducts(params: ProductsQueryParams = {}): Promise<P
 /**
  * Fetch a single product by ID - optimized for server components
  * Uses Redis caching (15-30 min TTL) for frequently accessed products
+ * Prices and tiers are resolved for the given customer group
  */
-export async function fetchProductById(id: string): Promise<Product | null> {
+export async function fetchProductById(id: string, pricing: PricingContext | null = null): Promise<Product | null> {
   try {
     if (!isValidUUID(id)) {
       return null
     }
 
     // Check cache first
-    const cacheKey = `product:${id}`
+    const cacheKey = `product:${id}:${pricingCacheScope(pricing)}`
     const cached = await cacheGet<Product>(cacheKey)
     if (cached) {
       return cached
@@ -370,6 +308,13 @@ export async function fetchProductById(id: string): Promise<Product | null> {
         documents,
         "datasheetUrl",
         "drawingUrl",
+        attributes,
+        "familyId",
+        "variantOptions",
+        "lifecycleStatus",
+        TO_CHAR("lifecycleEffectiveDate", 'YYYY-MM-DD') AS "lifecycleEffectiveDate",
+        TO_CHAR("lastTimeBuyDate", 'YYYY-MM-DD') AS "lastTimeBuyDate",
+        "replacementProductId",
         "createdAt",
         "updatedAt"
       FROM "Product"
@@ -379,11 +324,18 @@ export async function fetchProductById(id: string): Promise<Product | null> {
       'fetchProductById',
     )
 
-    const product = (result.rows[0] || null) as Product | null
+    const row = (result.rows[0] || null) as Product | null
+    const product = row
+      ? (
+          await applyCustomerPricing(
+            await applyPriceTiers(await applyProductReplacements([row]), pricing?.customerGroupCode ?? null),
+            pricing,
+          )
+        )[0]
+      : null
     
     // Cache the product (15-30 min TTL for individual products)
     if (product) {
-      const cacheKey = `product:${id}`
       await cacheSet(cacheKey, product, 900) // 15 minutes
     }
 
@@ -471,13 +423,13 @@ async function fetchCategoriesInternal(params: {
       `
       WITH filtered_categories AS (
         SELECT 
-          id, name, slug, description, image, "parentId", "createdAt", "updatedAt",
+          id, name, slug, description, image, "parentId", "sortOrder", "createdAt", "updatedAt",
           COUNT(*) OVER() AS total
         FROM "Category"
         ${whereClause}
       )
       SELECT * FROM filtered_categories
-      ORDER BY "createdAt" ASC
+      ORDER BY "sortOrder" ASC, "createdAt" ASC
       LIMIT $${dataValues.length - 1}
       OFFSET $${dataValues.length}
       `,
@@ -498,6 +450,57 @@ async function fetchCategoriesInternal(params: {
   }
 }
 
+/**
+ * Fetch the nested category tree with rolled-up product counts
+ * Uses Redis caching (5 min TTL); shared by the header menu and breadcrumbs
+ */
+export async function fetchCategoryTree(): Promise<CategoryTreeNode[]> {
+  const cacheKey = 'categories:tree'
+  const cached = await cacheGet<CategoryTreeNode[]>(cacheKey)
+  if (cached) {
+    return cached
+  }
+
+  try {
+    const result = await queryWithRetry<Category & { productCount: number }>(
+      `
+      SELECT
+        c.id, c.name, c.slug, c.description, c.image, c."parentId", c."sortOrder",
+        COALESCE(pc.count, 0)::int AS "productCount"
+      FROM "Category" c
+      LEFT JOIN (
+        SELECT "categoryId", COUNT(*) AS count
+        FROM "Product"
+        WHERE "categoryId" IS NOT NULL AND NOT ${DISCONTINUED_SQL}
+        GROUP BY "categoryId"
+      ) pc ON pc."categoryId" = c.id
+      `,
+      [],
+      'fetchCategoryTree',
+    )
+
+    const directCounts = Object.fromEntries(result.rows.map((row) => [row.id, row.productCount]))
+    const tree = buildCategoryTree(result.rows, directCounts)
+
+    await cacheSet(cacheKey, tree, 300) // 5 minutes
+
+    return tree
+  } catch (error) {
+    log.error('Error fetching category tree', error)
+    return []
+  }
+}
+
+/**
+ * Breadcrumb path from the root category down to the given category
+ */
+export async function fetchCategoryBreadcrumbs(categoryId: string): Promise<CategoryBreadcrumb[]> {
+  if (!isValidUUID(categoryId)) {
+    return []
+  }
+  return findCategoryPath(await fetchCategoryTree(), categoryId)
+}
+
 /**
  * Fetch category by slug - optimized for server components
  * Uses Redis caching (15 min TTL) for frequently accessed categories
@@ -513,7 +516,7 @@ export async function fetchCategoryBySlug(slug: string): Promise<Category | null
   try {
     const result = await queryWithRetry(
       `
-      SELECT id, name, slug, description, image, "parentId", "createdAt", "updatedAt"
+      SELECT id, name, slug, description, image, "parentId", "sortOrder", "createdAt", "updatedAt"
       FROM "Category"
       WHERE slug = $1
       LIMIT 1
@@ -555,7 +558,7 @@ export async function fetchCategoryById(id: string): Promise<Category | null> {
 
     const result = await queryWithRetry(
       `
-      SELECT id, name, slug, description, image, "parentId", "createdAt", "updatedAt"
+      SELECT id, name, slug, description, image, "parentId", "sortOrder", "createdAt", "updatedAt"
       FROM "Category"
       WHERE id = $1
       LIMIT 1
@@ -21,7 +21,16 @@ const envSchema = z.object({
   SENTRY_DSN: z.string().url().optional(),
   SENTRY_ENVIRONMENT: z.string().optional(),
   
-  // Email service is disabled - no email-related env vars needed
+  // Email (optional - messages are queued in the EmailOutbox table, see lib/mail.ts)
+  EMAIL_TRANSPORT: z.enum(['smtp', 'file', 'console', 'disabled']).optional(),
+  EMAIL_FROM: z.string().optional(),
+  SALES_EMAIL: z.string().optional(),
+  EMAIL_FILE_DIR: z.string().optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().optional(),
+  SMTP_SECURE: z.enum(['true', 'false']).optional(),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
   
   // Redis (optional - for caching and rate limiting)
   REDIS_URL: z.string().url().optional(),
@@ -32,6 +41,9 @@ const envSchema = z.object({
   // Database Connection Pool (optional - defaults provided)
   DB_POOL_MAX: z.string().optional(),
   DB_POOL_MIN: z.string().optional(),
+}).refine((data) => data.EMAIL_TRANSPORT !== 'smtp' || !!data.SMTP_HOST, {
+  message: 'SMTP_HOST is required when EMAIL_TRANSPORT is smtp',
+  path: ['SMTP_HOST'],
 })
 
 type Env = z.infer<typeof envSchema>
@@ -54,6 +66,15 @@ function validateEnv(): Env {
       LOG_LEVEL: emptyToUndefined(process.env.LOG_LEVEL),
       SENTRY_DSN: emptyToUndefined(process.env.SENTRY_DSN),
       SENTRY_ENVIRONMENT: emptyToUndefined(process.env.SENTRY_ENVIRONMENT),
+      EMAIL_TRANSPORT: emptyToUndefined(process.env.EMAIL_TRANSPORT),
+      EMAIL_FROM: emptyToUndefined(process.env.EMAIL_FROM),
+      SALES_EMAIL: emptyToUndefined(process.env.SALES_EMAIL),
+      EMAIL_FILE_DIR: emptyToUndefined(process.env.EMAIL_FILE_DIR),
+      SMTP_HOST: emptyToUndefined(process.env.SMTP_HOST),
+      SMTP_PORT: emptyToUndefined(process.env.SMTP_PORT),
+      SMTP_SECURE: emptyToUndefined(process.env.SMTP_SECURE),
+      SMTP_USER: emptyToUndefined(process.env.SMTP_USER),
+      SMTP_PASS: emptyToUndefined(process.env.SMTP_PASS),
       REDIS_URL: emptyToUndefined(process.env.REDIS_URL),
       REDIS_HOST: emptyToUndefined(process.env.REDIS_HOST),
       REDIS_PORT: emptyToUndefined(process.env.REDIS_PORT),
@@ -0,0 +1,363 @@
+/**
+ * Typed transactional email templates.
+ * Each template renders a subject plus matching HTML and plain-text bodies;
+ * every interpolated value is escaped so user input cannot inject markup.
+ */
+
+import { orderStatusLabel } from '@/lib/order-status'
+
+export interface MailOrderItem {
+  sku: string
+  name: string
+  quantity: number
+  notes?: string | null
+}
+
+export interface EmailTemplateData {
+  emailVerification: {
+    name: string
+    verifyUrl: string
+    expiresInDays: number
+  }
+  passwordReset: {
+    name: string
+    resetUrl: string
+    expiresInMinutes: number
+  }
+  rfqReceivedCustomer: {
+    // Order reference, e.g. RFQ-2026-000123
+    reference: string
+    contactName: string
+    companyName: string
+    items: MailOrderItem[]
+    accountUrl: string
+  }
+  rfqReceivedSales: {
+    reference: string
+    companyName: string
+    contactName: string
+    email: string
+    phone: string
+    companyAddress?: string | null
+    notes?: string | null
+    items: MailOrderItem[]
+    adminUrl: string
+  }
+  inquiryReceived: {
+    // Inquiry reference, e.g. INQ-2026-000045
+    reference: string
+    name: string
+    email: string
+    phone?: string | null
+    company?: string | null
+    subject: string
+    message: string
+    meetingRequest: boolean
+    adminUrl: string
+  }
+  orderStatusChanged: {
+    reference: string
+    contactName: string
+    previousStatus: string
+    status: string
+    // Reason given for rejecting or cancelling, or the admin's note on the change
+    comment?: string | null
+    orderUrl: string
+  }
+  orderMessage: {
+    reference: string
+    contactName: string
+    body: string
+    attachmentCount: number
+    orderUrl: string
+  }
+  orderMessageSales: {
+    reference: string
+    companyName: string
+    authorName: string
+    body: string
+    attachmentCount: number
+    adminUrl: string
+  }
+  inquiryReply: {
+    reference: string
+    name: string
+    subject: string
+    body: string
+  }
+  productAlertConfirm: {
+    productName: string
+    sku: string
+    alertLabel: string
+    confirmUrl: string
+    expiresInDays: number
+  }
+  productBackInStock: {
+    productName: string
+    sku: string
+    productUrl: string
+    unsubscribeUrl: string
+  }
+  productPriceDrop: {
+    productName: string
+    sku: string
+    previousPrice: string
+    price: string
+    productUrl: string
+    unsubscribeUrl: string
+  }
+}
+
+export type EmailTemplateName = keyof EmailTemplateData
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+const BRAND_NAME = 'Lei Indias'
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+const paragraph = (text: string) =>
+  `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(text).replace(/\n/g, '<br>')}</p>`
+
+const button = (label: string, url: string) =>
+  `<p style="margin:24px 0"><a href="${escapeHtml(url)}" style="background:#0f172a;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block">${escapeHtml(label)}</a></p>`
+
+const detailsTable = (rows: Array<[string, string | null | undefined]>) => {
+  const cells = rows
+    .filter(([, value]) => value)
+    .map(
+      ([label, value]) =>
+        `<tr><td style="padding:4px 12px 4px 0;color:#64748b;vertical-align:top">${escapeHtml(label)}</td><td style="padding:4px 0">${escapeHtml(value as string).replace(/\n/g, '<br>')}</td></tr>`,
+    )
+    .join('')
+  return `<table style="border-collapse:collapse;margin:0 0 16px">${cells}</table>`
+}
+
+const detailsText = (rows: Array<[string, string | null | undefined]>) =>
+  rows
+    .filter(([, value]) => value)
+    .map(([label, value]) => `${label}: ${value}`)
+    .join('\n')
+
+const itemsTable = (items: MailOrderItem[]) => {
+  const head = ['SKU', 'Product', 'Qty', 'Notes']
+    .map((h) => `<th style="text-align:left;padding:6px 8px;border-bottom:1px solid #e2e8f0">${h}</th>`)
+    .join('')
+  const body = items
+    .map(
+      (item) =>
+        `<tr><td style="padding:6px 8px;font-family:monospace">${escapeHtml(item.sku)}</td><td style="padding:6px 8px">${escapeHtml(item.name)}</td><td style="padding:6px 8px">${item.quantity}</td><td style="padding:6px 8px;color:#64748b">${escapeHtml(item.notes || '')}</td></tr>`,
+    )
+    .join('')
+  return `<table style="border-collapse:collapse;width:100%;margin:0 0 16px;font-size:14px"><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`
+}
+
+const itemsText = (items: MailOrderItem[]) =>
+  items
+    .map((item) => `- ${item.sku} ${item.name} x ${item.quantity}${item.notes ? ` (${item.notes})` : ''}`)
+    .join('\n')
+
+const attachmentNote = (count: number) =>
+  count > 0 ? `${count} attached file${count !== 1 ? 's' : ''} can be downloaded from the conversation.` : null
+
+const unsubscribeFooter = (text: string, url: string) =>
+  `<p style="margin:24px 0 0;font-size:12px;color:#64748b">${escapeHtml(text)} <a href="${escapeHtml(url)}" style="color:#64748b">Unsubscribe</a></p>`
+
+const layout = (title: string, body: string) => `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:0;background:#f8fafc;font-family:Arial,Helvetica,sans-serif;color:#0f172a">
+<div style="max-width:600px;margin:0 auto;padding:32px 24px;background:#ffffff">
+<h1 style="font-size:20px;margin:0 0 24px">${escapeHtml(title)}</h1>
+${body}
+<p style="margin:32px 0 0;font-size:12px;color:#94a3b8">${BRAND_NAME}</p>
+</div>
+</body>
+</html>`
+
+const templates: { [K in EmailTemplateName]: (data: EmailTemplateData[K]) => RenderedEmail } = {
+  emailVerification: (data) => {
+    const subject = `Verify your ${BRAND_NAME} account`
+    const intro = `Hi ${data.name}, please confirm your email address to finish setting up your account.`
+    const expiry = `This link expires in ${data.expiresInDays} days. If you did not create an account, you can ignore this email.`
+    return {
+      subject,
+      html: layout(subject, paragraph(intro) + button('Verify email', data.verifyUrl) + paragraph(expiry)),
+      text: `${intro}\n\n${data.verifyUrl}\n\n${expiry}`,
+    }
+  },
+
+  passwordReset: (data) => {
+    const subject = `Reset your ${BRAND_NAME} password`
+    const intro = `Hi ${data.name}, we received a request to reset your password.`
+    const expiry = `This link expires in ${data.expiresInMinutes} minutes. If you did not request a reset, you can ignore this email and your password will stay the same.`
+    return {
+      subject,
+      html: layout(subject, paragraph(intro) + button('Reset password', data.resetUrl) + paragraph(expiry)),
+      text: `${intro}\n\n${data.resetUrl}\n\n${expiry}`,
+    }
+  },
+
+  rfqReceivedCustomer: (data) => {
+    const subject = `We received your request for quote (${data.reference})`
+    const intro = `Hi ${data.contactName}, thank you for your request on behalf of ${data.companyName}. Our sales team will review it and get back to you with a quotation.`
+    const track = `Please quote ${data.reference} when you contact us about it. You can follow the status of this request from your account.`
+    return {
+      subject,
+      html: layout(
+        subject,
+        paragraph(intro) + itemsTable(data.items) + paragraph(track) + button('View my RFQs', data.accountUrl),
+      ),
+      text: `${intro}\n\n${itemsText(data.items)}\n\n${track}\n${data.accountUrl}`,
+    }
+  },
+
+  rfqReceivedSales: (data) => {
+    const subject = `New RFQ from ${data.companyName} (${data.reference})`
+    const details: Array<[string, string | null | undefined]> = [
+      ['Company', data.companyName],
+      ['Contact', data.contactName],
+      ['Email', data.email],
+      ['Phone', data.phone],
+      ['Address', data.companyAddress],
+      ['Notes', data.notes],
+    ]
+    return {
+      subject,
+      html: layout(
+        subject,
+        detailsTable(details) + itemsTable(data.items) + button('Open in admin', data.adminUrl),
+      ),
+      text: `${detailsText(details)}\n\n${itemsText(data.items)}\n\n${data.adminUrl}`,
+    }
+  },
+
+  inquiryReceived: (data) => {
+    const subject = `New inquiry ${data.reference}: ${data.subject}`
+    const details: Array<[string, string | null | undefined]> = [
+      ['Name', data.name],
+      ['Email', data.email],
+      ['Phone', data.phone],
+      ['Company', data.company],
+      ['Meeting requested', data.meetingRequest ? 'Yes' : null],
+    ]
+    return {
+      subject,
+      html: layout(
+        subject,
+        detailsTable(details) + paragraph(data.message) + button('Open in admin', data.adminUrl),
+      ),
+      text: `${detailsText(details)}\n\n${data.message}\n\n${data.adminUrl}`,
+    }
+  },
+
+  orderStatusChanged: (data) => {
+    const subject = `${data.reference} is now ${orderStatusLabel(data.status).toLowerCase()}`
+    const intro = `Hi ${data.contactName}, the status of your request for quote ${data.reference} changed from ${orderStatusLabel(data.previousStatus)} to ${orderStatusLabel(data.status)}.`
+    const comment = data.comment ? `Comment from our team: ${data.comment}` : null
+    return {
+      subject,
+      html: layout(subject, paragraph(intro) + (comment ? paragraph(comment) : '') + button('View request', data.orderUrl)),
+      text: [intro, comment, data.orderUrl].filter(Boolean).join('\n\n'),
+    }
+  },
+
+  orderMessage: (data) => {
+    const subject = `New message about ${data.reference}`
+    const intro = `Hi ${data.contactName}, our team sent you a message about your request for quote ${data.reference}:`
+    const files = attachmentNote(data.attachmentCount)
+    const reply = 'You can read the whole conversation and reply from your account.'
+    return {
+      subject,
+      html: layout(
+        subject,
+        paragraph(intro) + paragraph(data.body) + (files ? paragraph(files) : '') + paragraph(reply) + button('View request', data.orderUrl),
+      ),
+      text: [intro, data.body, files, reply, data.orderUrl].filter(Boolean).join('\n\n'),
+    }
+  },
+
+  orderMessageSales: (data) => {
+    const subject = `${data.companyName} replied about ${data.reference}`
+    const intro = `${data.authorName} (${data.companyName}) wrote:`
+    const files = attachmentNote(data.attachmentCount)
+    return {
+      subject,
+      html: layout(
+        subject,
+        paragraph(intro) + paragraph(data.body) + (files ? paragraph(files) : '') + button('Open in admin', data.adminUrl),
+      ),
+      text: [intro, data.body, files, data.adminUrl].filter(Boolean).join('\n\n'),
+    }
+  },
+
+  inquiryReply: (data) => {
+    const subject = `Re: ${data.subject} [${data.reference}]`
+    const intro = `Hi ${data.name},`
+    const reply = 'Reply to this email if you have any further questions.'
+    return {
+      subject,
+      html: layout(subject, paragraph(intro) + paragraph(data.body) + paragraph(reply)),
+      text: [intro, data.body, reply].join('\n\n'),
+    }
+  },
+
+  productAlertConfirm: (data) => {
+    const subject = `Confirm your alert for ${data.sku}`
+    const intro = `Please confirm that you want a ${data.alertLabel.toLowerCase()} alert for ${data.productName} (${data.sku}).`
+    const expiry = `This link expires in ${data.expiresInDays} days. If you did not ask for this alert, you can ignore this email.`
+    return {
+      subject,
+      html: layout(subject, paragraph(intro) + button('Confirm alert', data.confirmUrl) + paragraph(expiry)),
+      text: `${intro}\n\n${data.confirmUrl}\n\n${expiry}`,
+    }
+  },
+
+  productBackInStock: (data) => {
+    const subject = `${data.sku} is back in stock`
+    const intro = `${data.productName} (${data.sku}) is available again. Add it to a request for quote while stock lasts.`
+    const footer = 'You received this email because you asked to be told when this product is back in stock.'
+    return {
+      subject,
+      html: layout(
+        subject,
+        paragraph(intro) + button('View product', data.productUrl) + unsubscribeFooter(footer, data.unsubscribeUrl),
+      ),
+      text: `${intro}\n\n${data.productUrl}\n\n${footer}\nUnsubscribe: ${data.unsubscribeUrl}`,
+    }
+  },
+
+  productPriceDrop: (data) => {
+    const subject = `Price drop on ${data.sku}`
+    const intro = `The list price of ${data.productName} (${data.sku}) dropped from ${data.previousPrice} to ${data.price}.`
+    const footer = 'You received this email because you asked to be told about price drops on this product.'
+    return {
+      subject,
+      html: layout(
+        subject,
+        paragraph(intro) + button('View product', data.productUrl) + unsubscribeFooter(footer, data.unsubscribeUrl),
+      ),
+      text: `${intro}\n\n${data.productUrl}\n\n${footer}\nUnsubscribe: ${data.unsubscribeUrl}`,
+    }
+  },
+}
+
+/**
+ * Render a template with its typed data
+ */
+export function renderEmailTemplate<K extends EmailTemplateName>(
+  template: K,
+  data: EmailTemplateData[K],
+): RenderedEmail {
+  return templates[template](data)
+}
@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import nodemailer from 'nodemailer'
+import { log } from '@/lib/logger'
+
+export type MailTransportKind = 'smtp' | 'file' | 'console' | 'disabled'
+
+export interface OutgoingMail {
+  from: string
+  to: string
+  replyTo?: string | null
+  subject: string
+  html: string
+  text: string
+}
+
+export interface MailTransport {
+  kind: MailTransportKind
+  send(mail: OutgoingMail): Promise<void>
+}
+
+const DEFAULT_FILE_DIR = 'tmp/mail'
+
+/**
+ * Resolve the configured transport; production defaults to disabled so mail
+ * (including reset links) is never written to logs by accident.
+ */
+export function getMailTransportKind(): MailTransportKind {
+  const configured = process.env.EMAIL_TRANSPORT
+  if (configured === 'smtp' || configured === 'file' || configured === 'console' || configured === 'disabled') {
+    return configured
+  }
+  return process.env.NODE_ENV === 'production' ? 'disabled' : 'console'
+}
+
+export function getMailFrom(): string {
+  return process.env.EMAIL_FROM || 'noreply@localhost'
+}
+
+function createSmtpTransport(): MailTransport {
+  const port = parseInt(process.env.SMTP_PORT || '587', 10)
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  })
+
+  return {
+    kind: 'smtp',
+    async send(mail) {
+      await transporter.sendMail({ ...mail, replyTo: mail.replyTo ?? undefined })
+    },
+  }
+}
+
+// Writes each message as an .eml file so it can be opened in a mail client
+function createFileTransport(): MailTransport {
+  const directory = path.resolve(process.env.EMAIL_FILE_DIR || DEFAULT_FILE_DIR)
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' })
+
+  return {
+    kind: 'file',
+    async send(mail) {
+      const info = await transporter.sendMail({ ...mail, replyTo: mail.replyTo ?? undefined })
+      await fs.mkdir(directory, { recursive: true })
+      const safeTo = mail.to.replace(/[^a-zA-Z0-9@._-]/g, '_')
+      const file = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeTo}.eml`)
+      await fs.writeFile(file, info.message as Buffer)
+      log.info('Email written to file', { to: mail.to, subject: mail.subject, file })
+    },
+  }
+}
+
+function createConsoleTransport(): MailTransport {
+  return {
+    kind: 'console',
+    async send(mail) {
+      log.info('Email (console transport)', {
+        from: mail.from,
+        to: mail.to,
+        replyTo: mail.replyTo ?? undefined,
+        subject: mail.subject,
+        text: mail.text,
+      })
+    },
+  }
+}
+
+let cachedTransport: MailTransport | null = null
+
+export function getMailTransport(): MailTransport {
+  const kind = getMailTransportKind()
+  if (cachedTransport && cachedTransport.kind === kind) {
+    return cachedTransport
+  }
+
+  switch (kind) {
+    case 'smtp':
+      cachedTransport = createSmtpTransport()
+      break
+    case 'file':
+      cachedTransport = createFileTransport()
+      break
+    case 'console':
+      cachedTransport = createConsoleTransport()
+      break
+    default:
+      cachedTransport = {
+        kind: 'disabled',
+        async send() {
+          throw new Error('Email transport is disabled')
+        },
+      }
+  }
+  return cachedTransport
+}
@@ -0,0 +1,280 @@
+import { pgPool } from '@/lib/pg'
+import { log } from '@/lib/logger'
+import {
+  renderEmailTemplate,
+  type EmailTemplateData,
+  type EmailTemplateName,
+} from '@/lib/mail-templates'
+import { getMailFrom, getMailTransport, getMailTransportKind } from '@/lib/mail-transport'
+
+export const MAX_EMAIL_ATTEMPTS = 5
+const OUTBOX_BATCH_SIZE = 20
+const BASE_RETRY_SECONDS = 60
+const MAX_RETRY_SECONDS = 60 * 60
+// Rows left in 'sending' this long belong to a worker that died mid-delivery
+const STALE_SENDING_MINUTES = 10
+
+export interface QueueEmailOptions {
+  replyTo?: string | null
+}
+
+export interface OutboxRunResult {
+  sent: number
+  retried: number
+  failed: number
+}
+
+/**
+ * Exponential backoff: 1m, 2m, 4m, ... capped at one hour
+ */
+export const retryDelaySeconds = (attempts: number) =>
+  Math.min(BASE_RETRY_SECONDS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_SECONDS)
+
+/**
+ * Build an absolute link for use in emails
+ */
+export function absoluteUrl(path: string): string {
+  const base = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/+$/, '')
+  return `${base}${path.startsWith('/') ? path : `/${path}`}`
+}
+
+/**
+ * Sales inbox for RFQ and inquiry notifications: SALES_EMAIL, falling back to
+ * the address maintained under Admin > Contact Info
+ */
+export async function getSalesRecipient(): Promise<string | null> {
+  if (process.env.SALES_EMAIL) {
+    return process.env.SALES_EMAIL
+  }
+  const result = await pgPool.query<{ email: string | null }>(
+    `SELECT email FROM "ContactInfo" WHERE email IS NOT NULL AND email <> '' ORDER BY "updatedAt" DESC LIMIT 1`,
+  )
+  return result.rows[0]?.email ?? null
+}
+
+/**
+ * Render a template and store it in the outbox. Returns the outbox row id,
+ * or null when the transport is disabled. Throws on database errors; routes
+ * should use queueEmail/queueSalesEmail instead.
+ */
+export async function enqueueEmail<K extends EmailTemplateName>(
+  template: K,
+  to: string,
+  data: EmailTemplateData[K],
+  options: QueueEmailOptions = {},
+): Promise<string | null> {
+  if (getMailTransportKind() === 'disabled') {
+    log.debug('Email transport disabled, not queueing email', { template, to })
+    return null
+  }
+
+  const rendered = renderEmailTemplate(template, data)
+  const result = await pgPool.query<{ id: string }>(
+    `
+    INSERT INTO "EmailOutbox" (template, "to", "replyTo", subject, html, text, "maxAttempts")
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    RETURNING id
+    `,
+    [template, to, options.replyTo ?? null, rendered.subject, rendered.html, rendered.text, MAX_EMAIL_ATTEMPTS],
+  )
+  return result.rows[0].id
+}
+
+function runInBackground(task: () => Promise<string | null>, context: Record<string, unknown>) {
+  task()
+    .then((id) => {
+      if (id) {
+        scheduleOutboxRun(0)
+      }
+    })
+    .catch((error) => {
+      log.error('Failed to queue email', error, context)
+    })
+}
+
+/**
+ * Queue an email without waiting for it. Never throws, so it is safe to call
+ * from API routes after the main work has succeeded.
+ */
+export function queueEmail<K extends EmailTemplateName>(
+  template: K,
+  to: string,
+  data: EmailTemplateData[K],
+  options: QueueEmailOptions = {},
+): void {
+  runInBackground(() => enqueueEmail(template, to, data, options), { template, to })
+}
+
+/**
+ * Queue an email to the sales inbox without waiting for it
+ */
+export function queueSalesEmail<K extends EmailTemplateName>(
+  template: K,
+  data: EmailTemplateData[K],
+  options: QueueEmailOptions = {},
+): void {
+  runInBackground(async () => {
+    const to = await getSalesRecipient()
+    if (!to) {
+      log.warn('No sales email configured, skipping notification', { template })
+      return null
+    }
+    return enqueueEmail(template, to, data, options)
+  }, { template })
+}
+
+// In-process delivery: one run at a time, plus a timer for the next retry
+let activeRun: Promise<OutboxRunResult> | null = null
+let rerunRequested = false
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+let retryTimerAt = 0
+
+function scheduleOutboxRun(delayMs: number) {
+  const at = Date.now() + delayMs
+  if (retryTimer && retryTimerAt <= at) {
+    return
+  }
+  if (retryTimer) {
+    clearTimeout(retryTimer)
+  }
+  retryTimerAt = at
+  retryTimer = setTimeout(() => {
+    retryTimer = null
+    processOutbox().catch((error) => log.error('Email outbox run failed', error))
+  }, delayMs)
+  retryTimer.unref?.()
+}
+
+async function processBatch(result: OutboxRunResult): Promise<number> {
+  const transport = getMailTransport()
+  const from = getMailFrom()
+
+  // Claim due rows; SKIP LOCKED lets several app instances share the outbox
+  const claimed = await pgPool.query<{
+    id: string
+    template: string
+    to: string
+    replyTo: string | null
+    subject: string
+    html: string
+    text: string
+    attempts: number
+    maxAttempts: number
+  }>(
+    `
+    UPDATE "EmailOutbox"
+    SET status = 'sending', attempts = attempts + 1, "updatedAt" = NOW()
+    WHERE id IN (
+      SELECT id FROM "EmailOutbox"
+      WHERE (status = 'pending' AND "nextAttemptAt" <= NOW())
+         OR (status = 'sending' AND "updatedAt" < NOW() - make_interval(mins => $2))
+      ORDER BY "nextAttemptAt"
+      LIMIT $1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, template, "to", "replyTo", subject, html, text, attempts, "maxAttempts"
+    `,
+    [OUTBOX_BATCH_SIZE, STALE_SENDING_MINUTES],
+  )
+
+  for (const row of claimed.rows) {
+    try {
+      await transport.send({
+        from,
+        to: row.to,
+        replyTo: row.replyTo,
+        subject: row.subject,
+        html: row.html,
+        text: row.text,
+      })
+      await pgPool.query(
+        `UPDATE "EmailOutbox" SET status = 'sent', "sentAt" = NOW(), "lastError" = NULL, "updatedAt" = NOW() WHERE id = $1`,
+        [row.id],
+      )
+      result.sent++
+    } catch (error) {
+      const giveUp = row.attempts >= row.maxAttempts
+      const message = error instanceof Error ? error.message : String(error)
+      await pgPool.query(
+        `
+        UPDATE "EmailOutbox"
+        SET status = $2,
+            "nextAttemptAt" = NOW() + make_interval(secs => $3),
+            "lastError" = $4,
+            "updatedAt" = NOW()
+        WHERE id = $1
+        `,
+        [row.id, giveUp ? 'failed' : 'pending', retryDelaySeconds(row.attempts), message.slice(0, 1000)],
+      )
+      if (giveUp) {
+        result.failed++
+        log.error('Email delivery failed permanently', error, { id: row.id, template: row.template, to: row.to })
+      } else {
+        result.retried++
+        log.warn('Email delivery failed, will retry', { id: row.id, template: row.template, attempts: row.attempts, error: message })
+      }
+    }
+  }
+
+  return claimed.rows.length
+}
+
+async function runOutbox(): Promise<OutboxRunResult> {
+  const result: OutboxRunResult = { sent: 0, retried: 0, failed: 0 }
+
+  do {
+    rerunRequested = false
+    while ((await processBatch(result)) === OUTBOX_BATCH_SIZE) {
+      // Keep draining full batches
+    }
+  } while (rerunRequested)
+
+  // Wake up again when the earliest retry becomes due
+  const next = await pgPool.query<{ delayMs: string | null }>(
+    `
+    SELECT EXTRACT(EPOCH FROM (MIN("nextAttemptAt") - NOW())) * 1000 AS "delayMs"
+    FROM "EmailOutbox"
+    WHERE status = 'pending'
+    `,
+  )
+  const delayMs = next.rows[0]?.delayMs
+  if (delayMs !== null && delayMs !== undefined) {
+    scheduleOutboxRun(Math.max(0, Math.ceil(Number(delayMs))))
+  }
+
+  return result
+}
+
+/**
+ * Deliver due outbox rows. Concurrent calls in the same process share one run.
+ */
+export async function processOutbox(): Promise<OutboxRunResult> {
+  if (getMailTransportKind() === 'disabled') {
+    return { sent: 0, retried: 0, failed: 0 }
+  }
+  if (activeRun) {
+    rerunRequested = true
+    return activeRun
+  }
+
+  activeRun = runOutbox()
+  try {
+    return await activeRun
+  } finally {
+    activeRun = null
+  }
+}
+
+/**
+ * Put permanently failed emails back in the queue
+ */
+export async function retryFailedEmails(): Promise<number> {
+  const result = await pgPool.query(
+    `
+    UPDATE "EmailOutbox"
+    SET status = 'pending', attempts = 0, "nextAttemptAt" = NOW(), "updatedAt" = NOW()
+    WHERE status = 'failed'
+    `,
+  )
+  return result.rowCount || 0
+}
@@ -0,0 +1,60 @@
+import { z } from 'zod'
+
+/**
+ * Order and inquiry messages: limits shared by the thread component and the message routes
+ */
+
+export const MAX_MESSAGE_LENGTH = 5000
+export const MAX_MESSAGE_ATTACHMENTS = 5
+export const MAX_MESSAGE_ATTACHMENT_SIZE = 10 * 1024 * 1024 // 10MB per file
+
+// Drawings, datasheets, spreadsheets and photos; served back with these content types
+export const MESSAGE_ATTACHMENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv',
+  txt: 'text/plain',
+  dwg: 'application/acad',
+  dxf: 'application/dxf',
+  step: 'application/step',
+  stp: 'application/step',
+  zip: 'application/zip',
+}
+
+// For the file input's accept attribute
+export const MESSAGE_ATTACHMENT_ACCEPT = Object.keys(MESSAGE_ATTACHMENT_TYPES)
+  .map((extension) => `.${extension}`)
+  .join(',')
+
+export const messageAttachmentExtension = (filename: string): string | null => {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? ''
+  return extension !== filename.toLowerCase() && Object.hasOwn(MESSAGE_ATTACHMENT_TYPES, extension) ? extension : null
+}
+
+export const messageSchema = z.object({
+  body: z.string().trim().min(1, 'Write a message').max(MAX_MESSAGE_LENGTH),
+  internal: z.boolean().default(false),
+  // Any message of the thread being replied to
+  parentId: z.string().uuid('Invalid message ID').optional(),
+})
+
+export type MessageInput = z.infer<typeof messageSchema>
+
+/**
+ * Message fields of a multipart request; the files are sent as "attachments"
+ */
+export function parseMessageForm(formData: FormData): MessageInput {
+  const parentId = formData.get('parentId')
+  return messageSchema.parse({
+    body: formData.get('body') ?? '',
+    internal: formData.get('internal') === 'true',
+    parentId: typeof parentId === 'string' && parentId !== '' ? parentId : undefined,
+  })
+}
@@ -0,0 +1,264 @@
+import type { PoolClient } from 'pg'
+import { randomUUID } from 'crypto'
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { pgPool } from '@/lib/pg'
+import {
+  MAX_MESSAGE_ATTACHMENTS,
+  MAX_MESSAGE_ATTACHMENT_SIZE,
+  MESSAGE_ATTACHMENT_TYPES,
+  messageAttachmentExtension,
+  type MessageInput,
+} from '@/lib/message-validation'
+import type { Message } from '@/types'
+
+/**
+ * Threaded messages on orders and inquiries. A thread is a message without a parent plus its
+ * replies; replies in an internal thread are internal too. Customers see the other threads of
+ * their own orders and can reply to them. Attachments are stored outside public/.
+ */
+
+type Queryable = Pick<PoolClient, 'query'>
+
+export type MessageTarget = { type: 'order' | 'inquiry'; id: string }
+
+export interface NewMessage extends MessageInput {
+  authorType: 'admin' | 'customer'
+  authorName: string
+  userId?: string | null
+  files?: File[]
+}
+
+export interface StoredMessageAttachment {
+  filename: string
+  storedName: string
+  contentType: string
+  orderId: string | null
+  inquiryId: string | null
+  internal: boolean
+  // Account email of the order's customer, if the order belongs to one
+  customerEmail: string | null
+}
+
+export class MessageError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'MessageError'
+  }
+}
+
+const attachmentsDir = join(process.cwd(), 'storage', 'message-attachments')
+
+const targetColumn = (target: MessageTarget) => (target.type === 'order' ? '"orderId"' : '"inquiryId"')
+
+const toMessage = (row: any): Message => ({
+  id: row.id,
+  parentId: row.parentId,
+  authorType: row.authorType,
+  authorName: row.authorName,
+  internal: row.internal,
+  body: row.body,
+  attachments: (row.attachments ?? []).map((attachment: any) => ({
+    id: attachment.id,
+    filename: attachment.filename,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    url: `/api/messages/attachments/${attachment.id}`,
+  })),
+  createdAt: row.createdAt,
+})
+
+function checkAttachments(files: File[]) {
+  if (files.length > MAX_MESSAGE_ATTACHMENTS) {
+    throw new MessageError(`Attach at most ${MAX_MESSAGE_ATTACHMENTS} files to a message`)
+  }
+  for (const file of files) {
+    if (!messageAttachmentExtension(file.name)) {
+      throw new MessageError(`${file.name} cannot be attached; use PDF, image, Office, CAD, text or ZIP files`)
+    }
+    if (file.size === 0) {
+      throw new MessageError(`${file.name} is empty`)
+    }
+    if (file.size > MAX_MESSAGE_ATTACHMENT_SIZE) {
+      throw new MessageError(`${file.name} exceeds the maximum size of ${MAX_MESSAGE_ATTACHMENT_SIZE / 1024 / 1024}MB`)
+    }
+  }
+}
+
+/**
+ * Add a message to an order's or inquiry's conversation. Customers can only reply to a thread
+ * they can see. Run it in a transaction so a failed insert does not keep half the attachments.
+ */
+export async function createMessage(target: MessageTarget, input: NewMessage, db: Queryable = pgPool): Promise<Message> {
+  const column = targetColumn(target)
+  const files = input.files ?? []
+  checkAttachments(files)
+
+  let parentId: string | null = null
+  let internal = input.authorType === 'admin' && input.internal
+  if (input.parentId) {
+    const thread = await db.query(
+      `
+      SELECT root.id, root.internal
+      FROM "Message" parent
+      JOIN "Message" root ON root.id = COALESCE(parent."parentId", parent.id)
+      WHERE parent.id = $1 AND parent.${column} = $2
+      `,
+      [input.parentId, target.id],
+    )
+    const root = thread.rows[0]
+    if (!root || (input.authorType === 'customer' && root.internal)) {
+      throw new MessageError('Message not found', 404)
+    }
+    parentId = root.id
+    internal = internal || root.internal
+  } else if (input.authorType === 'customer') {
+    throw new MessageError('Customers can only reply to a message from our team')
+  }
+
+  const stored: Array<{ filename: string; storedName: string; contentType: string; size: number }> = []
+  try {
+    if (files.length > 0) {
+      await mkdir(attachmentsDir, { recursive: true })
+    }
+    for (const file of files) {
+      const extension = messageAttachmentExtension(file.name) as string
+      const storedName = `${randomUUID()}.${extension}`
+      await writeFile(join(attachmentsDir, storedName), Buffer.from(await file.arrayBuffer()))
+      stored.push({
+        filename: file.name.slice(-200),
+        storedName,
+        contentType: MESSAGE_ATTACHMENT_TYPES[extension],
+        size: file.size,
+      })
+    }
+
+    const result = await db.query(
+      `
+      INSERT INTO "Message" (${column}, "parentId", "authorType", "authorName", "userId", internal, body)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id, "parentId", "authorType", "authorName", internal, body, "createdAt"
+      `,
+      [target.id, parentId, input.authorType, input.authorName, input.userId ?? null, internal, input.body],
+    )
+    const message = result.rows[0]
+
+    let attachments: any[] = []
+    if (stored.length > 0) {
+      const attachmentResult = await db.query(
+        `
+        INSERT INTO "MessageAttachment" ("messageId", filename, "storedName", "contentType", size)
+        SELECT $1, file.filename, file."storedName", file."contentType", file.size
+        FROM unnest($2::text[], $3::text[], $4::text[], $5::int[])
+          AS file(filename, "storedName", "contentType", size)
+        RETURNING id, filename, "contentType", size
+        `,
+        [
+          message.id,
+          stored.map((file) => file.filename),
+          stored.map((file) => file.storedName),
+          stored.map((file) => file.contentType),
+          stored.map((file) => file.size),
+        ],
+      )
+      attachments = attachmentResult.rows
+    }
+
+    return toMessage({ ...message, attachments })
+  } catch (error) {
+    await Promise.all(stored.map((file) => unlink(join(attachmentsDir, file.storedName)).catch(() => undefined)))
+    throw error
+  }
+}
+
+/**
+ * Messages of an order or inquiry, oldest first. Without includeInternal (the customer view) internal
+ * messages are left out and admin names are hidden.
+ */
+export async function fetchMessages(
+  target: MessageTarget,
+  options: { includeInternal?: boolean } = {},
+  db: Queryable = pgPool,
+): Promise<Message[]> {
+  const result = await db.query(
+    `
+    SELECT
+      m.id, m."parentId", m."authorType", m."authorName", m.internal, m.body, m."createdAt",
+      COALESCE(
+        (
+          SELECT json_agg(
+            json_build_object('id', a.id, 'filename', a.filename, 'contentType', a."contentType", 'size', a.size)
+            ORDER BY a."createdAt", a.id
+          )
+          FROM "MessageAttachment" a
+          WHERE a."messageId" = m.id
+        ),
+        '[]'::json
+      ) AS attachments
+    FROM "Message" m
+    WHERE m.${targetColumn(target)} = $1 AND ($2::boolean OR NOT m.internal)
+    ORDER BY m."createdAt" ASC, m.id ASC
+    `,
+    [target.id, options.includeInternal ?? false],
+  )
+  const messages = result.rows.map(toMessage)
+  // Customers are not shown which admin wrote a message
+  return options.includeInternal
+    ? messages
+    : messages.map((message) => (message.authorType === 'admin' ? { ...message, authorName: null } : message))
+}
+
+/**
+ * Remember that an admin has seen a thread up to now
+ */
+export async function markMessagesRead(target: MessageTarget, adminUsername: string, db: Queryable = pgPool): Promise<void> {
+  const column = targetColumn(target)
+  await db.query(
+    `
+    INSERT INTO "MessageRead" ("adminUsername", ${column}, "readAt")
+    VALUES ($1, $2, NOW())
+    ON CONFLICT ("adminUsername", ${column}) WHERE ${column} IS NOT NULL
+    DO UPDATE SET "readAt" = NOW()
+    `,
+    [adminUsername, target.id],
+  )
+}
+
+/**
+ * SQL counting the messages an admin has not seen on each row of a list query: messages by anyone
+ * else since they last opened the thread. idSql is the row's id column, usernameParam the admin's
+ * username placeholder.
+ */
+export function unreadMessagesSql(type: MessageTarget['type'], idSql: string, usernameParam: string): string {
+  const column = targetColumn({ type, id: '' })
+  return `(
+    SELECT COUNT(*)::int
+    FROM "Message" m
+    WHERE m.${column} = ${idSql}
+      AND NOT (m."authorType" = 'admin' AND m."authorName" = ${usernameParam})
+      AND m."createdAt" > COALESCE(
+        (SELECT r."readAt" FROM "MessageRead" r WHERE r.${column} = ${idSql} AND r."adminUsername" = ${usernameParam}),
+        '-infinity'::timestamptz
+      )
+  )`
+}
+
+export async function fetchMessageAttachment(id: string, db: Queryable = pgPool): Promise<StoredMessageAttachment | null> {
+  const result = await db.query(
+    `
+    SELECT a.filename, a."storedName", a."contentType", m."orderId", m."inquiryId", m.internal,
+           u.email AS "customerEmail"
+    FROM "MessageAttachment" a
+    JOIN "Message" m ON m.id = a."messageId"
+    LEFT JOIN "Order" o ON o.id = m."orderId"
+    LEFT JOIN "User" u ON u.id = o."userId"
+    WHERE a.id = $1
+    `,
+    [id],
+  )
+  return result.rows[0] ?? null
+}
+
+export function readMessageAttachment(attachment: StoredMessageAttachment): Promise<Buffer> {
+  return readFile(join(attachmentsDir, attachment.storedName))
+}
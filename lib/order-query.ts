@@ -0,0 +1,152 @@
+import { ORDER_STATUSES } from '@/lib/order-status'
+import { ASSIGNED_TO_ME, UNASSIGNED } from '@/lib/assignment-validation'
+import type { OrderStatus } from '@/types'
+
+/**
+ * Order filters and sorting shared by the admin order list and its export, so the
+ * export always contains the orders the list shows. Conditions use the "Order" alias o.
+ */
+
+export const ORDER_SORT_KEYS = ['createdAt', 'updatedAt', 'reference', 'companyName', 'status', 'assignedTo'] as const
+export type OrderSortKey = (typeof ORDER_SORT_KEYS)[number]
+
+export const ORDER_SORT_LABELS: Record<OrderSortKey, string> = {
+  createdAt: 'Date received',
+  updatedAt: 'Last updated',
+  reference: 'Reference',
+  companyName: 'Company',
+  status: 'Status',
+  assignedTo: 'Owner',
+}
+
+export interface OrderFilterParams {
+  status?: OrderStatus[]
+  // Calendar dates (YYYY-MM-DD) in India time, both inclusive
+  from?: string
+  to?: string
+  company?: string
+  email?: string
+  // Part of an item's SKU; punctuation and case are ignored
+  sku?: string
+  // Reference, company, contact, email or an item's SKU or name
+  search?: string
+  // Owner's username
+  assignedTo?: string
+  unassigned?: boolean
+  sort?: OrderSortKey
+  direction?: 'asc' | 'desc'
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const parseDate = (value: string | null): string | undefined =>
+  value && DATE_PATTERN.test(value) && !isNaN(Date.parse(value)) ? value : undefined
+
+const parseText = (value: string | null): string | undefined => value?.trim() || undefined
+
+/**
+ * Parse order filters from a query string (same keys as GET /api/orders). assignedTo=me stands
+ * for currentAdmin and assignedTo=none for unassigned orders.
+ */
+export function parseOrderFilterParams(searchParams: URLSearchParams, currentAdmin?: string): OrderFilterParams {
+  const assignedTo = parseText(searchParams.get('assignedTo'))
+  const status = (searchParams.get('status') ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value): value is OrderStatus => (ORDER_STATUSES as readonly string[]).includes(value))
+  const sort = searchParams.get('sort')
+
+  return {
+    status: status.length > 0 ? status : undefined,
+    from: parseDate(searchParams.get('from')),
+    to: parseDate(searchParams.get('to')),
+    company: parseText(searchParams.get('company')),
+    email: parseText(searchParams.get('email')),
+    sku: parseText(searchParams.get('sku')),
+    search: parseText(searchParams.get('search')),
+    assignedTo: assignedTo === ASSIGNED_TO_ME ? currentAdmin : assignedTo === UNASSIGNED ? undefined : assignedTo,
+    unassigned: assignedTo === UNASSIGNED || undefined,
+    sort: ORDER_SORT_KEYS.find((key) => key === sort),
+    direction: searchParams.get('direction') === 'asc' ? 'asc' : undefined,
+  }
+}
+
+/**
+ * Build parameterized WHERE conditions on "Order" o, numbering placeholders from startIndex
+ */
+export function buildOrderFilters(
+  params: OrderFilterParams,
+  startIndex: number = 1,
+): { filters: string[]; values: any[]; nextIndex: number } {
+  const filters: string[] = []
+  const values: any[] = []
+  let paramIndex = startIndex
+
+  const addValue = (value: unknown) => {
+    values.push(value)
+    return `$${paramIndex++}`
+  }
+
+  if (params.status && params.status.length > 0) {
+    filters.push(`o.status = ANY(${addValue(params.status)}::text[])`)
+  }
+  if (params.from) {
+    filters.push(`o."createdAt" >= (${addValue(params.from)}::date AT TIME ZONE 'Asia/Kolkata')`)
+  }
+  if (params.to) {
+    filters.push(`o."createdAt" < ((${addValue(params.to)}::date + 1) AT TIME ZONE 'Asia/Kolkata')`)
+  }
+  if (params.company) {
+    filters.push(`o."companyName" ILIKE '%' || ${addValue(params.company)} || '%'`)
+  }
+  if (params.email) {
+    filters.push(`o.email ILIKE '%' || ${addValue(params.email)} || '%'`)
+  }
+  if (params.sku) {
+    // product_part_number() strips punctuation, so "M12-X" also finds "M12X..." (see prisma/schema.sql)
+    filters.push(
+      `EXISTS (SELECT 1 FROM "OrderItem" skus WHERE skus."orderId" = o.id ` +
+        `AND product_part_number(skus.sku) LIKE '%' || product_part_number(${addValue(params.sku)}) || '%')`,
+    )
+  }
+  if (params.assignedTo) {
+    filters.push(`o."assignedTo" = ${addValue(params.assignedTo)}`)
+  }
+  if (params.unassigned) {
+    filters.push(`o."assignedTo" IS NULL`)
+  }
+  if (params.search) {
+    const search = addValue(params.search)
+    filters.push(
+      `(o.reference ILIKE '%' || ${search} || '%'
+        OR o."companyName" ILIKE '%' || ${search} || '%'
+        OR o."contactName" ILIKE '%' || ${search} || '%'
+        OR o.email ILIKE '%' || ${search} || '%'
+        OR EXISTS (
+          SELECT 1 FROM "OrderItem" matches
+          WHERE matches."orderId" = o.id
+            AND (matches.sku ILIKE '%' || ${search} || '%' OR matches.name ILIKE '%' || ${search} || '%')
+        ))`,
+    )
+  }
+
+  return { filters, values, nextIndex: paramIndex }
+}
+
+const SORT_COLUMNS: Record<OrderSortKey, (alias: string) => string> = {
+  createdAt: (alias) => `${alias}."createdAt"`,
+  updatedAt: (alias) => `${alias}."updatedAt"`,
+  reference: (alias) => `${alias}.reference`,
+  companyName: (alias) => `LOWER(${alias}."companyName")`,
+  // Workflow order rather than alphabetical
+  status: (alias) => `array_position(ARRAY[${ORDER_STATUSES.map((status) => `'${status}'`).join(', ')}], ${alias}.status)`,
+  assignedTo: (alias) => `${alias}."assignedTo"`,
+}
+
+/**
+ * ORDER BY expression for the chosen sort (newest first by default); ties keep a stable order
+ */
+export function orderSortSql(params: OrderFilterParams, alias: string = 'o'): string {
+  const direction = params.direction === 'asc' ? 'ASC' : 'DESC'
+  return `${SORT_COLUMNS[params.sort ?? 'createdAt'](alias)} ${direction}, ${alias}."createdAt" ${direction}, ${alias}.id ${direction}`
+}
@@ -0,0 +1,51 @@
+import type { PoolClient } from 'pg'
+import { pgPool } from '@/lib/pg'
+import type { OrderStatus, OrderStatusHistoryEntry } from '@/types'
+
+type Queryable = Pick<PoolClient, 'query'>
+
+export interface OrderStatusChange {
+  fromStatus: OrderStatus | null
+  toStatus: OrderStatus
+  comment?: string | null
+  changedBy: string | null
+}
+
+/**
+ * Append a status change to the order's history; call in the transaction that changes the status
+ */
+export async function recordOrderStatusChange(
+  orderId: string,
+  change: OrderStatusChange,
+  db: Queryable = pgPool,
+): Promise<void> {
+  await db.query(
+    `
+    INSERT INTO "OrderStatusHistory" ("orderId", "fromStatus", "toStatus", comment, "changedBy")
+    VALUES ($1, $2, $3, $4, $5)
+    `,
+    [orderId, change.fromStatus, change.toStatus, change.comment?.trim() || null, change.changedBy],
+  )
+}
+
+/**
+ * Status history of an order, oldest first. Customers are not shown who made each change.
+ */
+export async function fetchOrderStatusHistory(
+  orderId: string,
+  options: { includeChangedBy?: boolean } = {},
+  db: Queryable = pgPool,
+): Promise<OrderStatusHistoryEntry[]> {
+  const result = await db.query(
+    `
+    SELECT id, "fromStatus", "toStatus", comment, "changedBy", "createdAt"
+    FROM "OrderStatusHistory"
+    WHERE "orderId" = $1
+    ORDER BY "createdAt" ASC, id ASC
+    `,
+    [orderId],
+  )
+  return result.rows.map(({ changedBy, ...entry }) =>
+    options.includeChangedBy ? { ...entry, changedBy } : entry,
+  )
+}
@@ -0,0 +1,77 @@
+import type { OrderStatus } from '@/types'
+
+/**
+ * Order (RFQ) status workflow. Only the transitions listed here are allowed; closed,
+ * rejected and cancelled orders are final. Every change is logged in "OrderStatusHistory".
+ */
+
+export const ORDER_STATUSES = [
+  'pending',
+  'under_review',
+  'quoted',
+  'approved',
+  'po_received',
+  'in_production',
+  'dispatched',
+  'closed',
+  'rejected',
+  'cancelled',
+] as const
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending review',
+  under_review: 'Under review',
+  quoted: 'Quoted',
+  approved: 'Approved',
+  po_received: 'PO received',
+  in_production: 'In production',
+  dispatched: 'Dispatched',
+  closed: 'Closed',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+}
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['under_review', 'quoted', 'rejected', 'cancelled'],
+  under_review: ['quoted', 'rejected', 'cancelled'],
+  // Back to review when the customer asks for changes to the quote
+  quoted: ['under_review', 'approved', 'po_received', 'rejected', 'cancelled'],
+  approved: ['po_received', 'cancelled'],
+  po_received: ['in_production', 'dispatched', 'cancelled'],
+  in_production: ['dispatched', 'cancelled'],
+  dispatched: ['closed'],
+  closed: [],
+  rejected: [],
+  cancelled: [],
+}
+
+// Moving to these needs a reason, which the customer sees
+export const REASON_REQUIRED_STATUSES: readonly OrderStatus[] = ['rejected', 'cancelled']
+
+// Stock is reserved on entering these and released if the order is cancelled from them (see lib/stock.ts)
+export const STOCK_HOLDING_STATUSES: readonly OrderStatus[] = ['approved', 'po_received', 'in_production']
+
+// Entering these ships the order: what is still reserved for it is dispatched, leaving stock on hand
+export const STOCK_DISPATCHED_STATUSES: readonly OrderStatus[] = ['dispatched', 'closed']
+
+export const orderStatusLabel = (status: string): string =>
+  ORDER_STATUS_LABELS[status as OrderStatus] ?? status.charAt(0).toUpperCase() + status.slice(1)
+
+export const canChangeOrderStatus = (from: OrderStatus, to: OrderStatus): boolean =>
+  ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false
+
+/**
+ * Why a status change is not allowed, or null when it is
+ */
+export function orderStatusChangeError(from: OrderStatus, to: OrderStatus, comment?: string | null): string | null {
+  if (!canChangeOrderStatus(from, to)) {
+    const allowed = ORDER_STATUS_TRANSITIONS[from] ?? []
+    return allowed.length === 0
+      ? `${orderStatusLabel(from)} orders can no longer change status`
+      : `An order cannot move from ${orderStatusLabel(from)} to ${orderStatusLabel(to)}`
+  }
+  if (REASON_REQUIRED_STATUSES.includes(to) && !comment?.trim()) {
+    return `A reason is required to mark an order as ${orderStatusLabel(to).toLowerCase()}`
+  }
+  return null
+}
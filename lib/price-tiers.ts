@@ -0,0 +1,83 @@
+import type { PoolClient } from 'pg'
+import { pgPool } from '@/lib/pg'
+import type { PriceTierInput } from '@/lib/product-validation'
+import type { PriceTier } from '@/types'
+
+/**
+ * Quantity-break price tiers per product. Tiers without a customer group are public;
+ * group tiers are only returned for that group's customers and for admin editing.
+ */
+
+type Queryable = Pick<PoolClient, 'query'>
+
+const PRICE_TIER_COLUMNS = `id, "productId", "minQuantity", "unitPrice", "customerGroup", "createdAt", "updatedAt"`
+
+const toPriceTier = (row: any): PriceTier => ({ ...row, unitPrice: Number(row.unitPrice) })
+
+/**
+ * Tiers of the given products keyed by product id. `allGroups` includes every
+ * customer group's tiers (admin editing); otherwise public tiers plus those of
+ * `customerGroup` are returned.
+ */
+export async function fetchPriceTiers(
+  productIds: string[],
+  options: { allGroups?: boolean; customerGroup?: string | null } = {},
+  db: Queryable = pgPool,
+): Promise<Record<string, PriceTier[]>> {
+  const tiersByProduct: Record<string, PriceTier[]> = {}
+  if (productIds.length === 0) return tiersByProduct
+
+  const result = await db.query(
+    `
+    SELECT ${PRICE_TIER_COLUMNS}
+    FROM "ProductPriceTier"
+    WHERE "productId" = ANY($1::uuid[])
+    ${options.allGroups ? '' : 'AND ("customerGroup" IS NULL OR "customerGroup" = $2)'}
+    ORDER BY "customerGroup" ASC NULLS FIRST, "minQuantity" ASC
+    `,
+    options.allGroups ? [productIds] : [productIds, options.customerGroup ?? null],
+  )
+
+  for (const row of result.rows) {
+    const tier = toPriceTier(row)
+    tiersByProduct[tier.productId] = [...(tiersByProduct[tier.productId] ?? []), tier]
+  }
+  return tiersByProduct
+}
+
+/**
+ * Attach the tiers visible to a customer group (public tiers when null) as `priceTiers`
+ */
+export async function applyPriceTiers<T extends { id: string }>(
+  products: T[],
+  customerGroup: string | null = null,
+  db: Queryable = pgPool,
+): Promise<Array<T & { priceTiers: PriceTier[] }>> {
+  const tiers = await fetchPriceTiers(products.map((product) => product.id), { customerGroup }, db)
+  return products.map((product) => ({ ...product, priceTiers: tiers[product.id] ?? [] }))
+}
+
+/**
+ * Replace all tiers of a product; run inside the caller's transaction
+ */
+export async function replacePriceTiers(
+  productId: string,
+  tiers: PriceTierInput[],
+  db: Queryable,
+): Promise<PriceTier[]> {
+  await db.query(`DELETE FROM "ProductPriceTier" WHERE "productId" = $1`, [productId])
+
+  const saved: PriceTier[] = []
+  for (const tier of tiers) {
+    const result = await db.query(
+      `
+      INSERT INTO "ProductPriceTier" ("productId", "minQuantity", "unitPrice", "customerGroup", "createdAt", "updatedAt")
+      VALUES ($1, $2, $3, $4, NOW(), NOW())
+      RETURNING ${PRICE_TIER_COLUMNS}
+      `,
+      [productId, tier.minQuantity, tier.unitPrice, tier.customerGroup ?? null],
+    )
+    saved.push(toPriceTier(result.rows[0]))
+  }
+  return saved.sort((a, b) => (a.customerGroup ?? '').localeCompare(b.customerGroup ?? '') || a.minQuantity - b.minQuantity)
+}
@@ -0,0 +1,71 @@
+import { z } from 'zod'
+
+// Customer group codes are referenced by price tiers and shown to admins
+export const CUSTOMER_GROUP_CODE_PATTERN = /^[a-z0-9-]+$/
+
+const customerGroupCodeSchema = z
+  .string()
+  .trim()
+  .min(1, 'Code is required')
+  .max(50)
+  .regex(CUSTOMER_GROUP_CODE_PATTERN, {
+    message: 'Code must contain only lowercase letters, numbers, and hyphens',
+  })
+
+export const customerGroupSchema = z.object({
+  code: customerGroupCodeSchema,
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).optional().nullable(),
+})
+
+export const customerGroupUpdateSchema = customerGroupSchema.partial()
+
+export const customerGroupMemberSchema = z.object({
+  email: z.string().email('Invalid email address').toLowerCase().trim(),
+})
+
+export const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' })
+  .nullable()
+  .optional()
+  .or(z.literal('').transform(() => null))
+
+export const priceListItemSchema = z.object({
+  sku: z.string().trim().min(1, 'SKU is required'),
+  unitPrice: z.coerce.number().nonnegative('Unit price cannot be negative'),
+})
+
+export const priceListSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(200),
+    customerGroupId: z.string().uuid('Invalid customer group'),
+    discountPercent: z.coerce.number().min(0).max(100, 'Discount cannot exceed 100%').default(0),
+    validFrom: dateSchema,
+    validTo: dateSchema,
+    active: z.boolean().default(true),
+    items: z
+      .array(priceListItemSchema)
+      .max(5000)
+      .default([])
+      .superRefine((items, ctx) => {
+        const seen = new Set<string>()
+        items.forEach((item, index) => {
+          if (seen.has(item.sku)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `Duplicate SKU "${item.sku}"`,
+              path: [index, 'sku'],
+            })
+          }
+          seen.add(item.sku)
+        })
+      }),
+  })
+  .refine((list) => !list.validFrom || !list.validTo || list.validFrom <= list.validTo, {
+    message: 'Valid to must be on or after valid from',
+    path: ['validTo'],
+  })
+
+export type CustomerGroupInput = z.infer<typeof customerGroupSchema>
+export type PriceListInput = z.infer<typeof priceListSchema>
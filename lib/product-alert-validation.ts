@@ -0,0 +1,17 @@
+import { z } from 'zod'
+import type { ProductSubscriptionType } from '@/types'
+
+export const PRODUCT_SUBSCRIPTION_TYPES = ['back_in_stock', 'price_drop'] as const
+
+export const PRODUCT_ALERT_LABELS: Record<ProductSubscriptionType, string> = {
+  back_in_stock: 'Back in stock',
+  price_drop: 'Price drop',
+}
+
+export const productSubscriptionSchema = z.object({
+  type: z.enum(PRODUCT_SUBSCRIPTION_TYPES),
+  // Guests only; logged-in customers subscribe with their account email
+  email: z.string().email('Invalid email address').toLowerCase().trim().optional(),
+})
+
+export type ProductSubscriptionInput = z.infer<typeof productSubscriptionSchema>
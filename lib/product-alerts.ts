@@ -0,0 +1,110 @@
+import { pgPool } from '@/lib/pg'
+import { log } from '@/lib/logger'
+import { absoluteUrl, queueEmail } from '@/lib/mail'
+import { formatPrice } from '@/lib/format-price'
+import { PRODUCT_ALERT_LABELS } from '@/lib/product-alert-validation'
+import type { ProductSubscriptionType } from '@/types'
+
+/**
+ * Back-in-stock and price-drop alerts. Routes that change a product's stock or price
+ * pass its state before and after the change; subscribers are emailed in the background.
+ */
+
+export const SUBSCRIPTION_CONFIRM_DAYS = 7
+// A product flapping in and out of stock alerts each subscriber at most once a day
+const ALERT_COOLDOWN_HOURS = 24
+
+export interface ProductAlertState {
+  id: string
+  sku: string
+  name: string
+  price?: number | string | null
+  priceType?: string | null
+  inStock?: boolean | null
+  stockQuantity?: number | null
+}
+
+// Matches the admin product list: a known quantity of zero is out of stock
+const isAvailable = (state: ProductAlertState) =>
+  state.inStock === true && (state.stockQuantity === null || state.stockQuantity === undefined || state.stockQuantity > 0)
+
+const toPrice = (value: ProductAlertState['price']) =>
+  value === null || value === undefined || value === '' ? null : Number(value)
+
+/**
+ * Alert types triggered by a change from `before` to `after`
+ */
+export function detectProductAlerts(before: ProductAlertState, after: ProductAlertState): ProductSubscriptionType[] {
+  const types: ProductSubscriptionType[] = []
+  if (!isAvailable(before) && isAvailable(after)) {
+    types.push('back_in_stock')
+  }
+  const previousPrice = toPrice(before.price)
+  const price = toPrice(after.price)
+  if (previousPrice !== null && price !== null && price < previousPrice) {
+    types.push('price_drop')
+  }
+  return types
+}
+
+async function sendProductAlerts(
+  before: ProductAlertState,
+  after: ProductAlertState,
+  types: ProductSubscriptionType[],
+): Promise<number> {
+  // Claim the subscribers by stamping them, so concurrent updates cannot alert twice
+  const result = await pgPool.query<{ email: string; type: ProductSubscriptionType; unsubscribeToken: string }>(
+    `
+    UPDATE "ProductSubscription"
+    SET "lastNotifiedAt" = NOW(), "updatedAt" = NOW()
+    WHERE "productId" = $1
+      AND type = ANY($2::text[])
+      AND verified = TRUE
+      AND ("lastNotifiedAt" IS NULL OR "lastNotifiedAt" < NOW() - make_interval(hours => $3))
+    RETURNING email, type, "unsubscribeToken"
+    `,
+    [after.id, types, ALERT_COOLDOWN_HOURS],
+  )
+
+  const productUrl = absoluteUrl(`/products/${after.id}`)
+  for (const subscription of result.rows) {
+    const unsubscribeUrl = absoluteUrl(`/product-alerts?unsubscribe=${encodeURIComponent(subscription.unsubscribeToken)}`)
+    if (subscription.type === 'back_in_stock') {
+      queueEmail('productBackInStock', subscription.email, {
+        productName: after.name,
+        sku: after.sku,
+        productUrl,
+        unsubscribeUrl,
+      })
+    } else {
+      queueEmail('productPriceDrop', subscription.email, {
+        productName: after.name,
+        sku: after.sku,
+        previousPrice: formatPrice(before.price, before.priceType ?? undefined),
+        price: formatPrice(after.price, after.priceType ?? undefined),
+        productUrl,
+        unsubscribeUrl,
+      })
+    }
+  }
+  return result.rows.length
+}
+
+/**
+ * Queue alerts for a product change without waiting for them. Never throws, so it
+ * is safe to call after the change has been committed.
+ */
+export function notifyProductSubscribers(before: ProductAlertState, after: ProductAlertState): void {
+  const types = detectProductAlerts(before, after)
+  if (types.length === 0) return
+
+  sendProductAlerts(before, after, types)
+    .then((count) => {
+      if (count > 0) {
+        log.info('Product alerts queued', { productId: after.id, types, count })
+      }
+    })
+    .catch((error) => {
+      log.error('Failed to queue product alerts', error, { productId: after.id, types })
+    })
+}
@@ -0,0 +1,40 @@
+import { ATTRIBUTE_KEY_PATTERN } from '@/lib/category-validation'
+import type { CategoryAttribute, ProductAttributeValue } from '@/types'
+
+/**
+ * Category attribute values on products (see lib/category-attributes.ts for templates).
+ * Attribute filters travel as attr.<key>=value1,value2 in the products URL and API.
+ * Safe to import from client components.
+ */
+export const ATTRIBUTE_PARAM_PREFIX = 'attr.'
+
+/**
+ * Collect attr.<key> params into { key: values }; unknown-looking keys are ignored
+ */
+export function parseAttributeFilters(
+  entries: Iterable<[string, string | string[] | undefined]>,
+): Record<string, string[]> | undefined {
+  const filters: Record<string, string[]> = {}
+  for (const [name, raw] of Array.from(entries)) {
+    if (!name.startsWith(ATTRIBUTE_PARAM_PREFIX)) continue
+    const key = name.slice(ATTRIBUTE_PARAM_PREFIX.length)
+    if (!ATTRIBUTE_KEY_PATTERN.test(key) || typeof raw !== 'string') continue
+    const values = raw.split(',').map((v) => v.trim()).filter(Boolean)
+    if (values.length > 0) filters[key] = values
+  }
+  return Object.keys(filters).length > 0 ? filters : undefined
+}
+
+/**
+ * Display value with unit, e.g. "6.5 mm", "Yes"
+ */
+export function formatAttributeValue(
+  attribute: Pick<CategoryAttribute, 'dataType' | 'unit'>,
+  value: ProductAttributeValue | null | undefined,
+): string | null {
+  if (value === null || value === undefined || value === '') return null
+  if (attribute.dataType === 'boolean' || typeof value === 'boolean') {
+    return value === true || value === 'true' ? 'Yes' : 'No'
+  }
+  return attribute.unit ? `${value} ${attribute.unit}` : String(value)
+}
@@ -0,0 +1,199 @@
+import { pgPool } from '@/lib/pg'
+import { buildProductFilters, type ProductFilterParams } from '@/lib/product-query'
+import { SPEC_RANGES, type SpecRange } from '@/lib/spec-ranges'
+import { fetchCategoryTemplate } from '@/lib/category-attributes'
+import { isValidUUID } from '@/lib/validation'
+import type { CategoryAttribute, SpecRangeKey } from '@/types'
+
+/**
+ * Facets shown in the product filter sidebar. Each facet is counted against every
+ * active filter except its own (disjunctive faceting), so ticking "M12" still shows
+ * how many products the other connector types would add.
+ */
+const FACETS = [
+  { key: 'categories', param: 'categoryId', column: '"categoryId"' },
+  { key: 'connectorTypes', param: 'connectorType', column: '"connectorType"' },
+  { key: 'codings', param: 'code', column: 'coding' },
+  { key: 'ipRatings', param: 'degreeOfProtection', column: '"ipRating"' },
+  { key: 'pins', param: 'pins', column: 'pins' },
+  { key: 'genders', param: 'gender', column: 'gender' },
+] as const
+
+export type ProductFacetKey = (typeof FACETS)[number]['key']
+
+export interface ProductFacets {
+  /** Every value present in the catalog, including ones with a zero count */
+  values: Record<ProductFacetKey, Array<string | number>>
+  /** Matching products per value, keyed by the value as a string */
+  counts: Record<ProductFacetKey, Record<string, number>>
+  /** Products matching all active filters */
+  total: number
+  /** Lowest and highest parsed spec value, null when no matching product has one */
+  ranges: Record<SpecRangeKey, SpecRange | null>
+  /** Filterable category attributes with per-value counts */
+  attributes: ProductAttributeFacet[]
+}
+
+export interface ProductAttributeFacet extends Pick<CategoryAttribute, 'key' | 'label' | 'unit' | 'dataType'> {
+  values: Array<{ value: string; count: number }>
+}
+
+/**
+ * Facets for the filterable attributes of the selected category's template.
+ * Only available when exactly one category is selected, since templates differ per category.
+ */
+async function fetchAttributeFacets(params: ProductFilterParams): Promise<ProductAttributeFacet[]> {
+  const categoryIds = (Array.isArray(params.categoryId) ? params.categoryId : [params.categoryId]).filter(
+    (id): id is string => !!id && isValidUUID(id),
+  )
+  if (categoryIds.length !== 1) return []
+
+  const attributes = (await fetchCategoryTemplate(categoryIds[0])).filter((attribute) => attribute.filterable)
+  if (attributes.length === 0) return []
+
+  const branches: string[] = []
+  const values: any[] = []
+
+  attributes.forEach((attribute) => {
+    const { [attribute.key]: _own, ...otherAttributes } = params.attributes ?? {}
+    const { filters, values: facetValues } = buildProductFilters(
+      { ...params, attributes: otherAttributes },
+      values.length + 1,
+    )
+    values.push(...facetValues)
+    const keyParam = `$${values.length + 1}`
+    values.push(attribute.key)
+    const condition = filters.length > 0 ? filters.join(' AND ') : 'TRUE'
+    branches.push(`
+      SELECT ${keyParam}::text AS key, attributes->>${keyParam} AS value,
+             COUNT(*) FILTER (WHERE ${condition}) AS count
+      FROM "Product"
+      WHERE attributes ? ${keyParam}
+      GROUP BY 2
+    `)
+  })
+
+  const result = await pgPool.query<{ key: string; value: string; count: string }>(
+    branches.join(' UNION ALL '),
+    values,
+  )
+
+  return attributes.map((attribute) => {
+    const rows = result.rows.filter((row) => row.key === attribute.key && row.value !== '')
+    // Select options keep their configured order, numbers sort numerically
+    const order = (value: string) =>
+      attribute.dataType === 'select' ? attribute.allowedValues.indexOf(value) : attribute.dataType === 'number' ? Number(value) : 0
+    rows.sort((a, b) => order(a.value) - order(b.value) || a.value.localeCompare(b.value))
+    return {
+      key: attribute.key,
+      label: attribute.label,
+      unit: attribute.unit,
+      dataType: attribute.dataType,
+      values: rows.map((row) => ({ value: row.value, count: parseInt(row.count, 10) })),
+    }
+  })
+}
+
+/**
+ * Slider bounds for each spec range, computed like the facets: each range ignores
+ * its own bounds so the slider can always be widened again
+ */
+async function fetchSpecRangeExtents(params: ProductFilterParams): Promise<ProductFacets['ranges']> {
+  const selects: string[] = []
+  const values: any[] = []
+
+  SPEC_RANGES.forEach((spec) => {
+    const { filters, values: rangeValues } = buildProductFilters(
+      { ...params, [`${spec.key}Min`]: undefined, [`${spec.key}Max`]: undefined },
+      values.length + 1,
+    )
+    values.push(...rangeValues)
+    const condition = filters.length > 0 ? filters.join(' AND ') : 'TRUE'
+    selects.push(
+      `MIN("${spec.minColumn}") FILTER (WHERE ${condition}) AS "${spec.key}Min"`,
+      `MAX("${spec.maxColumn}") FILTER (WHERE ${condition}) AS "${spec.key}Max"`,
+    )
+  })
+
+  const result = await pgPool.query(`SELECT ${selects.join(', ')} FROM "Product"`, values)
+  const row = result.rows[0] ?? {}
+
+  const ranges = {} as ProductFacets['ranges']
+  for (const spec of SPEC_RANGES) {
+    const min = row[`${spec.key}Min`]
+    const max = row[`${spec.key}Max`]
+    // NUMERIC comes back from pg as a string
+    ranges[spec.key] = min !== null && max !== null && min !== undefined && max !== undefined
+      ? { min: Number(min), max: Number(max) }
+      : null
+  }
+  return ranges
+}
+
+/**
+ * Count products per filter value for the given filters
+ */
+export async function fetchProductFacets(params: ProductFilterParams): Promise<ProductFacets> {
+  const branches: string[] = []
+  const values: any[] = []
+
+  FACETS.forEach((facet) => {
+    // Placeholders continue numbering after the previous branches' values
+    const { filters, values: facetValues } = buildProductFilters(
+      { ...params, [facet.param]: undefined },
+      values.length + 1,
+    )
+    values.push(...facetValues)
+    const condition = filters.length > 0 ? filters.join(' AND ') : 'TRUE'
+    branches.push(`
+      SELECT '${facet.key}' AS facet, ${facet.column}::text AS value,
+             COUNT(*) FILTER (WHERE ${condition}) AS count
+      FROM "Product"
+      WHERE ${facet.column} IS NOT NULL
+      GROUP BY ${facet.column}
+    `)
+  })
+
+  const { filters, values: totalValues } = buildProductFilters(params, values.length + 1)
+  values.push(...totalValues)
+  branches.push(`
+    SELECT 'total' AS facet, NULL AS value, COUNT(*) AS count
+    FROM "Product"
+    ${filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : ''}
+  `)
+
+  const [result, ranges, attributes] = await Promise.all([
+    pgPool.query<{ facet: string; value: string | null; count: string }>(branches.join(' UNION ALL '), values),
+    fetchSpecRangeExtents(params),
+    fetchAttributeFacets(params),
+  ])
+
+  const facets: ProductFacets = {
+    values: { categories: [], connectorTypes: [], codings: [], ipRatings: [], pins: [], genders: [] },
+    counts: { categories: {}, connectorTypes: {}, codings: {}, ipRatings: {}, pins: {}, genders: {} },
+    total: 0,
+    ranges,
+    attributes,
+  }
+
+  for (const row of result.rows) {
+    const count = parseInt(row.count, 10)
+    if (row.facet === 'total') {
+      facets.total = count
+      continue
+    }
+    const key = row.facet as ProductFacetKey
+    if (row.value === null || row.value === '') continue
+    facets.values[key].push(key === 'pins' ? parseInt(row.value, 10) : row.value)
+    facets.counts[key][row.value] = count
+  }
+
+  // Numbers sort numerically, everything else alphabetically
+  for (const key of Object.keys(facets.values) as ProductFacetKey[]) {
+    facets.values[key].sort((a, b) =>
+      typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b)),
+    )
+  }
+
+  return facets
+}
@@ -0,0 +1,88 @@
+import type { PoolClient } from 'pg'
+import { z } from 'zod'
+import { pgPool } from '@/lib/pg'
+import type { Product, ProductFamily, ProductVariant } from '@/types'
+
+/**
+ * Product families group variant SKUs (e.g. one M12 cordset in several lengths and
+ * mantle materials) under shared content. Each variant stores its value for every
+ * family axis in "variantOptions"; the combination is unique within the family.
+ */
+
+type Queryable = Pick<PoolClient, 'query'>
+
+export const PRODUCT_FAMILY_COLUMNS = `id, name, description, images, "categoryId", axes, "createdAt", "updatedAt"`
+
+export async function fetchProductFamily(id: string, db: Queryable = pgPool): Promise<ProductFamily | null> {
+  const result = await db.query<ProductFamily>(
+    `SELECT ${PRODUCT_FAMILY_COLUMNS} FROM "ProductFamily" WHERE id = $1`,
+    [id],
+  )
+  return result.rows[0] ?? null
+}
+
+/**
+ * Variants of a family for the variant selector
+ */
+export async function fetchFamilyVariants(familyId: string, db: Queryable = pgPool): Promise<ProductVariant[]> {
+  const result = await db.query(
+    `
+    SELECT id, sku, mpn, price, "priceType", "inStock", "stockQuantity", "variantOptions"
+    FROM "Product"
+    WHERE "familyId" = $1
+    ORDER BY sku ASC
+    `,
+    [familyId],
+  )
+  return result.rows.map((row) => ({
+    ...row,
+    price: row.price !== null && row.price !== undefined ? Number(row.price) : undefined,
+  }))
+}
+
+/**
+ * Check a variant's options against the family axes. Every axis needs a value,
+ * keys outside the axes are discarded, and a ZodError with paths like
+ * variantOptions.cableLength is thrown for missing values.
+ */
+export function validateVariantOptions(
+  family: Pick<ProductFamily, 'axes'>,
+  options: Record<string, unknown> | null | undefined,
+): Record<string, string> {
+  const shape: Record<string, z.ZodTypeAny> = {}
+  for (const axis of family.axes) {
+    shape[axis.key] = z.coerce
+      .string({ required_error: `${axis.label} is required for variants of this family` })
+      .trim()
+      .min(1, `${axis.label} is required for variants of this family`)
+      .max(100)
+  }
+
+  const parsed = z.object({ variantOptions: z.object(shape) }).parse({ variantOptions: options ?? {} })
+  return parsed.variantOptions as Record<string, string>
+}
+
+/**
+ * Fill in family content on list rows: the family name, and the family images for
+ * variants that have none of their own
+ */
+export async function applyFamilyContent<T extends Product>(products: T[], db: Queryable = pgPool): Promise<T[]> {
+  const familyIds = Array.from(new Set(products.map((p) => p.familyId).filter((id): id is string => !!id)))
+  if (familyIds.length === 0) return products
+
+  const result = await db.query<Pick<ProductFamily, 'id' | 'name' | 'images'>>(
+    `SELECT id, name, images FROM "ProductFamily" WHERE id = ANY($1::uuid[])`,
+    [familyIds],
+  )
+  const families = new Map(result.rows.map((family) => [family.id, family]))
+
+  return products.map((product) => {
+    const family = product.familyId ? families.get(product.familyId) : undefined
+    if (!family) return product
+    return {
+      ...product,
+      familyName: family.name,
+      images: product.images?.length ? product.images : family.images ?? [],
+    }
+  })
+}
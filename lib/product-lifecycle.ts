@@ -0,0 +1,60 @@
+import type { Product, ProductLifecycleStatus } from '@/types'
+
+/**
+ * Product lifecycle. A status applies from its effective date, or at once without one.
+ * Discontinued products keep their page (and order history links) but are left out of
+ * the catalog listings unless requested by id or with `includeDiscontinued`.
+ */
+
+export const PRODUCT_LIFECYCLE_STATUSES = ['active', 'nrnd', 'last_time_buy', 'discontinued'] as const
+
+export const PRODUCT_LIFECYCLE_LABELS: Record<ProductLifecycleStatus, string> = {
+  active: 'Active',
+  nrnd: 'Not recommended for new designs',
+  last_time_buy: 'Last time buy',
+  discontinued: 'Discontinued',
+}
+
+// Products discontinued as of today, for WHERE clauses on "Product"
+export const DISCONTINUED_SQL = `("lifecycleStatus" = 'discontinued' AND ("lifecycleEffectiveDate" IS NULL OR "lifecycleEffectiveDate" <= CURRENT_DATE))`
+
+type LifecycleFields = Pick<Product, 'lifecycleStatus' | 'lifecycleEffectiveDate' | 'lastTimeBuyDate'>
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+
+export function isDiscontinued(product: LifecycleFields): boolean {
+  return (
+    product.lifecycleStatus === 'discontinued' &&
+    (!product.lifecycleEffectiveDate || product.lifecycleEffectiveDate <= today())
+  )
+}
+
+/**
+ * Customer-facing notice for a product that is not active, e.g. for the product page
+ * banner and RFQ warnings; null for active products
+ */
+export function lifecycleNotice(product: LifecycleFields): string | null {
+  const status = product.lifecycleStatus ?? 'active'
+  if (status === 'active') return null
+
+  const effectiveDate = product.lifecycleEffectiveDate
+  const upcoming = !!effectiveDate && effectiveDate > today()
+
+  switch (status) {
+    case 'nrnd':
+      return upcoming
+        ? `Not recommended for new designs from ${formatDate(effectiveDate)}.`
+        : 'Not recommended for new designs.'
+    case 'last_time_buy':
+      return product.lastTimeBuyDate
+        ? `Last time buy: final orders are accepted until ${formatDate(product.lastTimeBuyDate)}.`
+        : 'Last time buy: this product will be discontinued soon.'
+    case 'discontinued':
+      return upcoming
+        ? `This product will be discontinued on ${formatDate(effectiveDate)}.`
+        : `This product has been discontinued${effectiveDate ? ` since ${formatDate(effectiveDate)}` : ''}.`
+  }
+}
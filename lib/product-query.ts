@@ -0,0 +1,229 @@
+import { isValidUUID } from '@/lib/validation'
+import { parseProductSearch } from '@/lib/product-search'
+import { SPEC_RANGES, parseSpecRangeFilters } from '@/lib/spec-ranges'
+import { parseAttributeFilters } from '@/lib/product-attributes'
+import { ATTRIBUTE_KEY_PATTERN } from '@/lib/category-validation'
+import { DISCONTINUED_SQL } from '@/lib/product-lifecycle'
+import type { SpecRangeFilters } from '@/types'
+
+/**
+ * Product filter parameters shared by the public product list, server components
+ * and admin tooling (export, facets) so every consumer filters the catalog the same way
+ */
+export interface ProductFilterParams extends SpecRangeFilters {
+  categoryId?: string | string[]
+  connectorType?: string | string[]
+  code?: string | string[]
+  degreeOfProtection?: string | string[]
+  pins?: number | number[]
+  gender?: string | string[]
+  inStock?: boolean
+  search?: string
+  ids?: string[]
+  // Category attribute values keyed by attribute key (attr.<key> in the query string)
+  attributes?: Record<string, string[]>
+  // Show each product family once (see buildProductListSource); not a filter
+  groupFamilies?: boolean
+  // Discontinued products are hidden unless this is set or they are requested by id
+  includeDiscontinued?: boolean
+}
+
+const toList = (value: string | string[] | undefined): string[] => {
+  if (!value) return []
+  const list = Array.isArray(value) ? value : [value]
+  return list.map((v) => v.trim()).filter(Boolean)
+}
+
+const splitParam = (value: string | null): string[] | undefined => {
+  if (!value) return undefined
+  const list = value.split(',').map((v) => v.trim()).filter(Boolean)
+  return list.length > 0 ? list : undefined
+}
+
+/**
+ * Parse product filters from a query string (same keys as GET /api/products)
+ */
+export function parseProductFilterParams(searchParams: URLSearchParams): ProductFilterParams {
+  const pins = splitParam(searchParams.get('pins'))
+    ?.map((v) => parseInt(v, 10))
+    .filter((v) => !isNaN(v))
+
+  return {
+    categoryId: splitParam(searchParams.get('categoryId')),
+    connectorType: splitParam(searchParams.get('connectorType')),
+    code: splitParam(searchParams.get('code')),
+    degreeOfProtection: splitParam(searchParams.get('degreeOfProtection')),
+    pins: pins && pins.length > 0 ? pins : undefined,
+    gender: splitParam(searchParams.get('gender')),
+    inStock: searchParams.get('inStock') === 'true' ? true : undefined,
+    search: searchParams.get('search')?.trim() || undefined,
+    ids: splitParam(searchParams.get('ids')),
+    ...parseSpecRangeFilters((name) => searchParams.get(name)),
+    attributes: parseAttributeFilters(searchParams.entries()),
+    groupFamilies: searchParams.get('groupFamilies') === 'true' ? true : undefined,
+    includeDiscontinued: searchParams.get('includeDiscontinued') === 'true' ? true : undefined,
+  }
+}
+
+// Search results are ordered by relevance, so they page by offset instead of by id
+const SEARCH_CURSOR_PREFIX = 'offset:'
+
+export const encodeSearchCursor = (offset: number) => `${SEARCH_CURSOR_PREFIX}${offset}`
+
+export function decodeSearchCursor(cursor: string | null | undefined): number {
+  if (!cursor?.startsWith(SEARCH_CURSOR_PREFIX)) return 0
+  const offset = parseInt(cursor.slice(SEARCH_CURSOR_PREFIX.length), 10)
+  return isNaN(offset) || offset < 0 ? 0 : offset
+}
+
+/**
+ * Build parameterized WHERE conditions for the "Product" table
+ * Cursor pagination is intentionally left to the caller
+ * searchRank is an ORDER BY expression (higher is better) when a search term is present
+ */
+export function buildProductFilters(
+  params: ProductFilterParams,
+  startIndex: number = 1,
+): { filters: string[]; values: any[]; nextIndex: number; searchRank: string | null } {
+  const filters: string[] = []
+  const values: any[] = []
+  let paramIndex = startIndex
+
+  const addInFilter = (column: string, list: Array<string | number>) => {
+    if (list.length === 0) return
+    const placeholders = list.map(() => `$${paramIndex++}`)
+    filters.push(`${column} IN (${placeholders.join(',')})`)
+    values.push(...list)
+  }
+
+  // Category filtering: support multiple categoryIds
+  addInFilter('"categoryId"', toList(params.categoryId).filter(isValidUUID))
+
+  if (params.ids && params.ids.length > 0) {
+    addInFilter('id', toList(params.ids).filter(isValidUUID))
+  } else if (!params.includeDiscontinued) {
+    filters.push(`NOT ${DISCONTINUED_SQL}`)
+  }
+
+  addInFilter('"connectorType"', toList(params.connectorType))
+  addInFilter('coding', toList(params.code))
+  addInFilter('"ipRating"', toList(params.degreeOfProtection))
+
+  if (params.pins !== undefined) {
+    const pins = (Array.isArray(params.pins) ? params.pins : [params.pins]).filter((v) => !isNaN(v))
+    addInFilter('pins', pins)
+  }
+
+  addInFilter('gender', toList(params.gender))
+
+  // For products tracked per warehouse, "inStock" is kept in step with the available-to-promise
+  // quantity (see lib/stock.ts), so the indexed column serves the filter
+  if (params.inStock === true) {
+    filters.push(`"inStock" = true`)
+  }
+
+  for (const [key, selected] of Object.entries(params.attributes ?? {})) {
+    const list = toList(selected)
+    if (!ATTRIBUTE_KEY_PATTERN.test(key) || list.length === 0) continue
+    const keyParam = `$${paramIndex++}`
+    values.push(key)
+    addInFilter(`attributes->>${keyParam}`, list)
+  }
+
+  // Spec range filters on the parsed numeric columns (see lib/spec-ranges.ts).
+  // overlap: the product's range touches the selected range
+  // cover: the product's range contains the whole selected range
+  // Products without a parsed value never match an active range
+  for (const spec of SPEC_RANGES) {
+    const cover = spec.match === 'cover'
+    const lower = params[`${spec.key}Min`]
+    const upper = params[`${spec.key}Max`]
+    if (lower !== undefined) {
+      filters.push(cover ? `"${spec.minColumn}" <= $${paramIndex++}` : `"${spec.maxColumn}" >= $${paramIndex++}`)
+      values.push(lower)
+    }
+    if (upper !== undefined) {
+      filters.push(cover ? `"${spec.maxColumn}" >= $${paramIndex++}` : `"${spec.minColumn}" <= $${paramIndex++}`)
+      values.push(upper)
+    }
+  }
+
+  let searchRank: string | null = null
+  const searchTerm = params.search?.trim()
+  if (searchTerm) {
+    // Full-text match on the weighted search document, part numbers ignoring
+    // punctuation, or trigram similarity to tolerate typos (see lib/product-search.ts)
+    const search = parseProductSearch(searchTerm)
+    const matches: string[] = []
+    const scores: string[] = []
+
+    const textParam = `$${paramIndex++}`
+    values.push(search.text)
+    matches.push(`${textParam} <% "searchText"`)
+    scores.push(`word_similarity(${textParam}, "searchText")`)
+
+    if (search.tsQuery) {
+      const tsParam = `$${paramIndex++}`
+      values.push(search.tsQuery)
+      matches.push(`"searchVector" @@ to_tsquery('simple', ${tsParam})`)
+      scores.push(`ts_rank_cd("searchVector", to_tsquery('simple', ${tsParam}))`)
+    }
+
+    if (search.partNumber) {
+      // Every parameter must also appear in the WHERE clause, since count queries
+      // reuse these values without the ORDER BY
+      const partParam = `$${paramIndex++}`
+      values.push(search.partNumber)
+      matches.push(`"searchPartNumbers" LIKE '%' || ${partParam} || '%'`)
+      // Exact SKU/MPN hits outrank everything, then prefix hits, then partial hits
+      scores.push(
+        `(CASE WHEN ' ' || "searchPartNumbers" || ' ' LIKE '% ' || ${partParam} || ' %' THEN 4 ` +
+          `WHEN ' ' || "searchPartNumbers" LIKE '% ' || ${partParam} || '%' THEN 2 ` +
+          `WHEN "searchPartNumbers" LIKE '%' || ${partParam} || '%' THEN 1 ELSE 0 END)`,
+      )
+    }
+
+    filters.push(`(${matches.join(' OR ')})`)
+    searchRank = scores.join(' + ')
+  }
+
+  return { filters, values, nextIndex: paramIndex, searchRank }
+}
+
+/**
+ * FROM source for product lists built on buildProductFilters.
+ * When grouping by family, each family is reduced to one representative row, the
+ * best-ranked (then cheapest) matching variant, carrying "variantCount", the number
+ * of the family's variants that match. Products without a family form a group of one.
+ * The subquery keeps the "Product" name, so callers can add cursor conditions and
+ * ORDER BY the same columns either way; `total` counts rows or families accordingly.
+ */
+export function buildProductListSource(
+  filters: string[],
+  searchRank: string | null,
+  groupFamilies: boolean = false,
+): { from: string; filters: string[]; columns: string; total: string } {
+  if (!groupFamilies) {
+    return { from: '"Product"', filters: [...filters], columns: '', total: 'COUNT(*)' }
+  }
+
+  const where = filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : ''
+  const representativeOrder = [searchRank ? `${searchRank} DESC` : null, 'price ASC NULLS LAST', 'id ASC']
+    .filter(Boolean)
+    .join(', ')
+
+  return {
+    from: `(
+      SELECT
+        "Product".*,
+        (COUNT(*) OVER family)::int AS "variantCount",
+        ROW_NUMBER() OVER (family ORDER BY ${representativeOrder}) AS "familyRank"
+      FROM "Product"
+      ${where}
+      WINDOW family AS (PARTITION BY COALESCE("familyId", id))
+    ) AS "Product"`,
+    filters: ['"familyRank" = 1'],
+    columns: ', "variantCount"',
+    total: 'COUNT(DISTINCT COALESCE("familyId", id))',
+  }
+}
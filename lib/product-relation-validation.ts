@@ -0,0 +1,42 @@
+import { z } from 'zod'
+import type { ProductRelationType } from '@/types'
+
+export const PRODUCT_RELATION_TYPES = ['mating', 'accessory', 'compatible_cable', 'alternative'] as const
+
+export const PRODUCT_RELATION_LABELS: Record<ProductRelationType, string> = {
+  mating: 'Mating connector',
+  accessory: 'Accessory',
+  compatible_cable: 'Compatible cable',
+  alternative: 'Alternative',
+}
+
+// Stored once but shown on both products
+export const SYMMETRIC_RELATION_TYPES: readonly ProductRelationType[] = ['mating', 'alternative']
+
+export const productRelationSchema = z.object({
+  type: z.enum(PRODUCT_RELATION_TYPES),
+  sku: z.string().trim().min(1, 'SKU is required'),
+})
+
+// Replaces all relations of a product; list order is the display order
+export const productRelationsSchema = z.object({
+  relations: z
+    .array(productRelationSchema)
+    .max(100)
+    .superRefine((relations, ctx) => {
+      const seen = new Set<string>()
+      relations.forEach((relation, index) => {
+        const key = `${relation.type}:${relation.sku}`
+        if (seen.has(key)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `${relation.sku} is listed twice as ${PRODUCT_RELATION_LABELS[relation.type].toLowerCase()}`,
+            path: [index, 'sku'],
+          })
+        }
+        seen.add(key)
+      })
+    }),
+})
+
+export type ProductRelationInput = z.infer<typeof productRelationSchema>
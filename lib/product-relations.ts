@@ -0,0 +1,103 @@
+import type { PoolClient } from 'pg'
+import { pgPool } from '@/lib/pg'
+import { DISCONTINUED_SQL } from '@/lib/product-lifecycle'
+import { SYMMETRIC_RELATION_TYPES, type ProductRelationInput } from '@/lib/product-relation-validation'
+import type { ProductRelation } from '@/types'
+
+/**
+ * Typed relations between products (mating connectors, accessories, compatible cables,
+ * alternatives). Mating and alternative relations are stored once and read from both
+ * products; editing either product replaces them.
+ */
+
+type Queryable = Pick<PoolClient, 'query'>
+
+const SIMILAR_PRODUCTS_LIMIT = 8
+
+// Rows seen from $1: its own relations plus symmetric ones stored on the other product
+const RELATIONS_OF_PRODUCT_SQL = `r."productId" = $1 OR (r."relatedProductId" = $1 AND r.type = ANY($2::text[]))`
+
+/**
+ * Relations of a product with the SKU and name of the related product, in display order
+ */
+export async function fetchProductRelations(productId: string, db: Queryable = pgPool): Promise<ProductRelation[]> {
+  const result = await db.query<ProductRelation>(
+    `
+    SELECT
+      r.type, r."sortOrder", p.id AS "relatedProductId",
+      json_build_object('id', p.id, 'sku', p.sku, 'mpn', p.mpn, 'name', p.name) AS product
+    FROM "ProductRelation" r
+    JOIN "Product" p ON p.id = CASE WHEN r."productId" = $1 THEN r."relatedProductId" ELSE r."productId" END
+    WHERE ${RELATIONS_OF_PRODUCT_SQL}
+    ORDER BY r."sortOrder" ASC, p.sku ASC
+    `,
+    [productId, SYMMETRIC_RELATION_TYPES],
+  )
+  return result.rows
+}
+
+export async function findProductIdsBySku(skus: string[], db: Queryable = pgPool): Promise<Map<string, string>> {
+  if (skus.length === 0) return new Map()
+  const result = await db.query<{ id: string; sku: string }>(
+    `SELECT id, sku FROM "Product" WHERE sku = ANY($1::text[])`,
+    [Array.from(new Set(skus))],
+  )
+  return new Map(result.rows.map((row) => [row.sku, row.id]))
+}
+
+/**
+ * Replace all relations of a product inside the caller's transaction.
+ * `relatedIds` maps each SKU in `relations` to its product id.
+ */
+export async function replaceProductRelations(
+  productId: string,
+  relations: ProductRelationInput[],
+  relatedIds: Map<string, string>,
+  db: Queryable,
+): Promise<ProductRelation[]> {
+  await db.query(`DELETE FROM "ProductRelation" r WHERE ${RELATIONS_OF_PRODUCT_SQL}`, [
+    productId,
+    SYMMETRIC_RELATION_TYPES,
+  ])
+
+  for (const [index, relation] of relations.entries()) {
+    await db.query(
+      `
+      INSERT INTO "ProductRelation" ("productId", "relatedProductId", type, "sortOrder")
+      VALUES ($1, $2, $3, $4)
+      `,
+      [productId, relatedIds.get(relation.sku), relation.type, index],
+    )
+  }
+
+  return fetchProductRelations(productId, db)
+}
+
+/**
+ * Fallback suggestions for products without curated relations: other products of the
+ * same category with the same coding and pin count, leaving out the product's own family.
+ * Products with neither a coding nor a pin count get no suggestions.
+ */
+export async function fetchSimilarProductIds(productId: string, db: Queryable = pgPool): Promise<string[]> {
+  const result = await db.query<{ id: string }>(
+    `
+    WITH source AS (
+      SELECT id, "categoryId", coding, pins, "familyId"
+      FROM "Product"
+      WHERE id = $1 AND (coding IS NOT NULL OR pins IS NOT NULL)
+    )
+    SELECT p.id
+    FROM "Product" p, source
+    WHERE p."categoryId" = source."categoryId"
+      AND p.id <> source.id
+      AND p.coding IS NOT DISTINCT FROM source.coding
+      AND p.pins IS NOT DISTINCT FROM source.pins
+      AND (source."familyId" IS NULL OR p."familyId" IS DISTINCT FROM source."familyId")
+      AND NOT ${DISCONTINUED_SQL}
+    ORDER BY p."inStock" DESC, p.sku ASC
+    LIMIT ${SIMILAR_PRODUCTS_LIMIT}
+    `,
+    [productId],
+  )
+  return result.rows.map((row) => row.id)
+}
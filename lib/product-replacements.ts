@@ -0,0 +1,39 @@
+import type { PoolClient } from 'pg'
+import { pgPool } from '@/lib/pg'
+import type { Product, ProductReplacement } from '@/types'
+
+/**
+ * Recommended replacements for products at the end of their lifecycle
+ * (see lib/product-lifecycle.ts)
+ */
+
+type Queryable = Pick<PoolClient, 'query'>
+
+export async function findProductIdBySku(sku: string, db: Queryable = pgPool): Promise<string | null> {
+  const result = await db.query<{ id: string }>(`SELECT id FROM "Product" WHERE sku = $1`, [sku])
+  return result.rows[0]?.id ?? null
+}
+
+/**
+ * Fill in `replacement` on products that name a replacement product
+ */
+export async function applyProductReplacements<T extends Product>(
+  products: T[],
+  db: Queryable = pgPool,
+): Promise<T[]> {
+  const replacementIds = Array.from(
+    new Set(products.map((p) => p.replacementProductId).filter((id): id is string => !!id)),
+  )
+  if (replacementIds.length === 0) return products
+
+  const result = await db.query<ProductReplacement>(
+    `SELECT id, sku, mpn, name FROM "Product" WHERE id = ANY($1::uuid[])`,
+    [replacementIds],
+  )
+  const replacements = new Map(result.rows.map((replacement) => [replacement.id, replacement]))
+
+  return products.map((product) => {
+    const replacement = product.replacementProductId ? replacements.get(product.replacementProductId) : undefined
+    return replacement ? { ...product, replacement } : product
+  })
+}
@@ -0,0 +1,86 @@
+/**
+ * Query side of the product search index.
+ * The normalization rules mirror product_search_normalize() in prisma/schema.sql,
+ * which builds the indexed "searchVector"/"searchText" columns; keep them in sync.
+ */
+
+// Connector shorthand written many ways: "A-coded", "a code", "5-pin", "5 pole", "IP 67", "M 12"
+const NORMALIZATION_RULES: Array<[RegExp, string]> = [
+  [/\b([a-z])[\s-]*cod(?:e|ed|ing)\b/g, '$1coded'],
+  [/\b(\d+)[\s-]*(?:pins?|poles?|pol|way)\b/g, '$1pin'],
+  [/\bip[\s-]*(\d{2}k?)\b/g, 'ip$1'],
+  [/\bm[\s-]*(\d{1,2})\b/g, 'm$1'],
+]
+
+/**
+ * Words that should match each other; every word in a group is searched
+ * whenever any of them appears in the query
+ */
+export const SEARCH_SYNONYMS: string[][] = [
+  ['female', 'socket', 'receptacle'],
+  ['male', 'plug'],
+  ['angled', 'rightangle', 'elbow'],
+  ['cordset', 'cable', 'overmolded', 'overmoulded'],
+  ['pur', 'polyurethane'],
+  ['pvc', 'polyvinylchloride'],
+  ['stainless', 'inox'],
+  ['panel', 'flange', 'bulkhead'],
+]
+
+const MAX_SEARCH_TERMS = 10
+const MIN_PART_NUMBER_LENGTH = 3
+
+const synonymIndex = new Map<string, string[]>()
+for (const group of SEARCH_SYNONYMS) {
+  for (const word of group) {
+    synonymIndex.set(word, group)
+  }
+}
+
+export interface ProductSearchQuery {
+  /** Input for to_tsquery('simple', ...), null when no usable terms remain */
+  tsQuery: string | null
+  /** Normalized text compared against "searchText" with trigram word similarity */
+  text: string
+  /** Letters and digits only, compared against "searchPartNumbers" */
+  partNumber: string | null
+}
+
+export function normalizeSearchText(input: string): string {
+  let text = input.toLowerCase()
+  for (const [pattern, replacement] of NORMALIZATION_RULES) {
+    text = text.replace(pattern, replacement)
+  }
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Part numbers are compared without dashes, dots, slashes or spaces
+ */
+export function normalizePartNumber(input: string): string {
+  return input.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+const tsTerm = (word: string) => (word.length >= 3 ? `${word}:*` : word)
+
+/**
+ * Turn free text into the pieces used by the search SQL in lib/product-query.ts
+ */
+export function parseProductSearch(search: string): ProductSearchQuery {
+  const text = normalizeSearchText(search)
+  const words = Array.from(new Set(text.split(/[^a-z0-9]+/).filter(Boolean))).slice(0, MAX_SEARCH_TERMS)
+
+  // Every word must match (AND); a word matches itself or any of its synonyms (OR)
+  const groups = words.map((word) => {
+    const alternatives = synonymIndex.get(word) ?? [word]
+    return alternatives.length > 1 ? `(${alternatives.map(tsTerm).join(' | ')})` : tsTerm(word)
+  })
+
+  const partNumber = normalizePartNumber(search)
+
+  return {
+    tsQuery: groups.length > 0 ? groups.join(' & ') : null,
+    text,
+    partNumber: partNumber.length >= MIN_PART_NUMBER_LENGTH ? partNumber : null,
+  }
+}
@@ -0,0 +1,582 @@
+import ExcelJS from 'exceljs'
+import type { PoolClient } from 'pg'
+import { z } from 'zod'
+import { fetchCategoryTemplate, validateProductAttributes } from '@/lib/category-attributes'
+import { validateVariantOptions } from '@/lib/product-families'
+import { productSchema } from '@/lib/product-validation'
+import { sanitizeRichText } from '@/lib/sanitize'
+import { refreshProductSpecRanges } from '@/lib/spec-ranges'
+import { unescapeFormula } from '@/lib/spreadsheet-export'
+import { STOCK_TRACKED_SQL } from '@/lib/stock'
+import type { CategoryAttribute, ProductFamily } from '@/types'
+
+/**
+ * Bulk product import/export
+ *
+ * Spreadsheet headers are the "Product" column names from prisma/schema.sql so an
+ * exported file can be edited and imported back without remapping. The productSchema
+ * field name is accepted as an alias where it differs (e.g. degreeOfProtection for ipRating).
+ * The search and spec range columns are derived on every write and are left out.
+ */
+
+type ColumnKind = 'text' | 'number' | 'integer' | 'boolean' | 'date' | 'images' | 'documents' | 'json'
+
+interface ProductColumn {
+  column: string
+  field: string
+  kind: ColumnKind
+}
+
+export const PRODUCT_COLUMNS: ProductColumn[] = [
+  { column: 'sku', field: 'sku', kind: 'text' },
+  { column: 'name', field: 'name', kind: 'text' },
+  { column: 'category', field: 'category', kind: 'text' },
+  { column: 'categoryId', field: 'categoryId', kind: 'text' },
+  { column: 'description', field: 'description', kind: 'text' },
+  { column: 'technicalDescription', field: 'technicalDescription', kind: 'text' },
+  { column: 'coding', field: 'code', kind: 'text' },
+  { column: 'pins', field: 'pins', kind: 'integer' },
+  { column: 'ipRating', field: 'degreeOfProtection', kind: 'text' },
+  { column: 'gender', field: 'gender', kind: 'text' },
+  { column: 'connectorType', field: 'connectorType', kind: 'text' },
+  { column: 'material', field: 'material', kind: 'text' },
+  { column: 'voltage', field: 'operatingVoltage', kind: 'text' },
+  { column: 'current', field: 'ratedCurrent', kind: 'text' },
+  { column: 'temperatureRange', field: 'temperatureRange', kind: 'text' },
+  { column: 'wireGauge', field: 'wireGauge', kind: 'text' },
+  { column: 'cableLength', field: 'cableLength', kind: 'text' },
+  { column: 'price', field: 'price', kind: 'number' },
+  { column: 'priceType', field: 'priceType', kind: 'text' },
+  { column: 'inStock', field: 'inStock', kind: 'boolean' },
+  { column: 'stockQuantity', field: 'stockQuantity', kind: 'integer' },
+  { column: 'images', field: 'images', kind: 'images' },
+  { column: 'documents', field: 'documents', kind: 'documents' },
+  { column: 'datasheetUrl', field: 'datasheetUrl', kind: 'text' },
+  { column: 'drawingUrl', field: 'drawingUrl', kind: 'text' },
+  { column: 'mpn', field: 'mpn', kind: 'text' },
+  { column: 'productType', field: 'productType', kind: 'text' },
+  { column: 'coupling', field: 'coupling', kind: 'text' },
+  { column: 'wireCrossSection', field: 'wireCrossSection', kind: 'text' },
+  { column: 'cableDiameter', field: 'cableDiameter', kind: 'text' },
+  { column: 'cableMantleColor', field: 'cableMantleColor', kind: 'text' },
+  { column: 'cableMantleMaterial', field: 'cableMantleMaterial', kind: 'text' },
+  { column: 'glandMaterial', field: 'glandMaterial', kind: 'text' },
+  { column: 'housingMaterial', field: 'housingMaterial', kind: 'text' },
+  { column: 'pinContact', field: 'pinContact', kind: 'text' },
+  { column: 'socketContact', field: 'socketContact', kind: 'text' },
+  { column: 'cableDragChainSuitable', field: 'cableDragChainSuitable', kind: 'boolean' },
+  { column: 'tighteningTorqueMax', field: 'tighteningTorqueMax', kind: 'text' },
+  { column: 'bendingRadiusFixed', field: 'bendingRadiusFixed', kind: 'text' },
+  { column: 'bendingRadiusRepeated', field: 'bendingRadiusRepeated', kind: 'text' },
+  { column: 'contactPlating', field: 'contactPlating', kind: 'text' },
+  { column: 'halogenFree', field: 'halogenFree', kind: 'boolean' },
+  { column: 'strippingForce', field: 'strippingForce', kind: 'text' },
+  { column: 'attributes', field: 'attributes', kind: 'json' },
+  { column: 'familyId', field: 'familyId', kind: 'text' },
+  { column: 'variantOptions', field: 'variantOptions', kind: 'json' },
+  { column: 'lifecycleStatus', field: 'lifecycleStatus', kind: 'text' },
+  { column: 'lifecycleEffectiveDate', field: 'lifecycleEffectiveDate', kind: 'date' },
+  { column: 'lastTimeBuyDate', field: 'lastTimeBuyDate', kind: 'date' },
+  { column: 'replacementProductId', field: 'replacementProductId', kind: 'text' },
+]
+
+export const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024 // 10MB in bytes
+export const MAX_IMPORT_ROWS = 5000
+
+// Columns that exist in "Product" but are not part of the API productSchema
+export const productImportRowSchema = productSchema.extend({
+  category: z.string().optional(),
+  technicalDescription: z.string().optional(),
+  pins: z.number().int().positive('Pins must be a positive integer').optional(),
+  gender: z.string().optional(),
+  material: z.string().optional(),
+  wireGauge: z.string().optional(),
+  // The API names the replacement by SKU; files carry its id like categoryId
+  replacementProductId: z.string().uuid('Invalid UUID format').nullable().optional(),
+})
+
+export type ImportAction = 'create' | 'update' | 'skip' | 'error'
+
+export interface ImportRowChange {
+  column: string
+  from: string
+  to: string
+}
+
+export interface ImportRowResult {
+  row: number
+  sku: string
+  action: ImportAction
+  changes: ImportRowChange[]
+  errors: { field: string; message: string }[]
+}
+
+export interface ImportPlan {
+  columns: string[]
+  rows: ImportRowResult[]
+  summary: Record<ImportAction, number>
+}
+
+export interface ParsedSheet {
+  headers: string[]
+  rows: string[][]
+}
+
+interface PlannedRow extends ImportRowResult {
+  values: Record<string, any>
+}
+
+export class ProductImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProductImportError'
+  }
+}
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, escaped quotes, CRLF/LF line endings)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  // Strip UTF-8 BOM written by Excel
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+const xlsxCellToString = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map((part) => part.text).join('')
+    if ('text' in value) return String(value.text)
+    if ('result' in value) return value.result === undefined ? '' : String(value.result)
+    if ('error' in value) return ''
+  }
+  return String(value)
+}
+
+/**
+ * Read the first worksheet of a CSV or XLSX upload into header + string rows
+ */
+export async function parseSpreadsheet(data: ArrayBuffer, filename: string): Promise<ParsedSheet> {
+  let table: string[][]
+
+  if (/\.xlsx$/i.test(filename)) {
+    const workbook = new ExcelJS.Workbook()
+    await workbook.xlsx.load(data)
+    const sheet = workbook.worksheets[0]
+    if (!sheet) {
+      throw new ProductImportError('Workbook has no worksheets')
+    }
+    table = []
+    const columnCount = sheet.columnCount
+    sheet.eachRow({ includeEmpty: true }, (row) => {
+      const cells: string[] = []
+      for (let col = 1; col <= columnCount; col++) {
+        cells.push(xlsxCellToString(row.getCell(col).value))
+      }
+      table.push(cells)
+    })
+  } else if (/\.csv$/i.test(filename)) {
+    table = parseCsv(Buffer.from(data).toString('utf8'))
+  } else {
+    throw new ProductImportError('Only .csv and .xlsx files are supported')
+  }
+
+  const [headerRow, ...rows] = table
+  if (!headerRow) {
+    throw new ProductImportError('File is empty')
+  }
+
+  return {
+    headers: headerRow.map((h) => h.trim()),
+    rows: rows.filter((cells) => cells.some((cell) => cell.trim() !== '')).map((cells) => cells.map(unescapeFormula)),
+  }
+}
+
+const resolveColumn = (header: string): ProductColumn | undefined => {
+  const key = header.toLowerCase()
+  return PRODUCT_COLUMNS.find((c) => c.column.toLowerCase() === key || c.field.toLowerCase() === key)
+}
+
+/**
+ * Convert a spreadsheet cell into the input expected by productImportRowSchema
+ * Unparseable values are passed through unchanged so validation reports them
+ */
+const parseCell = (kind: ColumnKind, raw: string): unknown => {
+  const value = raw.trim()
+  if (value === '') return undefined
+
+  switch (kind) {
+    case 'number':
+    case 'integer': {
+      const num = Number(value)
+      return isNaN(num) ? value : num
+    }
+    case 'boolean': {
+      const lower = value.toLowerCase()
+      if (['true', 'yes', 'y', '1'].includes(lower)) return true
+      if (['false', 'no', 'n', '0'].includes(lower)) return false
+      return value
+    }
+    case 'images':
+      return value.split('|').map((v) => v.trim()).filter(Boolean)
+    case 'documents':
+    case 'json':
+      try {
+        return JSON.parse(value)
+      } catch {
+        return value
+      }
+    case 'date':
+      // XLSX date cells are read as ISO timestamps
+      return /^\d{4}-\d{2}-\d{2}T/.test(value) ? value.slice(0, 10) : value
+    default:
+      return value
+  }
+}
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+// With key order fixed, so unchanged objects compare equal in the import diff
+const sortKeys = (value: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+
+/**
+ * Format a database value as a spreadsheet cell (inverse of parseCell)
+ */
+export const formatCell = (kind: ColumnKind, value: unknown): string => {
+  if (value === null || value === undefined) return ''
+
+  switch (kind) {
+    case 'number':
+    case 'integer':
+      return String(Number(value))
+    case 'boolean':
+      return value ? 'true' : 'false'
+    case 'images':
+      return Array.isArray(value) ? value.join('|') : ''
+    case 'documents':
+      return Array.isArray(value) && value.length > 0 ? JSON.stringify(value) : ''
+    case 'json':
+      return typeof value === 'object' && Object.keys(value as object).length > 0
+        ? JSON.stringify(sortKeys(value as Record<string, unknown>))
+        : ''
+    case 'date':
+      // pg reads DATE columns as local midnight
+      return value instanceof Date
+        ? `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+        : String(value)
+    default:
+      return String(value)
+  }
+}
+
+/**
+ * Map a validated row to "Product" column values
+ */
+const toColumnValues = (parsed: Record<string, any>): Record<string, any> => {
+  const values: Record<string, any> = {}
+  for (const { column, field } of PRODUCT_COLUMNS) {
+    let value = parsed[field]
+    if ((column === 'description' || column === 'technicalDescription') && typeof value === 'string') {
+      value = sanitizeRichText(value)
+    }
+    values[column] = value ?? null
+  }
+  return values
+}
+
+const toRecord = (existing: Record<string, any>): Record<string, unknown> => {
+  const record: Record<string, unknown> = {}
+  for (const { column, field, kind } of PRODUCT_COLUMNS) {
+    const value = existing[column]
+    if (value === null || value === undefined) continue
+    record[field] = kind === 'number' ? Number(value) : kind === 'date' ? formatCell(kind, value) : value
+  }
+  return record
+}
+
+// Valid UUIDs in a column of the file
+const columnIds = (sheet: ParsedSheet, mapped: (ProductColumn | undefined)[], column: string): string[] => {
+  const index = mapped.findIndex((c) => c?.column === column)
+  if (index === -1) return []
+  const ids = sheet.rows
+    .map((cells) => (cells[index] || '').trim())
+    .filter((id) => z.string().uuid().safeParse(id).success)
+  return Array.from(new Set(ids))
+}
+
+/**
+ * Validate every row and diff it against the catalog by SKU
+ * Pass a transaction client with lockRows to guard the rows against concurrent edits
+ */
+export async function buildImportPlan(
+  sheet: ParsedSheet,
+  client: Pick<PoolClient, 'query'>,
+  lockRows: boolean = false,
+): Promise<{ plan: ImportPlan; planned: PlannedRow[] }> {
+  const mapped = sheet.headers.map((header) => (header ? resolveColumn(header) : undefined))
+  const unknown = sheet.headers.filter((header, i) => header && !mapped[i])
+  if (unknown.length > 0) {
+    throw new ProductImportError(`Unknown columns: ${unknown.join(', ')}`)
+  }
+  const skuIndex = mapped.findIndex((c) => c?.column === 'sku')
+  if (skuIndex === -1) {
+    throw new ProductImportError('The sku column is required')
+  }
+  const seen = new Set<string>()
+  mapped.forEach((c) => {
+    if (!c) return
+    if (seen.has(c.column)) {
+      throw new ProductImportError(`Duplicate column: ${c.column}`)
+    }
+    seen.add(c.column)
+  })
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw new ProductImportError(`Files are limited to ${MAX_IMPORT_ROWS} rows`)
+  }
+
+  const presentColumns = PRODUCT_COLUMNS.filter((c) => seen.has(c.column))
+  const skus = Array.from(new Set(sheet.rows.map((cells) => (cells[skuIndex] || '').trim()).filter(Boolean)))
+
+  const existingResult = await client.query(
+    `SELECT * FROM "Product" WHERE sku = ANY($1::text[])${lockRows ? ' FOR UPDATE' : ''}`,
+    [skus],
+  )
+  const existingBySku = new Map<string, Record<string, any>>(existingResult.rows.map((r: any) => [r.sku, r]))
+
+  const categoryIds = new Set<string>()
+  const fileCategoryIds = columnIds(sheet, mapped, 'categoryId')
+  if (fileCategoryIds.length > 0) {
+    const categoryResult = await client.query(`SELECT id FROM "Category" WHERE id = ANY($1::uuid[])`, [
+      fileCategoryIds,
+    ])
+    categoryResult.rows.forEach((r: any) => categoryIds.add(r.id))
+  }
+
+  // Attribute templates of every category a row can end up in
+  const templates = new Map<string, CategoryAttribute[]>()
+  const templateIds = new Set([...Array.from(categoryIds), ...existingResult.rows.map((r: any) => r.categoryId)])
+  for (const id of Array.from(templateIds)) {
+    if (id) templates.set(id, await fetchCategoryTemplate(id, client))
+  }
+
+  const familyIds = [...columnIds(sheet, mapped, 'familyId'), ...existingResult.rows.map((r: any) => r.familyId)]
+  const familyResult = await client.query(`SELECT id, axes FROM "ProductFamily" WHERE id = ANY($1::uuid[])`, [
+    Array.from(new Set(familyIds.filter(Boolean))),
+  ])
+  const families = new Map<string, Pick<ProductFamily, 'axes'>>(familyResult.rows.map((r: any) => [r.id, r]))
+
+  const replacementIds = new Set<string>()
+  const fileReplacementIds = columnIds(sheet, mapped, 'replacementProductId')
+  if (fileReplacementIds.length > 0) {
+    const replacementResult = await client.query(`SELECT id FROM "Product" WHERE id = ANY($1::uuid[])`, [
+      fileReplacementIds,
+    ])
+    replacementResult.rows.forEach((r: any) => replacementIds.add(r.id))
+  }
+
+  const skuRows = new Map<string, number>()
+  const planned: PlannedRow[] = sheet.rows.map((cells, i) => {
+    // Header is row 1 in the spreadsheet
+    const rowNumber = i + 2
+    const sku = (cells[skuIndex] || '').trim()
+    const result: PlannedRow = { row: rowNumber, sku, action: 'error', changes: [], errors: [], values: {} }
+
+    if (sku && skuRows.has(sku)) {
+      result.errors.push({ field: 'sku', message: `Duplicate SKU (also on row ${skuRows.get(sku)})` })
+      return result
+    }
+    if (sku) skuRows.set(sku, rowNumber)
+
+    const existing = existingBySku.get(sku)
+    // Updates only touch the columns present in the file; everything else keeps its current value
+    const input: Record<string, unknown> = existing ? toRecord(existing) : {}
+    mapped.forEach((c, col) => {
+      if (!c) return
+      const value = parseCell(c.kind, cells[col] ?? '')
+      if (value === undefined) {
+        delete input[c.field]
+      } else {
+        input[c.field] = value
+      }
+    })
+
+    const parsed = productImportRowSchema.safeParse(input)
+    if (!parsed.success) {
+      result.errors = parsed.error.errors.map((e) => {
+        const field = PRODUCT_COLUMNS.find((c) => c.field === e.path[0])?.column ?? e.path.join('.')
+        return { field, message: e.message }
+      })
+      return result
+    }
+
+    const values = toColumnValues(parsed.data)
+    if (values.categoryId && !categoryIds.has(values.categoryId) && values.categoryId !== existing?.categoryId) {
+      result.errors.push({ field: 'categoryId', message: 'Category not found' })
+      return result
+    }
+    if (values.familyId && !families.has(values.familyId)) {
+      result.errors.push({ field: 'familyId', message: 'Product family not found' })
+      return result
+    }
+    if (values.replacementProductId && values.replacementProductId !== existing?.replacementProductId) {
+      const message = !replacementIds.has(values.replacementProductId)
+        ? 'Replacement product not found'
+        : values.replacementProductId === existing?.id
+          ? 'A product cannot replace itself'
+          : null
+      if (message) {
+        result.errors.push({ field: 'replacementProductId', message })
+        return result
+      }
+    }
+
+    // Attribute values and variant options are checked as the product form checks them
+    try {
+      if (!existing || seen.has('attributes') || values.categoryId !== existing.categoryId) {
+        values.attributes = validateProductAttributes(templates.get(values.categoryId) ?? [], values.attributes)
+      }
+      const family = values.familyId ? families.get(values.familyId) : undefined
+      if (!family) {
+        values.variantOptions = {}
+      } else if (!existing || seen.has('familyId') || seen.has('variantOptions')) {
+        values.variantOptions = validateVariantOptions(family, values.variantOptions)
+      }
+    } catch (error) {
+      if (!(error instanceof z.ZodError)) throw error
+      result.errors = error.errors.map((e) => ({ field: String(e.path[0]), message: e.message }))
+      return result
+    }
+    result.values = values
+
+    if (!existing) {
+      result.action = 'create'
+      result.changes = presentColumns
+        .map((c) => ({ column: c.column, from: '', to: formatCell(c.kind, values[c.column]) }))
+        .filter((change) => change.to !== '')
+      return result
+    }
+
+    result.changes = presentColumns
+      .map((c) => ({
+        column: c.column,
+        from: formatCell(c.kind, existing[c.column]),
+        to: formatCell(c.kind, values[c.column]),
+      }))
+      .filter((change) => change.from !== change.to)
+    result.action = result.changes.length > 0 ? 'update' : 'skip'
+    return result
+  })
+
+  const summary: Record<ImportAction, number> = { create: 0, update: 0, skip: 0, error: 0 }
+  planned.forEach((r) => summary[r.action]++)
+
+  return {
+    plan: {
+      columns: presentColumns.map((c) => c.column),
+      rows: planned.map(({ values: _values, ...row }) => row),
+      summary,
+    },
+    planned,
+  }
+}
+
+const columnKind = (column: string) => PRODUCT_COLUMNS.find((c) => c.column === column)?.kind
+
+const toSqlValue = (column: string, value: any) => {
+  switch (columnKind(column)) {
+    case 'images':
+    case 'documents':
+      return JSON.stringify(value ?? [])
+    case 'json':
+      return JSON.stringify(value ?? {})
+    default:
+      return value
+  }
+}
+
+const toSqlPlaceholder = (column: string, index: number) => {
+  const kind = columnKind(column)
+  return kind === 'images' || kind === 'documents' || kind === 'json' ? `$${index}::jsonb` : `$${index}`
+}
+
+// Imported stock columns are ignored for products whose stock comes from the warehouse ledger
+const toSqlAssignment = (column: string, index: number) =>
+  column === 'inStock' || column === 'stockQuantity'
+    ? `"${column}" = CASE WHEN ${STOCK_TRACKED_SQL} THEN "${column}" ELSE ${toSqlPlaceholder(column, index)} END`
+    : `"${column}" = ${toSqlPlaceholder(column, index)}`
+
+/**
+ * Write a validated plan inside the caller's transaction
+ */
+export async function applyImportPlan(client: Pick<PoolClient, 'query'>, planned: PlannedRow[]): Promise<void> {
+  const writtenIds: string[] = []
+
+  for (const row of planned) {
+    if (row.action === 'create') {
+      const columns = PRODUCT_COLUMNS.map((c) => c.column)
+      const result = await client.query(
+        `
+        INSERT INTO "Product" (${columns.map((c) => `"${c}"`).join(', ')}, "createdAt", "updatedAt")
+        VALUES (${columns.map((c, i) => toSqlPlaceholder(c, i + 1)).join(', ')}, NOW(), NOW())
+        RETURNING id
+        `,
+        columns.map((c) => toSqlValue(c, row.values[c])),
+      )
+      writtenIds.push(result.rows[0].id)
+    } else if (row.action === 'update') {
+      const columns = row.changes.map((change) => change.column)
+      const assignments = columns.map((c, i) => toSqlAssignment(c, i + 1))
+      const result = await client.query(
+        `UPDATE "Product" SET ${assignments.join(', ')}, "updatedAt" = NOW() WHERE sku = $${columns.length + 1} RETURNING id`,
+        [...columns.map((c) => toSqlValue(c, row.values[c])), row.sku],
+      )
+      writtenIds.push(...result.rows.map((r) => r.id))
+    }
+  }
+
+  await refreshProductSpecRanges(client, writtenIds)
+}
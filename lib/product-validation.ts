@@ -1,4 +1,7 @@
 import { z } from 'zod'
+import { ATTRIBUTE_KEY_PATTERN } from '@/lib/category-validation'
+import { CUSTOMER_GROUP_CODE_PATTERN, dateSchema } from '@/lib/pricing-validation'
+import { PRODUCT_LIFECYCLE_STATUSES } from '@/lib/product-lifecycle'
 
 const uuidSchema = z.string().uuid('Invalid UUID format')
 
@@ -58,10 +61,92 @@ export const productSchema = z.object({
   })).default([]),
   datasheetUrl: z.string().optional(),
   drawingUrl: z.string().optional(),
+  // Checked against the category's attribute template by the products API
+  attributes: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
+  // Variant of a product family; checked against the family's axes by the products API
+  familyId: uuidSchema.nullable().optional(),
+  variantOptions: z.record(z.string().trim().max(100)).optional(),
+  lifecycleStatus: z.enum(PRODUCT_LIFECYCLE_STATUSES).default('active'),
+  lifecycleEffectiveDate: dateSchema,
+  lastTimeBuyDate: dateSchema,
+  // Recommended successor, by SKU; resolved to a product by the products API
+  replacementSku: z.string().trim().max(100).nullable().optional(),
 })
 
 export const productUpdateSchema = productSchema.partial()
 
+export const variantAxisSchema = z.object({
+  key: z
+    .string()
+    .trim()
+    .max(50)
+    .regex(ATTRIBUTE_KEY_PATTERN, {
+      message: 'Key must start with a lowercase letter and contain only letters and numbers (e.g. cableLength)',
+    }),
+  label: z.string().trim().min(1, 'Label is required').max(100),
+})
+
+export const productFamilySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  description: z.string().optional(),
+  images: z.array(z.string()).default([]),
+  categoryId: uuidSchema.nullable().optional(),
+  axes: z
+    .array(variantAxisSchema)
+    .min(1, 'At least one variant axis is required')
+    .max(6)
+    .superRefine((axes, ctx) => {
+      const seen = new Set<string>()
+      axes.forEach((axis, index) => {
+        if (seen.has(axis.key)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Duplicate axis key "${axis.key}"`,
+            path: [index, 'key'],
+          })
+        }
+        seen.add(axis.key)
+      })
+    }),
+})
+
+export const priceTierSchema = z.object({
+  minQuantity: z.coerce.number().int('Minimum quantity must be a whole number').min(1, 'Minimum quantity must be at least 1'),
+  unitPrice: z.coerce.number().nonnegative('Unit price cannot be negative'),
+  customerGroup: z
+    .string()
+    .trim()
+    .max(50)
+    .regex(CUSTOMER_GROUP_CODE_PATTERN, {
+      message: 'Customer group must contain only lowercase letters, numbers, and hyphens',
+    })
+    .nullable()
+    .optional()
+    .or(z.literal('').transform(() => null)),
+})
+
+// Replaces all tiers of a product
+export const priceTiersSchema = z.object({
+  tiers: z
+    .array(priceTierSchema)
+    .max(50)
+    .superRefine((tiers, ctx) => {
+      const seen = new Set<string>()
+      tiers.forEach((tier, index) => {
+        const key = `${tier.customerGroup ?? ''}:${tier.minQuantity}`
+        if (seen.has(key)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Duplicate tier for quantity ${tier.minQuantity}${tier.customerGroup ? ` (${tier.customerGroup})` : ''}`,
+            path: [index, 'minQuantity'],
+          })
+        }
+        seen.add(key)
+      })
+    }),
+})
+
 export type ProductInput = z.infer<typeof productSchema>
 export type ProductUpdateInput = z.infer<typeof productUpdateSchema>
-
+export type ProductFamilyInput = z.infer<typeof productFamilySchema>
+export type PriceTierInput = z.infer<typeof priceTierSchema>
@@ -0,0 +1,287 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib'
+import { formatPrice } from '@/lib/format-price'
+import { ORDER_REFERENCE_PREFIX } from '@/lib/references'
+import type { Quote } from '@/types'
+
+export interface QuotePdfOrder {
+  id: string
+  reference: string
+  companyName: string
+  contactName: string
+  email: string
+  phone: string
+  companyAddress?: string | null
+  createdAt: string
+}
+
+export interface QuotePdfCompany {
+  name: string
+  address?: string | null
+  phone?: string | null
+  email?: string | null
+}
+
+const PAGE_WIDTH = 595.28 // A4
+const PAGE_HEIGHT = 841.89
+const MARGIN = 40
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const TEXT_COLOR = rgb(0.12, 0.12, 0.12)
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4)
+const RULE_COLOR = rgb(0.8, 0.8, 0.8)
+
+const priceTypeLabels: Record<string, string> = {
+  per_unit: 'per unit',
+  per_pack: 'per pack',
+  per_bulk: 'per bulk',
+}
+
+// Standard PDF fonts have no ₹ glyph, so amounts use formatPrice with an "Rs." prefix
+const pdfPrice = (value: number) => formatPrice(value).replace('₹', 'Rs. ')
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-IN', { year: 'numeric', month: 'short', day: 'numeric' })
+
+// RFQ-2026-000123, revision 2 -> Q-2026-000123-R2
+export const quoteNumber = (orderReference: string, revision: number) =>
+  `Q-${orderReference.slice(ORDER_REFERENCE_PREFIX.length + 1)}-R${revision}`
+
+interface Column {
+  label: string
+  width: number
+  align: 'left' | 'right'
+}
+
+const columns: Column[] = [
+  { label: '#', width: 22, align: 'left' },
+  { label: 'SKU', width: 90, align: 'left' },
+  { label: 'Description', width: 163, align: 'left' },
+  { label: 'Qty', width: 40, align: 'right' },
+  { label: 'Unit Price', width: 85, align: 'right' },
+  { label: 'Disc %', width: 45, align: 'right' },
+  { label: 'Amount', width: 70.28, align: 'right' },
+]
+
+/**
+ * Render a quotation revision as an A4 PDF
+ */
+export async function renderQuotePdf(order: QuotePdfOrder, quote: Quote, company: QuotePdfCompany): Promise<Uint8Array> {
+  const doc = await PDFDocument.create()
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold)
+  const supported = new Set(font.getCharacterSet())
+
+  // Replace characters the WinAnsi-encoded standard fonts cannot draw
+  const clean = (text: string | null | undefined) =>
+    Array.from(text ?? '')
+      .map((char) => (supported.has(char.codePointAt(0) as number) ? char : '?'))
+      .join('')
+
+  const wrap = (text: string | null | undefined, width: number, size: number, f: PDFFont = font): string[] => {
+    const lines: string[] = []
+    for (const paragraph of clean(text).split(/\r?\n/)) {
+      let line = ''
+      for (const word of paragraph.split(/\s+/)) {
+        const candidate = line ? `${line} ${word}` : word
+        if (f.widthOfTextAtSize(candidate, size) <= width || !line) {
+          line = candidate
+        } else {
+          lines.push(line)
+          line = word
+        }
+      }
+      lines.push(line)
+    }
+    return lines
+  }
+
+  const pages: PDFPage[] = []
+  let page: PDFPage
+  let y = 0
+
+  const newPage = () => {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    pages.push(page)
+    y = PAGE_HEIGHT - MARGIN
+  }
+
+  const text = (
+    value: string,
+    x: number,
+    opts: { size?: number; font?: PDFFont; color?: ReturnType<typeof rgb>; align?: 'left' | 'right'; width?: number } = {},
+  ) => {
+    const size = opts.size ?? 9
+    const f = opts.font ?? font
+    const safe = clean(value)
+    const drawX = opts.align === 'right' && opts.width ? x + opts.width - f.widthOfTextAtSize(safe, size) : x
+    page.drawText(safe, { x: drawX, y, size, font: f, color: opts.color ?? TEXT_COLOR })
+  }
+
+  const rule = () => {
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: RULE_COLOR,
+    })
+  }
+
+  const ensureSpace = (height: number, onNewPage?: () => void) => {
+    if (y - height < MARGIN + 20) {
+      newPage()
+      onNewPage?.()
+    }
+  }
+
+  newPage()
+
+  // Letterhead
+  text(company.name, MARGIN, { size: 18, font: bold })
+  text('QUOTATION', MARGIN, { size: 16, font: bold, align: 'right', width: CONTENT_WIDTH })
+  y -= 16
+  const companyLines = [
+    ...wrap(company.address, 300, 8),
+    [company.phone, company.email].filter(Boolean).join('  |  '),
+  ].filter(Boolean)
+  const metaLines = [
+    `Quote No: ${quoteNumber(order.reference, quote.revision)}`,
+    `Your RFQ: ${order.reference}`,
+    `Date: ${formatDate(quote.createdAt ?? new Date())}`,
+    quote.validUntil ? `Valid Until: ${formatDate(quote.validUntil)}` : '',
+    `Revision: ${quote.revision}`,
+  ].filter(Boolean)
+  for (let i = 0; i < Math.max(companyLines.length, metaLines.length); i++) {
+    if (companyLines[i]) text(companyLines[i], MARGIN, { size: 8, color: MUTED_COLOR })
+    if (metaLines[i]) text(metaLines[i], MARGIN, { size: 9, align: 'right', width: CONTENT_WIDTH })
+    y -= 12
+  }
+
+  y -= 8
+  rule()
+  y -= 18
+
+  // Customer
+  text('Quotation for', MARGIN, { size: 9, font: bold, color: MUTED_COLOR })
+  text(`RFQ received: ${formatDate(order.createdAt)}`, MARGIN, { size: 9, align: 'right', width: CONTENT_WIDTH })
+  y -= 14
+  const customerLines = [
+    order.companyName,
+    `Attn: ${order.contactName}`,
+    ...wrap(order.companyAddress, 300, 9),
+    `${order.email}  |  ${order.phone}`,
+  ]
+  customerLines.forEach((line, i) => {
+    text(line, MARGIN, { size: i === 0 ? 11 : 9, font: i === 0 ? bold : font })
+    y -= i === 0 ? 14 : 12
+  })
+  y -= 10
+
+  // Line items
+  const drawTableHeader = () => {
+    page.drawRectangle({ x: MARGIN, y: y - 5, width: CONTENT_WIDTH, height: 18, color: rgb(0.94, 0.94, 0.94) })
+    let x = MARGIN
+    for (const col of columns) {
+      text(col.label, x + 3, { size: 8, font: bold, align: col.align, width: col.width - 6 })
+      x += col.width
+    }
+    y -= 20
+  }
+  drawTableHeader()
+
+  quote.items.forEach((item, index) => {
+    const description = [item.name]
+    if (item.priceType && item.priceType !== 'per_unit') {
+      description.push(`Priced ${priceTypeLabels[item.priceType] || item.priceType}`)
+    }
+    if (item.notes) description.push(item.notes)
+    const descLines = description.flatMap((part) => wrap(part, columns[2].width - 6, 8))
+    const skuLines = wrap(item.sku, columns[1].width - 6, 8)
+    const rowHeight = Math.max(descLines.length, skuLines.length) * 10 + 6
+
+    ensureSpace(rowHeight, drawTableHeader)
+
+    const cells = [
+      [String(index + 1)],
+      skuLines,
+      descLines,
+      [String(item.quantity)],
+      [pdfPrice(item.unitPrice)],
+      [item.discountPercent ? `${item.discountPercent}` : '-'],
+      [pdfPrice(item.lineTotal)],
+    ]
+    const rowTop = y
+    let x = MARGIN
+    cells.forEach((lines, col) => {
+      y = rowTop
+      lines.forEach((line) => {
+        text(line, x + 3, { size: 8, align: columns[col].align, width: columns[col].width - 6 })
+        y -= 10
+      })
+      x += columns[col].width
+    })
+    y = rowTop - rowHeight + 6
+    rule()
+    y -= 12
+  })
+
+  // Totals
+  const totals: [string, string, boolean][] = [
+    ['Subtotal', pdfPrice(quote.subtotal), false],
+  ]
+  if (quote.discountAmount > 0) {
+    totals.push([`Discount (${quote.discountPercent}%)`, `- ${pdfPrice(quote.discountAmount)}`, false])
+  }
+  if (quote.freight > 0) {
+    totals.push(['Freight', pdfPrice(quote.freight), false])
+  }
+  totals.push(['Taxable Value', pdfPrice(quote.taxableAmount), false])
+  totals.push([`GST (${quote.gstPercent}%)`, pdfPrice(quote.gstAmount), false])
+  totals.push(['Total (INR)', pdfPrice(quote.total), true])
+
+  ensureSpace(totals.length * 14 + 10)
+  y -= 4
+  const labelX = PAGE_WIDTH - MARGIN - 230
+  for (const [label, value, emphasise] of totals) {
+    text(label, labelX, { size: emphasise ? 10 : 9, font: emphasise ? bold : font })
+    text(value, labelX, { size: emphasise ? 10 : 9, font: emphasise ? bold : font, align: 'right', width: 230 })
+    y -= emphasise ? 16 : 13
+  }
+  y -= 10
+
+  // Commercial terms
+  const sections: [string, string | null | undefined][] = [
+    ['Lead Time', quote.leadTime],
+    ['Terms & Conditions', quote.terms],
+    ['Notes', quote.notes],
+  ]
+  for (const [heading, body] of sections) {
+    if (!body) continue
+    const lines = wrap(body, CONTENT_WIDTH, 9)
+    ensureSpace(16 + Math.min(lines.length, 3) * 12)
+    text(heading, MARGIN, { size: 10, font: bold })
+    y -= 14
+    for (const line of lines) {
+      ensureSpace(12)
+      text(line, MARGIN, { size: 9 })
+      y -= 12
+    }
+    y -= 8
+  }
+
+  ensureSpace(30)
+  y -= 10
+  text('All amounts are in Indian Rupees (INR).', MARGIN, { size: 8, color: MUTED_COLOR })
+
+  // Footer on every page
+  pages.forEach((p, i) => {
+    const label = `${quoteNumber(order.reference, quote.revision)}  |  Page ${i + 1} of ${pages.length}`
+    p.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(label, 7),
+      y: MARGIN - 15,
+      size: 7,
+      font,
+      color: MUTED_COLOR,
+    })
+  })
+
+  return doc.save()
+}
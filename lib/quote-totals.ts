@@ -0,0 +1,54 @@
+/**
+ * Quotation arithmetic shared by the admin quote builder (live preview) and the API (stored totals)
+ *
+ * Line total  = quantity × unit price − line discount
+ * Subtotal    = Σ line totals
+ * Taxable     = subtotal − quote discount + freight (GST applies to freight)
+ * Total       = taxable + GST
+ */
+
+export interface QuoteLineInput {
+  quantity: number
+  unitPrice: number
+  discountPercent?: number
+}
+
+export interface QuoteTotalsInput {
+  items: QuoteLineInput[]
+  discountPercent?: number
+  gstPercent?: number
+  freight?: number
+}
+
+export interface QuoteTotals {
+  lineTotals: number[]
+  subtotal: number
+  discountAmount: number
+  taxableAmount: number
+  gstAmount: number
+  total: number
+}
+
+// Round to paise to avoid floating point drift in stored totals
+export const roundMoney = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100
+
+export function computeQuoteTotals(input: QuoteTotalsInput): QuoteTotals {
+  const lineTotals = input.items.map((item) => {
+    const gross = item.quantity * item.unitPrice
+    return roundMoney(gross - (gross * (item.discountPercent || 0)) / 100)
+  })
+
+  const subtotal = roundMoney(lineTotals.reduce((sum, value) => sum + value, 0))
+  const discountAmount = roundMoney((subtotal * (input.discountPercent || 0)) / 100)
+  const taxableAmount = roundMoney(subtotal - discountAmount + (input.freight || 0))
+  const gstAmount = roundMoney((taxableAmount * (input.gstPercent || 0)) / 100)
+
+  return {
+    lineTotals,
+    subtotal,
+    discountAmount,
+    taxableAmount,
+    gstAmount,
+    total: roundMoney(taxableAmount + gstAmount),
+  }
+}
@@ -0,0 +1,49 @@
+import { z } from 'zod'
+
+const percentSchema = z
+  .number()
+  .min(0, 'Percentage must be between 0 and 100')
+  .max(100, 'Percentage must be between 0 and 100')
+
+export const quoteItemSchema = z.object({
+  orderItemId: z.string().uuid('Invalid order item ID'),
+  unitPrice: z.number().nonnegative('Unit price must be non-negative'),
+  priceType: z.enum(['per_unit', 'per_pack', 'per_bulk']).default('per_unit'),
+  discountPercent: percentSchema.default(0),
+  notes: z.string().trim().optional(),
+})
+
+export const quoteSchema = z.object({
+  items: z
+    .array(quoteItemSchema)
+    .min(1, 'At least one line is required')
+    .superRefine((items, ctx) => {
+      // One line per order item, so totals count each item once
+      const seen = new Set<string>()
+      items.forEach((item, index) => {
+        if (seen.has(item.orderItemId)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'Each order item can only be quoted once',
+            path: [index, 'orderItemId'],
+          })
+        }
+        seen.add(item.orderItemId)
+      })
+    }),
+  discountPercent: percentSchema.default(0),
+  gstPercent: percentSchema.default(18),
+  freight: z.number().nonnegative('Freight must be non-negative').default(0),
+  leadTime: z.string().trim().optional(),
+  validUntil: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Validity date must be in YYYY-MM-DD format')
+    .optional(),
+  terms: z.string().trim().optional(),
+  notes: z.string().trim().optional(),
+  // Move the order to "quoted" when the revision is saved
+  markQuoted: z.boolean().default(true),
+})
+
+export type QuoteInput = z.infer<typeof quoteSchema>
+export type QuoteItemInput = z.infer<typeof quoteItemSchema>
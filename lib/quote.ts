@@ -0,0 +1,394 @@
+import { pgPool } from '@/lib/pg'
+import { absoluteUrl, queueEmail } from '@/lib/mail'
+import { computeQuoteTotals } from '@/lib/quote-totals'
+import { applyPriceTiers } from '@/lib/price-tiers'
+import { applyCustomerPricing, fetchUserPricingContext } from '@/lib/customer-pricing'
+import { resolveTierPrice } from '@/lib/tier-pricing'
+import { canChangeOrderStatus } from '@/lib/order-status'
+import { recordOrderStatusChange } from '@/lib/order-status-history'
+import type { QuoteInput } from '@/lib/quote-validation'
+import type { OrderStatus, Quote, QuoteItem } from '@/types'
+
+export const DEFAULT_GST_PERCENT = 18
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 30
+
+export class QuoteError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'QuoteError'
+  }
+}
+
+// NUMERIC columns come back from pg as strings
+const toNumber = (value: unknown): number => (value === null || value === undefined ? 0 : Number(value))
+
+const mapQuoteItem = (row: any): QuoteItem => ({
+  orderItemId: row.orderItemId,
+  productId: row.productId,
+  sku: row.sku,
+  name: row.name,
+  quantity: row.quantity,
+  unitPrice: toNumber(row.unitPrice),
+  priceType: row.priceType,
+  discountPercent: toNumber(row.discountPercent),
+  lineTotal: toNumber(row.lineTotal),
+  notes: row.notes,
+})
+
+const mapQuote = (row: any): Quote => ({
+  id: row.id,
+  orderId: row.orderId,
+  revision: row.revision,
+  discountPercent: toNumber(row.discountPercent),
+  gstPercent: toNumber(row.gstPercent),
+  freight: toNumber(row.freight),
+  leadTime: row.leadTime,
+  validUntil: row.validUntil,
+  terms: row.terms,
+  notes: row.notes,
+  subtotal: toNumber(row.subtotal),
+  discountAmount: toNumber(row.discountAmount),
+  taxableAmount: toNumber(row.taxableAmount),
+  gstAmount: toNumber(row.gstAmount),
+  total: toNumber(row.total),
+  createdBy: row.createdBy,
+  createdAt: row.createdAt,
+  items: (row.items || []).map(mapQuoteItem),
+})
+
+/**
+ * Fetch a quote revision for an order (latest revision when none is given)
+ */
+export async function fetchQuote(orderId: string, revision?: number): Promise<Quote | null> {
+  const result = await pgPool.query(
+    `
+    SELECT
+      q.id, q."orderId", q.revision, q."discountPercent", q."gstPercent", q.freight,
+      q."leadTime", to_char(q."validUntil", 'YYYY-MM-DD') AS "validUntil", q.terms, q.notes,
+      q.subtotal, q."discountAmount", q."taxableAmount", q."gstAmount", q.total,
+      q."createdBy", q."createdAt",
+      COALESCE(
+        (
+          SELECT json_agg(
+            json_build_object(
+              'orderItemId', qi."orderItemId",
+              'productId', qi."productId",
+              'sku', qi.sku,
+              'name', qi.name,
+              'quantity', qi.quantity,
+              'unitPrice', qi."unitPrice",
+              'priceType', qi."priceType",
+              'discountPercent', qi."discountPercent",
+              'lineTotal', qi."lineTotal",
+              'notes', qi.notes
+            )
+            ORDER BY qi."sortOrder"
+          )
+          FROM "QuoteItem" qi
+          WHERE qi."quoteId" = q.id
+        ),
+        '[]'::json
+      ) AS items
+    FROM "Quote" q
+    WHERE q."orderId" = $1
+      AND ($2::int IS NULL OR q.revision = $2)
+    ORDER BY q.revision DESC
+    LIMIT 1
+    `,
+    [orderId, revision ?? null],
+  )
+
+  return result.rows[0] ? mapQuote(result.rows[0]) : null
+}
+
+/**
+ * List the revision history of an order's quote, newest first
+ */
+export async function fetchQuoteRevisions(orderId: string) {
+  const result = await pgPool.query(
+    `
+    SELECT revision, total, "createdBy", "createdAt"
+    FROM "Quote"
+    WHERE "orderId" = $1
+    ORDER BY revision DESC
+    `,
+    [orderId],
+  )
+
+  return result.rows.map((row) => ({
+    revision: row.revision as number,
+    total: toNumber(row.total),
+    createdBy: row.createdBy as string | null,
+    createdAt: row.createdAt as string,
+  }))
+}
+
+/**
+ * Build an unsaved first revision from the order lines, pricing each line from the catalog
+ */
+export async function buildDraftQuote(orderId: string): Promise<Quote | null> {
+  const result = await pgPool.query(
+    `
+    SELECT
+      oi.id AS "orderItemId", oi."productId", oi.sku, oi.name, oi.quantity, oi.notes,
+      COALESCE(p.price, (oi.configuration->>'estimatedPrice')::numeric) AS price,
+      p."priceType", o."userId"
+    FROM "OrderItem" oi
+    JOIN "Order" o ON o.id = oi."orderId"
+    LEFT JOIN "Product" p ON p.id = oi."productId"
+    WHERE oi."orderId" = $1
+    ORDER BY oi.sku
+    `,
+    [orderId],
+  )
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  // Catalog lines are priced like the RFQ page showed them: the customer's group
+  // contract price and the quantity break reached by the line. Configured cordsets
+  // start from the estimate the configurator showed.
+  const userId: string | null = result.rows[0].userId
+  const pricing = userId ? await fetchUserPricingContext({ userId }) : null
+  const catalogRows = result.rows
+    .filter((row) => row.productId && row.price !== null)
+    .map((row) => ({ id: row.productId as string, price: toNumber(row.price) }))
+  const priced = await applyCustomerPricing(
+    await applyPriceTiers(catalogRows, pricing?.customerGroupCode ?? null),
+    pricing,
+  )
+  const pricedById = new Map(priced.map((product) => [product.id, product]))
+  const unitPriceFor = (row: any) => {
+    const product = row.productId ? pricedById.get(row.productId) : undefined
+    if (!product) return toNumber(row.price)
+    return resolveTierPrice(product.price, product.priceTiers, row.quantity)?.unitPrice ?? toNumber(row.price)
+  }
+
+  const items = result.rows.map((row) => ({
+    orderItemId: row.orderItemId,
+    productId: row.productId,
+    sku: row.sku,
+    name: row.name,
+    quantity: row.quantity,
+    unitPrice: unitPriceFor(row),
+    priceType: row.priceType || 'per_unit',
+    discountPercent: 0,
+    notes: row.notes,
+  }))
+  const totals = computeQuoteTotals({ items, gstPercent: DEFAULT_GST_PERCENT })
+  const validUntil = new Date(Date.now() + DEFAULT_QUOTE_VALIDITY_DAYS * 24 * 60 * 60 * 1000)
+
+  return {
+    orderId,
+    revision: 0,
+    discountPercent: 0,
+    gstPercent: DEFAULT_GST_PERCENT,
+    freight: 0,
+    leadTime: null,
+    validUntil: validUntil.toISOString().slice(0, 10),
+    terms: null,
+    notes: null,
+    subtotal: totals.subtotal,
+    discountAmount: totals.discountAmount,
+    taxableAmount: totals.taxableAmount,
+    gstAmount: totals.gstAmount,
+    total: totals.total,
+    items: items.map((item, index) => ({ ...item, lineTotal: totals.lineTotals[index] })),
+  }
+}
+
+/**
+ * Save a new quote revision; totals are always recomputed server-side
+ */
+export async function createQuoteRevision(orderId: string, data: QuoteInput, createdBy: string): Promise<Quote> {
+  const { getClientWithRetry } = await import('@/lib/pg')
+  const client = await getClientWithRetry('createQuoteRevision')
+  let quotedOrder: { reference: string; email: string; contactName: string; previousStatus: OrderStatus } | null = null
+  try {
+    await client.query('BEGIN')
+
+    // Lock the order so concurrent saves get sequential revision numbers
+    const orderResult = await client.query(`SELECT id, status FROM "Order" WHERE id = $1 FOR UPDATE`, [orderId])
+    if (orderResult.rows.length === 0) {
+      throw new QuoteError('Order not found', 404)
+    }
+
+    const orderItemsResult = await client.query(
+      `SELECT id, "productId", sku, name, quantity FROM "OrderItem" WHERE "orderId" = $1`,
+      [orderId],
+    )
+    const orderItems = new Map<string, any>(orderItemsResult.rows.map((row: any) => [row.id, row]))
+    const unknownLine = data.items.find((item) => !orderItems.has(item.orderItemId))
+    if (unknownLine) {
+      throw new QuoteError('Quote lines must reference items of this order')
+    }
+
+    const lines = data.items.map((item) => ({ ...item, ...orderItems.get(item.orderItemId) }))
+    const totals = computeQuoteTotals({
+      items: lines,
+      discountPercent: data.discountPercent,
+      gstPercent: data.gstPercent,
+      freight: data.freight,
+    })
+
+    const revisionResult = await client.query(
+      `SELECT COALESCE(MAX(revision), 0) + 1 AS revision FROM "Quote" WHERE "orderId" = $1`,
+      [orderId],
+    )
+    const revision: number = revisionResult.rows[0].revision
+
+    const quoteResult = await client.query(
+      `
+      INSERT INTO "Quote" (
+        "orderId", revision, "discountPercent", "gstPercent", freight,
+        "leadTime", "validUntil", terms, notes,
+        subtotal, "discountAmount", "taxableAmount", "gstAmount", total,
+        "createdBy", "createdAt"
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW())
+      RETURNING id
+      `,
+      [
+        orderId,
+        revision,
+        data.discountPercent,
+        data.gstPercent,
+        data.freight,
+        data.leadTime || null,
+        data.validUntil || null,
+        data.terms || null,
+        data.notes || null,
+        totals.subtotal,
+        totals.discountAmount,
+        totals.taxableAmount,
+        totals.gstAmount,
+        totals.total,
+        createdBy,
+      ],
+    )
+    const quoteId = quoteResult.rows[0].id
+
+    const itemsValues: any[] = []
+    const valuesChunks: string[] = []
+    lines.forEach((line, index) => {
+      const base = index * 12
+      valuesChunks.push(`(${Array.from({ length: 12 }, (_, i) => `$${base + i + 1}`).join(', ')})`)
+      itemsValues.push(
+        quoteId,
+        line.orderItemId,
+        line.productId ?? null,
+        line.sku,
+        line.name,
+        line.quantity,
+        line.unitPrice,
+        line.priceType,
+        line.discountPercent,
+        totals.lineTotals[index],
+        line.notes || null,
+        index,
+      )
+    })
+
+    await client.query(
+      `
+      INSERT INTO "QuoteItem" (
+        "quoteId", "orderItemId", "productId", sku, name, quantity,
+        "unitPrice", "priceType", "discountPercent", "lineTotal", notes, "sortOrder"
+      )
+      VALUES ${valuesChunks.join(', ')}
+      `,
+      itemsValues,
+    )
+
+    // Orders that are already past quoting keep their status
+    const previousStatus: OrderStatus = orderResult.rows[0].status
+    if (data.markQuoted && previousStatus !== 'quoted' && canChangeOrderStatus(previousStatus, 'quoted')) {
+      const statusResult = await client.query(
+        `
+        UPDATE "Order" SET status = 'quoted', "updatedAt" = NOW()
+        WHERE id = $1
+        RETURNING reference, email, "contactName"
+        `,
+        [orderId],
+      )
+      await recordOrderStatusChange(
+        orderId,
+        { fromStatus: previousStatus, toStatus: 'quoted', comment: `Quote revision ${revision} issued`, changedBy: createdBy },
+        client,
+      )
+      quotedOrder = { ...statusResult.rows[0], previousStatus }
+    }
+
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+
+  if (quotedOrder) {
+    queueEmail('orderStatusChanged', quotedOrder.email, {
+      reference: quotedOrder.reference,
+      contactName: quotedOrder.contactName,
+      previousStatus: quotedOrder.previousStatus,
+      status: 'quoted',
+      orderUrl: absoluteUrl(`/account/rfqs/${orderId}`),
+    })
+  }
+
+  const quote = await fetchQuote(orderId)
+  if (!quote) {
+    throw new QuoteError('Failed to load saved quote', 500)
+  }
+  return quote
+}
+
+/**
+ * Render the PDF for a quote revision; pass ownerEmail to restrict to a customer's own order
+ */
+export async function renderOrderQuotePdf(
+  orderId: string,
+  options: { revision?: number; ownerEmail?: string } = {},
+): Promise<{ pdf: Uint8Array; filename: string } | null> {
+  const orderResult = await pgPool.query(
+    `
+    SELECT o.id, o.reference, o."companyName", o."contactName", o.email, o.phone, o."companyAddress", o."createdAt"
+    FROM "Order" o
+    LEFT JOIN "User" u ON u.id = o."userId"
+    WHERE o.id = $1
+      AND ($2::text IS NULL OR u.email = $2)
+    `,
+    [orderId, options.ownerEmail ?? null],
+  )
+  const order = orderResult.rows[0]
+  if (!order) {
+    return null
+  }
+
+  const quote = await fetchQuote(orderId, options.revision)
+  if (!quote) {
+    return null
+  }
+
+  const contactResult = await pgPool.query(
+    `SELECT email, phone, address, city, state, country FROM "ContactInfo" ORDER BY "updatedAt" DESC LIMIT 1`,
+  )
+  const contact = contactResult.rows[0]
+  const address = contact
+    ? [contact.address, [contact.city, contact.state, contact.country].filter(Boolean).join(', ')]
+        .filter(Boolean)
+        .join('\n')
+    : null
+
+  const { renderQuotePdf, quoteNumber } = await import('@/lib/quote-pdf')
+  const pdf = await renderQuotePdf(order, quote, {
+    name: 'LEI Indias',
+    address,
+    phone: contact?.phone,
+    email: contact?.email,
+  })
+
+  return { pdf, filename: `${quoteNumber(order.reference, quote.revision)}.pdf` }
+}
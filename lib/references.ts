@@ -0,0 +1,24 @@
+/**
+ * Human-readable order and inquiry references such as RFQ-2026-000123. The database assigns
+ * them on insert, numbered per financial year (see next_reference() in prisma/schema.sql).
+ */
+
+export const ORDER_REFERENCE_PREFIX = 'RFQ'
+export const INQUIRY_REFERENCE_PREFIX = 'INQ'
+
+// At least six digits; the number grows past 999999 instead of wrapping
+const REFERENCE_REGEX = /^([A-Z]{3})-(\d{4})-(\d{6,})$/
+
+/**
+ * The reference in its stored form, or null when the value is not a reference with this prefix.
+ * Tolerates lower case and surrounding spaces, as typed by customers.
+ */
+export function parseReference(value: string, prefix: string): string | null {
+  const reference = value.trim().toUpperCase()
+  const match = REFERENCE_REGEX.exec(reference)
+  return match && match[1] === prefix ? reference : null
+}
+
+export const parseOrderReference = (value: string) => parseReference(value, ORDER_REFERENCE_PREFIX)
+
+export const parseInquiryReference = (value: string) => parseReference(value, INQUIRY_REFERENCE_PREFIX)
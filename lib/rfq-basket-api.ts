@@ -0,0 +1,56 @@
+import type { RFQItem, RfqBasket } from '@/types'
+
+/**
+ * Browser-side calls to /api/rfq-baskets, shared by the basket sync and the RFQ page
+ */
+
+export class RfqBasketRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'RfqBasketRequestError'
+  }
+}
+
+const apiUrl = process.env.NEXT_PUBLIC_API_URL || ''
+
+async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const headers: Record<string, string> = {}
+  if (method !== 'GET') {
+    // Get CSRF token for state-changing operations
+    const csrfResponse = await fetch(`${apiUrl}/api/csrf-token`)
+    const csrfData = await csrfResponse.json()
+    headers['X-CSRF-Token'] = csrfData.token
+  }
+  if (body !== undefined) {
+    headers['Content-Type'] = 'application/json'
+  }
+
+  const response = await fetch(`${apiUrl}/api/rfq-baskets${path}`, {
+    method,
+    headers,
+    credentials: 'include',
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    const details = Array.isArray(data.details)
+      ? `: ${data.details.map((d: any) => d.message).join(', ')}`
+      : ''
+    throw new RfqBasketRequestError(`${data.error || 'Basket request failed'}${details}`, response.status)
+  }
+  return data as T
+}
+
+export const listBaskets = () => request<{ baskets: RfqBasket[] }>('GET', '').then((data) => data.baskets)
+
+// Adds lines to the active basket (made or reactivated if needed); an empty list just loads it
+export const mergeBasket = (items: RFQItem[]) => request<RfqBasket>('POST', '/merge', { items })
+
+export const createBasket = (name: string, items: RFQItem[]) =>
+  request<RfqBasket>('POST', '', { name, items, active: true })
+
+export const updateBasket = (id: string, data: { name?: string; items?: RFQItem[]; active?: true }) =>
+  request<RfqBasket>('PUT', `/${id}`, data)
+
+export const deleteBasket = (id: string) => request<{ wasActive: boolean }>('DELETE', `/${id}`)
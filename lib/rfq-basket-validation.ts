@@ -0,0 +1,62 @@
+import { z } from 'zod'
+import { cordsetSelectionSchema } from '@/lib/cordset-validation'
+
+/**
+ * RFQ baskets: limits and the payloads exchanged between the RFQ store and /api/rfq-baskets
+ */
+
+// Saved baskets expire this long after their last change
+export const RFQ_BASKET_TTL_DAYS = 90
+// The basket kept in this browser before login expires sooner
+export const LOCAL_RFQ_BASKET_TTL_DAYS = 7
+// Baskets with items and no change for this long are listed as abandoned
+export const ABANDONED_RFQ_BASKET_DAYS = 3
+
+export const MAX_RFQ_BASKETS = 20
+export const MAX_RFQ_BASKET_ITEMS = 500
+export const DEFAULT_RFQ_BASKET_NAME = 'My RFQ'
+
+export const rfqBasketItemSchema = z.object({
+  productId: z.string().trim().min(1).max(200),
+  sku: z.string().trim().min(1).max(200),
+  name: z.string().trim().min(1).max(300),
+  quantity: z.number().int().positive('Quantity must be a positive number').max(1_000_000),
+  notes: z.string().max(1000).optional(),
+  configuration: z
+    .object({
+      partNumber: z.string().max(200),
+      selections: cordsetSelectionSchema,
+      spec: z.array(z.object({ label: z.string().max(100), value: z.string().max(200) })).max(20),
+      estimatedPrice: z.number().min(0),
+    })
+    .nullable()
+    .optional(),
+  freeText: z.boolean().optional(),
+})
+
+export const rfqBasketItemsSchema = z
+  .array(rfqBasketItemSchema)
+  .max(MAX_RFQ_BASKET_ITEMS, `A basket can have at most ${MAX_RFQ_BASKET_ITEMS} lines`)
+
+const basketNameSchema = z.string().trim().min(1, 'Name is required').max(100)
+
+export const rfqBasketCreateSchema = z.object({
+  name: basketNameSchema,
+  items: rfqBasketItemsSchema.default([]),
+  // Make the new basket the one the RFQ page edits
+  active: z.boolean().default(true),
+})
+
+export const rfqBasketUpdateSchema = z
+  .object({
+    name: basketNameSchema.optional(),
+    items: rfqBasketItemsSchema.optional(),
+    active: z.literal(true).optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update',
+  })
+
+export type RfqBasketItemInput = z.infer<typeof rfqBasketItemSchema>
+export type RfqBasketCreateInput = z.infer<typeof rfqBasketCreateSchema>
+export type RfqBasketUpdateInput = z.infer<typeof rfqBasketUpdateSchema>
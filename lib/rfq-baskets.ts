@@ -0,0 +1,331 @@
+import type { PoolClient } from 'pg'
+import { pgPool } from '@/lib/pg'
+import {
+  ABANDONED_RFQ_BASKET_DAYS,
+  DEFAULT_RFQ_BASKET_NAME,
+  MAX_RFQ_BASKETS,
+  RFQ_BASKET_TTL_DAYS,
+  type RfqBasketCreateInput,
+  type RfqBasketItemInput,
+  type RfqBasketUpdateInput,
+} from '@/lib/rfq-basket-validation'
+import type { AbandonedRfqBasket, RFQItem, RfqBasket } from '@/types'
+
+/**
+ * Server-side RFQ baskets. A customer has any number of named baskets, one of them active;
+ * the RFQ store mirrors the active basket so it follows the customer across devices.
+ * Expired baskets are deleted whenever baskets are listed.
+ */
+
+type Queryable = Pick<PoolClient, 'query'>
+
+export class RfqBasketError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RfqBasketError'
+  }
+}
+
+const BASKET_COLUMNS = `
+  b.id, b.name, b.active, b."expiresAt", b."createdAt", b."updatedAt",
+  (SELECT COUNT(*)::int FROM "RfqBasketItem" i WHERE i."basketId" = b.id) AS "itemCount"
+`
+
+const EXPIRES_AT_SQL = `NOW() + make_interval(days => ${RFQ_BASKET_TTL_DAYS})`
+
+const toRfqItem = (row: any): RFQItem => ({
+  productId: row.productId,
+  sku: row.sku,
+  name: row.name,
+  quantity: row.quantity,
+  ...(row.notes ? { notes: row.notes } : {}),
+  ...(row.configuration ? { configuration: row.configuration } : {}),
+  ...(row.freeText ? { freeText: true } : {}),
+})
+
+/**
+ * Id of the customer account behind a token (customer tokens carry the email as username)
+ */
+export async function findCustomerId(email: string, db: Queryable = pgPool): Promise<string | null> {
+  const result = await db.query(`SELECT id FROM "User" WHERE email = $1 LIMIT 1`, [email])
+  return result.rows[0]?.id ?? null
+}
+
+export async function deleteExpiredRfqBaskets(userId: string | null = null, db: Queryable = pgPool): Promise<number> {
+  const result = await db.query(
+    `DELETE FROM "RfqBasket" WHERE "expiresAt" < NOW() AND ($1::uuid IS NULL OR "userId" = $1)`,
+    [userId],
+  )
+  return result.rowCount ?? 0
+}
+
+export async function listRfqBaskets(userId: string, db: Queryable = pgPool): Promise<RfqBasket[]> {
+  await deleteExpiredRfqBaskets(userId, db)
+  const result = await db.query<RfqBasket>(
+    `
+    SELECT ${BASKET_COLUMNS}
+    FROM "RfqBasket" b
+    WHERE b."userId" = $1
+    ORDER BY b.active DESC, b."updatedAt" DESC
+    `,
+    [userId],
+  )
+  return result.rows
+}
+
+export async function fetchRfqBasket(userId: string, basketId: string, db: Queryable = pgPool): Promise<RfqBasket | null> {
+  const basketResult = await db.query<RfqBasket>(
+    `
+    SELECT ${BASKET_COLUMNS}
+    FROM "RfqBasket" b
+    WHERE b.id = $1 AND b."userId" = $2 AND b."expiresAt" > NOW()
+    `,
+    [basketId, userId],
+  )
+  const basket = basketResult.rows[0]
+  if (!basket) return null
+
+  const itemsResult = await db.query(
+    `
+    SELECT "productId", sku, name, quantity, notes, configuration, "freeText"
+    FROM "RfqBasketItem"
+    WHERE "basketId" = $1
+    ORDER BY "sortOrder" ASC
+    `,
+    [basketId],
+  )
+  return { ...basket, items: itemsResult.rows.map(toRfqItem) }
+}
+
+const insertItems = async (
+  basketId: string,
+  items: RfqBasketItemInput[],
+  db: Queryable,
+  options: { sortOffset?: number; onConflict?: string } = {},
+) => {
+  if (items.length === 0) return
+
+  const values: any[] = []
+  const chunks = items.map((item, index) => {
+    const base = index * 9
+    values.push(
+      basketId,
+      item.productId,
+      item.sku,
+      item.name,
+      item.quantity,
+      item.notes || null,
+      item.configuration ? JSON.stringify(item.configuration) : null,
+      item.freeText ?? false,
+      (options.sortOffset ?? 0) + index,
+    )
+    return `(${Array.from({ length: 9 }, (_, i) => `$${base + i + 1}`).join(', ')})`
+  })
+
+  await db.query(
+    `
+    INSERT INTO "RfqBasketItem" ("basketId", "productId", sku, name, quantity, notes, configuration, "freeText", "sortOrder")
+    VALUES ${chunks.join(', ')}
+    ${options.onConflict ?? ''}
+    `,
+    values,
+  )
+}
+
+// The RFQ store keys lines by productId; repeated lines add up like addItem does
+const combineItems = (items: RfqBasketItemInput[]): RfqBasketItemInput[] => {
+  const byKey = new Map<string, RfqBasketItemInput>()
+  for (const item of items) {
+    const existing = byKey.get(item.productId)
+    byKey.set(item.productId, existing ? { ...existing, quantity: existing.quantity + item.quantity } : item)
+  }
+  return Array.from(byKey.values())
+}
+
+const replaceItems = async (basketId: string, items: RfqBasketItemInput[], db: Queryable) => {
+  await db.query(`DELETE FROM "RfqBasketItem" WHERE "basketId" = $1`, [basketId])
+  await insertItems(basketId, combineItems(items), db)
+}
+
+const deactivateBaskets = (userId: string, db: Queryable) =>
+  db.query(`UPDATE "RfqBasket" SET active = FALSE WHERE "userId" = $1 AND active`, [userId])
+
+/**
+ * Merge a basket built before login into the customer's active basket and return it.
+ * Without an active basket the most recently changed one is reactivated, or a new one made.
+ * Quantities of lines in both add up. Call inside a transaction.
+ */
+export async function mergeIntoActiveRfqBasket(
+  userId: string,
+  items: RfqBasketItemInput[],
+  client: Queryable,
+): Promise<RfqBasket> {
+  await deleteExpiredRfqBaskets(userId, client)
+
+  const existing = await client.query(
+    `
+    SELECT id FROM "RfqBasket"
+    WHERE "userId" = $1
+    ORDER BY active DESC, "updatedAt" DESC
+    LIMIT 1
+    FOR UPDATE
+    `,
+    [userId],
+  )
+
+  let basketId: string = existing.rows[0]?.id
+  if (basketId) {
+    await deactivateBaskets(userId, client)
+    await client.query(`UPDATE "RfqBasket" SET active = TRUE WHERE id = $1`, [basketId])
+  } else {
+    const created = await client.query(
+      `
+      INSERT INTO "RfqBasket" ("userId", name, active, "expiresAt")
+      VALUES ($1, $2, TRUE, ${EXPIRES_AT_SQL})
+      RETURNING id
+      `,
+      [userId, DEFAULT_RFQ_BASKET_NAME],
+    )
+    basketId = created.rows[0].id
+  }
+
+  if (items.length > 0) {
+    const offset = await client.query(
+      `SELECT COALESCE(MAX("sortOrder") + 1, 0) AS next FROM "RfqBasketItem" WHERE "basketId" = $1`,
+      [basketId],
+    )
+    // New lines go after the basket's own; lines already in it keep their place
+    await insertItems(basketId, combineItems(items), client, {
+      sortOffset: offset.rows[0].next,
+      onConflict: `ON CONFLICT ("basketId", "productId") DO UPDATE SET quantity = "RfqBasketItem".quantity + EXCLUDED.quantity`,
+    })
+    await client.query(
+      `UPDATE "RfqBasket" SET "updatedAt" = NOW(), "expiresAt" = ${EXPIRES_AT_SQL} WHERE id = $1`,
+      [basketId],
+    )
+  }
+
+  return (await fetchRfqBasket(userId, basketId, client))!
+}
+
+/**
+ * Create a named basket. Call inside a transaction.
+ */
+export async function createRfqBasket(
+  userId: string,
+  input: RfqBasketCreateInput,
+  client: Queryable,
+): Promise<RfqBasket> {
+  await deleteExpiredRfqBaskets(userId, client)
+
+  const count = await client.query(`SELECT COUNT(*)::int AS count FROM "RfqBasket" WHERE "userId" = $1`, [userId])
+  if (count.rows[0].count >= MAX_RFQ_BASKETS) {
+    throw new RfqBasketError(`You can keep at most ${MAX_RFQ_BASKETS} baskets. Delete one to save another.`)
+  }
+
+  if (input.active) {
+    await deactivateBaskets(userId, client)
+  }
+
+  const created = await client.query(
+    `
+    INSERT INTO "RfqBasket" ("userId", name, active, "expiresAt")
+    VALUES ($1, $2, $3, ${EXPIRES_AT_SQL})
+    RETURNING id
+    `,
+    [userId, input.name, input.active],
+  )
+  const basketId = created.rows[0].id
+  await replaceItems(basketId, input.items, client)
+
+  return (await fetchRfqBasket(userId, basketId, client))!
+}
+
+/**
+ * Rename a basket, replace its lines and/or make it the active basket.
+ * Returns null when the basket does not exist (or belongs to someone else). Call inside a transaction.
+ */
+export async function updateRfqBasket(
+  userId: string,
+  basketId: string,
+  input: RfqBasketUpdateInput,
+  client: Queryable,
+): Promise<RfqBasket | null> {
+  const existing = await client.query(
+    `SELECT id FROM "RfqBasket" WHERE id = $1 AND "userId" = $2 AND "expiresAt" > NOW() FOR UPDATE`,
+    [basketId, userId],
+  )
+  if (existing.rows.length === 0) return null
+
+  if (input.active) {
+    await deactivateBaskets(userId, client)
+  }
+  if (input.items) {
+    await replaceItems(basketId, input.items, client)
+  }
+
+  await client.query(
+    `
+    UPDATE "RfqBasket"
+    SET
+      name = COALESCE($2, name),
+      active = active OR $3,
+      "updatedAt" = NOW(),
+      "expiresAt" = ${EXPIRES_AT_SQL}
+    WHERE id = $1
+    `,
+    [basketId, input.name ?? null, input.active ?? false],
+  )
+
+  return fetchRfqBasket(userId, basketId, client)
+}
+
+/**
+ * Baskets with items that have not changed for `olderThanDays`, most recently touched first,
+ * with their lines so sales can follow up
+ */
+export async function fetchAbandonedRfqBaskets(
+  options: { olderThanDays?: number; page?: number; limit?: number } = {},
+  db: Queryable = pgPool,
+): Promise<{ baskets: AbandonedRfqBasket[]; total: number }> {
+  const { olderThanDays = ABANDONED_RFQ_BASKET_DAYS, page = 1, limit = 20 } = options
+  await deleteExpiredRfqBaskets(null, db)
+
+  const result = await db.query(
+    `
+    SELECT
+      ${BASKET_COLUMNS},
+      totals."totalQuantity",
+      totals.items,
+      json_build_object('id', u.id, 'name', u.name, 'email', u.email, 'company', u.company) AS user,
+      COUNT(*) OVER() AS total
+    FROM "RfqBasket" b
+    JOIN "User" u ON u.id = b."userId"
+    JOIN LATERAL (
+      SELECT
+        SUM(i.quantity)::int AS "totalQuantity",
+        json_agg(
+          json_build_object(
+            'productId', i."productId", 'sku', i.sku, 'name', i.name, 'quantity', i.quantity,
+            'notes', i.notes, 'configuration', i.configuration, 'freeText', i."freeText"
+          )
+          ORDER BY i."sortOrder"
+        ) AS items
+      FROM "RfqBasketItem" i
+      WHERE i."basketId" = b.id
+    ) totals ON totals."totalQuantity" > 0
+    WHERE b."updatedAt" < NOW() - make_interval(days => $1)
+    ORDER BY b."updatedAt" DESC
+    LIMIT $2 OFFSET $3
+    `,
+    [olderThanDays, limit, (page - 1) * limit],
+  )
+
+  return {
+    baskets: result.rows.map(({ total: _total, items, ...basket }) => ({
+      ...basket,
+      items: items.map(toRfqItem),
+    })),
+    total: result.rows.length > 0 ? Number(result.rows[0].total) : 0,
+  }
+}
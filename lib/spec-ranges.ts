@@ -0,0 +1,269 @@
+import type { PoolClient } from 'pg'
+import type { SpecRangeFilters, SpecRangeKey } from '@/types'
+
+/**
+ * Parametric range filters.
+ * Electrical and mechanical specs are free text ("10-30 V DC", "-25...+85 °C", "5 m",
+ * "10 x D"). On every product write they are parsed into numeric min/max columns in a
+ * canonical unit, which the product list filters and the sidebar sliders work on.
+ * This module is safe to import from client components.
+ */
+
+type Quantity = 'voltage' | 'current' | 'temperature' | 'length' | 'dimension'
+
+export interface SpecRangeDefinition {
+  /** API field name, also the prefix of the query params (ratedCurrentMin/ratedCurrentMax) */
+  key: SpecRangeKey
+  label: string
+  /** Canonical unit the numeric columns are stored in */
+  unit: string
+  quantity: Quantity
+  /** Source text column on "Product" */
+  column: string
+  minColumn: string
+  maxColumn: string
+  /**
+   * overlap: the product range overlaps the selected range (ratings, lengths)
+   * cover: the product range covers the whole selected range (operating temperature)
+   */
+  match: 'overlap' | 'cover'
+  /** Slider step */
+  step: number
+}
+
+export const SPEC_RANGES: SpecRangeDefinition[] = [
+  {
+    key: 'operatingVoltage',
+    label: 'Operating Voltage',
+    unit: 'V',
+    quantity: 'voltage',
+    column: 'voltage',
+    minColumn: 'voltageMin',
+    maxColumn: 'voltageMax',
+    match: 'overlap',
+    step: 1,
+  },
+  {
+    key: 'ratedCurrent',
+    label: 'Rated Current',
+    unit: 'A',
+    quantity: 'current',
+    column: 'current',
+    minColumn: 'currentMin',
+    maxColumn: 'currentMax',
+    match: 'overlap',
+    step: 0.5,
+  },
+  {
+    key: 'temperatureRange',
+    label: 'Operating Temperature',
+    unit: '°C',
+    quantity: 'temperature',
+    column: 'temperatureRange',
+    minColumn: 'temperatureMin',
+    maxColumn: 'temperatureMax',
+    match: 'cover',
+    step: 5,
+  },
+  {
+    key: 'cableLength',
+    label: 'Cable Length',
+    unit: 'm',
+    quantity: 'length',
+    column: 'cableLength',
+    minColumn: 'cableLengthMin',
+    maxColumn: 'cableLengthMax',
+    match: 'overlap',
+    step: 0.5,
+  },
+  {
+    key: 'cableDiameter',
+    label: 'Cable Diameter',
+    unit: 'mm',
+    quantity: 'dimension',
+    column: 'cableDiameter',
+    minColumn: 'cableDiameterMin',
+    maxColumn: 'cableDiameterMax',
+    match: 'overlap',
+    step: 0.1,
+  },
+  {
+    key: 'bendingRadiusFixed',
+    label: 'Bending Radius (fixed)',
+    unit: 'mm',
+    quantity: 'dimension',
+    column: 'bendingRadiusFixed',
+    minColumn: 'bendingRadiusFixedMin',
+    maxColumn: 'bendingRadiusFixedMax',
+    match: 'overlap',
+    step: 1,
+  },
+]
+
+// Multipliers to the canonical unit; the empty unit means the value was written without one
+const UNIT_FACTORS: Record<Exclude<Quantity, 'temperature'>, Record<string, number>> = {
+  voltage: { '': 1, v: 1, vac: 1, vdc: 1, volt: 1, volts: 1, mv: 0.001, kv: 1000 },
+  current: { '': 1, a: 1, amp: 1, amps: 1, ampere: 1, amperes: 1, ma: 0.001, ka: 1000 },
+  length: { '': 1, m: 1, meter: 1, meters: 1, metre: 1, metres: 1, km: 1000, cm: 0.01, mm: 0.001, ft: 0.3048, "'": 0.3048 },
+  dimension: { '': 1, mm: 1, cm: 10, m: 1000, in: 25.4, '"': 25.4 },
+}
+
+const TEMPERATURE_UNITS: Record<string, (value: number) => number> = {
+  '': (value) => value,
+  c: (value) => value,
+  '°c': (value) => value,
+  '℃': (value) => value,
+  f: (value) => ((value - 32) * 5) / 9,
+  '°f': (value) => ((value - 32) * 5) / 9,
+  '℉': (value) => ((value - 32) * 5) / 9,
+}
+
+const toCanonical = (quantity: Quantity, value: number, unit: string): number | null => {
+  if (quantity === 'temperature') {
+    const convert = TEMPERATURE_UNITS[unit]
+    return convert ? convert(value) : null
+  }
+  const factor = UNIT_FACTORS[quantity][unit]
+  return factor === undefined ? null : value * factor
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000
+
+export interface SpecRange {
+  min: number
+  max: number
+}
+
+// "10 x D", "7.5×Ø", "15 x cable diameter": a multiple of the cable's outer diameter
+const DIAMETER_MULTIPLE = /^\s*(\d+(?:\.\d+)?)\s*[x×*]\s*(?:d|ø|od|(?:cable\s+|outer\s+)?diameter)\b/i
+
+// A number followed by an optional unit
+const VALUE_TOKEN = /([+-]?\d+(?:\.\d+)?)\s*(°\s*[cf]|℃|℉|["']|[a-zµ]+)?/gi
+
+/**
+ * Parse a spec value into a numeric range in the quantity's canonical unit.
+ * Single values give min = max. Returns null when nothing usable is found.
+ *
+ * diameter is the cable diameter range (mm) used to resolve "10 x D" bending radii.
+ */
+export function parseSpecRange(
+  quantity: Quantity,
+  text: string | null | undefined,
+  diameter?: SpecRange | null,
+): SpecRange | null {
+  if (!text || !text.trim()) return null
+
+  const multiple = text.match(DIAMETER_MULTIPLE)
+  if (multiple) {
+    if (quantity !== 'dimension' || !diameter) return null
+    const factor = parseFloat(multiple[1])
+    return { min: round(diameter.min * factor), max: round(diameter.max * factor) }
+  }
+
+  const normalized = text
+    .replace(/[−–—]/g, '-')
+    .replace(/(\d),(\d)/g, '$1.$2')
+    // Tolerances ("4.5 ± 0.2 mm") describe the nominal value, not a range
+    .replace(/(?:±|\+\/-)\s*\d+(?:\.\d+)?\s*%?/g, '')
+    // Range separators: "…", "...", "~", "to", and a hyphen between two numbers
+    .replace(/\s*(?:…|\.{2,}|~|\bto\b)\s*/gi, ' .. ')
+    .replace(/(\d)\s*-\s*(?=[+-]?\d)/g, '$1 .. ')
+
+  const tokens: Array<{ value: number; unit: string; rangeStart: boolean }> = []
+  for (const match of Array.from(normalized.matchAll(VALUE_TOKEN))) {
+    const rest = normalized.slice((match.index ?? 0) + match[0].length)
+    tokens.push({
+      value: parseFloat(match[1]),
+      unit: (match[2] ?? '').replace(/\s+/g, '').toLowerCase(),
+      rangeStart: /^\s*\.\./.test(rest),
+    })
+  }
+
+  // "-25 .. +85 °C": the lower bound takes the unit of the upper bound
+  for (let i = tokens.length - 2; i >= 0; i--) {
+    if (tokens[i].rangeStart && !tokens[i].unit) {
+      tokens[i].unit = tokens[i + 1].unit
+    }
+  }
+
+  // Bare numbers only count when no value in the text carries a unit of this quantity,
+  // so "4 A at 40 °C" reads as 4 A and "250" reads as 250 V
+  const converted = tokens.map((token) => ({ ...token, canonical: toCanonical(quantity, token.value, token.unit) }))
+  const hasUnit = converted.some((token) => token.unit && token.canonical !== null)
+  const values = converted
+    .filter((token) => token.canonical !== null && (!hasUnit || token.unit))
+    .map((token) => token.canonical as number)
+
+  if (values.length === 0) return null
+  return { min: round(Math.min(...values)), max: round(Math.max(...values)) }
+}
+
+/** Spec text fields as returned by the products API */
+export type SpecRangeSource = Partial<Record<SpecRangeKey, string | null>>
+
+/**
+ * Numeric min/max column values for a product, keyed by column name
+ */
+export function computeSpecRanges(product: SpecRangeSource): Record<string, number | null> {
+  const diameter = parseSpecRange('dimension', product.cableDiameter)
+  const columns: Record<string, number | null> = {}
+  for (const spec of SPEC_RANGES) {
+    const range =
+      spec.key === 'cableDiameter' ? diameter : parseSpecRange(spec.quantity, product[spec.key], diameter)
+    columns[spec.minColumn] = range?.min ?? null
+    columns[spec.maxColumn] = range?.max ?? null
+  }
+  return columns
+}
+
+/**
+ * Recompute the numeric range columns of the given products from their spec text.
+ * Call after any write to the spec columns, inside the same transaction when there is one.
+ */
+export async function refreshProductSpecRanges(
+  db: Pick<PoolClient, 'query'>,
+  productIds: string[],
+): Promise<void> {
+  if (productIds.length === 0) return
+
+  const result = await db.query(
+    `
+    SELECT id, ${SPEC_RANGES.map((spec) => `"${spec.column}" AS "${spec.key}"`).join(', ')}
+    FROM "Product"
+    WHERE id = ANY($1::uuid[])
+    `,
+    [productIds],
+  )
+
+  const columns = SPEC_RANGES.flatMap((spec) => [spec.minColumn, spec.maxColumn])
+  for (const row of result.rows) {
+    const ranges = computeSpecRanges(row)
+    await db.query(
+      `UPDATE "Product" SET ${columns.map((c, i) => `"${c}" = $${i + 2}`).join(', ')} WHERE id = $1`,
+      [row.id, ...columns.map((c) => ranges[c])],
+    )
+  }
+}
+
+const parseBound = (value: string | null | undefined): number | undefined => {
+  if (value === null || value === undefined || value.trim() === '') return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+/**
+ * Read range bounds (operatingVoltageMin, ratedCurrentMax, ...) from query params
+ */
+export function parseSpecRangeFilters(get: (name: string) => string | null | undefined): SpecRangeFilters {
+  const filters: SpecRangeFilters = {}
+  for (const spec of SPEC_RANGES) {
+    const min = parseBound(get(`${spec.key}Min`))
+    const max = parseBound(get(`${spec.key}Max`))
+    if (min !== undefined) filters[`${spec.key}Min`] = min
+    if (max !== undefined) filters[`${spec.key}Max`] = max
+  }
+  return filters
+}
+
+/** Query param names of every range bound */
+export const SPEC_RANGE_PARAMS = SPEC_RANGES.flatMap((spec) => [`${spec.key}Min`, `${spec.key}Max`] as const)
@@ -0,0 +1,148 @@
+import { PassThrough, Readable } from 'stream'
+import ExcelJS from 'exceljs'
+import { log } from '@/lib/logger'
+
+/**
+ * Streamed CSV/XLSX downloads for the admin exports. Rows are fetched in batches as the
+ * client reads, so memory stays flat regardless of how many rows are exported.
+ */
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+export interface ExportColumn {
+  header: string
+  // Numbers are written to XLSX as numeric cells and to CSV as text
+  value: (row: any) => string | number | null
+}
+
+// Next batch of rows; done once the last batch has been fetched
+export type ExportBatchFetcher = () => Promise<{ rows: any[]; done: boolean }>
+
+export const exportFormatParam = (searchParams: URLSearchParams): ExportFormat =>
+  searchParams.get('format') === 'xlsx' ? 'xlsx' : 'csv'
+
+// Text that spreadsheet apps would run as a formula; exports carry customer-entered text
+const FORMULA_PATTERN = /^[=+\-@\t\r]/
+
+/**
+ * Prefix formula-like text with ' so it opens as text. Numbers are left alone.
+ */
+const escapeFormula = (value: string | number | null): string | number | null =>
+  typeof value === 'string' && FORMULA_PATTERN.test(value) ? `'${value}` : value
+
+/**
+ * Undo escapeFormula when an exported file is imported again
+ */
+export const unescapeFormula = (cell: string): string =>
+  cell.startsWith("'") && FORMULA_PATTERN.test(cell.slice(1)) ? cell.slice(1) : cell
+
+export function toCsvLine(cells: string[]): string {
+  return (
+    cells
+      .map((cell) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell))
+      .join(',') + '\r\n'
+  )
+}
+
+const cellText = (value: string | number | null): string => (value === null || value === undefined ? '' : String(value))
+
+// Resolves once the stream can take more data, or has been closed by the client going away
+const drained = (stream: PassThrough) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      stream.off('drain', done)
+      stream.off('close', done)
+      resolve()
+    }
+    stream.on('drain', done)
+    stream.on('close', done)
+  })
+
+function csvStream(columns: ExportColumn[], fetchBatch: ExportBatchFetcher, filename: string): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let started = false
+  let finished = false
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!started) {
+          started = true
+          // BOM so Excel opens the file as UTF-8
+          controller.enqueue(encoder.encode('\uFEFF' + toCsvLine(columns.map((c) => c.header))))
+          return
+        }
+        if (finished) {
+          controller.close()
+          return
+        }
+        const { rows, done } = await fetchBatch()
+        finished = done
+        const chunk = rows.map((row) => toCsvLine(columns.map((c) => cellText(escapeFormula(c.value(row)))))).join('')
+        if (chunk) controller.enqueue(encoder.encode(chunk))
+      } catch (error) {
+        log.error(`Error exporting ${filename}`, error)
+        controller.error(error)
+      }
+    },
+  })
+}
+
+function xlsxStream(
+  columns: ExportColumn[],
+  fetchBatch: ExportBatchFetcher,
+  filename: string,
+  sheetName: string,
+): ReadableStream<Uint8Array> {
+  const output = new PassThrough()
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useSharedStrings: false })
+  const worksheet = workbook.addWorksheet(sheetName)
+  worksheet.columns = columns.map((c) => ({ header: c.header, key: c.header }))
+
+  // Batches are fetched only as fast as the client reads the file
+  const writeWorkbook = async () => {
+    let done = false
+    while (!done) {
+      if (output.writableNeedDrain) await drained(output)
+      if (output.destroyed) return
+      const batch = await fetchBatch()
+      done = batch.done
+      for (const row of batch.rows) {
+        worksheet.addRow(columns.map((c) => escapeFormula(c.value(row)) ?? '')).commit()
+      }
+    }
+    worksheet.commit()
+    await workbook.commit()
+  }
+
+  writeWorkbook().catch((error) => {
+    log.error(`Error exporting ${filename}`, error)
+    output.destroy(error)
+  })
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>
+}
+
+/**
+ * Download response streaming the rows as CSV or as a single-sheet XLSX workbook
+ */
+export function streamSpreadsheetExport(
+  columns: ExportColumn[],
+  fetchBatch: ExportBatchFetcher,
+  format: ExportFormat,
+  filename: string,
+  sheetName: string,
+): Response {
+  const stream =
+    format === 'csv' ? csvStream(columns, fetchBatch, filename) : xlsxStream(columns, fetchBatch, filename, sheetName)
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type':
+        format === 'csv'
+          ? 'text/csv; charset=utf-8'
+          : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
@@ -0,0 +1,27 @@
+import { z } from 'zod'
+import { isValidUUID } from '@/lib/validation'
+import { parseOrderReference } from '@/lib/references'
+
+export const STOCK_MOVEMENT_TYPES = ['receipt', 'adjustment', 'reservation', 'release', 'dispatch'] as const
+
+export const stockMovementSchema = z
+  .object({
+    warehouseId: z.string().uuid('Invalid warehouse ID'),
+    type: z.enum(STOCK_MOVEMENT_TYPES),
+    // Signed for adjustments, positive for every other type
+    quantity: z.coerce.number().int('Quantity must be a whole number'),
+    // The order's UUID or its reference (RFQ-2026-000123)
+    orderId: z
+      .string()
+      .trim()
+      .refine((value) => isValidUUID(value) || parseOrderReference(value) !== null, 'Invalid order ID or reference')
+      .optional()
+      .nullable(),
+    note: z.string().trim().max(500).optional(),
+  })
+  .refine((movement) => (movement.type === 'adjustment' ? movement.quantity !== 0 : movement.quantity > 0), {
+    message: 'Quantity must be positive (adjustments may be negative, but not zero)',
+    path: ['quantity'],
+  })
+
+export type StockMovementInput = z.infer<typeof stockMovementSchema>
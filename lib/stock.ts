@@ -0,0 +1,330 @@
+import type { PoolClient } from 'pg'
+import { pgPool } from '@/lib/pg'
+import type { StockMovementInput } from '@/lib/stock-validation'
+import type { StockLevel, StockMovement, StockShortfall } from '@/types'
+
+/**
+ * Per-warehouse stock. "StockMovement" is the ledger; "StockLevel" holds the running
+ * on-hand and reserved balances. Once a product has stock levels, its "stockQuantity"
+ * is the available-to-promise total and "inStock" follows it, so the catalog filters
+ * keep working on the product columns.
+ *
+ * Functions taking `db` run inside the caller's transaction.
+ */
+
+type Queryable = Pick<PoolClient, 'query'>
+
+export class StockError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'StockError'
+  }
+}
+
+// Products with stock levels get their stock columns from the ledger, not the product form
+export const STOCK_TRACKED_SQL = `EXISTS (SELECT 1 FROM "StockLevel" tracked WHERE tracked."productId" = "Product".id)`
+
+const mapMovement = (row: any): StockMovement => ({
+  id: row.id,
+  productId: row.productId,
+  warehouseId: row.warehouseId,
+  warehouseName: row.warehouseName,
+  type: row.type,
+  quantity: row.quantity,
+  onHandDelta: row.onHandDelta,
+  reservedDelta: row.reservedDelta,
+  orderId: row.orderId,
+  orderReference: row.orderReference ?? null,
+  note: row.note,
+  createdBy: row.createdBy,
+  createdAt: row.createdAt,
+})
+
+export async function fetchStockLevels(productId: string, db: Queryable = pgPool): Promise<StockLevel[]> {
+  const result = await db.query(
+    `
+    SELECT
+      w.id AS "warehouseId", w.code AS "warehouseCode", w.name AS "warehouseName",
+      COALESCE(sl."onHand", 0) AS "onHand",
+      COALESCE(sl.reserved, 0) AS reserved,
+      COALESCE(sl."onHand" - sl.reserved, 0) AS available
+    FROM "Warehouse" w
+    LEFT JOIN "StockLevel" sl ON sl."warehouseId" = w.id AND sl."productId" = $1
+    WHERE w.active = TRUE OR sl."onHand" > 0
+    ORDER BY w."sortOrder" ASC, w.name ASC
+    `,
+    [productId],
+  )
+  return result.rows
+}
+
+export async function fetchStockMovements(
+  productId: string,
+  limit = 50,
+  db: Queryable = pgPool,
+): Promise<StockMovement[]> {
+  const result = await db.query(
+    `
+    SELECT m.*, w.name AS "warehouseName", o.reference AS "orderReference"
+    FROM "StockMovement" m
+    JOIN "Warehouse" w ON w.id = m."warehouseId"
+    LEFT JOIN "Order" o ON o.id = m."orderId"
+    WHERE m."productId" = $1
+    ORDER BY m."createdAt" DESC
+    LIMIT $2
+    `,
+    [productId, limit],
+  )
+  return result.rows.map(mapMovement)
+}
+
+/**
+ * Quantity still reserved for an order at a warehouse: its reservations less the
+ * releases and dispatches that consumed them
+ */
+async function fetchOrderReservation(
+  orderId: string,
+  productId: string,
+  warehouseId: string,
+  db: Queryable,
+): Promise<number> {
+  const result = await db.query(
+    `
+    SELECT COALESCE(SUM("reservedDelta"), 0)::int AS reserved
+    FROM "StockMovement"
+    WHERE "orderId" = $1 AND "productId" = $2 AND "warehouseId" = $3
+    `,
+    [orderId, productId, warehouseId],
+  )
+  return result.rows[0].reserved
+}
+
+async function syncProductStock(productId: string, db: Queryable): Promise<void> {
+  await db.query(
+    `
+    UPDATE "Product" p
+    SET "stockQuantity" = s.available, "inStock" = s.available > 0
+    FROM (
+      SELECT SUM("onHand" - reserved)::int AS available
+      FROM "StockLevel"
+      WHERE "productId" = $1
+    ) s
+    WHERE p.id = $1
+    `,
+    [productId],
+  )
+}
+
+/**
+ * Record a movement and update the balances. Dispatches and releases for an order
+ * consume that order's reservation at the warehouse first.
+ */
+export async function recordStockMovement(
+  productId: string,
+  movement: StockMovementInput,
+  createdBy: string | null,
+  db: Queryable = pgPool,
+): Promise<StockMovement> {
+  const { warehouseId, type, quantity } = movement
+  const orderId = movement.orderId ?? null
+
+  const warehouse = await db.query(`SELECT id FROM "Warehouse" WHERE id = $1`, [warehouseId])
+  if (warehouse.rows.length === 0) {
+    throw new StockError('Warehouse not found', 404)
+  }
+
+  await db.query(
+    `INSERT INTO "StockLevel" ("productId", "warehouseId") VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+    [productId, warehouseId],
+  )
+  const levelResult = await db.query(
+    `SELECT "onHand", reserved FROM "StockLevel" WHERE "productId" = $1 AND "warehouseId" = $2 FOR UPDATE`,
+    [productId, warehouseId],
+  )
+  const level = levelResult.rows[0] as { onHand: number; reserved: number }
+  const available = level.onHand - level.reserved
+
+  let onHandDelta = 0
+  let reservedDelta = 0
+  switch (type) {
+    case 'receipt':
+    case 'adjustment':
+      onHandDelta = quantity
+      if (level.onHand + onHandDelta < level.reserved) {
+        throw new StockError(
+          `Adjustment would leave ${level.onHand + onHandDelta} on hand with ${level.reserved} reserved`,
+        )
+      }
+      break
+    case 'reservation':
+      if (quantity > available) {
+        throw new StockError(`Only ${available} available to reserve at this warehouse`)
+      }
+      reservedDelta = quantity
+      break
+    case 'release': {
+      const releasable = orderId ? await fetchOrderReservation(orderId, productId, warehouseId, db) : level.reserved
+      if (quantity > releasable) {
+        throw new StockError(`Only ${releasable} reserved${orderId ? ' for this order' : ''} at this warehouse`)
+      }
+      reservedDelta = -quantity
+      break
+    }
+    case 'dispatch': {
+      const consumed = orderId
+        ? Math.min(quantity, await fetchOrderReservation(orderId, productId, warehouseId, db))
+        : 0
+      if (quantity - consumed > available) {
+        throw new StockError(`Only ${available + consumed} available to dispatch at this warehouse`)
+      }
+      onHandDelta = -quantity
+      reservedDelta = -consumed
+      break
+    }
+  }
+
+  await db.query(
+    `
+    UPDATE "StockLevel"
+    SET "onHand" = "onHand" + $3, reserved = reserved + $4, "updatedAt" = NOW()
+    WHERE "productId" = $1 AND "warehouseId" = $2
+    `,
+    [productId, warehouseId, onHandDelta, reservedDelta],
+  )
+
+  const inserted = await db.query(
+    `
+    INSERT INTO "StockMovement"
+      ("productId", "warehouseId", type, quantity, "onHandDelta", "reservedDelta", "orderId", note, "createdBy")
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    RETURNING *
+    `,
+    [productId, warehouseId, type, quantity, onHandDelta, reservedDelta, orderId, movement.note || null, createdBy],
+  )
+
+  await syncProductStock(productId, db)
+
+  return mapMovement(inserted.rows[0])
+}
+
+/**
+ * Reserve the order's lines, taking stock from warehouses in their sort order (the
+ * factory first). Quantities already reserved or dispatched for the order are skipped,
+ * and so are products without stock levels (made to order, not tracked per warehouse).
+ * Quantities that cannot be covered are returned as shortfalls; the status change still goes through.
+ */
+export async function reserveOrderStock(
+  orderId: string,
+  createdBy: string | null,
+  db: Queryable = pgPool,
+): Promise<StockShortfall[]> {
+  const lines = await db.query(
+    `
+    SELECT oi."productId", "Product".sku, SUM(oi.quantity)::int AS quantity,
+      COALESCE((
+        SELECT SUM(m."reservedDelta" + CASE WHEN m.type = 'dispatch' THEN m.quantity ELSE 0 END)
+        FROM "StockMovement" m
+        WHERE m."orderId" = $1 AND m."productId" = oi."productId"
+      ), 0)::int AS covered
+    FROM "OrderItem" oi
+    JOIN "Product" ON "Product".id = oi."productId"
+    WHERE oi."orderId" = $1
+      AND ${STOCK_TRACKED_SQL}
+    GROUP BY oi."productId", "Product".sku
+    ORDER BY oi."productId"
+    `,
+    [orderId],
+  )
+
+  const shortfalls: StockShortfall[] = []
+  for (const line of lines.rows) {
+    let needed = line.quantity - line.covered
+    if (needed <= 0) continue
+
+    const levels = await db.query(
+      `
+      SELECT sl."warehouseId", sl."onHand" - sl.reserved AS available
+      FROM "StockLevel" sl
+      JOIN "Warehouse" w ON w.id = sl."warehouseId"
+      WHERE sl."productId" = $1 AND w.active = TRUE
+      ORDER BY w."sortOrder" ASC, w.name ASC
+      FOR UPDATE OF sl
+      `,
+      [line.productId],
+    )
+
+    for (const level of levels.rows) {
+      if (needed <= 0) break
+      const take = Math.min(needed, level.available)
+      if (take <= 0) continue
+      await recordStockMovement(
+        line.productId,
+        { warehouseId: level.warehouseId, type: 'reservation', quantity: take, orderId },
+        createdBy,
+        db,
+      )
+      needed -= take
+    }
+
+    if (needed > 0) {
+      shortfalls.push({ productId: line.productId, sku: line.sku, quantity: needed })
+    }
+  }
+  return shortfalls
+}
+
+// What is still reserved for an order, per product and warehouse
+async function fetchOutstandingReservations(
+  orderId: string,
+  db: Queryable,
+): Promise<{ productId: string; warehouseId: string; reserved: number }[]> {
+  const result = await db.query(
+    `
+    SELECT "productId", "warehouseId", SUM("reservedDelta")::int AS reserved
+    FROM "StockMovement"
+    WHERE "orderId" = $1
+    GROUP BY "productId", "warehouseId"
+    HAVING SUM("reservedDelta") > 0
+    ORDER BY "productId", "warehouseId"
+    `,
+    [orderId],
+  )
+  return result.rows
+}
+
+/**
+ * Release everything still reserved for an order, e.g. when it is cancelled
+ */
+export async function releaseOrderStock(
+  orderId: string,
+  createdBy: string | null,
+  db: Queryable = pgPool,
+): Promise<void> {
+  for (const row of await fetchOutstandingReservations(orderId, db)) {
+    await recordStockMovement(
+      row.productId,
+      { warehouseId: row.warehouseId, type: 'release', quantity: row.reserved, orderId, note: 'Order no longer active' },
+      createdBy,
+      db,
+    )
+  }
+}
+
+/**
+ * Dispatch everything still reserved for an order when it ships, taking it off hand.
+ * Quantities already dispatched by hand against the order are not dispatched again.
+ */
+export async function dispatchOrderStock(
+  orderId: string,
+  createdBy: string | null,
+  db: Queryable = pgPool,
+): Promise<void> {
+  for (const row of await fetchOutstandingReservations(orderId, db)) {
+    await recordStockMovement(
+      row.productId,
+      { warehouseId: row.warehouseId, type: 'dispatch', quantity: row.reserved, orderId, note: 'Order dispatched' },
+      createdBy,
+      db,
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import type { Territory } from '@/types'
+
+/**
+ * Sales territories, one per regional office (the regional contacts in ContactInfo). Orders and
+ * inquiries are placed in a territory by the state named in the company address, or else by
+ * the area code of a landline number. Mobile numbers say nothing about where the customer is.
+ */
+
+export const TERRITORIES = ['bangalore', 'kolkata', 'gurgaon'] as const
+
+export const TERRITORY_LABELS: Record<Territory, string> = {
+  bangalore: 'South & West (Bangalore office)',
+  kolkata: 'East & North-East (Kolkata office)',
+  gurgaon: 'North & Central (Gurgaon office)',
+}
+
+// States and union territories, with older names customers still write
+const TERRITORY_STATES: Record<Territory, readonly string[]> = {
+  bangalore: [
+    'Karnataka',
+    'Kerala',
+    'Tamil Nadu',
+    'Andhra Pradesh',
+    'Telangana',
+    'Puducherry',
+    'Pondicherry',
+    'Lakshadweep',
+    'Goa',
+    'Maharashtra',
+  ],
+  kolkata: [
+    'West Bengal',
+    'Odisha',
+    'Orissa',
+    'Bihar',
+    'Jharkhand',
+    'Chhattisgarh',
+    'Assam',
+    'Sikkim',
+    'Meghalaya',
+    'Tripura',
+    'Manipur',
+    'Mizoram',
+    'Nagaland',
+    'Arunachal Pradesh',
+    'Andaman and Nicobar',
+  ],
+  gurgaon: [
+    'Delhi',
+    'Haryana',
+    'Punjab',
+    'Chandigarh',
+    'Himachal Pradesh',
+    'Jammu and Kashmir',
+    'Ladakh',
+    'Uttarakhand',
+    'Uttaranchal',
+    'Uttar Pradesh',
+    'Rajasthan',
+    'Gujarat',
+    'Madhya Pradesh',
+    'Dadra and Nagar Haveli',
+    'Daman and Diu',
+  ],
+}
+
+// First digit of the STD area code: India's trunk dialling zones
+const AREA_CODE_ZONES: Record<string, Territory> = {
+  '1': 'gurgaon', // Delhi, Haryana, Punjab, Himachal, J&K, north Rajasthan
+  '2': 'bangalore', // Maharashtra, Gujarat
+  '3': 'kolkata', // West Bengal, North-East
+  '4': 'bangalore', // Tamil Nadu, Kerala, Hyderabad
+  '5': 'gurgaon', // Uttar Pradesh, Uttarakhand
+  '6': 'kolkata', // Bihar, Jharkhand, Odisha
+  '7': 'gurgaon', // Madhya Pradesh, Chhattisgarh, Vidarbha
+  '8': 'bangalore', // Karnataka, Andhra Pradesh
+}
+
+const STATE_PATTERNS = TERRITORIES.flatMap((territory) =>
+  TERRITORY_STATES[territory].map((state) => ({
+    territory,
+    pattern: new RegExp(`\\b${state.replace(/ and /g, '\\s*(?:and|&)\\s*').replace(/ /g, '\\s+')}\\b`, 'gi'),
+  })),
+)
+
+/**
+ * Territory of the state named in an address. The state usually comes last, so when several
+ * names appear (a "Karnataka Road" in Mumbai, Maharashtra) the last one wins.
+ */
+export function territoryFromAddress(address: string | null | undefined): Territory | null {
+  if (!address) return null
+
+  let found: { territory: Territory; index: number } | null = null
+  for (const { territory, pattern } of STATE_PATTERNS) {
+    for (const match of Array.from(address.matchAll(pattern))) {
+      if (!found || match.index! > found.index) {
+        found = { territory, index: match.index! }
+      }
+    }
+  }
+  return found?.territory ?? null
+}
+
+/**
+ * Territory of a landline number's area code: 080 2345 6789, +91-80-23456789 or (0124) 456 7890.
+ * Numbers without a trunk 0 or a separated area code are taken to be mobiles.
+ */
+export function territoryFromPhone(phone: string | null | undefined): Territory | null {
+  if (!phone) return null
+
+  const national = phone.trim().replace(/^\+\s*91[\s-]*|^0091[\s-]*/, '')
+  const match = /^\(?0[\s-]*([1-8])/.exec(national) ?? /^\(?([1-8])\d{1,3}\)?[\s-]/.exec(national)
+  return match ? AREA_CODE_ZONES[match[1]] : null
+}
+
+/**
+ * Territory of an order or inquiry: the address when it names a state, else the phone number
+ */
+export function detectTerritory(contact: { address?: string | null; phone?: string | null }): Territory | null {
+  return territoryFromAddress(contact.address) ?? territoryFromPhone(contact.phone)
+}
@@ -0,0 +1,63 @@
+import type { PriceTier } from '@/types'
+
+/**
+ * Quantity-break price resolution shared by the product page and the RFQ list.
+ * Safe to import from client components.
+ */
+
+export interface TierPrice {
+  unitPrice: number
+  extendedPrice: number
+  tier: PriceTier | null // Null when the base product price applies
+}
+
+/**
+ * Unit and extended price for a quantity: the lowest unit price among the base
+ * price and every tier whose minimum quantity is reached. Returns null when
+ * neither a base price nor a reached tier exists.
+ */
+export function resolveTierPrice(
+  basePrice: number | null | undefined,
+  tiers: PriceTier[] | null | undefined,
+  quantity: number,
+): TierPrice | null {
+  let best: TierPrice | null =
+    basePrice !== null && basePrice !== undefined
+      ? { unitPrice: Number(basePrice), extendedPrice: Number(basePrice) * quantity, tier: null }
+      : null
+
+  for (const tier of tiers ?? []) {
+    if (tier.minQuantity > quantity) continue
+    const unitPrice = Number(tier.unitPrice)
+    if (!best || unitPrice < best.unitPrice) {
+      best = { unitPrice, extendedPrice: unitPrice * quantity, tier }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Rows for a price break table: one row per quantity where the resolved unit
+ * price can change, with the quantity range it covers
+ */
+export function buildPriceBreaks(
+  basePrice: number | null | undefined,
+  tiers: PriceTier[] | null | undefined,
+): Array<{ minQuantity: number; maxQuantity: number | null; unitPrice: number }> {
+  const quantities = new Set((tiers ?? []).map((tier) => tier.minQuantity))
+  if (basePrice !== null && basePrice !== undefined) quantities.add(1)
+
+  const breaks: Array<{ minQuantity: number; unitPrice: number }> = []
+  for (const minQuantity of Array.from(quantities).sort((a, b) => a - b)) {
+    const resolved = resolveTierPrice(basePrice, tiers, minQuantity)
+    // Skip breaks that do not lower the price reached at a smaller quantity
+    if (!resolved || resolved.unitPrice === breaks[breaks.length - 1]?.unitPrice) continue
+    breaks.push({ minQuantity, unitPrice: resolved.unitPrice })
+  }
+
+  return breaks.map((row, index) => ({
+    ...row,
+    maxQuantity: index < breaks.length - 1 ? breaks[index + 1].minQuantity - 1 : null,
+  }))
+}
@@ -18,18 +18,14 @@ export const contactFormSchema = z.object({
   meetingRequest: z.boolean().optional(),
 })
 
-export const bulkOrderFormSchema = z.object({
-  items: z.array(z.object({
-    sku: z.string().min(1, 'SKU is required'),
-    quantity: z.number().min(1, 'Quantity must be at least 1'),
-  })).min(1, 'At least one item is required'),
-  companyName: z.string().min(2, 'Company name must be at least 2 characters'),
-  contactName: z.string().min(2, 'Contact name must be at least 2 characters'),
-  email: z.string().email('Invalid email address'),
-  phone: z.string().min(10, 'Phone number must be at least 10 characters'),
-  notes: z.string().optional(),
+// One line of an uploaded or pasted bill of materials
+export const bomLineSchema = z.object({
+  partNumber: z.string().trim().min(1, 'Part number is required').max(100, 'Part number is too long'),
+  quantity: z.number().int('Quantity must be a whole number').min(1, 'Quantity must be at least 1'),
+  description: z.string().trim().max(200).optional(),
+  manufacturer: z.string().trim().max(100).optional(),
 })
 
 export type RFQFormData = z.infer<typeof rfqFormSchema>
 export type ContactFormData = z.infer<typeof contactFormSchema>
-export type BulkOrderFormData = z.infer<typeof bulkOrderFormSchema>
+export type BomLineData = z.infer<typeof bomLineSchema>
@@ -2,6 +2,16 @@
 -- This matches the table and column names used in app/api/* routes.
 -- Consolidated migration - includes all tables, indexes, and constraints
 
+-- Pricing groups for customers, e.g. oem, distributor, end-user
+CREATE TABLE IF NOT EXISTS "CustomerGroup" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 CREATE TABLE IF NOT EXISTS "User" (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   name TEXT NOT NULL,
@@ -14,6 +24,7 @@ CREATE TABLE IF NOT EXISTS "User" (
   "emailVerified" BOOLEAN NOT NULL DEFAULT FALSE,
   "emailVerificationToken" TEXT,
   "emailVerificationTokenExpires" TIMESTAMPTZ,
+  "customerGroupId" UUID REFERENCES "CustomerGroup"(id) ON DELETE SET NULL,
   "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -27,6 +38,25 @@ CREATE TABLE IF NOT EXISTS "PasswordResetToken" (
   "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Transactional email outbox: rows are rendered at enqueue time and delivered by lib/mail.ts
+CREATE TABLE IF NOT EXISTS "EmailOutbox" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template TEXT NOT NULL,
+  "to" TEXT NOT NULL,
+  "replyTo" TEXT,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  text TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+  "nextAttemptAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "lastError" TEXT,
+  "sentAt" TIMESTAMPTZ,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 CREATE TABLE IF NOT EXISTS "Admin" (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   username TEXT NOT NULL UNIQUE,
@@ -44,6 +74,38 @@ CREATE TABLE IF NOT EXISTS "Category" (
   description TEXT,
   image TEXT,
   "parentId" UUID REFERENCES "Category"(id) ON DELETE SET NULL,
+  "sortOrder" INTEGER NOT NULL DEFAULT 0, -- Position among siblings
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Attribute template of a category; products also get the attributes of every ancestor
+CREATE TABLE IF NOT EXISTS "CategoryAttribute" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "categoryId" UUID NOT NULL REFERENCES "Category"(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  "dataType" TEXT NOT NULL DEFAULT 'text' CHECK ("dataType" IN ('text', 'number', 'boolean', 'select')),
+  unit TEXT,
+  "allowedValues" JSONB NOT NULL DEFAULT '[]'::jsonb,
+  required BOOLEAN NOT NULL DEFAULT false,
+  filterable BOOLEAN NOT NULL DEFAULT false,
+  comparable BOOLEAN NOT NULL DEFAULT true,
+  "sortOrder" INTEGER NOT NULL DEFAULT 0,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("categoryId", key)
+);
+
+-- Product family: shared content for a set of variant SKUs that differ along the declared axes
+CREATE TABLE IF NOT EXISTS "ProductFamily" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  images JSONB NOT NULL DEFAULT '[]'::jsonb,
+  "categoryId" UUID REFERENCES "Category"(id) ON DELETE SET NULL,
+  -- Variant axes in display order, e.g. [{"key":"length","label":"Length"}]
+  axes JSONB NOT NULL DEFAULT '[]'::jsonb,
   "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -94,19 +156,99 @@ CREATE TABLE IF NOT EXISTS "Product" (
   "contactPlating" TEXT,
   "halogenFree" BOOLEAN,
   "strippingForce" TEXT,
+  -- Values for the attribute template of the product's category, keyed by attribute key
+  attributes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Family membership and this variant's value for each family axis, keyed by axis key
+  "familyId" UUID REFERENCES "ProductFamily"(id) ON DELETE SET NULL,
+  "variantOptions" JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Lifecycle status from "lifecycleEffectiveDate" (at once when NULL); nrnd = not recommended
+  -- for new designs. Discontinued products stay reachable but leave the default listings.
+  "lifecycleStatus" TEXT NOT NULL DEFAULT 'active' CHECK ("lifecycleStatus" IN ('active', 'nrnd', 'last_time_buy', 'discontinued')),
+  "lifecycleEffectiveDate" DATE,
+  "lastTimeBuyDate" DATE,
+  "replacementProductId" UUID REFERENCES "Product"(id) ON DELETE SET NULL,
+  -- Search index columns, maintained by the product_search_refresh trigger
+  "searchVector" TSVECTOR,
+  "searchText" TEXT,
+  "searchPartNumbers" TEXT,
+  -- Spec ranges in canonical units (V, A, °C, m, mm, mm), parsed from the text specs
+  -- by lib/spec-ranges.ts on every write
+  "voltageMin" NUMERIC,
+  "voltageMax" NUMERIC,
+  "currentMin" NUMERIC,
+  "currentMax" NUMERIC,
+  "temperatureMin" NUMERIC,
+  "temperatureMax" NUMERIC,
+  "cableLengthMin" NUMERIC,
+  "cableLengthMax" NUMERIC,
+  "cableDiameterMin" NUMERIC,
+  "cableDiameterMax" NUMERIC,
+  "bendingRadiusFixedMin" NUMERIC,
+  "bendingRadiusFixedMax" NUMERIC,
   "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Quantity-break prices; the lowest unit price among the tiers reached by a quantity applies.
+-- Tiers without a customer group apply to every customer
+CREATE TABLE IF NOT EXISTS "ProductPriceTier" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "productId" UUID NOT NULL REFERENCES "Product"(id) ON DELETE CASCADE,
+  "minQuantity" INTEGER NOT NULL CHECK ("minQuantity" >= 1),
+  "unitPrice" NUMERIC NOT NULL CHECK ("unitPrice" >= 0),
+  "customerGroup" TEXT REFERENCES "CustomerGroup"(code) ON UPDATE CASCADE ON DELETE CASCADE,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Contract prices for a customer group, valid between optional effective dates.
+-- Items override the price of single products; other products get the discount
+CREATE TABLE IF NOT EXISTS "PriceList" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  "customerGroupId" UUID NOT NULL REFERENCES "CustomerGroup"(id) ON DELETE CASCADE,
+  "discountPercent" NUMERIC NOT NULL DEFAULT 0 CHECK ("discountPercent" >= 0 AND "discountPercent" <= 100),
+  "validFrom" DATE,
+  "validTo" DATE,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS "PriceListItem" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "priceListId" UUID NOT NULL REFERENCES "PriceList"(id) ON DELETE CASCADE,
+  "productId" UUID NOT NULL REFERENCES "Product"(id) ON DELETE CASCADE,
+  "unitPrice" NUMERIC NOT NULL CHECK ("unitPrice" >= 0),
+  UNIQUE ("priceListId", "productId")
+);
+
+-- Last number handed out per reference prefix (RFQ, INQ) and financial year, see next_reference()
+CREATE TABLE IF NOT EXISTS "ReferenceCounter" (
+  prefix TEXT NOT NULL,
+  "financialYear" INTEGER NOT NULL,
+  "lastNumber" INTEGER NOT NULL,
+  PRIMARY KEY (prefix, "financialYear")
+);
+
 CREATE TABLE IF NOT EXISTS "Order" (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- e.g. RFQ-2026-000123, assigned on insert
+  reference TEXT NOT NULL UNIQUE,
   "companyName" TEXT NOT NULL,
   "contactName" TEXT NOT NULL,
   email TEXT NOT NULL,
   phone TEXT NOT NULL,
   "companyAddress" TEXT,
   notes TEXT,
-  status TEXT NOT NULL DEFAULT 'pending',
+  -- Allowed transitions are enforced in lib/order-status.ts
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+    'pending', 'under_review', 'quoted', 'approved', 'po_received',
+    'in_production', 'dispatched', 'closed', 'rejected', 'cancelled'
+  )),
+  "userId" UUID REFERENCES "User"(id) ON DELETE SET NULL,
+  -- Admin who owns the RFQ; NULL when unassigned (see lib/assignments.ts)
+  "assignedTo" TEXT REFERENCES "Admin"(username) ON UPDATE CASCADE ON DELETE SET NULL,
   "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -118,11 +260,207 @@ CREATE TABLE IF NOT EXISTS "OrderItem" (
   sku TEXT NOT NULL,
   name TEXT NOT NULL,
   quantity INTEGER NOT NULL,
-  notes TEXT
+  notes TEXT,
+  -- Configured cordset lines (no productId): part number, selected options and spec
+  configuration JSONB
+);
+
+-- Append-only log of order status changes; "fromStatus" is NULL for the order's creation.
+-- "changedBy" is the admin username or customer email, NULL for changes made by the system
+CREATE TABLE IF NOT EXISTS "OrderStatusHistory" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "orderId" UUID NOT NULL REFERENCES "Order"(id) ON DELETE CASCADE,
+  "fromStatus" TEXT,
+  "toStatus" TEXT NOT NULL,
+  comment TEXT,
+  "changedBy" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Quotations: each save creates a new revision; the highest revision is the current quote
+CREATE TABLE IF NOT EXISTS "Quote" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "orderId" UUID NOT NULL REFERENCES "Order"(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  "discountPercent" NUMERIC NOT NULL DEFAULT 0,
+  "gstPercent" NUMERIC NOT NULL DEFAULT 18,
+  freight NUMERIC NOT NULL DEFAULT 0,
+  "leadTime" TEXT,
+  "validUntil" DATE,
+  terms TEXT,
+  notes TEXT,
+  subtotal NUMERIC NOT NULL DEFAULT 0,
+  "discountAmount" NUMERIC NOT NULL DEFAULT 0,
+  "taxableAmount" NUMERIC NOT NULL DEFAULT 0,
+  "gstAmount" NUMERIC NOT NULL DEFAULT 0,
+  total NUMERIC NOT NULL DEFAULT 0,
+  "createdBy" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("orderId", revision)
+);
+
+CREATE TABLE IF NOT EXISTS "QuoteItem" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "quoteId" UUID NOT NULL REFERENCES "Quote"(id) ON DELETE CASCADE,
+  "orderItemId" UUID REFERENCES "OrderItem"(id) ON DELETE SET NULL,
+  "productId" UUID,
+  sku TEXT NOT NULL,
+  name TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  "unitPrice" NUMERIC NOT NULL DEFAULT 0,
+  "priceType" TEXT NOT NULL DEFAULT 'per_unit',
+  "discountPercent" NUMERIC NOT NULL DEFAULT 0,
+  "lineTotal" NUMERIC NOT NULL DEFAULT 0,
+  notes TEXT,
+  "sortOrder" INTEGER NOT NULL DEFAULT 0
+);
+
+-- Saved RFQ baskets of logged-in customers. The active basket is the one the RFQ page
+-- edits on every device; baskets are deleted once "expiresAt" (pushed back on each change) passes
+CREATE TABLE IF NOT EXISTS "RfqBasket" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "userId" UUID NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT FALSE,
+  "expiresAt" TIMESTAMPTZ NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("userId", name)
+);
+
+CREATE TABLE IF NOT EXISTS "RfqBasketItem" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "basketId" UUID NOT NULL REFERENCES "RfqBasket"(id) ON DELETE CASCADE,
+  -- RFQ line key: a product id, or the cordset:/bom: key of configured and free-text lines
+  "productId" TEXT NOT NULL,
+  sku TEXT NOT NULL,
+  name TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  notes TEXT,
+  configuration JSONB,
+  "freeText" BOOLEAN NOT NULL DEFAULT FALSE,
+  "sortOrder" INTEGER NOT NULL DEFAULT 0,
+  UNIQUE ("basketId", "productId")
+);
+
+-- Stock locations: the main factory and the regional offices
+CREATE TABLE IF NOT EXISTS "Warehouse" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  city TEXT,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  "sortOrder" INTEGER NOT NULL DEFAULT 0,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Running balance per product and warehouse, kept in step with "StockMovement".
+-- Available to promise = "onHand" - reserved
+CREATE TABLE IF NOT EXISTS "StockLevel" (
+  "productId" UUID NOT NULL REFERENCES "Product"(id) ON DELETE CASCADE,
+  "warehouseId" UUID NOT NULL REFERENCES "Warehouse"(id) ON DELETE RESTRICT,
+  "onHand" INTEGER NOT NULL DEFAULT 0 CHECK ("onHand" >= 0),
+  reserved INTEGER NOT NULL DEFAULT 0 CHECK (reserved >= 0 AND reserved <= "onHand"),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY ("productId", "warehouseId")
+);
+
+-- Stock ledger; each movement records its effect on the on-hand and reserved balances
+CREATE TABLE IF NOT EXISTS "StockMovement" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "productId" UUID NOT NULL REFERENCES "Product"(id) ON DELETE CASCADE,
+  "warehouseId" UUID NOT NULL REFERENCES "Warehouse"(id) ON DELETE RESTRICT,
+  type TEXT NOT NULL CHECK (type IN ('receipt', 'adjustment', 'reservation', 'release', 'dispatch')),
+  quantity INTEGER NOT NULL,
+  "onHandDelta" INTEGER NOT NULL DEFAULT 0,
+  "reservedDelta" INTEGER NOT NULL DEFAULT 0,
+  "orderId" UUID REFERENCES "Order"(id) ON DELETE SET NULL,
+  note TEXT,
+  "createdBy" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Back-in-stock and price-drop alerts. Guest subscriptions stay unverified until the
+-- emailed link is confirmed; subscriptions of logged-in customers are verified at once
+CREATE TABLE IF NOT EXISTS "ProductSubscription" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "productId" UUID NOT NULL REFERENCES "Product"(id) ON DELETE CASCADE,
+  "userId" UUID REFERENCES "User"(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('back_in_stock', 'price_drop')),
+  verified BOOLEAN NOT NULL DEFAULT FALSE,
+  "verificationToken" TEXT UNIQUE,
+  "verificationTokenExpires" TIMESTAMPTZ,
+  "unsubscribeToken" TEXT NOT NULL UNIQUE,
+  "lastNotifiedAt" TIMESTAMPTZ,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("productId", email, type)
+);
+
+-- Typed links between products. Mating and alternative links apply both ways and are
+-- stored once; accessories and compatible cables belong to "productId"
+CREATE TABLE IF NOT EXISTS "ProductRelation" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "productId" UUID NOT NULL REFERENCES "Product"(id) ON DELETE CASCADE,
+  "relatedProductId" UUID NOT NULL REFERENCES "Product"(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('mating', 'accessory', 'compatible_cable', 'alternative')),
+  "sortOrder" INTEGER NOT NULL DEFAULT 0,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("productId", "relatedProductId", type),
+  CHECK ("productId" <> "relatedProductId")
+);
+
+-- Cordset configurator options, grouped by what they configure. "code" is the option's
+-- segment of the configured part number; length options carry their length in meters
+CREATE TABLE IF NOT EXISTS "CordsetOption" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group" TEXT NOT NULL CHECK ("group" IN ('connector', 'coding', 'pins', 'cableType', 'mantle', 'shielding', 'length')),
+  code TEXT NOT NULL,
+  label TEXT NOT NULL,
+  price NUMERIC NOT NULL DEFAULT 0,
+  "pricePerMeter" NUMERIC NOT NULL DEFAULT 0,
+  "lengthMeters" NUMERIC,
+  "sortOrder" INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("group", code)
+);
+
+-- Compatibility rules: choosing "optionId" requires one of its required options of a group,
+-- or excludes the target option
+CREATE TABLE IF NOT EXISTS "CordsetRule" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "optionId" UUID NOT NULL REFERENCES "CordsetOption"(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('requires', 'excludes')),
+  "targetOptionId" UUID NOT NULL REFERENCES "CordsetOption"(id) ON DELETE CASCADE,
+  message TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("optionId", type, "targetOptionId"),
+  CHECK ("optionId" <> "targetOptionId")
+);
+
+-- Competitor part numbers mapped to our equivalent products. "partNumberKey" is the part
+-- number without case or punctuation (see normalizePartNumber in lib/product-search.ts)
+CREATE TABLE IF NOT EXISTS "CrossReference" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  manufacturer TEXT NOT NULL,
+  "partNumber" TEXT NOT NULL,
+  "partNumberKey" TEXT NOT NULL,
+  "productId" UUID NOT NULL REFERENCES "Product"(id) ON DELETE CASCADE,
+  equivalence TEXT NOT NULL DEFAULT 'direct' CHECK (equivalence IN ('direct', 'functional', 'similar')),
+  notes TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (manufacturer, "partNumberKey", "productId")
 );
 
 CREATE TABLE IF NOT EXISTS "Inquiry" (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- e.g. INQ-2026-000045, assigned on insert
+  reference TEXT NOT NULL UNIQUE,
   name TEXT NOT NULL,
   email TEXT NOT NULL,
   phone TEXT,
@@ -132,11 +470,84 @@ CREATE TABLE IF NOT EXISTS "Inquiry" (
   "meetingRequest" BOOLEAN NOT NULL DEFAULT FALSE,
   read BOOLEAN NOT NULL DEFAULT FALSE,
   responded BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Replaced by internal messages; kept so earlier notes are not lost
   notes TEXT,
+  -- Admin who owns the inquiry; NULL when unassigned
+  "assignedTo" TEXT REFERENCES "Admin"(username) ON UPDATE CASCADE ON DELETE SET NULL,
   "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Conversation on an order or an inquiry. Replies point at the first message of their thread.
+-- Internal messages are only shown to admins; customers can only reply to the other threads
+CREATE TABLE IF NOT EXISTS "Message" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "orderId" UUID REFERENCES "Order"(id) ON DELETE CASCADE,
+  "inquiryId" UUID REFERENCES "Inquiry"(id) ON DELETE CASCADE,
+  "parentId" UUID REFERENCES "Message"(id) ON DELETE CASCADE,
+  "authorType" TEXT NOT NULL CHECK ("authorType" IN ('admin', 'customer')),
+  -- Admin username, or the customer's name when they wrote it
+  "authorName" TEXT NOT NULL,
+  "userId" UUID REFERENCES "User"(id) ON DELETE SET NULL,
+  internal BOOLEAN NOT NULL DEFAULT FALSE,
+  body TEXT NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (("orderId" IS NULL) <> ("inquiryId" IS NULL)),
+  CHECK ("authorType" = 'admin' OR NOT internal)
+);
+
+-- Files are kept outside public/ and served by /api/messages/attachments/:id
+CREATE TABLE IF NOT EXISTS "MessageAttachment" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "messageId" UUID NOT NULL REFERENCES "Message"(id) ON DELETE CASCADE,
+  filename TEXT NOT NULL,
+  "storedName" TEXT NOT NULL UNIQUE,
+  "contentType" TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- When each admin last opened a thread; later messages by anyone else are unread for them
+CREATE TABLE IF NOT EXISTS "MessageRead" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "adminUsername" TEXT NOT NULL,
+  "orderId" UUID REFERENCES "Order"(id) ON DELETE CASCADE,
+  "inquiryId" UUID REFERENCES "Inquiry"(id) ON DELETE CASCADE,
+  "readAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (("orderId" IS NULL) <> ("inquiryId" IS NULL))
+);
+
+-- Rules that pick the owner of new orders and inquiries (see lib/assignments.ts). Each rule makes
+-- its admin a candidate for orders with items in a category or its subcategories, for orders and
+-- inquiries from a territory (regional office), or for anything else in turn (round_robin)
+CREATE TABLE IF NOT EXISTS "AssignmentRule" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL CHECK (type IN ('category', 'territory', 'round_robin')),
+  "categoryId" UUID REFERENCES "Category"(id) ON DELETE CASCADE,
+  territory TEXT CHECK (territory IN ('bangalore', 'kolkata', 'gurgaon')),
+  "adminUsername" TEXT NOT NULL REFERENCES "Admin"(username) ON UPDATE CASCADE ON DELETE CASCADE,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (("categoryId" IS NOT NULL) = (type = 'category')),
+  CHECK ((territory IS NOT NULL) = (type = 'territory'))
+);
+
+-- Append-only log of owner changes; NULL "fromAdmin"/"toAdmin" mean unassigned.
+-- "changedBy" is the admin who reassigned, NULL when a rule assigned the owner
+CREATE TABLE IF NOT EXISTS "AssignmentHistory" (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "orderId" UUID REFERENCES "Order"(id) ON DELETE CASCADE,
+  "inquiryId" UUID REFERENCES "Inquiry"(id) ON DELETE CASCADE,
+  "fromAdmin" TEXT,
+  "toAdmin" TEXT,
+  -- Matched rule for automatic assignments, the admin's comment otherwise
+  reason TEXT,
+  "changedBy" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (("orderId" IS NULL) <> ("inquiryId" IS NULL))
+);
+
 CREATE TABLE IF NOT EXISTS "ContactInfo" (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   email TEXT,
@@ -310,10 +721,33 @@ CREATE INDEX IF NOT EXISTS idx_order_status ON "Order"(status);
 CREATE INDEX IF NOT EXISTS idx_order_email ON "Order"(email);
 CREATE INDEX IF NOT EXISTS idx_orderitem_order ON "OrderItem"("orderId");
 CREATE INDEX IF NOT EXISTS idx_orderitem_product ON "OrderItem"("productId");
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON "OrderStatusHistory"("orderId", "createdAt");
+CREATE INDEX IF NOT EXISTS idx_quote_order ON "Quote"("orderId", revision DESC);
+CREATE INDEX IF NOT EXISTS idx_quoteitem_quote ON "QuoteItem"("quoteId");
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rfq_basket_active ON "RfqBasket"("userId") WHERE active;
+CREATE INDEX IF NOT EXISTS idx_rfq_basket_updated ON "RfqBasket"("updatedAt");
 CREATE INDEX IF NOT EXISTS idx_category_slug ON "Category"(slug);
 CREATE INDEX IF NOT EXISTS idx_category_parent ON "Category"("parentId");
+CREATE INDEX IF NOT EXISTS idx_category_attribute_category ON "CategoryAttribute"("categoryId", "sortOrder");
+CREATE INDEX IF NOT EXISTS idx_product_family_category ON "ProductFamily"("categoryId");
+CREATE INDEX IF NOT EXISTS idx_price_list_group ON "PriceList"("customerGroupId") WHERE active;
+CREATE INDEX IF NOT EXISTS idx_price_list_item_product ON "PriceListItem"("productId");
+CREATE INDEX IF NOT EXISTS idx_stock_level_warehouse ON "StockLevel"("warehouseId");
+CREATE INDEX IF NOT EXISTS idx_stock_movement_product ON "StockMovement"("productId", "createdAt" DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movement_order ON "StockMovement"("orderId") WHERE "orderId" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_product_subscription_product ON "ProductSubscription"("productId", type) WHERE verified;
+CREATE INDEX IF NOT EXISTS idx_product_subscription_user ON "ProductSubscription"("userId");
+CREATE INDEX IF NOT EXISTS idx_product_subscription_email ON "ProductSubscription"(email);
+CREATE INDEX IF NOT EXISTS idx_product_relation_related ON "ProductRelation"("relatedProductId");
+CREATE INDEX IF NOT EXISTS idx_cordset_rule_option ON "CordsetRule"("optionId");
+CREATE INDEX IF NOT EXISTS idx_cordset_rule_target ON "CordsetRule"("targetOptionId");
+CREATE INDEX IF NOT EXISTS idx_cross_reference_key ON "CrossReference"("partNumberKey" text_pattern_ops);
+CREATE INDEX IF NOT EXISTS idx_cross_reference_product ON "CrossReference"("productId");
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_price_tier_unique ON "ProductPriceTier"("productId", COALESCE("customerGroup", ''), "minQuantity");
 CREATE INDEX IF NOT EXISTS idx_password_reset_token ON "PasswordResetToken"(token);
 CREATE INDEX IF NOT EXISTS idx_password_reset_user ON "PasswordResetToken"("userId");
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due ON "EmailOutbox"("nextAttemptAt") WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_email_outbox_status ON "EmailOutbox"(status, "createdAt" DESC);
 CREATE INDEX IF NOT EXISTS idx_user_email_verification_token ON "User"("emailVerificationToken");
 CREATE INDEX IF NOT EXISTS idx_hero_slide_active ON "HeroSlide"(active);
 CREATE INDEX IF NOT EXISTS idx_hero_slide_display_order ON "HeroSlide"("displayOrder");
@@ -326,6 +760,17 @@ CREATE INDEX IF NOT EXISTS idx_inquiry_created_at ON "Inquiry"("createdAt");
 CREATE INDEX IF NOT EXISTS idx_inquiry_read ON "Inquiry"(read);
 CREATE INDEX IF NOT EXISTS idx_inquiry_email ON "Inquiry"(email);
 CREATE INDEX IF NOT EXISTS idx_inquiry_responded ON "Inquiry"(responded);
+CREATE INDEX IF NOT EXISTS idx_message_order ON "Message"("orderId", "createdAt") WHERE "orderId" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_message_inquiry ON "Message"("inquiryId", "createdAt") WHERE "inquiryId" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_message_parent ON "Message"("parentId");
+CREATE INDEX IF NOT EXISTS idx_message_attachment_message ON "MessageAttachment"("messageId");
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_read_order ON "MessageRead"("adminUsername", "orderId") WHERE "orderId" IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_read_inquiry ON "MessageRead"("adminUsername", "inquiryId") WHERE "inquiryId" IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_assignment_rule_unique ON "AssignmentRule"(type, COALESCE("categoryId"::text, territory, ''), "adminUsername");
+CREATE INDEX IF NOT EXISTS idx_assignment_rule_admin ON "AssignmentRule"("adminUsername");
+CREATE INDEX IF NOT EXISTS idx_assignment_history_order ON "AssignmentHistory"("orderId", "createdAt") WHERE "orderId" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_assignment_history_inquiry ON "AssignmentHistory"("inquiryId", "createdAt") WHERE "inquiryId" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_assignment_history_to_admin ON "AssignmentHistory"("toAdmin", "createdAt" DESC);
 
 -- CMS table indexes
 CREATE INDEX IF NOT EXISTS idx_authorised_distributor_active ON "AuthorisedDistributor"(active);
@@ -385,3 +830,617 @@ BEGIN
     RAISE NOTICE 'attachments column already exists in CompanyPolicy table';
   END IF;
 END $$;
+
+-- Migration: Link orders to the submitting customer
+-- Date: 2026
+-- Description: Adds userId to Order so customers can see their own RFQs. New orders store the submitting
+-- account; existing orders predate that and are linked to verified accounts by their contact email
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'Order' 
+    AND column_name = 'userId'
+  ) THEN
+    ALTER TABLE "Order" 
+    ADD COLUMN "userId" UUID REFERENCES "User"(id) ON DELETE SET NULL;
+    
+    UPDATE "Order" o
+    SET "userId" = u.id
+    FROM "User" u
+    WHERE LOWER(u.email) = LOWER(o.email) AND u."emailVerified";
+    
+    RAISE NOTICE 'Added userId column to Order table';
+  ELSE
+    RAISE NOTICE 'userId column already exists in Order table';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_order_user_id ON "Order"("userId", "createdAt" DESC);
+
+-- Migration: Full-text product search
+-- Date: 2026
+-- Description: Weighted tsvector (SKU/MPN highest), trigram text for typo tolerance and
+-- punctuation-free part numbers on Product, kept current by a trigger.
+-- product_search_normalize must stay in sync with the rules in lib/product-search.ts
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Folds "A-coded"/"a code" -> acoded, "5-pin"/"5 pole" -> 5pin, "IP 67" -> ip67, "M 12" -> m12
+CREATE OR REPLACE FUNCTION product_search_normalize(input TEXT) RETURNS TEXT AS $$
+  SELECT regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(lower(coalesce(input, '')), '\m([a-z])[\s-]*cod(e|ed|ing)\M', '\1coded', 'g'),
+        '\m(\d+)[\s-]*(pins?|poles?|pol|way)\M', '\1pin', 'g'),
+      '\mip[\s-]*(\d{2}k?)\M', 'ip\1', 'g'),
+    '\mm[\s-]*(\d{1,2})\M', 'm\1', 'g')
+$$ LANGUAGE SQL IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION product_part_number(input TEXT) RETURNS TEXT AS $$
+  SELECT regexp_replace(lower(coalesce(input, '')), '[^a-z0-9]', '', 'g')
+$$ LANGUAGE SQL IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION product_search_refresh() RETURNS TRIGGER AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('simple', product_search_normalize(concat_ws(' ',
+      NEW.sku, NEW.mpn, product_part_number(NEW.sku), product_part_number(NEW.mpn)
+    ))), 'A') ||
+    setweight(to_tsvector('simple', product_search_normalize(concat_ws(' ',
+      NEW.name, NEW."connectorType", NEW."productType", NEW."ipRating", NEW.gender,
+      CASE WHEN coalesce(NEW.coding, '') <> '' THEN NEW.coding || '-coded' END,
+      CASE WHEN NEW.pins IS NOT NULL THEN NEW.pins || ' pin' END
+    ))), 'B') ||
+    setweight(to_tsvector('simple', product_search_normalize(concat_ws(' ',
+      NEW.category, NEW.coupling, NEW.material, NEW."housingMaterial", NEW."cableMantleMaterial",
+      NEW."cableMantleColor", NEW."cableLength", NEW."glandMaterial", NEW."contactPlating"
+    ))), 'C') ||
+    setweight(to_tsvector('simple', product_search_normalize(
+      regexp_replace(concat_ws(' ', NEW.description, NEW."technicalDescription"), '<[^>]*>', ' ', 'g')
+    )), 'D');
+  NEW."searchText" := product_search_normalize(concat_ws(' ', NEW.name, NEW.sku, NEW.mpn));
+  NEW."searchPartNumbers" := concat_ws(' ',
+    nullif(product_part_number(NEW.sku), ''),
+    nullif(product_part_number(NEW.mpn), '')
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS product_search_refresh ON "Product";
+CREATE TRIGGER product_search_refresh
+  BEFORE INSERT OR UPDATE ON "Product"
+  FOR EACH ROW EXECUTE FUNCTION product_search_refresh();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'Product' 
+    AND column_name = 'searchVector'
+  ) THEN
+    ALTER TABLE "Product" 
+    ADD COLUMN "searchVector" TSVECTOR,
+    ADD COLUMN "searchText" TEXT,
+    ADD COLUMN "searchPartNumbers" TEXT;
+    
+    RAISE NOTICE 'Added search columns to Product table';
+  ELSE
+    RAISE NOTICE 'Search columns already exist in Product table';
+  END IF;
+
+  -- Backfill rows written before the trigger existed
+  UPDATE "Product" SET "updatedAt" = "updatedAt" WHERE "searchVector" IS NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_product_search_vector ON "Product" USING GIN ("searchVector");
+CREATE INDEX IF NOT EXISTS idx_product_search_text_trgm ON "Product" USING GIN ("searchText" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_product_search_part_numbers_trgm ON "Product" USING GIN ("searchPartNumbers" gin_trgm_ops);
+
+-- Migration: Parametric spec ranges
+-- Date: 2026
+-- Description: Numeric min/max columns for voltage, current, temperature, cable length,
+-- cable diameter and fixed bending radius, used by the range filters on the product list.
+-- Existing rows are filled by: pnpm migrate:spec-ranges
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'Product' 
+    AND column_name = 'voltageMin'
+  ) THEN
+    ALTER TABLE "Product" 
+    ADD COLUMN "voltageMin" NUMERIC,
+    ADD COLUMN "voltageMax" NUMERIC,
+    ADD COLUMN "currentMin" NUMERIC,
+    ADD COLUMN "currentMax" NUMERIC,
+    ADD COLUMN "temperatureMin" NUMERIC,
+    ADD COLUMN "temperatureMax" NUMERIC,
+    ADD COLUMN "cableLengthMin" NUMERIC,
+    ADD COLUMN "cableLengthMax" NUMERIC,
+    ADD COLUMN "cableDiameterMin" NUMERIC,
+    ADD COLUMN "cableDiameterMax" NUMERIC,
+    ADD COLUMN "bendingRadiusFixedMin" NUMERIC,
+    ADD COLUMN "bendingRadiusFixedMax" NUMERIC;
+    
+    RAISE NOTICE 'Added spec range columns to Product table';
+  ELSE
+    RAISE NOTICE 'Spec range columns already exist in Product table';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_product_voltage_range ON "Product"("voltageMin", "voltageMax");
+CREATE INDEX IF NOT EXISTS idx_product_current_range ON "Product"("currentMin", "currentMax");
+CREATE INDEX IF NOT EXISTS idx_product_temperature_range ON "Product"("temperatureMin", "temperatureMax");
+CREATE INDEX IF NOT EXISTS idx_product_cable_length_range ON "Product"("cableLengthMin", "cableLengthMax");
+CREATE INDEX IF NOT EXISTS idx_product_cable_diameter_range ON "Product"("cableDiameterMin", "cableDiameterMax");
+CREATE INDEX IF NOT EXISTS idx_product_bending_radius_fixed_range ON "Product"("bendingRadiusFixedMin", "bendingRadiusFixedMax");
+
+-- Migration: Category attribute templates
+-- Date: 2026
+-- Description: Per-product values for the attributes defined by "CategoryAttribute"
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'Product' 
+    AND column_name = 'attributes'
+  ) THEN
+    ALTER TABLE "Product" 
+    ADD COLUMN attributes JSONB NOT NULL DEFAULT '{}'::jsonb;
+    
+    RAISE NOTICE 'Added attributes column to Product table';
+  ELSE
+    RAISE NOTICE 'attributes column already exists in Product table';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_product_attributes ON "Product" USING GIN (attributes);
+
+-- Migration: Product families and variants
+-- Date: 2026
+-- Description: Groups variant SKUs under a "ProductFamily"; each variant records its axis values
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'Product' 
+    AND column_name = 'familyId'
+  ) THEN
+    ALTER TABLE "Product" 
+    ADD COLUMN "familyId" UUID REFERENCES "ProductFamily"(id) ON DELETE SET NULL,
+    ADD COLUMN "variantOptions" JSONB NOT NULL DEFAULT '{}'::jsonb;
+    
+    RAISE NOTICE 'Added familyId and variantOptions columns to Product table';
+  ELSE
+    RAISE NOTICE 'familyId column already exists in Product table';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_product_family ON "Product"("familyId") WHERE "familyId" IS NOT NULL;
+-- Two variants of a family cannot share the same combination of axis values
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_family_variant ON "Product"("familyId", "variantOptions") WHERE "familyId" IS NOT NULL;
+
+-- Migration: Category tree ordering
+-- Date: 2026
+-- Description: Explicit ordering of sibling categories in the tree and navigation
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'Category' 
+    AND column_name = 'sortOrder'
+  ) THEN
+    ALTER TABLE "Category" 
+    ADD COLUMN "sortOrder" INTEGER NOT NULL DEFAULT 0;
+    
+    RAISE NOTICE 'Added sortOrder column to Category table';
+  ELSE
+    RAISE NOTICE 'sortOrder column already exists in Category table';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_category_parent_sort ON "Category"("parentId", "sortOrder");
+
+-- Migration: Customer groups and contract price lists
+-- Date: 2026
+-- Description: Assigns users to "CustomerGroup" pricing groups; price tiers reference groups by code
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'User' 
+    AND column_name = 'customerGroupId'
+  ) THEN
+    ALTER TABLE "User" 
+    ADD COLUMN "customerGroupId" UUID REFERENCES "CustomerGroup"(id) ON DELETE SET NULL;
+    
+    RAISE NOTICE 'Added customerGroupId column to User table';
+  ELSE
+    RAISE NOTICE 'customerGroupId column already exists in User table';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.table_constraints 
+    WHERE table_name = 'ProductPriceTier' 
+    AND constraint_name = 'ProductPriceTier_customerGroup_fkey'
+  ) THEN
+    -- Tiers created before groups existed get a group for their code
+    INSERT INTO "CustomerGroup" (code, name)
+    SELECT DISTINCT "customerGroup", "customerGroup"
+    FROM "ProductPriceTier"
+    WHERE "customerGroup" IS NOT NULL
+    ON CONFLICT (code) DO NOTHING;
+
+    ALTER TABLE "ProductPriceTier" 
+    ADD CONSTRAINT "ProductPriceTier_customerGroup_fkey" FOREIGN KEY ("customerGroup")
+    REFERENCES "CustomerGroup"(code) ON UPDATE CASCADE ON DELETE CASCADE;
+    
+    RAISE NOTICE 'Added customerGroup foreign key to ProductPriceTier table';
+  ELSE
+    RAISE NOTICE 'customerGroup foreign key already exists on ProductPriceTier table';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_user_customer_group ON "User"("customerGroupId");
+
+-- Migration: Multi-warehouse stock
+-- Date: 2026
+-- Description: Seeds the factory and regional office warehouses and moves existing stock
+-- quantities into the factory as opening balances
+INSERT INTO "Warehouse" (code, name, city, "sortOrder") VALUES
+  ('factory', 'Main Factory', NULL, 0),
+  ('bangalore', 'Bangalore Regional Office', 'Bangalore', 1),
+  ('kolkata', 'Kolkata Regional Office', 'Kolkata', 2),
+  ('gurgaon', 'Gurgaon Regional Office', 'Gurgaon', 3)
+ON CONFLICT (code) DO NOTHING;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM "StockMovement") THEN
+    INSERT INTO "StockLevel" ("productId", "warehouseId", "onHand")
+    SELECT p.id, w.id, p."stockQuantity"
+    FROM "Product" p
+    JOIN "Warehouse" w ON w.code = 'factory'
+    WHERE p."stockQuantity" > 0
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO "StockMovement" ("productId", "warehouseId", type, quantity, "onHandDelta", note, "createdBy")
+    SELECT sl."productId", sl."warehouseId", 'adjustment', sl."onHand", sl."onHand", 'Opening balance', 'migration'
+    FROM "StockLevel" sl;
+
+    UPDATE "Product" SET "inStock" = TRUE
+    WHERE id IN (SELECT "productId" FROM "StockLevel");
+
+    RAISE NOTICE 'Moved existing stock quantities into the factory warehouse';
+  ELSE
+    RAISE NOTICE 'Stock ledger already has movements';
+  END IF;
+END $$;
+
+-- Migration: Product lifecycle status
+-- Date: 2026
+-- Description: Marks products active, not recommended for new designs, last time buy or
+-- discontinued, with effective dates and a recommended replacement
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'Product' 
+    AND column_name = 'lifecycleStatus'
+  ) THEN
+    ALTER TABLE "Product" 
+    ADD COLUMN "lifecycleStatus" TEXT NOT NULL DEFAULT 'active' CHECK ("lifecycleStatus" IN ('active', 'nrnd', 'last_time_buy', 'discontinued')),
+    ADD COLUMN "lifecycleEffectiveDate" DATE,
+    ADD COLUMN "lastTimeBuyDate" DATE,
+    ADD COLUMN "replacementProductId" UUID REFERENCES "Product"(id) ON DELETE SET NULL;
+    
+    RAISE NOTICE 'Added lifecycle columns to Product table';
+  ELSE
+    RAISE NOTICE 'lifecycleStatus column already exists in Product table';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_product_replacement ON "Product"("replacementProductId") WHERE "replacementProductId" IS NOT NULL;
+
+-- Migration: Cordset configurator
+-- Date: 2026
+-- Description: Configured cordset lines on RFQs keep their part number and full spec
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'OrderItem' 
+    AND column_name = 'configuration'
+  ) THEN
+    ALTER TABLE "OrderItem" 
+    ADD COLUMN configuration JSONB;
+    
+    RAISE NOTICE 'Added configuration column to OrderItem table';
+  ELSE
+    RAISE NOTICE 'configuration column already exists in OrderItem table';
+  END IF;
+END $$;
+
+-- Starter options and the X-coding and drag-chain rules; admins maintain them afterwards
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM "CordsetOption") THEN
+    INSERT INTO "CordsetOption" ("group", code, label, price, "pricePerMeter", "lengthMeters", "sortOrder") VALUES
+      ('connector', 'M12FS', 'M12 female, straight', 180, 0, NULL, 0),
+      ('connector', 'M12FA', 'M12 female, angled', 210, 0, NULL, 1),
+      ('connector', 'M12MS', 'M12 male, straight', 180, 0, NULL, 2),
+      ('connector', 'M12MA', 'M12 male, angled', 210, 0, NULL, 3),
+      ('connector', 'M8FS', 'M8 female, straight', 150, 0, NULL, 4),
+      ('connector', 'M8MS', 'M8 male, straight', 150, 0, NULL, 5),
+      ('connector', 'OE', 'Open end (flying leads)', 0, 0, NULL, 6),
+      ('coding', 'A', 'A-coded', 0, 0, NULL, 0),
+      ('coding', 'B', 'B-coded', 0, 0, NULL, 1),
+      ('coding', 'D', 'D-coded', 40, 0, NULL, 2),
+      ('coding', 'X', 'X-coded', 120, 0, NULL, 3),
+      ('pins', '3', '3 pins', 0, 0, NULL, 0),
+      ('pins', '4', '4 pins', 0, 0, NULL, 1),
+      ('pins', '5', '5 pins', 10, 0, NULL, 2),
+      ('pins', '8', '8 pins', 40, 0, NULL, 3),
+      ('cableType', 'STD', 'Standard', 0, 0, NULL, 0),
+      ('cableType', 'DC', 'Drag chain', 60, 25, NULL, 1),
+      ('mantle', 'PUR', 'PUR', 0, 45, NULL, 0),
+      ('mantle', 'PVC', 'PVC', 0, 30, NULL, 1),
+      ('shielding', 'U', 'Unshielded', 0, 0, NULL, 0),
+      ('shielding', 'S', 'Shielded', 30, 12, NULL, 1),
+      ('length', '1M', '1 m', 0, 0, 1, 0),
+      ('length', '2M', '2 m', 0, 0, 2, 1),
+      ('length', '5M', '5 m', 0, 0, 5, 2),
+      ('length', '10M', '10 m', 0, 0, 10, 3),
+      ('length', '15M', '15 m', 0, 0, 15, 4);
+
+    INSERT INTO "CordsetRule" ("optionId", type, "targetOptionId", message)
+    SELECT o.id, r.type, t.id, r.message
+    FROM (VALUES
+      ('coding', 'X', 'requires', 'pins', '8', 'X-coding requires 8 pins'),
+      ('cableType', 'DC', 'excludes', 'mantle', 'PVC', 'Drag chain cables are not available with a PVC mantle')
+    ) AS r(option_group, option_code, type, target_group, target_code, message)
+    JOIN "CordsetOption" o ON o."group" = r.option_group AND o.code = r.option_code
+    JOIN "CordsetOption" t ON t."group" = r.target_group AND t.code = r.target_code;
+
+    RAISE NOTICE 'Added starter cordset configurator options';
+  ELSE
+    RAISE NOTICE 'Cordset configurator options already exist';
+  END IF;
+END $$;
+
+-- Migration: Order status workflow
+-- Date: 2026
+-- Description: Restricts Order.status to the workflow states, starts the status history of
+-- existing orders (creation, then the current status if it moved on) and keeps
+-- "OrderStatusHistory" append-only. Rows still go when their order is deleted.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'Order_status_check'
+  ) THEN
+    ALTER TABLE "Order"
+    ADD CONSTRAINT "Order_status_check" CHECK (status IN (
+      'pending', 'under_review', 'quoted', 'approved', 'po_received',
+      'in_production', 'dispatched', 'closed', 'rejected', 'cancelled'
+    ));
+
+    RAISE NOTICE 'Added status check to Order table';
+  ELSE
+    RAISE NOTICE 'Order status check already exists';
+  END IF;
+
+  INSERT INTO "OrderStatusHistory" ("orderId", "fromStatus", "toStatus", comment, "createdAt")
+  SELECT o.id, NULL, 'pending', NULL, o."createdAt"
+  FROM "Order" o
+  WHERE NOT EXISTS (SELECT 1 FROM "OrderStatusHistory" h WHERE h."orderId" = o.id)
+  UNION ALL
+  SELECT o.id, 'pending', o.status, 'Recorded when status history was introduced', o."updatedAt"
+  FROM "Order" o
+  WHERE o.status <> 'pending'
+    AND NOT EXISTS (SELECT 1 FROM "OrderStatusHistory" h WHERE h."orderId" = o.id);
+END $$;
+
+CREATE OR REPLACE FUNCTION order_status_history_append_only() RETURNS TRIGGER AS $$
+BEGIN
+  -- Cascaded deletes run inside the foreign key's own trigger
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'OrderStatusHistory is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS order_status_history_append_only ON "OrderStatusHistory";
+CREATE TRIGGER order_status_history_append_only
+  BEFORE UPDATE OR DELETE ON "OrderStatusHistory"
+  FOR EACH ROW EXECUTE FUNCTION order_status_history_append_only();
+
+-- Migration: Order and inquiry messages
+-- Date: 2026
+-- Description: Inquiry notes become the first internal message of their inquiry's thread
+DO $$
+BEGIN
+  INSERT INTO "Message" ("inquiryId", "authorType", "authorName", internal, body, "createdAt")
+  SELECT i.id, 'admin', 'Earlier notes', TRUE, i.notes, i."updatedAt"
+  FROM "Inquiry" i
+  WHERE NULLIF(TRIM(i.notes), '') IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM "Message" m WHERE m."inquiryId" = i.id);
+END $$;
+
+-- Migration: Order and inquiry references
+-- Date: 2026
+-- Description: Human-readable references (RFQ-2026-000123, INQ-2026-000045) numbered per
+-- Indian financial year (April to March, named after the year it starts in) and assigned by a
+-- trigger on insert. Existing rows are numbered in order of creation. Numbers of deleted rows
+-- are not reused. The prefixes must match lib/references.ts
+CREATE OR REPLACE FUNCTION reference_financial_year(at TIMESTAMPTZ) RETURNS INTEGER AS $$
+  SELECT EXTRACT(YEAR FROM (at AT TIME ZONE 'Asia/Kolkata') - INTERVAL '3 months')::INTEGER
+$$ LANGUAGE SQL STABLE;
+
+-- Zero-padded to at least six digits; larger numbers keep all their digits
+CREATE OR REPLACE FUNCTION format_reference_number(n BIGINT) RETURNS TEXT AS $$
+  SELECT CASE WHEN length(n::TEXT) < 6 THEN LPAD(n::TEXT, 6, '0') ELSE n::TEXT END
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Takes the next number from the counter row, which stays locked until the caller commits
+CREATE OR REPLACE FUNCTION next_reference(reference_prefix TEXT, at TIMESTAMPTZ) RETURNS TEXT AS $$
+DECLARE
+  financial_year INTEGER := reference_financial_year(at);
+  next_number INTEGER;
+BEGIN
+  INSERT INTO "ReferenceCounter" AS c (prefix, "financialYear", "lastNumber")
+  VALUES (reference_prefix, financial_year, 1)
+  ON CONFLICT (prefix, "financialYear") DO UPDATE SET "lastNumber" = c."lastNumber" + 1
+  RETURNING c."lastNumber" INTO next_number;
+
+  RETURN reference_prefix || '-' || financial_year || '-' || format_reference_number(next_number);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION assign_reference() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.reference IS NULL THEN
+    NEW.reference := next_reference(TG_ARGV[0], COALESCE(NEW."createdAt", NOW()));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS order_assign_reference ON "Order";
+CREATE TRIGGER order_assign_reference
+  BEFORE INSERT ON "Order"
+  FOR EACH ROW EXECUTE FUNCTION assign_reference('RFQ');
+
+DROP TRIGGER IF EXISTS inquiry_assign_reference ON "Inquiry";
+CREATE TRIGGER inquiry_assign_reference
+  BEFORE INSERT ON "Inquiry"
+  FOR EACH ROW EXECUTE FUNCTION assign_reference('INQ');
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'Order'
+    AND column_name = 'reference'
+  ) THEN
+    ALTER TABLE "Order" ADD COLUMN reference TEXT UNIQUE;
+    RAISE NOTICE 'Added reference column to Order table';
+  ELSE
+    RAISE NOTICE 'reference column already exists in Order table';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'Inquiry'
+    AND column_name = 'reference'
+  ) THEN
+    ALTER TABLE "Inquiry" ADD COLUMN reference TEXT UNIQUE;
+    RAISE NOTICE 'Added reference column to Inquiry table';
+  ELSE
+    RAISE NOTICE 'reference column already exists in Inquiry table';
+  END IF;
+
+  -- Rows without a reference continue after the last number already handed out in their year
+  WITH numbered AS (
+    SELECT id, reference_financial_year("createdAt") AS year,
+           ROW_NUMBER() OVER (PARTITION BY reference_financial_year("createdAt") ORDER BY "createdAt", id) AS position
+    FROM "Order"
+    WHERE reference IS NULL
+  )
+  UPDATE "Order" o
+  SET reference = 'RFQ-' || n.year || '-' || format_reference_number(COALESCE(c."lastNumber", 0) + n.position)
+  FROM numbered n
+  LEFT JOIN "ReferenceCounter" c ON c.prefix = 'RFQ' AND c."financialYear" = n.year
+  WHERE o.id = n.id;
+
+  WITH numbered AS (
+    SELECT id, reference_financial_year("createdAt") AS year,
+           ROW_NUMBER() OVER (PARTITION BY reference_financial_year("createdAt") ORDER BY "createdAt", id) AS position
+    FROM "Inquiry"
+    WHERE reference IS NULL
+  )
+  UPDATE "Inquiry" i
+  SET reference = 'INQ-' || n.year || '-' || format_reference_number(COALESCE(c."lastNumber", 0) + n.position)
+  FROM numbered n
+  LEFT JOIN "ReferenceCounter" c ON c.prefix = 'INQ' AND c."financialYear" = n.year
+  WHERE i.id = n.id;
+
+  INSERT INTO "ReferenceCounter" AS c (prefix, "financialYear", "lastNumber")
+  SELECT split_part(r.reference, '-', 1), split_part(r.reference, '-', 2)::INTEGER, MAX(split_part(r.reference, '-', 3)::INTEGER)
+  FROM (
+    SELECT reference FROM "Order"
+    UNION ALL
+    SELECT reference FROM "Inquiry"
+  ) r
+  GROUP BY 1, 2
+  ON CONFLICT (prefix, "financialYear") DO UPDATE SET "lastNumber" = GREATEST(c."lastNumber", EXCLUDED."lastNumber");
+
+  ALTER TABLE "Order" ALTER COLUMN reference SET NOT NULL;
+  ALTER TABLE "Inquiry" ALTER COLUMN reference SET NOT NULL;
+END $$;
+
+-- Migration: Order and inquiry owners
+-- Date: 2026
+-- Description: Adds "assignedTo" (admin username) to orders and inquiries. Existing rows stay
+-- unassigned; "AssignmentHistory" is kept append-only like "OrderStatusHistory"
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'Order'
+    AND column_name = 'assignedTo'
+  ) THEN
+    ALTER TABLE "Order"
+    ADD COLUMN "assignedTo" TEXT REFERENCES "Admin"(username) ON UPDATE CASCADE ON DELETE SET NULL;
+    RAISE NOTICE 'Added assignedTo column to Order table';
+  ELSE
+    RAISE NOTICE 'assignedTo column already exists in Order table';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'Inquiry'
+    AND column_name = 'assignedTo'
+  ) THEN
+    ALTER TABLE "Inquiry"
+    ADD COLUMN "assignedTo" TEXT REFERENCES "Admin"(username) ON UPDATE CASCADE ON DELETE SET NULL;
+    RAISE NOTICE 'Added assignedTo column to Inquiry table';
+  ELSE
+    RAISE NOTICE 'assignedTo column already exists in Inquiry table';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_order_assigned_to ON "Order"("assignedTo", "createdAt" DESC);
+CREATE INDEX IF NOT EXISTS idx_inquiry_assigned_to ON "Inquiry"("assignedTo", "createdAt" DESC);
+
+CREATE OR REPLACE FUNCTION assignment_history_append_only() RETURNS TRIGGER AS $$
+BEGIN
+  -- Cascaded deletes run inside the foreign key's own trigger
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'AssignmentHistory is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assignment_history_append_only ON "AssignmentHistory";
+CREATE TRIGGER assignment_history_append_only
+  BEFORE UPDATE OR DELETE ON "AssignmentHistory"
+  FOR EACH ROW EXECUTE FUNCTION assignment_history_append_only();
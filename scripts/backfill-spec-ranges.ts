@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+/**
+ * Backfill script for the numeric spec range columns on Product
+ * (voltageMin/voltageMax, currentMin/currentMax, ...). Re-parses every product's
+ * spec text, so it is idempotent and can be re-run after changing lib/spec-ranges.ts
+ */
+
+import 'dotenv/config'
+import { Pool } from 'pg'
+import { refreshProductSpecRanges } from '../lib/spec-ranges'
+
+const DATABASE_URL = process.env.DATABASE_URL
+const BATCH_SIZE = 500
+
+if (!DATABASE_URL) {
+  console.error('❌ DATABASE_URL is required')
+  process.exit(1)
+}
+
+const pool = new Pool({
+  connectionString: DATABASE_URL,
+})
+
+async function runBackfill() {
+  const client = await pool.connect()
+
+  try {
+    console.log('🔄 Backfilling product spec ranges...')
+
+    let lastId: string | null = null
+    let processed = 0
+
+    for (;;) {
+      const batch: { rows: Array<{ id: string }> } = await client.query(
+        `SELECT id FROM "Product" WHERE ($1::uuid IS NULL OR id > $1::uuid) ORDER BY id LIMIT $2`,
+        [lastId, BATCH_SIZE],
+      )
+      if (batch.rows.length === 0) break
+
+      const ids = batch.rows.map((row) => row.id)
+      await client.query('BEGIN')
+      try {
+        await refreshProductSpecRanges(client, ids)
+        await client.query('COMMIT')
+      } catch (error) {
+        await client.query('ROLLBACK')
+        throw error
+      }
+
+      processed += ids.length
+      lastId = ids[ids.length - 1]
+      console.log(`   ${processed} products processed`)
+    }
+
+    console.log(`✅ Spec ranges updated for ${processed} products`)
+  } catch (error: any) {
+    console.error('❌ Backfill failed:', error.message)
+    throw error
+  } finally {
+    client.release()
+    await pool.end()
+  }
+}
+
+runBackfill()
+  .then(() => {
+    console.log('✅ Backfill completed successfully')
+    process.exit(0)
+  })
+  .catch((error) => {
+    console.error('❌ Backfill failed:', error)
+    process.exit(1)
+  })
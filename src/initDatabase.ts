@@ -278,18 +278,44 @@ async function createTables(): Promise<void> {
   const schemaSQL = readFileSync(schemaPath, 'utf-8')
   
   const requiredTables = [
+    'CustomerGroup',
     'User',
     'Admin',
     'Category',
+    'CategoryAttribute',
+    'ProductFamily',
     'Product',
+    'ProductPriceTier',
+    'PriceList',
+    'PriceListItem',
+    'ReferenceCounter',
     'Order',
     'OrderItem',
+    'OrderStatusHistory',
+    'Quote',
+    'QuoteItem',
+    'RfqBasket',
+    'RfqBasketItem',
+    'Warehouse',
+    'StockLevel',
+    'StockMovement',
+    'ProductSubscription',
+    'ProductRelation',
+    'CordsetOption',
+    'CordsetRule',
+    'CrossReference',
     'Inquiry',
+    'Message',
+    'MessageAttachment',
+    'MessageRead',
+    'AssignmentRule',
+    'AssignmentHistory',
     'ContactInfo',
     'Blog',
     'Career',
     'Resource',
     'PasswordResetToken',
+    'EmailOutbox',
     'HeroSlide',
   ]
   
@@ -1,20 +1,38 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { RFQItem } from '@/types'
+import { RFQItem, RfqBasket } from '@/types'
+import { LOCAL_RFQ_BASKET_TTL_DAYS } from '@/lib/rfq-basket-validation'
 
 interface RFQStore {
   items: RFQItem[]
+  // Server basket the items belong to while a customer is logged in (see RFQBasketSync)
+  basketId: string | null
+  basketName: string | null
+  updatedAt: number | null
+  // Local changes not yet saved to the server basket
+  unsynced: boolean
   addItem: (item: RFQItem) => void
   removeItem: (productId: string) => void
   updateQuantity: (productId: string, quantity: number) => void
   clearItems: () => void
   getTotalItems: () => number
+  setBasket: (basket: RfqBasket) => void
+  markSynced: () => void
+  detachBasket: () => void
 }
 
+const LOCAL_TTL_MS = LOCAL_RFQ_BASKET_TTL_DAYS * 24 * 60 * 60 * 1000
+
+const changed = () => ({ updatedAt: Date.now(), unsynced: true })
+
 export const useRFQStore = create<RFQStore>()(
   persist(
     (set, get) => ({
       items: [],
+      basketId: null,
+      basketName: null,
+      updatedAt: null,
+      unsynced: false,
       addItem: (item) => {
         const existingItem = get().items.find(i => i.productId === item.productId)
         if (existingItem) {
@@ -23,15 +41,17 @@ export const useRFQStore = create<RFQStore>()(
               i.productId === item.productId
                 ? { ...i, quantity: i.quantity + item.quantity }
                 : i
-            )
+            ),
+            ...changed(),
           }))
         } else {
-          set((state) => ({ items: [...state.items, item] }))
+          set((state) => ({ items: [...state.items, item], ...changed() }))
         }
       },
       removeItem: (productId) => {
         set((state) => ({
-          items: state.items.filter(i => i.productId !== productId)
+          items: state.items.filter(i => i.productId !== productId),
+          ...changed(),
         }))
       },
       updateQuantity: (productId, quantity) => {
@@ -41,21 +61,55 @@ export const useRFQStore = create<RFQStore>()(
           set((state) => ({
             items: state.items.map(i =>
               i.productId === productId ? { ...i, quantity } : i
-            )
+            ),
+            ...changed(),
           }))
         }
       },
       clearItems: () => {
-        set({ items: [] })
+        set({ items: [], ...changed() })
       },
       getTotalItems: () => {
         return get().items.reduce((sum, item) => sum + item.quantity, 0)
-      }
+      },
+      // Replace the local basket with a server basket (after login or switching baskets)
+      setBasket: (basket) => {
+        set({
+          items: basket.items ?? [],
+          basketId: basket.id,
+          basketName: basket.name,
+          updatedAt: Date.now(),
+          unsynced: false,
+        })
+      },
+      markSynced: () => {
+        set({ unsynced: false })
+      },
+      // On logout: the basket stays on the server, this device forgets it
+      detachBasket: () => {
+        set({ items: [], basketId: null, basketName: null, updatedAt: null, unsynced: false })
+      },
     }),
     {
       name: 'rfq-storage',
-      // Expire after 7 days
-      partialize: (state) => ({ items: state.items }),
+      partialize: (state) => ({
+        items: state.items,
+        basketId: state.basketId,
+        basketName: state.basketName,
+        updatedAt: state.updatedAt,
+        unsynced: state.unsynced,
+      }),
+      // A basket left untouched on this device for a week is dropped when the page loads;
+      // a logged-in customer gets theirs back from the server
+      merge: (persisted, current) => {
+        const stored = persisted as Partial<RFQStore> | undefined
+        if (!stored) return current
+        if (stored.updatedAt && Date.now() - stored.updatedAt > LOCAL_TTL_MS) {
+          return current
+        }
+        // Baskets saved before updatedAt was tracked start their week now
+        return { ...current, ...stored, updatedAt: stored.updatedAt ?? Date.now() }
+      },
     }
   )
 )
@@ -3,6 +3,8 @@ export type ConnectorCoding = 'A' | 'B' | 'D' | 'X'
 export type IPRating = 'IP67' | 'IP68' | 'IP20'
 export type PinCount = 3 | 4 | 5 | 8 | 12
 export type ConnectorGender = 'Male' | 'Female'
+// nrnd: not recommended for new designs
+export type ProductLifecycleStatus = 'active' | 'nrnd' | 'last_time_buy' | 'discontinued'
 
 export interface Product {
   id: string
@@ -38,7 +40,7 @@ export interface Product {
   price?: number
   priceType?: 'per_unit' | 'per_pack' | 'per_bulk'
   inStock?: boolean
-  stockQuantity?: number
+  stockQuantity?: number // Available to promise across warehouses once stock is tracked per warehouse
   images: string[]
   documents?: Array<{
     url: string
@@ -47,10 +49,25 @@ export interface Product {
   }>
   datasheetUrl?: string
   drawingUrl?: string
+  // Values for the category's attribute template, keyed by attribute key
+  attributes?: Record<string, ProductAttributeValue>
+  familyId?: string | null
+  variantOptions?: Record<string, string> // This variant's value for each family axis
+  familyName?: string // Populated on product lists
+  variantCount?: number // Matching variants of the family, on lists grouped by family
+  priceTiers?: PriceTier[] // Quantity breaks visible to the current customer
+  listPrice?: number // Catalog price when `price` is a customer group's contract price
+  lifecycleStatus?: ProductLifecycleStatus
+  lifecycleEffectiveDate?: string | null // YYYY-MM-DD; the status applies from this date
+  lastTimeBuyDate?: string | null // YYYY-MM-DD; last day to order a last-time-buy product
+  replacementProductId?: string | null
+  replacement?: ProductReplacement | null // Populated on the product detail page
   createdAt: string
   updatedAt: string
 }
 
+export type ProductReplacement = Pick<Product, 'id' | 'sku' | 'mpn' | 'name'>
+
 export interface Category {
   id: string
   name: string
@@ -58,20 +75,122 @@ export interface Category {
   description: string
   image?: string
   parentId?: string
+  sortOrder?: number // Position among siblings, ascending
   parent?: Category // Populated parent category (optional)
   children?: Category[] // Populated child categories (optional)
 }
 
-export interface RFQItem {
+export interface CategoryTreeNode {
+  id: string
+  name: string
+  slug: string
+  description?: string | null
+  image?: string | null
+  parentId?: string | null
+  sortOrder: number
+  productCount: number // Products in this category and all of its descendants
+  children: CategoryTreeNode[]
+}
+
+export type CategoryBreadcrumb = Pick<CategoryTreeNode, 'id' | 'name' | 'slug'>
+
+export type CategoryAttributeType = 'text' | 'number' | 'boolean' | 'select'
+export type ProductAttributeValue = string | number | boolean
+
+export interface CategoryAttribute {
+  id: string
+  categoryId: string // Category that defines the attribute
+  key: string
+  label: string
+  dataType: CategoryAttributeType
+  unit?: string | null
+  allowedValues: string[] // Options for select attributes
+  required: boolean
+  filterable: boolean // Shown as a facet in the filter sidebar
+  comparable: boolean // Shown in the comparison drawer
+  sortOrder: number
+  inherited?: boolean // Defined on an ancestor category
+}
+
+export interface PriceTier {
+  id: string
+  productId: string
+  minQuantity: number
+  unitPrice: number // Per unit of the product's priceType
+  customerGroup?: string | null // Null applies to every customer
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CustomerGroup {
+  id: string
+  code: string // Referenced by PriceTier.customerGroup
+  name: string
+  description?: string | null
+  memberCount?: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PriceListItem {
   productId: string
   sku: string
+  name?: string
+  unitPrice: number
+}
+
+export interface PriceList {
+  id: string
+  name: string
+  customerGroupId: string
+  customerGroupName?: string
+  discountPercent: number
+  validFrom?: string | null // YYYY-MM-DD, inclusive
+  validTo?: string | null // YYYY-MM-DD, inclusive
+  active: boolean
+  items?: PriceListItem[]
+  itemCount?: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface VariantAxis {
+  key: string
+  label: string
+}
+
+export interface ProductFamily {
+  id: string
+  name: string
+  description?: string | null
+  images: string[]
+  categoryId?: string | null
+  axes: VariantAxis[]
+  variantCount?: number
+  createdAt: string
+  updatedAt: string
+}
+
+// Variant summary used by the variant selector on the product page
+export type ProductVariant = Pick<
+  Product,
+  'id' | 'sku' | 'mpn' | 'price' | 'priceType' | 'inStock' | 'stockQuantity'
+> & { variantOptions: Record<string, string> }
+
+export interface RFQItem {
+  productId: string // `cordset:<part number>` for configured cordsets, `bom:<part number>` for free-text lines
+  sku: string
   name: string
   quantity: number
   notes?: string
+  configuration?: CordsetConfiguration | null
+  // BOM line not matched to a catalog product, quoted from its part number and description
+  freeText?: boolean
 }
 
 export interface RFQ {
   id: string
+  reference: string // e.g. RFQ-2026-000123
   companyName: string
   contactName: string
   email: string
@@ -79,12 +198,298 @@ export interface RFQ {
   companyAddress?: string
   items: RFQItem[]
   notes?: string
-  status: 'pending' | 'quoted' | 'approved' | 'rejected'
+  status: OrderStatus
+  quoteRevision?: number | null // Latest quotation revision, if one has been issued
+  statusHistory?: OrderStatusHistoryEntry[] // Oldest first; only when fetching one order
+  assignedTo?: string | null // Owning admin's username; admin view only
   createdAt: string
   updatedAt: string
 }
 
-export interface FilterState {
+export type OrderStatus =
+  | 'pending'
+  | 'under_review'
+  | 'quoted'
+  | 'approved'
+  | 'po_received'
+  | 'in_production'
+  | 'dispatched'
+  | 'closed'
+  | 'rejected'
+  | 'cancelled'
+
+export interface OrderStatusHistoryEntry {
+  id: string
+  fromStatus: OrderStatus | null // null when the order was submitted
+  toStatus: OrderStatus
+  comment: string | null
+  changedBy?: string | null // Admin view only
+  createdAt: string
+}
+
+// Regional offices, as in ContactInfo's regional contacts
+export type Territory = 'bangalore' | 'kolkata' | 'gurgaon'
+
+export type AssignmentRuleType = 'category' | 'territory' | 'round_robin'
+
+// Makes an admin a candidate owner for new orders and inquiries; see lib/assignments.ts
+export interface AssignmentRule {
+  id: string
+  type: AssignmentRuleType
+  categoryId: string | null // category rules only
+  categoryName?: string | null
+  territory: Territory | null // territory rules only
+  adminUsername: string
+  active: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AssignmentHistoryEntry {
+  id: string
+  fromAdmin: string | null // null when it was unassigned
+  toAdmin: string | null // null when the owner was removed
+  reason: string | null
+  changedBy: string | null // null for automatic assignment
+  createdAt: string
+}
+
+export interface MessageAttachment {
+  id: string
+  filename: string
+  contentType: string
+  size: number
+  url: string
+}
+
+// A message on an order or inquiry thread; replies carry the id of the thread's first message
+export interface Message {
+  id: string
+  parentId: string | null
+  authorType: 'admin' | 'customer'
+  authorName: string | null // null for our team's messages in the customer view
+  internal: boolean
+  body: string
+  attachments: MessageAttachment[]
+  createdAt: string
+}
+
+// A logged-in customer's saved RFQ basket; items are only included when fetching one basket
+export interface RfqBasket {
+  id: string
+  name: string
+  active: boolean
+  itemCount: number
+  items?: RFQItem[]
+  expiresAt: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Admin view of a basket left with items and no recent changes
+export interface AbandonedRfqBasket extends RfqBasket {
+  totalQuantity: number
+  user: { id: string; name: string; email: string; company?: string | null }
+}
+
+export interface QuoteItem {
+  orderItemId: string | null
+  productId?: string | null
+  sku: string
+  name: string
+  quantity: number
+  unitPrice: number
+  priceType: 'per_unit' | 'per_pack' | 'per_bulk'
+  discountPercent: number
+  lineTotal: number
+  notes?: string | null
+}
+
+export interface Quote {
+  id?: string // Absent on a draft that has not been saved yet
+  orderId: string
+  revision: number
+  discountPercent: number
+  gstPercent: number
+  freight: number
+  leadTime?: string | null
+  validUntil?: string | null // YYYY-MM-DD
+  terms?: string | null
+  notes?: string | null
+  subtotal: number
+  discountAmount: number
+  taxableAmount: number
+  gstAmount: number
+  total: number
+  createdBy?: string | null
+  createdAt?: string
+  items: QuoteItem[]
+}
+
+export interface Warehouse {
+  id: string
+  code: string
+  name: string
+  city?: string | null
+  active: boolean
+  sortOrder: number
+}
+
+export interface StockLevel {
+  warehouseId: string
+  warehouseCode: string
+  warehouseName: string
+  onHand: number
+  reserved: number
+  available: number // Available to promise: onHand - reserved
+}
+
+export type StockMovementType = 'receipt' | 'adjustment' | 'reservation' | 'release' | 'dispatch'
+
+export interface StockMovement {
+  id: string
+  productId: string
+  warehouseId: string
+  warehouseName?: string
+  type: StockMovementType
+  quantity: number
+  onHandDelta: number
+  reservedDelta: number
+  orderId?: string | null
+  orderReference?: string | null
+  note?: string | null
+  createdBy?: string | null
+  createdAt: string
+}
+
+// Ordered quantity that could not be reserved when an order was approved
+export interface StockShortfall {
+  productId: string
+  sku: string
+  quantity: number
+}
+
+export type ProductSubscriptionType = 'back_in_stock' | 'price_drop'
+
+export interface ProductSubscription {
+  id: string
+  productId: string
+  type: ProductSubscriptionType
+  email: string
+  verified: boolean
+  product?: Pick<Product, 'sku' | 'name' | 'price' | 'priceType' | 'inStock' | 'stockQuantity'>
+  lastNotifiedAt?: string | null
+  createdAt: string
+}
+
+export type ProductRelationType = 'mating' | 'accessory' | 'compatible_cable' | 'alternative'
+
+// A relation as seen from one product; `product` is the other side
+export interface ProductRelation {
+  type: ProductRelationType
+  relatedProductId: string
+  sortOrder: number
+  product?: Pick<Product, 'id' | 'sku' | 'mpn' | 'name'>
+}
+
+export type CordsetOptionGroup = 'connector' | 'coding' | 'pins' | 'cableType' | 'mantle' | 'shielding' | 'length'
+
+// Configurator steps; both connector steps choose from the connector options
+export type CordsetStepKey =
+  | 'connectorA'
+  | 'connectorB'
+  | 'coding'
+  | 'pins'
+  | 'cableType'
+  | 'mantle'
+  | 'shielding'
+  | 'length'
+
+export interface CordsetOption {
+  id: string
+  group: CordsetOptionGroup
+  code: string
+  label: string
+  price: number
+  pricePerMeter: number
+  lengthMeters?: number | null
+  sortOrder: number
+  active: boolean
+}
+
+export interface CordsetRule {
+  id: string
+  optionId: string
+  type: 'requires' | 'excludes'
+  targetOptionId: string
+  message?: string | null
+}
+
+// A configured cordset as carried by an RFQ line and stored on its order item
+export interface CordsetConfiguration {
+  partNumber: string
+  selections: Record<CordsetStepKey, string>
+  spec: { label: string; value: string }[]
+  estimatedPrice: number
+}
+
+export type BomMatchSource = 'sku' | 'mpn' | 'crossReference'
+
+export interface BomLineProduct {
+  id: string
+  sku: string
+  mpn?: string | null
+  name: string
+}
+
+export interface BomSuggestion {
+  product: BomLineProduct
+  // Why it is suggested: a non-direct cross-reference or a similar part number
+  reason: 'crossReference' | 'similar'
+  equivalence?: CrossReferenceEquivalence
+}
+
+// A parsed BOM line and what it matched in the catalog
+export interface BomLineMatch {
+  line: number
+  partNumber: string
+  quantity: number
+  description?: string
+  manufacturer?: string
+  product: BomLineProduct | null
+  matchedBy: BomMatchSource | null
+  suggestions: BomSuggestion[]
+}
+
+export type CrossReferenceEquivalence = 'direct' | 'functional' | 'similar'
+
+export interface CrossReference {
+  id: string
+  manufacturer: string
+  partNumber: string
+  productId: string
+  equivalence: CrossReferenceEquivalence
+  notes?: string | null
+  product?: Pick<Product, 'id' | 'sku' | 'mpn' | 'name' | 'images' | 'lifecycleStatus' | 'lifecycleEffectiveDate'>
+  createdAt: string
+  updatedAt: string
+}
+
+// Specs parsed into numeric ranges for slider filters (see lib/spec-ranges.ts)
+export type SpecRangeKey =
+  | 'operatingVoltage'
+  | 'ratedCurrent'
+  | 'temperatureRange'
+  | 'cableLength'
+  | 'cableDiameter'
+  | 'bendingRadiusFixed'
+
+// Range filter bounds in canonical units, e.g. ratedCurrentMin=2&ratedCurrentMax=8
+export type SpecRangeFilters = {
+  [K in SpecRangeKey as `${K}Min` | `${K}Max`]?: number
+}
+
+export interface FilterState extends SpecRangeFilters {
   // All filter values are dynamic from database - no hardcoded enums
   connectorType?: string[] // Dynamic from Product.connectorType
   coding?: string[] // Dynamic from Product.coding
@@ -95,4 +500,5 @@ export interface FilterState {
   search?: string
   category?: string // Category slug (for backward compatibility)
   categoryId?: string | string[] // Category UUID(s) - supports single or multiple
+  attributes?: Record<string, string[]> // Category attribute values, from attr.<key> params
 }